@@ -1,8 +1,46 @@
 import * as admin from "firebase-admin";
 import cors from "cors";
 import express, { type NextFunction, type Request, type Response } from "express";
+import { randomUUID } from "node:crypto";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
 import { onRequest } from "firebase-functions/v2/https";
-import { defineSecret } from "firebase-functions/params";
+import { defineSecret, defineString } from "firebase-functions/params";
+import {
+  buildPlanExtractionRequest,
+  extractPlanTasksHeuristically,
+  formatScheduleFeedback,
+  mergePlanTasks,
+  parsePlanTask,
+  parsePlanTaskDrafts,
+} from "./shared/actionPlan";
+import type { PlanTask, PlanTaskDraft } from "./shared/actionPlan";
+import {
+  MAX_IMAGE_INPUTS,
+  MAX_IMAGE_INPUT_BYTES,
+  chunkText,
+  formatAttachmentContext,
+} from "./shared/attachments";
+import type { AttachmentDocument } from "./shared/attachments";
+import { parseJsonObject } from "./shared/json";
+import { buildMemoryExtractionRequest, extractMemoryHeuristically, parseMemoryExtraction } from "./shared/memory";
+import type { ExtractedMemory, MemoryTurn } from "./shared/memory";
+import { embedMockText, prepareMockText, splitMockStream } from "./shared/mockLlm";
+import {
+  THREAD_PASSAGE_LIMIT,
+  buildPassages,
+  formatPassageContext,
+  parseThreadPassage,
+  rankPassages,
+} from "./shared/retrieval";
+import type { PassageSource, ThreadPassage } from "./shared/retrieval";
+import {
+  THREAD_CONTEXT_TOKEN_BUDGET,
+  buildSummaryRequest,
+  estimateTokens,
+  formatThreadSummary,
+  parseSummaryResponse,
+} from "./shared/threadSummary";
+import type { ThreadSummary } from "./shared/threadSummary";
 
 if (!admin.apps.length) {
   admin.initializeApp();
@@ -12,12 +50,32 @@ const OPENAI_API_KEY = defineSecret("OPENAI_API_KEY");
 const ANTHROPIC_API_KEY = defineSecret("ANTHROPIC_API_KEY");
 const XAI_API_KEY = defineSecret("XAI_API_KEY");
 const GEMINI_API_KEY = defineSecret("GEMINI_API_KEY");
+// JSON object of `{ "<model prefix>": { "input": usdPer1M, "output": usdPer1M } }` merged over defaults.
+const LLM_PRICE_TABLE = defineString("LLM_PRICE_TABLE", { default: "{}" });
 
 const OPENAI_BASE = "https://api.openai.com/v1";
 const ANTHROPIC_BASE = "https://api.anthropic.com/v1";
 const XAI_BASE = "https://api.x.ai/v1";
 const GEMINI_BASE = "https://generativelanguage.googleapis.com/v1beta";
 const DISABLED_SECRET_VALUES = new Set(["disabled", "missing", "not-configured", "none"]);
+const FREE_REPORT_LIMIT = 3;
+const LLM_CALLS_PER_MINUTE = 90;
+
+// USD per 1M tokens, matched by longest model-name prefix.
+const DEFAULT_PRICE_TABLE: Record<string, ModelPrice> = {
+  "gpt-5.2": { input: 1.75, output: 14 },
+  "gpt-5": { input: 1.25, output: 10 },
+  "claude-3-7-sonnet": { input: 3, output: 15 },
+  "claude-sonnet": { input: 3, output: 15 },
+  "claude-opus": { input: 15, output: 75 },
+  "grok-4": { input: 3, output: 15 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-3-pro-image": { input: 2, output: 120 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-004": { input: 0, output: 0 },
+  mock: { input: 0, output: 0 },
+};
 
 const isConfiguredSecret = (value: string | undefined) => {
   if (!value) {
@@ -26,17 +84,65 @@ const isConfiguredSecret = (value: string | undefined) => {
   return !DISABLED_SECRET_VALUES.has(value.trim().toLowerCase());
 };
 
-type Provider = "openai" | "anthropic" | "xai" | "gemini";
+type Provider = "openai" | "anthropic" | "xai" | "gemini" | "mock";
+
+type LlmMessageRole = "system" | "user" | "assistant";
+
+type LlmMessage = {
+  role: LlmMessageRole;
+  content: string;
+  name?: string;
+};
+
+type ModelPrice = {
+  input: number;
+  output: number;
+};
+
+type TokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+};
+
+type MeteredUsage = TokenUsage & {
+  provider: Provider;
+  model: string;
+  costUsd: number;
+  priced: boolean;
+  // Set when a stream was cut off and the tokens are estimated from what was sent and streamed.
+  partial?: boolean;
+};
+
+// Caller-supplied attribution for the usage ledger. Never trusted for billing.
+type MeterContext = {
+  memberId?: string;
+  threadId?: string;
+  runId?: string;
+};
+
+type ProviderTextResult = {
+  text: string;
+  usage: TokenUsage;
+};
+
+// Base64 image attached to the final user turn.
+type InlineImage = {
+  mimeType: string;
+  data: string;
+};
 
 type LlmRequestBody = {
   provider?: Provider;
   model?: string;
   input?: string;
+  messages?: LlmMessage[];
+  images?: InlineImage[];
   instructions?: string;
   maxOutputTokens?: number;
   temperature?: number;
   baseUrl?: string;
   useWebSearch?: boolean;
+  meter?: MeterContext;
 };
 
 type GeminiReferenceImage = {
@@ -51,10 +157,26 @@ type GeminiImageBody = {
   aspectRatio?: string;
   imageSize?: "1K" | "2K" | "4K";
   useSearch?: boolean;
+  meter?: MeterContext;
+};
+
+type EmbeddingProvider = "openai" | "gemini" | "mock";
+
+type EmbeddingBody = {
+  provider?: EmbeddingProvider;
+  model?: string;
+  texts?: unknown;
+  meter?: MeterContext;
+};
+
+type EmbeddingResult = {
+  vectors: number[][];
+  usage: TokenUsage;
 };
 
 type OpenAIResponsesPayload = {
   output_text?: string;
+  usage?: { input_tokens?: number; output_tokens?: number };
   output?: Array<{
     content?: Array<{
       type?: string;
@@ -65,12 +187,37 @@ type OpenAIResponsesPayload = {
 
 type GenericTextResponse = {
   text: string;
+  usage: MeteredUsage;
+};
+
+type LlmStreamEvent =
+  | { type: "delta"; text: string }
+  | { type: "done"; text: string; usage: MeteredUsage }
+  | { type: "error"; error: string };
+
+type TextDeltaHandler = (delta: string) => void;
+
+type TextStreamer = (
+  body: LlmRequestBody,
+  onDelta: TextDeltaHandler,
+  signal?: AbortSignal,
+) => Promise<ProviderTextResult>;
+
+type TextRequester = (body: LlmRequestBody) => Promise<ProviderTextResult>;
+
+type UsageState = {
+  usedReports: number;
+  limit: number;
+  exhausted: boolean;
 };
 
+type QuotaErrorCode = "quota_exhausted" | "rate_limited";
+
 type GeminiImageResponse = {
   text: string;
   imageBase64: string;
   mimeType: string;
+  usage: MeteredUsage;
 };
 
 const app = express();
@@ -79,6 +226,109 @@ app.use(express.json({ limit: "25mb" }));
 
 const trimSlash = (value: string) => value.replace(/\/+$/, "");
 
+type ConversationTurn = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+type Conversation = {
+  system: string;
+  turns: ConversationTurn[];
+  images: InlineImage[];
+};
+
+const IMAGE_INPUT_MIME_TYPES = ["image/png", "image/jpeg", "image/webp", "image/gif"];
+
+const readImageInputs = (raw: unknown): InlineImage[] =>
+  (Array.isArray(raw) ? raw : [])
+    .filter(
+      (item): item is InlineImage =>
+        !!item &&
+        typeof item === "object" &&
+        IMAGE_INPUT_MIME_TYPES.includes(String((item as InlineImage).mimeType)) &&
+        typeof (item as InlineImage).data === "string" &&
+        (item as InlineImage).data.length > 0,
+    )
+    .slice(0, MAX_IMAGE_INPUTS);
+
+const toDataUrl = (image: InlineImage) => `data:${image.mimeType};base64,${image.data}`;
+
+// Images ride on the last user turn, which is `input` whenever the caller sent one.
+const lastUserTurnIndex = (turns: ConversationTurn[]) =>
+  turns.map((turn) => turn.role).lastIndexOf("user");
+
+const isLlmMessage = (value: unknown): value is LlmMessage => {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const item = value as Record<string, unknown>;
+  return (
+    (item.role === "system" || item.role === "user" || item.role === "assistant") &&
+    typeof item.content === "string"
+  );
+};
+
+const hasConversationInput = (body: LlmRequestBody) =>
+  (typeof body.input === "string" && body.input.trim().length > 0) ||
+  (Array.isArray(body.messages) &&
+    body.messages.some(
+      (message) =>
+        isLlmMessage(message) && message.role !== "system" && !!message.content.trim(),
+    ));
+
+// Speaker names are folded into the text so every provider sees who said what.
+const withSpeaker = (message: LlmMessage) => {
+  const name = message.name?.trim();
+  return name ? `[${name}] ${message.content}` : message.content;
+};
+
+/**
+ * Normalizes `instructions` + `messages` + `input` into one system prompt and an
+ * ordered list of user/assistant turns. `input`, when present, is the final user turn.
+ * `images` are validated here so every provider sees the same list.
+ */
+const resolveConversation = (body: LlmRequestBody): Conversation => {
+  const messages = (Array.isArray(body.messages) ? body.messages : []).filter(isLlmMessage);
+  const system = [
+    body.instructions?.trim() || "",
+    ...messages.filter((message) => message.role === "system").map((message) => message.content.trim()),
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  const turns: ConversationTurn[] = messages
+    .filter((message) => message.role !== "system" && message.content.trim())
+    .map((message) => ({
+      role: message.role === "assistant" ? "assistant" : "user",
+      content: withSpeaker(message),
+    }));
+
+  if (typeof body.input === "string" && body.input.trim()) {
+    turns.push({ role: "user", content: body.input });
+  }
+
+  return { system, turns, images: readImageInputs(body.images) };
+};
+
+// Anthropic and Gemini expect strictly alternating turns that open with the user.
+const toAlternatingTurns = (turns: ConversationTurn[]) => {
+  const merged: ConversationTurn[] = [];
+  for (const turn of turns) {
+    const last = merged[merged.length - 1];
+    if (last && last.role === turn.role) {
+      last.content = `${last.content}\n\n${turn.content}`;
+    } else {
+      merged.push({ ...turn });
+    }
+  }
+
+  if (merged[0]?.role === "assistant") {
+    merged.unshift({ role: "user", content: "(대화 기록)" });
+  }
+
+  return merged;
+};
+
 const readOpenAIText = (payload: OpenAIResponsesPayload) => {
   if (typeof payload.output_text === "string" && payload.output_text.trim()) {
     return payload.output_text.trim();
@@ -108,6 +358,58 @@ const readResponseText = async (response: globalThis.Response) => {
   }
 };
 
+const readServerSentEvents = async (
+  response: globalThis.Response,
+  onData: (data: string) => void,
+) => {
+  if (!response.body) {
+    throw new Error("Streaming response did not include a body.");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flushEvent = (rawEvent: string) => {
+    const data = rawEvent
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).replace(/^ /, ""))
+      .join("\n");
+    if (data) {
+      onData(data);
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.search(/\r?\n\r?\n/);
+    while (boundary !== -1) {
+      flushEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, "");
+      boundary = buffer.search(/\r?\n\r?\n/);
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) {
+    flushEvent(buffer);
+  }
+};
+
+const parseStreamChunk = (data: string) => {
+  try {
+    return JSON.parse(data) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+};
+
 const getAuthToken = (request: Request) => {
   const header = request.headers.authorization;
   if (!header || !header.startsWith("Bearer ")) {
@@ -128,7 +430,8 @@ const requireFirebaseAuth = async (
       return;
     }
 
-    await admin.auth().verifyIdToken(token);
+    const decoded = await admin.auth().verifyIdToken(token);
+    response.locals.uid = decoded.uid;
     next();
   } catch (error) {
     const message = error instanceof Error ? error.message : "Invalid Firebase ID token";
@@ -136,40 +439,291 @@ const requireFirebaseAuth = async (
   }
 };
 
-const requestOpenAIText = async (body: LlmRequestBody): Promise<string> => {
+type ProviderRequest = {
+  endpoint: string;
+  headers: Record<string, string>;
+  payload: Record<string, unknown>;
+};
+
+const usageDoc = (uid: string) => admin.firestore().doc(`users/${uid}/meta/usage`);
+
+const readUsageState = (data: admin.firestore.DocumentData | undefined): UsageState => {
+  const usedReports = Math.max(0, Number(data?.usedReports || 0));
+  const limit = Math.max(1, Number(data?.limit || FREE_REPORT_LIMIT));
+  return {
+    usedReports,
+    limit,
+    exhausted: usedReports >= limit,
+  };
+};
+
+const sendQuotaError = (
+  response: Response,
+  code: QuotaErrorCode,
+  usage: UsageState,
+  retryAfterSeconds = 0,
+) => {
+  if (code === "rate_limited") {
+    response.setHeader("Retry-After", String(retryAfterSeconds));
+    response.status(429).json({
+      error: `Too many LLM requests. Retry in ${retryAfterSeconds}s.`,
+      code,
+      usage,
+      retryAfterSeconds,
+    });
+    return;
+  }
+
+  response.status(402).json({
+    error: `Free report quota exhausted (${usage.usedReports}/${usage.limit}).`,
+    code,
+    usage,
+  });
+};
+
+const reportChargePatch = (usage: UsageState, runId?: string) => ({
+  usedReports: usage.usedReports + 1,
+  limit: usage.limit,
+  ...(runId ? { lastReportRunId: runId } : {}),
+  lastUsedAt: admin.firestore.FieldValue.serverTimestamp(),
+  updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+});
+
+// Counts one model call against the per-uid minute window; retryAfterSeconds is 0 when it may go ahead.
+const consumeCallRate = (uid: string) =>
+  admin.firestore().runTransaction(async (transaction) => {
+    const ref = usageDoc(uid);
+    const data = (await transaction.get(ref)).data();
+    const usage = readUsageState(data);
+    const now = new Date();
+    const callWindow = now.toISOString().slice(0, 16);
+    const callsInWindow =
+      data?.callWindow === callWindow ? Math.max(0, Number(data?.callsInWindow || 0)) : 0;
+
+    if (callsInWindow >= LLM_CALLS_PER_MINUTE) {
+      return { usage, retryAfterSeconds: 60 - now.getUTCSeconds() };
+    }
+
+    transaction.set(ref, { callWindow, callsInWindow: callsInWindow + 1 }, { merge: true });
+    return { usage, retryAfterSeconds: 0 };
+  });
+
+// Caps per-uid call bursts on every model route. The free report quota is charged separately, when a
+// report starts (POST /usage/report), so chat and embeddings keep working after the last report.
+const requireCallRate = async (
+  request: Request,
+  response: Response,
+  next: NextFunction,
+) => {
+  const uid = String(response.locals.uid || "");
+  if (!uid) {
+    response.status(401).json({ error: "Missing Firebase ID token" });
+    return;
+  }
+
+  let verdict: { usage: UsageState; retryAfterSeconds: number };
+  try {
+    verdict = await consumeCallRate(uid);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Usage check failed";
+    response.status(500).json({ error: message });
+    return;
+  }
+
+  if (verdict.retryAfterSeconds > 0) {
+    sendQuotaError(response, "rate_limited", verdict.usage, verdict.retryAfterSeconds);
+    return;
+  }
+
+  next();
+};
+
+const DEFAULT_TEXT_MODEL: Record<Provider, string> = {
+  openai: "gpt-5.2",
+  anthropic: "claude-3-7-sonnet-latest",
+  xai: "grok-4",
+  gemini: "gemini-2.5-pro",
+  mock: "mock-scripted",
+};
+
+const DEFAULT_EMBEDDING_MODEL: Record<EmbeddingProvider, string> = {
+  openai: "text-embedding-3-small",
+  gemini: "text-embedding-004",
+  mock: "mock-embedding",
+};
+
+const MAX_EMBEDDING_TEXTS = 64;
+const MAX_EMBEDDING_TEXT_CHARS = 8000;
+
+const readPriceTable = (): Record<string, ModelPrice> => {
+  const table = { ...DEFAULT_PRICE_TABLE };
+  try {
+    const parsed = JSON.parse(LLM_PRICE_TABLE.value() || "{}") as Record<string, Partial<ModelPrice>>;
+    for (const [prefix, price] of Object.entries(parsed)) {
+      if (typeof price?.input === "number" && typeof price?.output === "number") {
+        table[prefix] = { input: price.input, output: price.output };
+      }
+    }
+  } catch {
+    // A malformed override keeps the defaults rather than failing the request.
+  }
+  return table;
+};
+
+const resolveModelPrice = (model: string): ModelPrice | null => {
+  const table = readPriceTable();
+  const prefix = Object.keys(table)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : null;
+};
+
+const meterUsage = (provider: Provider, model: string, usage: TokenUsage): MeteredUsage => {
+  const price = resolveModelPrice(model);
+  const costUsd = price
+    ? (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000
+    : 0;
+  return {
+    provider,
+    model,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    costUsd: Number(costUsd.toFixed(6)),
+    priced: Boolean(price),
+  };
+};
+
+const readMeterContext = (meter: MeterContext | undefined): MeterContext => {
+  const context: MeterContext = {};
+  for (const key of ["memberId", "threadId", "runId"] as const) {
+    const value = meter?.[key];
+    if (typeof value === "string" && value.trim()) {
+      context[key] = value.trim().slice(0, 120);
+    }
+  }
+  return context;
+};
+
+// Running totals per thread, per TAN within a thread and per workflow run, so the usage dashboard
+// never has to sum the ledger. Ids come from caller attribution, so "/" is replaced to keep them one
+// path segment.
+const usageTotalTargets = (context: MeterContext) => {
+  const threadId = context.threadId || "";
+  const memberId = context.memberId || "";
+  const docId = (...parts: string[]) =>
+    parts.map((part) => part.replace(/\//g, "_") || "unattributed").join(":");
+  return [
+    { id: docId("thread", threadId), labels: { scope: "thread", threadId } },
+    { id: docId("member", threadId, memberId), labels: { scope: "member", threadId, memberId } },
+    ...(context.runId
+      ? [{ id: docId("run", context.runId), labels: { scope: "run", threadId, runId: context.runId } }]
+      : []),
+  ];
+};
+
+// Ledger writes are best-effort: a failed write must never cost the caller their answer. The entry
+// and the totals it adds to are written in one transaction so they never drift apart.
+const recordUsage = async (
+  uid: string,
+  kind: "text" | "stream" | "image" | "embedding",
+  usage: MeteredUsage,
+  meter: MeterContext | undefined,
+) => {
+  if (!uid) {
+    return;
+  }
+
+  const context = readMeterContext(meter);
+  const db = admin.firestore();
+  const { FieldValue } = admin.firestore;
+  try {
+    await db.runTransaction(async (transaction) => {
+      transaction.create(db.collection(`users/${uid}/usageLedger`).doc(), {
+        ...usage,
+        ...context,
+        kind,
+        createdAt: FieldValue.serverTimestamp(),
+      });
+      for (const target of usageTotalTargets(context)) {
+        transaction.set(
+          db.doc(`users/${uid}/usageTotals/${target.id}`),
+          {
+            ...target.labels,
+            calls: FieldValue.increment(1),
+            inputTokens: FieldValue.increment(usage.inputTokens),
+            outputTokens: FieldValue.increment(usage.outputTokens),
+            costUsd: FieldValue.increment(usage.costUsd),
+            unpricedCalls: FieldValue.increment(usage.priced ? 0 : 1),
+            updatedAt: FieldValue.serverTimestamp(),
+          },
+          { merge: true },
+        );
+      }
+    });
+  } catch (error) {
+    console.error("Failed to record usage", error);
+  }
+};
+
+const buildOpenAIRequest = (body: LlmRequestBody): ProviderRequest => {
   const apiKey = OPENAI_API_KEY.value();
   if (!isConfiguredSecret(apiKey)) {
     throw new Error("OPENAI_API_KEY is not configured.");
   }
 
-  const endpoint = `${trimSlash(body.baseUrl || OPENAI_BASE)}/responses`;
+  const { system, turns, images } = resolveConversation(body);
+  const imageTurn = images.length > 0 ? lastUserTurnIndex(turns) : -1;
   const payload: Record<string, unknown> = {
-    model: body.model || "gpt-5.2",
-    input: body.input || "",
+    model: body.model || DEFAULT_TEXT_MODEL.openai,
+    input:
+      imageTurn < 0 && turns.length === 1 && turns[0].role === "user"
+        ? turns[0].content
+        : turns.map((turn, index) => ({
+            role: turn.role,
+            content:
+              index === imageTurn
+                ? [
+                    { type: "input_text", text: turn.content },
+                    ...images.map((image) => ({ type: "input_image", image_url: toDataUrl(image) })),
+                  ]
+                : turn.content,
+          })),
   };
 
-  if (body.instructions) {
-    payload.instructions = body.instructions;
+  if (system) {
+    payload.instructions = system;
   }
 
   if (typeof body.maxOutputTokens === "number") {
     payload.max_output_tokens = body.maxOutputTokens;
   }
 
+  if (body.useWebSearch) {
+    payload.tools = [{ type: "web_search_preview" }];
+  }
+
+  return {
+    endpoint: `${trimSlash(body.baseUrl || OPENAI_BASE)}/responses`,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`,
+    },
+    payload,
+  };
+};
+
+const postOpenAI = async (
+  { endpoint, headers, payload }: ProviderRequest,
+  signal?: AbortSignal,
+) => {
   const callOpenAI = async (requestPayload: Record<string, unknown>) =>
     fetch(endpoint, {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
+      headers,
       body: JSON.stringify(requestPayload),
+      signal,
     });
 
-  if (body.useWebSearch) {
-    payload.tools = [{ type: "web_search_preview" }];
-  }
-
   let response = await callOpenAI(payload);
   let failurePayload: Record<string, unknown> | null = null;
 
@@ -177,7 +731,7 @@ const requestOpenAIText = async (body: LlmRequestBody): Promise<string> => {
     failurePayload = await readResponseText(response);
 
     // Retry once without web search tool for models/accounts that don't support it.
-    if (body.useWebSearch) {
+    if (payload.tools) {
       const fallbackPayload = { ...payload };
       delete fallbackPayload.tools;
 
@@ -195,54 +749,135 @@ const requestOpenAIText = async (body: LlmRequestBody): Promise<string> => {
     }
   }
 
+  return response;
+};
+
+const readOpenAIUsage = (usage: OpenAIResponsesPayload["usage"]): TokenUsage => ({
+  inputTokens: Number(usage?.input_tokens || 0),
+  outputTokens: Number(usage?.output_tokens || 0),
+});
+
+const requestOpenAIText = async (body: LlmRequestBody): Promise<ProviderTextResult> => {
+  const response = await postOpenAI(buildOpenAIRequest(body));
+
   const json = (await response.json()) as OpenAIResponsesPayload;
   const text = readOpenAIText(json);
   if (!text) {
     throw new Error("OpenAI response did not contain text output.");
   }
 
-  return text;
+  return { text, usage: readOpenAIUsage(json.usage) };
+};
+
+const streamOpenAIText: TextStreamer = async (body, onDelta, signal) => {
+  const request = buildOpenAIRequest(body);
+  request.payload.stream = true;
+  const response = await postOpenAI(request, signal);
+
+  let text = "";
+  let usage = readOpenAIUsage(undefined);
+  await readServerSentEvents(response, (data) => {
+    const chunk = parseStreamChunk(data);
+    if (!chunk) {
+      return;
+    }
+
+    if (chunk.type === "response.output_text.delta" && typeof chunk.delta === "string") {
+      text += chunk.delta;
+      onDelta(chunk.delta);
+      return;
+    }
+
+    if (chunk.type === "response.completed") {
+      usage = readOpenAIUsage((chunk.response as OpenAIResponsesPayload | undefined)?.usage);
+      return;
+    }
+
+    if (chunk.type === "error" || chunk.type === "response.failed") {
+      throw new Error(`OpenAI stream failed: ${JSON.stringify(chunk)}`);
+    }
+  });
+
+  if (!text.trim()) {
+    throw new Error("OpenAI response did not contain text output.");
+  }
+
+  return { text: text.trim(), usage };
 };
 
-const requestAnthropicText = async (body: LlmRequestBody): Promise<string> => {
+const buildAnthropicRequest = (body: LlmRequestBody): ProviderRequest => {
   const apiKey = ANTHROPIC_API_KEY.value();
   if (!isConfiguredSecret(apiKey)) {
     throw new Error("ANTHROPIC_API_KEY is not configured.");
   }
 
   const base = trimSlash(body.baseUrl || ANTHROPIC_BASE);
-  const endpoint = base.endsWith("/messages") ? base : `${base}/messages`;
 
+  const { system, turns, images } = resolveConversation(body);
+  const messages = toAlternatingTurns(turns);
+  const imageTurn = images.length > 0 ? lastUserTurnIndex(messages) : -1;
   const payload: Record<string, unknown> = {
-    model: body.model || "claude-3-7-sonnet-latest",
+    model: body.model || DEFAULT_TEXT_MODEL.anthropic,
     max_tokens: body.maxOutputTokens || 1200,
-    messages: [{ role: "user", content: body.input || "" }],
+    messages: messages.map((turn, index) =>
+      index === imageTurn
+        ? {
+            role: turn.role,
+            content: [
+              ...images.map((image) => ({
+                type: "image",
+                source: { type: "base64", media_type: image.mimeType, data: image.data },
+              })),
+              { type: "text", text: turn.content },
+            ],
+          }
+        : turn,
+    ),
   };
 
-  if (body.instructions?.trim()) {
-    payload.system = body.instructions.trim();
+  if (system) {
+    payload.system = system;
   }
 
   if (typeof body.temperature === "number") {
     payload.temperature = body.temperature;
   }
 
-  const response = await fetch(endpoint, {
-    method: "POST",
+  return {
+    endpoint: base.endsWith("/messages") ? base : `${base}/messages`,
     headers: {
       "Content-Type": "application/json",
       "x-api-key": apiKey,
       "anthropic-version": "2023-06-01",
     },
+    payload,
+  };
+};
+
+const postAnthropic = async (
+  { endpoint, headers, payload }: ProviderRequest,
+  signal?: AbortSignal,
+) => {
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers,
     body: JSON.stringify(payload),
+    signal,
   });
 
   if (!response.ok) {
     throw new Error(`Anthropic request failed (${response.status}): ${JSON.stringify(await readResponseText(response))}`);
   }
 
+  return response;
+};
+
+const requestAnthropicText = async (body: LlmRequestBody): Promise<ProviderTextResult> => {
+  const response = await postAnthropic(buildAnthropicRequest(body));
+
   const json = (await response.json()) as {
     content?: Array<{ type?: string; text?: string }>;
+    usage?: { input_tokens?: number; output_tokens?: number };
   };
 
   const text = (json.content || [])
@@ -255,25 +890,95 @@ const requestAnthropicText = async (body: LlmRequestBody): Promise<string> => {
     throw new Error("Anthropic response did not contain text output.");
   }
 
-  return text;
+  return {
+    text,
+    usage: {
+      inputTokens: Number(json.usage?.input_tokens || 0),
+      outputTokens: Number(json.usage?.output_tokens || 0),
+    },
+  };
+};
+
+const streamAnthropicText: TextStreamer = async (body, onDelta, signal) => {
+  const request = buildAnthropicRequest(body);
+  request.payload.stream = true;
+  const response = await postAnthropic(request, signal);
+
+  let text = "";
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  await readServerSentEvents(response, (data) => {
+    const chunk = parseStreamChunk(data) as {
+      type?: string;
+      delta?: { type?: string; text?: string };
+      message?: { usage?: { input_tokens?: number; output_tokens?: number } };
+      usage?: { output_tokens?: number };
+    } | null;
+    if (!chunk) {
+      return;
+    }
+
+    if (chunk.type === "message_start") {
+      usage.inputTokens = Number(chunk.message?.usage?.input_tokens || 0);
+      usage.outputTokens = Number(chunk.message?.usage?.output_tokens || 0);
+      return;
+    }
+
+    if (chunk.type === "message_delta") {
+      usage.outputTokens = Number(chunk.usage?.output_tokens || usage.outputTokens);
+      return;
+    }
+
+    if (
+      chunk.type === "content_block_delta" &&
+      chunk.delta?.type === "text_delta" &&
+      typeof chunk.delta.text === "string"
+    ) {
+      text += chunk.delta.text;
+      onDelta(chunk.delta.text);
+      return;
+    }
+
+    if (chunk.type === "error") {
+      throw new Error(`Anthropic stream failed: ${JSON.stringify(chunk)}`);
+    }
+  });
+
+  if (!text.trim()) {
+    throw new Error("Anthropic response did not contain text output.");
+  }
+
+  return { text: text.trim(), usage };
 };
 
-const requestXAIText = async (body: LlmRequestBody): Promise<string> => {
+const buildXAIRequest = (body: LlmRequestBody): ProviderRequest => {
   const apiKey = XAI_API_KEY.value();
   if (!isConfiguredSecret(apiKey)) {
     throw new Error("XAI_API_KEY is not configured.");
   }
 
-  const endpoint = `${trimSlash(body.baseUrl || XAI_BASE)}/chat/completions`;
-  const messages: Array<{ role: "system" | "user"; content: string }> = [];
+  const { system, turns, images } = resolveConversation(body);
+  const imageTurn = images.length > 0 ? lastUserTurnIndex(turns) : -1;
+  const messages: Array<{ role: LlmMessageRole; content: string | Array<Record<string, unknown>> }> = [];
 
-  if (body.instructions?.trim()) {
-    messages.push({ role: "system", content: body.instructions.trim() });
+  if (system) {
+    messages.push({ role: "system", content: system });
   }
-  messages.push({ role: "user", content: body.input || "" });
+  turns.forEach((turn, index) =>
+    messages.push(
+      index === imageTurn
+        ? {
+            role: turn.role,
+            content: [
+              { type: "text", text: turn.content },
+              ...images.map((image) => ({ type: "image_url", image_url: { url: toDataUrl(image) } })),
+            ],
+          }
+        : turn,
+    ),
+  );
 
   const payload: Record<string, unknown> = {
-    model: body.model || "grok-4",
+    model: body.model || DEFAULT_TEXT_MODEL.xai,
     messages,
   };
 
@@ -284,26 +989,53 @@ const requestXAIText = async (body: LlmRequestBody): Promise<string> => {
     payload.temperature = body.temperature;
   }
 
-  const response = await fetch(endpoint, {
-    method: "POST",
+  return {
+    endpoint: `${trimSlash(body.baseUrl || XAI_BASE)}/chat/completions`,
     headers: {
       "Content-Type": "application/json",
       Authorization: `Bearer ${apiKey}`,
     },
+    payload,
+  };
+};
+
+const postXAI = async (
+  { endpoint, headers, payload }: ProviderRequest,
+  signal?: AbortSignal,
+) => {
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers,
     body: JSON.stringify(payload),
+    signal,
   });
 
   if (!response.ok) {
     throw new Error(`xAI request failed (${response.status}): ${JSON.stringify(await readResponseText(response))}`);
   }
 
+  return response;
+};
+
+type XAIUsage = { prompt_tokens?: number; completion_tokens?: number };
+
+const readXAIUsage = (usage: XAIUsage | undefined): TokenUsage => ({
+  inputTokens: Number(usage?.prompt_tokens || 0),
+  outputTokens: Number(usage?.completion_tokens || 0),
+});
+
+const requestXAIText = async (body: LlmRequestBody): Promise<ProviderTextResult> => {
+  const response = await postXAI(buildXAIRequest(body));
+
   const json = (await response.json()) as {
     choices?: Array<{ message?: { content?: string | Array<{ text?: string }> } }>;
+    usage?: XAIUsage;
   };
 
+  const usage = readXAIUsage(json.usage);
   const content = json.choices?.[0]?.message?.content;
   if (typeof content === "string" && content.trim()) {
-    return content.trim();
+    return { text: content.trim(), usage };
   }
 
   if (Array.isArray(content)) {
@@ -312,32 +1044,90 @@ const requestXAIText = async (body: LlmRequestBody): Promise<string> => {
       .join("\n")
       .trim();
     if (text) {
-      return text;
+      return { text, usage };
     }
   }
 
   throw new Error("xAI response did not contain text output.");
 };
 
-const requestGeminiText = async (body: LlmRequestBody): Promise<string> => {
-  const apiKey = GEMINI_API_KEY.value();
-  if (!isConfiguredSecret(apiKey)) {
-    throw new Error("GEMINI_API_KEY is not configured.");
-  }
+const streamXAIText: TextStreamer = async (body, onDelta, signal) => {
+  const request = buildXAIRequest(body);
+  request.payload.stream = true;
+  request.payload.stream_options = { include_usage: true };
+  const response = await postXAI(request, signal);
 
-  const endpoint = `${trimSlash(body.baseUrl || GEMINI_BASE)}/models/${body.model || "gemini-2.5-pro"}:generateContent`;
-  const prompt = body.instructions?.trim()
-    ? [`System instruction:\n${body.instructions.trim()}`, body.input || ""].join("\n\n")
-    : body.input || "";
+  let text = "";
+  let usage = readXAIUsage(undefined);
+  await readServerSentEvents(response, (data) => {
+    if (data.trim() === "[DONE]") {
+      return;
+    }
 
-  const payload: Record<string, unknown> = {
-    contents: [{ role: "user", parts: [{ text: prompt }] }],
-  };
+    const chunk = parseStreamChunk(data) as {
+      choices?: Array<{ delta?: { content?: string } }>;
+      usage?: XAIUsage;
+      error?: unknown;
+    } | null;
+    if (!chunk) {
+      return;
+    }
 
-  const generationConfig: Record<string, unknown> = {};
-  if (typeof body.maxOutputTokens === "number") {
-    generationConfig.maxOutputTokens = body.maxOutputTokens;
-  }
+    if (chunk.error) {
+      throw new Error(`xAI stream failed: ${JSON.stringify(chunk.error)}`);
+    }
+
+    if (chunk.usage) {
+      usage = readXAIUsage(chunk.usage);
+    }
+
+    const delta = chunk.choices?.[0]?.delta?.content;
+    if (typeof delta === "string" && delta) {
+      text += delta;
+      onDelta(delta);
+    }
+  });
+
+  if (!text.trim()) {
+    throw new Error("xAI response did not contain text output.");
+  }
+
+  return { text: text.trim(), usage };
+};
+
+const buildGeminiTextRequest = (
+  body: LlmRequestBody,
+  method: "generateContent" | "streamGenerateContent",
+): ProviderRequest => {
+  const apiKey = GEMINI_API_KEY.value();
+  if (!isConfiguredSecret(apiKey)) {
+    throw new Error("GEMINI_API_KEY is not configured.");
+  }
+
+  const query = method === "streamGenerateContent" ? "?alt=sse" : "";
+  const { system, turns, images } = resolveConversation(body);
+  const contents = toAlternatingTurns([
+    ...(system ? [{ role: "user" as const, content: `System instruction:\n${system}` }] : []),
+    ...turns,
+  ]);
+  const imageTurn = images.length > 0 ? lastUserTurnIndex(contents) : -1;
+
+  const payload: Record<string, unknown> = {
+    contents: contents.map((turn, index) => ({
+      role: turn.role === "assistant" ? "model" : "user",
+      parts: [
+        { text: turn.content },
+        ...(index === imageTurn
+          ? images.map((image) => ({ inline_data: { mime_type: image.mimeType, data: image.data } }))
+          : []),
+      ],
+    })),
+  };
+
+  const generationConfig: Record<string, unknown> = {};
+  if (typeof body.maxOutputTokens === "number") {
+    generationConfig.maxOutputTokens = body.maxOutputTokens;
+  }
   if (typeof body.temperature === "number") {
     generationConfig.temperature = body.temperature;
   }
@@ -348,33 +1138,154 @@ const requestGeminiText = async (body: LlmRequestBody): Promise<string> => {
     payload.tools = [{ google_search: {} }];
   }
 
-  const response = await fetch(endpoint, {
-    method: "POST",
+  return {
+    endpoint: `${trimSlash(body.baseUrl || GEMINI_BASE)}/models/${body.model || DEFAULT_TEXT_MODEL.gemini}:${method}${query}`,
     headers: {
       "Content-Type": "application/json",
       "x-goog-api-key": apiKey,
     },
+    payload,
+  };
+};
+
+const postGeminiText = async (
+  { endpoint, headers, payload }: ProviderRequest,
+  signal?: AbortSignal,
+) => {
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers,
     body: JSON.stringify(payload),
+    signal,
   });
 
   if (!response.ok) {
     throw new Error(`Gemini text request failed (${response.status}): ${JSON.stringify(await readResponseText(response))}`);
   }
 
-  const json = (await response.json()) as {
-    candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
-  };
+  return response;
+};
+
+type GeminiUsageMetadata = {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+};
 
-  const text = (json.candidates?.[0]?.content?.parts || [])
+type GeminiTextChunk = {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+  usageMetadata?: GeminiUsageMetadata;
+};
+
+const readGeminiParts = (json: GeminiTextChunk, separator: string) =>
+  (json.candidates?.[0]?.content?.parts || [])
     .map((part) => (typeof part.text === "string" ? part.text : ""))
-    .join("\n")
-    .trim();
+    .join(separator);
+
+// Thinking tokens are billed as output, so they count toward outputTokens.
+const readGeminiUsage = (usage: GeminiUsageMetadata | undefined): TokenUsage => ({
+  inputTokens: Number(usage?.promptTokenCount || 0),
+  outputTokens: Number(usage?.candidatesTokenCount || 0) + Number(usage?.thoughtsTokenCount || 0),
+});
+
+const requestGeminiText = async (body: LlmRequestBody): Promise<ProviderTextResult> => {
+  const response = await postGeminiText(buildGeminiTextRequest(body, "generateContent"));
+
+  const json = (await response.json()) as GeminiTextChunk;
+  const text = readGeminiParts(json, "\n").trim();
 
   if (!text) {
     throw new Error("Gemini response did not contain text output.");
   }
 
-  return text;
+  return { text, usage: readGeminiUsage(json.usageMetadata) };
+};
+
+const streamGeminiText: TextStreamer = async (body, onDelta, signal) => {
+  const response = await postGeminiText(
+    buildGeminiTextRequest(body, "streamGenerateContent"),
+    signal,
+  );
+
+  let text = "";
+  let usage = readGeminiUsage(undefined);
+  await readServerSentEvents(response, (data) => {
+    const chunk = parseStreamChunk(data) as (GeminiTextChunk & { error?: unknown }) | null;
+    if (!chunk) {
+      return;
+    }
+
+    if (chunk.error) {
+      throw new Error(`Gemini stream failed: ${JSON.stringify(chunk.error)}`);
+    }
+
+    // Each chunk carries the cumulative usage so far; the last one wins.
+    if (chunk.usageMetadata) {
+      usage = readGeminiUsage(chunk.usageMetadata);
+    }
+
+    const delta = readGeminiParts(chunk, "");
+    if (delta) {
+      text += delta;
+      onDelta(delta);
+    }
+  });
+
+  if (!text.trim()) {
+    throw new Error("Gemini response did not contain text output.");
+  }
+
+  return { text: text.trim(), usage };
+};
+
+// Runs the shared scripted provider (functions/src/shared/mockLlm.ts) for local runs and the emulator.
+const prepareMockRequest = (body: LlmRequestBody) => {
+  const { system, turns, images } = resolveConversation(body);
+  const { text, directives } = prepareMockText({
+    model: body.model || DEFAULT_TEXT_MODEL.mock,
+    system,
+    input: turns[turns.length - 1]?.content || "",
+    history: turns.slice(0, -1).map((turn) => turn.content),
+    imageCount: images.length,
+    maxOutputTokens: body.maxOutputTokens,
+  });
+  const usage: TokenUsage = {
+    inputTokens: estimateTokens([system, ...turns.map((turn) => turn.content)].join("\n")),
+    outputTokens: estimateTokens(text),
+  };
+
+  return { text, usage, directives };
+};
+
+const requestMockText = async (body: LlmRequestBody): Promise<ProviderTextResult> => {
+  const { text, usage } = prepareMockRequest(body);
+  if (!text) {
+    throw new Error("Mock response did not contain text output.");
+  }
+  return { text, usage };
+};
+
+const streamMockText: TextStreamer = async (body, onDelta, signal) => {
+  const { text, usage, directives } = prepareMockRequest(body);
+  const chunks = splitMockStream(text);
+
+  for (let index = 0; index < chunks.length; index += 1) {
+    if (signal?.aborted) {
+      throw new Error("Mock stream aborted.");
+    }
+    if (directives.streamError && index === Math.floor(chunks.length / 2)) {
+      throw new Error("Mock stream injected failure.");
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, directives.delayMs));
+    onDelta(chunks[index]);
+  }
+
+  if (!text.trim()) {
+    throw new Error("Mock response did not contain text output.");
+  }
+
+  return { text: text.trim(), usage };
 };
 
 const requestGeminiImage = async (body: GeminiImageBody): Promise<GeminiImageResponse> => {
@@ -383,7 +1294,8 @@ const requestGeminiImage = async (body: GeminiImageBody): Promise<GeminiImageRes
     throw new Error("GEMINI_API_KEY is not configured.");
   }
 
-  const endpoint = `${GEMINI_BASE}/models/${body.model || "gemini-3-pro-image-preview"}:generateContent`;
+  const model = body.model || "gemini-3-pro-image-preview";
+  const endpoint = `${GEMINI_BASE}/models/${model}:generateContent`;
 
   const parts: Array<Record<string, unknown>> = [{ text: body.prompt || "" }];
   for (const reference of body.references || []) {
@@ -433,6 +1345,7 @@ const requestGeminiImage = async (body: GeminiImageBody): Promise<GeminiImageRes
         }>;
       };
     }>;
+    usageMetadata?: GeminiUsageMetadata;
   };
 
   const partsOut = json.candidates?.[0]?.content?.parts || [];
@@ -464,7 +1377,113 @@ const requestGeminiImage = async (body: GeminiImageBody): Promise<GeminiImageRes
     text,
     imageBase64,
     mimeType,
+    usage: meterUsage("gemini", model, readGeminiUsage(json.usageMetadata)),
+  };
+};
+
+const requestOpenAIEmbeddings = async (model: string, texts: string[]): Promise<EmbeddingResult> => {
+  const apiKey = OPENAI_API_KEY.value();
+  if (!isConfiguredSecret(apiKey)) {
+    throw new Error("OPENAI_API_KEY is not configured.");
+  }
+
+  const response = await fetch(`${OPENAI_BASE}/embeddings`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify({ model, input: texts }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`OpenAI embedding request failed (${response.status}): ${JSON.stringify(await readResponseText(response))}`);
+  }
+
+  const json = (await response.json()) as {
+    data?: Array<{ index?: number; embedding?: number[] }>;
+    usage?: { prompt_tokens?: number };
   };
+  const vectors = texts.map(
+    (_, index) => json.data?.find((item) => item.index === index)?.embedding || [],
+  );
+  if (vectors.some((vector) => vector.length === 0)) {
+    throw new Error("OpenAI embedding response is missing vectors.");
+  }
+
+  return { vectors, usage: { inputTokens: Number(json.usage?.prompt_tokens || 0), outputTokens: 0 } };
+};
+
+// Gemini reports no token usage for embeddings; the estimate keeps the ledger non-empty.
+const requestGeminiEmbeddings = async (model: string, texts: string[]): Promise<EmbeddingResult> => {
+  const apiKey = GEMINI_API_KEY.value();
+  if (!isConfiguredSecret(apiKey)) {
+    throw new Error("GEMINI_API_KEY is not configured.");
+  }
+
+  const response = await fetch(`${GEMINI_BASE}/models/${model}:batchEmbedContents`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-goog-api-key": apiKey,
+    },
+    body: JSON.stringify({
+      requests: texts.map((text) => ({
+        model: `models/${model}`,
+        content: { parts: [{ text }] },
+      })),
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Gemini embedding request failed (${response.status}): ${JSON.stringify(await readResponseText(response))}`);
+  }
+
+  const json = (await response.json()) as { embeddings?: Array<{ values?: number[] }> };
+  const vectors = texts.map((_, index) => json.embeddings?.[index]?.values || []);
+  if (vectors.some((vector) => vector.length === 0)) {
+    throw new Error("Gemini embedding response is missing vectors.");
+  }
+
+  return {
+    vectors,
+    usage: { inputTokens: texts.reduce((sum, text) => sum + estimateTokens(text), 0), outputTokens: 0 },
+  };
+};
+
+const requestEmbeddings = async (
+  provider: EmbeddingProvider,
+  model: string,
+  texts: string[],
+): Promise<EmbeddingResult> => {
+  switch (provider) {
+    case "openai":
+      return requestOpenAIEmbeddings(model, texts);
+    case "gemini":
+      return requestGeminiEmbeddings(model, texts);
+    default:
+      return {
+        vectors: texts.map(embedMockText),
+        usage: { inputTokens: texts.reduce((sum, text) => sum + estimateTokens(text), 0), outputTokens: 0 },
+      };
+  }
+};
+
+const resolveTextRequester = (provider: Provider): TextRequester | null => {
+  switch (provider) {
+    case "openai":
+      return requestOpenAIText;
+    case "anthropic":
+      return requestAnthropicText;
+    case "xai":
+      return requestXAIText;
+    case "gemini":
+      return requestGeminiText;
+    case "mock":
+      return requestMockText;
+    default:
+      return null;
+  }
 };
 
 const handleLlmText = async (request: Request, response: Response) => {
@@ -472,31 +1491,21 @@ const handleLlmText = async (request: Request, response: Response) => {
     const body = (request.body || {}) as LlmRequestBody;
     const provider = body.provider || "openai";
 
-    if (!body.input || !String(body.input).trim()) {
-      response.status(400).json({ error: "input is required" });
+    if (!hasConversationInput(body)) {
+      response.status(400).json({ error: "input or messages is required" });
       return;
     }
 
-    let text = "";
-    switch (provider) {
-      case "openai":
-        text = await requestOpenAIText(body);
-        break;
-      case "anthropic":
-        text = await requestAnthropicText(body);
-        break;
-      case "xai":
-        text = await requestXAIText(body);
-        break;
-      case "gemini":
-        text = await requestGeminiText(body);
-        break;
-      default:
-        response.status(400).json({ error: `Unsupported provider: ${String(provider)}` });
-        return;
+    const requester = resolveTextRequester(provider);
+    if (!requester) {
+      response.status(400).json({ error: `Unsupported provider: ${String(provider)}` });
+      return;
     }
 
-    const result: GenericTextResponse = { text };
+    const output = await requester(body);
+    const usage = meterUsage(provider, body.model || DEFAULT_TEXT_MODEL[provider], output.usage);
+    await recordUsage(String(response.locals.uid || ""), "text", usage, body.meter);
+    const result: GenericTextResponse = { text: output.text, usage };
     response.json(result);
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -504,6 +1513,87 @@ const handleLlmText = async (request: Request, response: Response) => {
   }
 };
 
+const resolveTextStreamer = (provider: Provider): TextStreamer | null => {
+  switch (provider) {
+    case "openai":
+      return streamOpenAIText;
+    case "anthropic":
+      return streamAnthropicText;
+    case "xai":
+      return streamXAIText;
+    case "gemini":
+      return streamGeminiText;
+    case "mock":
+      return streamMockText;
+    default:
+      return null;
+  }
+};
+
+const writeStreamEvent = (response: Response, event: LlmStreamEvent) => {
+  response.write(`${JSON.stringify(event)}\n`);
+};
+
+// Streams normalized NDJSON events: zero or more "delta", then one "done" or "error".
+const handleLlmTextStream = async (request: Request, response: Response) => {
+  const body = (request.body || {}) as LlmRequestBody;
+  const provider = body.provider || "openai";
+
+  if (!hasConversationInput(body)) {
+    response.status(400).json({ error: "input or messages is required" });
+    return;
+  }
+
+  const streamer = resolveTextStreamer(provider);
+  if (!streamer) {
+    response.status(400).json({ error: `Unsupported provider: ${String(provider)}` });
+    return;
+  }
+
+  const upstream = new AbortController();
+  response.on("close", () => {
+    if (!response.writableFinished) {
+      upstream.abort();
+    }
+  });
+
+  response.status(200);
+  response.setHeader("Content-Type", "application/x-ndjson; charset=utf-8");
+  response.setHeader("Cache-Control", "no-cache, no-transform");
+  response.setHeader("X-Accel-Buffering", "no");
+  response.flushHeaders();
+
+  let streamed = "";
+  try {
+    const output = await streamer(
+      body,
+      (delta) => {
+        streamed += delta;
+        writeStreamEvent(response, { type: "delta", text: delta });
+      },
+      upstream.signal,
+    );
+    const usage = meterUsage(provider, body.model || DEFAULT_TEXT_MODEL[provider], output.usage);
+    await recordUsage(String(response.locals.uid || ""), "stream", usage, body.meter);
+    writeStreamEvent(response, { type: "done", text: output.text, usage });
+  } catch (error) {
+    if (upstream.signal.aborted) {
+      // The provider bills what it read and generated before the client hung up, but never reports
+      // usage for a cut-off stream, so it is estimated.
+      const { system, turns } = resolveConversation(body);
+      const usage = meterUsage(provider, body.model || DEFAULT_TEXT_MODEL[provider], {
+        inputTokens: estimateTokens([system, ...turns.map((turn) => turn.content)].join("\n")),
+        outputTokens: estimateTokens(streamed),
+      });
+      await recordUsage(String(response.locals.uid || ""), "stream", { ...usage, partial: true }, body.meter);
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    writeStreamEvent(response, { type: "error", error: message });
+  } finally {
+    response.end();
+  }
+};
+
 const handleGeminiImage = async (request: Request, response: Response) => {
   try {
     const body = (request.body || {}) as GeminiImageBody;
@@ -513,6 +1603,7 @@ const handleGeminiImage = async (request: Request, response: Response) => {
     }
 
     const result = await requestGeminiImage(body);
+    await recordUsage(String(response.locals.uid || ""), "image", result.usage, body.meter);
     response.json(result);
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -520,6 +1611,80 @@ const handleGeminiImage = async (request: Request, response: Response) => {
   }
 };
 
+const handleEmbeddings = async (request: Request, response: Response) => {
+  try {
+    const body = (request.body || {}) as EmbeddingBody;
+    const provider = body.provider || "openai";
+    if (!Object.hasOwn(DEFAULT_EMBEDDING_MODEL, provider)) {
+      response.status(400).json({ error: `Unsupported embedding provider: ${String(provider)}` });
+      return;
+    }
+
+    const texts = Array.isArray(body.texts)
+      ? body.texts.map((text) => String(text ?? "").slice(0, MAX_EMBEDDING_TEXT_CHARS))
+      : [];
+    if (texts.length === 0 || texts.length > MAX_EMBEDDING_TEXTS || texts.some((text) => !text.trim())) {
+      response
+        .status(400)
+        .json({ error: `texts must be 1-${MAX_EMBEDDING_TEXTS} non-empty strings` });
+      return;
+    }
+
+    const model = body.model || DEFAULT_EMBEDDING_MODEL[provider];
+    const result = await requestEmbeddings(provider, model, texts);
+    const usage = meterUsage(provider, model, result.usage);
+    await recordUsage(String(response.locals.uid || ""), "embedding", usage, body.meter);
+    response.json({ vectors: result.vectors, model, usage });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    response.status(500).json({ error: message });
+  }
+};
+
+const handleUsage = async (_request: Request, response: Response) => {
+  try {
+    const snapshot = await usageDoc(String(response.locals.uid)).get();
+    response.json(readUsageState(snapshot.data()));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    response.status(500).json({ error: message });
+  }
+};
+
+// Charges one free report. Server runs pass their run id so a retried report stage of the same run
+// is not charged twice; the id comes from the runner, never from the request body.
+const consumeReportQuota = (uid: string, runId?: string) =>
+  admin.firestore().runTransaction(async (transaction) => {
+    const ref = usageDoc(uid);
+    const data = (await transaction.get(ref)).data();
+    const usage = readUsageState(data);
+    if (runId && data?.lastReportRunId === runId) {
+      return { usage, consumed: true };
+    }
+    if (usage.exhausted) {
+      return { usage, consumed: false };
+    }
+
+    const charge = reportChargePatch(usage, runId);
+    transaction.set(ref, charge, { merge: true });
+    return { usage: readUsageState(charge), consumed: true };
+  });
+
+// Called by the browser when a report starts; the report's model calls themselves are not charged.
+const handleReportCharge = async (_request: Request, response: Response) => {
+  try {
+    const quota = await consumeReportQuota(String(response.locals.uid));
+    if (!quota.consumed) {
+      sendQuotaError(response, "quota_exhausted", quota.usage);
+      return;
+    }
+    response.json(quota.usage);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    response.status(500).json({ error: message });
+  }
+};
+
 const healthHandler = (_request: Request, response: Response) => {
   response.json({
     ok: true,
@@ -528,6 +1693,7 @@ const healthHandler = (_request: Request, response: Response) => {
       anthropic: isConfiguredSecret(ANTHROPIC_API_KEY.value()),
       xai: isConfiguredSecret(XAI_API_KEY.value()),
       gemini: isConfiguredSecret(GEMINI_API_KEY.value()),
+      mock: true,
     },
   });
 };
@@ -535,11 +1701,23 @@ const healthHandler = (_request: Request, response: Response) => {
 app.get("/health", healthHandler);
 app.get("/api/health", healthHandler);
 
-app.post("/llm/text", requireFirebaseAuth, handleLlmText);
-app.post("/api/llm/text", requireFirebaseAuth, handleLlmText);
+app.post("/llm/text", requireFirebaseAuth, requireCallRate, handleLlmText);
+app.post("/api/llm/text", requireFirebaseAuth, requireCallRate, handleLlmText);
+
+app.post("/llm/text/stream", requireFirebaseAuth, requireCallRate, handleLlmTextStream);
+app.post("/api/llm/text/stream", requireFirebaseAuth, requireCallRate, handleLlmTextStream);
 
-app.post("/gemini/image", requireFirebaseAuth, handleGeminiImage);
-app.post("/api/gemini/image", requireFirebaseAuth, handleGeminiImage);
+app.post("/llm/embed", requireFirebaseAuth, requireCallRate, handleEmbeddings);
+app.post("/api/llm/embed", requireFirebaseAuth, requireCallRate, handleEmbeddings);
+
+app.post("/gemini/image", requireFirebaseAuth, requireCallRate, handleGeminiImage);
+app.post("/api/gemini/image", requireFirebaseAuth, requireCallRate, handleGeminiImage);
+
+app.get("/usage", requireFirebaseAuth, handleUsage);
+app.get("/api/usage", requireFirebaseAuth, handleUsage);
+
+app.post("/usage/report", requireFirebaseAuth, handleReportCharge);
+app.post("/api/usage/report", requireFirebaseAuth, handleReportCharge);
 
 export const api = onRequest(
   {
@@ -550,3 +1728,1383 @@ export const api = onRequest(
   },
   app,
 );
+
+// Server-side workflow runs. The client creates `users/{uid}/workflowRuns/{runId}` with
+// `executor: "server"` and `status: "queued"`; each trigger claims the run, executes exactly
+// one phase (one round of the autonomous loop), stores its checkpoint and re-queues itself, so no
+// single invocation has to outlive the function timeout. While running, the claiming invocation
+// renews `leaseUntil`; a run whose lease expired was cut off (crash, timeout) and the owner can
+// re-queue it from its last checkpoint. Progress goes to the run's `events` subcollection.
+type RunPhase = "idle" | "brainstorming" | "collaboration" | "execution" | "reporting";
+
+type RunControl = "pause" | "cancel";
+
+type RunMember = {
+  id: string;
+  displayName: string;
+  role: string;
+  identityPrompt: string;
+  personaVersion?: number;
+};
+
+type RunPersona = {
+  memberId: string;
+  personaVersion: number;
+  model: string;
+};
+
+// Written by the browser, so the runner only honours a known provider and a priced model, and never
+// a custom base URL: server runs send the project's own keys and must only reach the default endpoints.
+type RunRuntime = {
+  provider?: Provider;
+  model?: string;
+};
+
+type RunNote = {
+  memberId: string;
+  note: string;
+};
+
+type RunMeetingTurn = {
+  id: string;
+  threadId: string;
+  sessionId: string;
+  room: "brainstorming" | "collaboration";
+  speakerId: string;
+  speakerName: string;
+  text: string;
+  createdAt: string;
+  source: "workflow";
+};
+
+type RunEvent =
+  | { kind: "log"; phase: RunPhase; message: string }
+  | {
+      kind: "meeting";
+      sessionId: string;
+      room: "brainstorming" | "collaboration";
+      speakerId: string;
+      speakerName: string;
+      text: string;
+    }
+  | { kind: "plan"; memberId: string; plan: string; source: "workflow" | "management" }
+  | { kind: "governance"; source: "LEGAL-TAN" | "HR-TAN"; status: "ok" | "warning"; message: string }
+  | { kind: "summary"; summary: ThreadSummary };
+
+type RunAsset = {
+  id: string;
+  name: string;
+  url: string;
+  mimeType: string;
+  size: number;
+  uploadedAt: string;
+  source: "cloud";
+  path: string;
+  // Text the browser extracted at upload time (see src/lib/attachments.ts).
+  textExtract?: { url: string; path?: string; chars: number };
+};
+
+// Rolling state of the autonomous loop between rounds, each round being its own invocation.
+type RunAutonomousProgress = {
+  round: number;
+  notes: RunNote[];
+  digestBlocks: string[];
+  rollingSummary: string;
+  rollingContext: string;
+  rollingTurns: number;
+};
+
+type WorkflowRunDoc = {
+  executor?: string;
+  status?: string;
+  control?: RunControl | null;
+  // Invocation currently holding the run (its event id) and when its claim lapses.
+  leaseOwner?: string;
+  leaseUntil?: admin.firestore.Timestamp;
+  threadId?: string;
+  task?: string;
+  roster?: RunMember[];
+  runtimes?: Record<string, RunRuntime>;
+  defaultTeam?: string[];
+  autonomousRounds?: number;
+  mission?: string;
+  // Long-term memories the browser recalled for each member when the run was queued.
+  memories?: Record<string, string>;
+  threadSummary?: ThreadSummary;
+  attachments?: RunAsset[];
+  brainstorm?: { strategy: string; participants: string[]; handoff: string };
+  managementPlan?: { poPlan: string; pmPlan: string };
+  collaborationSession?: { sessionId: string; notes: RunNote[]; transcript: RunMeetingTurn[] };
+  autonomousProgress?: RunAutonomousProgress | null;
+  autonomousResult?: { notes: RunNote[]; digest: string };
+};
+
+type RunAttachmentBundle = {
+  documents: AttachmentDocument[];
+  images: InlineImage[];
+  notes: string[];
+};
+
+type RunContext = {
+  uid: string;
+  runId: string;
+  ref: admin.firestore.DocumentReference;
+  leaseOwner: string;
+  run: WorkflowRunDoc;
+  threadId: string;
+  task: string;
+  // Loaded on first use and shared by every prompt in the step.
+  attachmentBundle?: Promise<RunAttachmentBundle>;
+  passages?: Promise<ThreadPassage[]>;
+};
+
+type RunStepResult = {
+  phase: RunPhase;
+  checkpoint: Partial<WorkflowRunDoc> & { reportTitle?: string };
+  done: boolean;
+};
+
+const DEPLOYED_APP_URL = "https://automagent-8d64c.web.app";
+const GOVERNANCE_WARNING_PATTERN = /위반|리스크|warning|금지|불가/i;
+const MAX_AUTONOMOUS_ROUNDS = 3;
+// Renewed every heartbeat; an invocation that dies stops renewing and the run reads as interrupted.
+const RUN_LEASE_MS = 3 * 60 * 1000;
+const RUN_HEARTBEAT_MS = 60 * 1000;
+
+// "lost" means another invocation re-claimed the run after this one's lease expired; this one
+// must stop without touching the run document.
+class RunInterruptedError extends Error {
+  control: RunControl | "lost";
+
+  constructor(control: RunControl | "lost") {
+    super(
+      control === "lost"
+        ? "Workflow run was re-claimed by another invocation."
+        : `Workflow run ${control === "pause" ? "paused" : "cancelled"} by its owner.`,
+    );
+    this.control = control;
+  }
+}
+
+const findRunMember = (context: RunContext, memberId: string) =>
+  (context.run.roster || []).find((member) => member.id === memberId);
+
+const resolveRunRuntime = (context: RunContext, memberId: string) => {
+  const runtime = context.run.runtimes?.[memberId] || {};
+  const provider =
+    typeof runtime.provider === "string" && Object.hasOwn(DEFAULT_TEXT_MODEL, runtime.provider)
+      ? runtime.provider
+      : "openai";
+  const model = typeof runtime.model === "string" ? runtime.model.trim() : "";
+  if (model && !resolveModelPrice(model)) {
+    throw new Error(`Model not allowed for server runs: ${model.slice(0, 80)}`);
+  }
+  return { provider, model: model || DEFAULT_TEXT_MODEL[provider] };
+};
+
+// Same shape the browser stamps on meeting turns, messages and reports.
+const runPersonaStamp = (context: RunContext, memberId: string): RunPersona | null => {
+  const member = findRunMember(context, memberId);
+  if (!member) {
+    return null;
+  }
+  return {
+    memberId,
+    personaVersion: member.personaVersion || 1,
+    model: resolveRunRuntime(context, memberId).model,
+  };
+};
+
+const pushRunEvent = async (context: RunContext, event: RunEvent) => {
+  const persona = event.kind === "meeting" ? runPersonaStamp(context, event.speakerId) : null;
+  await context.ref.collection("events").add({
+    ...event,
+    ...(persona ? { persona } : {}),
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+};
+
+const logRun = (context: RunContext, phase: RunPhase, message: string) =>
+  pushRunEvent(context, { kind: "log", phase, message });
+
+// The owner pauses or cancels by setting `control`; it is honoured before every model call.
+const assertRunActive = async (context: RunContext) => {
+  const snapshot = await context.ref.get();
+  if (snapshot.get("leaseOwner") !== context.leaseOwner) {
+    throw new RunInterruptedError("lost");
+  }
+  const control = snapshot.get("control");
+  if (control === "pause" || control === "cancel") {
+    throw new RunInterruptedError(control);
+  }
+};
+
+// Server runs share the per-uid call window with the proxy routes; a full window waits for the next one.
+const awaitRunCallRate = async (context: RunContext) => {
+  for (;;) {
+    const { retryAfterSeconds } = await consumeCallRate(context.uid);
+    if (retryAfterSeconds === 0) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, retryAfterSeconds * 1000));
+    await assertRunActive(context);
+  }
+};
+
+const runLeaseUntil = () => admin.firestore.Timestamp.fromMillis(Date.now() + RUN_LEASE_MS);
+
+const requestRunText = async (
+  context: RunContext,
+  memberId: string,
+  body: Omit<LlmRequestBody, "provider" | "model" | "baseUrl" | "meter">,
+) => {
+  await assertRunActive(context);
+
+  const { provider, model } = resolveRunRuntime(context, memberId);
+  const requester = resolveTextRequester(provider);
+  if (!requester) {
+    throw new Error(`Unsupported provider: ${String(provider)}`);
+  }
+
+  await awaitRunCallRate(context);
+  const meter: MeterContext = { memberId, threadId: context.threadId, runId: context.runId };
+  // The thread's vision and ranked goals ride along as shared context, as in the browser.
+  const output = await requester({
+    ...body,
+    instructions: [body.instructions, context.run.mission].filter(Boolean).join("\n\n") || undefined,
+    provider,
+    model,
+    meter,
+  });
+  await recordUsage(context.uid, "text", meterUsage(provider, model, output.usage), meter);
+  return output.text;
+};
+
+const toRunMessages = (turns: Array<{ speakerId: string; text: string }>, selfId: string) =>
+  turns.map<LlmMessage>((turn) => ({
+    role: turn.speakerId === selfId ? "assistant" : "user",
+    name: turn.speakerId,
+    content: turn.text,
+  }));
+
+// Reads the browser's extracted text (or the file itself for plain text) and image bytes from Storage.
+const loadRunAttachmentBundle = async (assets: RunAsset[]): Promise<RunAttachmentBundle> => {
+  const bucket = admin.storage().bucket();
+  const bundle: RunAttachmentBundle = { documents: [], images: [], notes: [] };
+
+  for (const asset of assets) {
+    try {
+      if (asset.mimeType.startsWith("image/")) {
+        if (
+          bundle.images.length >= MAX_IMAGE_INPUTS ||
+          asset.size > MAX_IMAGE_INPUT_BYTES ||
+          !IMAGE_INPUT_MIME_TYPES.includes(asset.mimeType)
+        ) {
+          bundle.notes.push(`${asset.name}: 이미지 입력 한도(${MAX_IMAGE_INPUTS}장, 장당 3.5MB, PNG/JPEG/WebP/GIF)를 넘어 제외`);
+          continue;
+        }
+        const [bytes] = await bucket.file(asset.path).download();
+        bundle.images.push({ mimeType: asset.mimeType, data: bytes.toString("base64") });
+        continue;
+      }
+
+      const textPath =
+        asset.textExtract?.path || (/^text\/|json/.test(asset.mimeType) ? asset.path : "");
+      const text = textPath
+        ? (await bucket.file(textPath).download())[0].toString("utf8").replace(/^\uFEFF/, "").trim()
+        : "";
+      if (text) {
+        bundle.documents.push({ name: asset.name, chunks: chunkText(text) });
+      } else {
+        bundle.notes.push(`${asset.name}: 본문을 추출할 수 없는 형식`);
+      }
+    } catch (error) {
+      console.error("Failed to load run attachment", asset.path, error);
+      bundle.notes.push(`${asset.name}: 첨부를 불러오지 못함`);
+    }
+  }
+
+  return bundle;
+};
+
+// Server side of buildAttachmentContext in src/lib/attachments.ts, reading from Storage.
+const runAttachmentContext = async (context: RunContext, query: string) => {
+  const assets = context.run.attachments || [];
+  if (assets.length === 0) {
+    return { text: "", images: [] as InlineImage[] };
+  }
+  context.attachmentBundle ||= loadRunAttachmentBundle(assets);
+  const bundle = await context.attachmentBundle;
+  return {
+    text: formatAttachmentContext(bundle.documents, query, bundle.notes),
+    images: bundle.images,
+  };
+};
+
+// Same provider choice as requestAgentEmbeddings in src/App.tsx, so browser and server vectors match.
+const embedRunTexts = async (context: RunContext, texts: string[]) => {
+  const runtimeProvider = context.run.runtimes?.["ATTENDANT-TAN"]?.provider;
+  const provider: EmbeddingProvider =
+    runtimeProvider === "gemini" || runtimeProvider === "mock" ? runtimeProvider : "openai";
+  const model = DEFAULT_EMBEDDING_MODEL[provider];
+  await awaitRunCallRate(context);
+  const result = await requestEmbeddings(provider, model, texts);
+  await recordUsage(context.uid, "embedding", meterUsage(provider, model, result.usage), {
+    memberId: "ATTENDANT-TAN",
+    threadId: context.threadId,
+    runId: context.runId,
+  });
+  return { vectors: result.vectors, model };
+};
+
+// Best-effort, like the browser: an asset that fails to index is still delivered.
+const indexRunTextAsset = async (
+  context: RunContext,
+  asset: RunAsset,
+  text: string,
+  source: PassageSource,
+) => {
+  const passages = buildPassages(asset, text, source, context.threadId);
+  try {
+    const collection = admin.firestore().collection(`users/${context.uid}/threadPassages`);
+    for (let start = 0; start < passages.length; start += MAX_EMBEDDING_TEXTS) {
+      const batch = passages.slice(start, start + MAX_EMBEDDING_TEXTS);
+      const { vectors, model } = await embedRunTexts(
+        context,
+        batch.map((passage) => passage.text),
+      );
+      const writer = admin.firestore().batch();
+      batch.forEach(({ id, ...passage }, offset) => {
+        writer.set(collection.doc(id), { ...passage, embedding: vectors[offset], model });
+      });
+      await writer.commit();
+    }
+  } catch (error) {
+    console.error(`Failed to index ${asset.name}`, error);
+  }
+};
+
+const loadRunPassages = async (context: RunContext): Promise<ThreadPassage[]> => {
+  const snapshot = await admin
+    .firestore()
+    .collection(`users/${context.uid}/threadPassages`)
+    .where("threadId", "==", context.threadId)
+    .orderBy("createdAt", "desc")
+    .limit(THREAD_PASSAGE_LIMIT + 1)
+    .get();
+  if (snapshot.size > THREAD_PASSAGE_LIMIT) {
+    console.warn(
+      `Thread ${context.threadId} has more than ${THREAD_PASSAGE_LIMIT} passages; searching the newest only`,
+    );
+  }
+  return snapshot.docs
+    .slice(0, THREAD_PASSAGE_LIMIT)
+    .map((document) => parseThreadPassage(document.id, document.data()))
+    .filter((passage): passage is ThreadPassage => passage !== null);
+};
+
+// Server side of the browser's retrieval in src/App.tsx, ranked and cited by the shared helpers.
+const runThreadContext = async (context: RunContext, query: string) => {
+  context.passages ||= loadRunPassages(context).catch((error: unknown) => {
+    console.error("Failed to load thread passages", error);
+    return [];
+  });
+  const passages = await context.passages;
+  const trimmed = query.trim().slice(0, 2000);
+  if (passages.length === 0 || !trimmed) {
+    return "";
+  }
+
+  let queryVector: number[] = [];
+  let model = "";
+  try {
+    const embedded = await embedRunTexts(context, [trimmed]);
+    queryVector = embedded.vectors[0];
+    model = embedded.model;
+  } catch (error) {
+    console.error("Failed to embed retrieval query", error);
+  }
+
+  return formatPassageContext(rankPassages(passages, trimmed, queryVector, model));
+};
+
+// Mirrors runOfficerSingleReply in src/App.tsx so both executors prompt agents identically.
+const requestOfficerReply = async (
+  context: RunContext,
+  memberId: string,
+  prompt: string,
+  dialogueSummary = "",
+  options: { withAttachments?: boolean } = {},
+) => {
+  const member = findRunMember(context, memberId);
+  if (!member) {
+    return "역할 정보를 찾지 못했습니다.";
+  }
+
+  const attachments = options.withAttachments ? context.run.attachments || [] : [];
+  const attachmentContext = options.withAttachments
+    ? await runAttachmentContext(context, prompt)
+    : { text: "", images: [] as InlineImage[] };
+  const threadContext = await runThreadContext(context, prompt);
+
+  const devSyncInstruction =
+    memberId === "DEV-TAN"
+      ? [
+          "DEV-TAN 추가 의무:",
+          `- GitHub 소스와 현재 배포 버전(${DEPLOYED_APP_URL}) 정합성 점검`,
+          "- 불일치 발견 시 재배포 체크리스트와 즉시 조치안 보고",
+        ].join("\n")
+      : "";
+  const scheduleFeedback = memberId === "PM-TAN" ? await loadScheduleFeedback(context) : [];
+
+  const reply = await requestRunText(context, memberId, {
+    instructions: member.identityPrompt,
+    input: [
+      `CEO 메시지: ${prompt}`,
+      "대상: CEO-HOBBY",
+      `첨부 파일: ${
+        attachments.length > 0
+          ? attachments.map((asset) => `${asset.name} (${asset.mimeType}, ${asset.size} bytes)`).join("\n")
+          : "없음"
+      }`,
+      attachmentContext.text ? `첨부 내용(발췌):\n${attachmentContext.text}` : "",
+      threadContext
+        ? [
+            `스레드 자료(검색 결과):\n${threadContext}`,
+            "자료를 근거로 답한 문장 끝에는 [출처 n]을 붙이고, 자료에 없는 과거 사실은 추측하지 말고 찾지 못했다고 답하라.",
+          ].join("\n")
+        : "",
+      `이전 대화 요약: ${dialogueSummary || "없음"}`,
+      devSyncInstruction,
+      formatScheduleFeedback(scheduleFeedback),
+      "형식: 핵심 요약 1문단 + 액션 3개 + 리스크/대응 1개 + 보고 문장 1개",
+      "중요: 대화용 답변이므로 마크다운 문법(#,*,``` 등)을 과도하게 사용하지 말고 일반 문장/번호 텍스트로 작성하라.",
+    ].join("\n\n"),
+    images: attachmentContext.images.length > 0 ? attachmentContext.images : undefined,
+    maxOutputTokens: 750,
+    useWebSearch: memberId === "RESEARCHER-TAN",
+  });
+  await acknowledgeScheduleFeedback(context, scheduleFeedback);
+  return reply;
+};
+
+const resolveRunParticipants = (context: RunContext) => {
+  const rosterIds = new Set((context.run.roster || []).map((member) => member.id));
+  const participants = Array.from(
+    new Set(
+      (context.run.brainstorm?.participants || [])
+        .map((item) => item.toUpperCase())
+        .filter((memberId) => memberId !== "CEO-HOBBY" && rosterIds.has(memberId)),
+    ),
+  );
+  return participants.length > 0
+    ? participants
+    : (context.run.defaultTeam || []).filter((memberId) => rosterIds.has(memberId));
+};
+
+const buildManagementContext = (plan: { poPlan: string; pmPlan: string }) =>
+  ["[PO-TAN 업무 배정]", plan.poPlan, "", "[PM-TAN 일정 관리]", plan.pmPlan].join("\n");
+
+const runGovernanceStep = async (context: RunContext, phase: RunPhase, auditContext: string) => {
+  for (const checker of ["LEGAL-TAN", "HR-TAN"] as const) {
+    try {
+      const reply = await requestOfficerReply(
+        context,
+        checker,
+        `다음 실행 맥락이 HOBBYTAN 헌법(법/규정 준수, 역할 충돌 금지, 개인정보/보안 보호)을 위반하는지 감사: ${auditContext}`,
+      );
+      const status = GOVERNANCE_WARNING_PATTERN.test(reply) ? "warning" : "ok";
+      await pushRunEvent(context, { kind: "governance", source: checker, status, message: reply });
+      await logRun(context, phase, `${checker} 감시 보고 (${status})`);
+    } catch (error) {
+      if (error instanceof RunInterruptedError) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : "감시 실패";
+      await pushRunEvent(context, { kind: "governance", source: checker, status: "warning", message });
+      await logRun(context, phase, `${checker} 감시 실패: ${message}`);
+    }
+  }
+};
+
+const runBrainstormStep = async (context: RunContext): Promise<RunStepResult> => {
+  await logRun(context, "brainstorming", `CEO 지시 접수: ${context.task}`);
+
+  const roster = (context.run.roster || [])
+    .filter((member) => member.id !== "CEO-HOBBY")
+    .map((member) => `${member.id}: ${member.identityPrompt}`)
+    .join("\n");
+  const attachmentContext = await runAttachmentContext(context, context.task);
+  const text = await requestRunText(context, "ATTENDANT-TAN", {
+    instructions: "당신은 HOBBYTAN Council 조정자다. 반드시 JSON 객체만 응답하라. 코드블록 금지.",
+    input: [
+      `CEO 지시: ${context.task}`,
+      attachmentContext.text ? `\n첨부 내용(발췌):\n${attachmentContext.text}` : "",
+      "\n참여 가능한 구성원/정체성:",
+      roster,
+      "\n반환 형식:",
+      '{"strategy":"문장","participants":["PO-TAN"],"handoff":"문장"}',
+    ].join("\n"),
+    images: attachmentContext.images.length > 0 ? attachmentContext.images : undefined,
+    maxOutputTokens: 700,
+  });
+
+  const parsed = parseJsonObject(text);
+  const brainstorm = parsed
+    ? {
+        strategy:
+          typeof parsed.strategy === "string" && parsed.strategy.trim()
+            ? parsed.strategy.trim()
+            : "전략 초안이 생성되었지만 요약이 비어 있어 기본 플랜을 사용합니다.",
+        participants: Array.isArray(parsed.participants)
+          ? parsed.participants.map((item) => String(item).trim()).filter(Boolean)
+          : context.run.defaultTeam || [],
+        handoff:
+          typeof parsed.handoff === "string" && parsed.handoff.trim()
+            ? parsed.handoff.trim()
+            : "협업실 논의 종료 후 CEO에게 최종 리포트 전달",
+      }
+    : {
+        strategy: text,
+        participants: context.run.defaultTeam || [],
+        handoff: "협업실 세션 후 담당자가 CEO에게 보고",
+      };
+
+  await pushRunEvent(context, {
+    kind: "meeting",
+    sessionId: `brain-${Date.now()}`,
+    room: "brainstorming",
+    speakerId: "ATTENDANT-TAN",
+    speakerName: "ATTENDANT-TAN",
+    text: brainstorm.strategy,
+  });
+  await logRun(context, "brainstorming", `전략 수립 완료: ${brainstorm.strategy}`);
+  return { phase: "brainstorming", checkpoint: { brainstorm }, done: false };
+};
+
+const runManagementStep = async (context: RunContext): Promise<RunStepResult> => {
+  const strategy = context.run.brainstorm?.strategy || "";
+  const participants = resolveRunParticipants(context);
+  await logRun(
+    context,
+    "collaboration",
+    `${participants.length}명이 협업회의실로 이동해 실행안을 구체화합니다.`,
+  );
+
+  const attachmentContext = await runAttachmentContext(context, context.task);
+  const poPlan = await requestRunText(context, "PO-TAN", {
+    instructions:
+      findRunMember(context, "PO-TAN")?.identityPrompt ||
+      "당신은 PO-TAN이다. 우선순위 기준으로 업무를 배정한다.",
+    input: [
+      `CEO 지시: ${context.task}`,
+      `브레인스토밍 전략: ${strategy}`,
+      `협업 참여자: ${participants.join(", ")}`,
+      attachmentContext.text ? `첨부 내용(발췌):\n${attachmentContext.text}` : "",
+      "역할: 참여자별 업무 배정 + 우선순위 + 승인기준을 제시하라.",
+      "목표 정합성: 각 배정 항목이 기여하는 목표(P1..Pn)를 표기하고, 우선순위가 목표 순위와 다르면 근거를 밝혀라. 어떤 목표에도 기여하지 않는 항목은 보류로 분류하라.",
+      "형식: 담당자별 항목을 포함한 간결한 실행 지시문 + 마지막에 '목표 대비 우선순위 점검' 항목",
+    ].join("\n\n"),
+    maxOutputTokens: 700,
+  });
+  await pushRunEvent(context, {
+    kind: "meeting",
+    sessionId: `manage-${Date.now()}`,
+    room: "collaboration",
+    speakerId: "PO-TAN",
+    speakerName: "PO-TAN",
+    text: poPlan,
+  });
+  await pushRunEvent(context, { kind: "plan", memberId: "PO-TAN", plan: poPlan, source: "management" });
+  await upsertRunActionPlan(context, "PO-TAN", poPlan, "management");
+
+  const scheduleFeedback = await loadScheduleFeedback(context);
+  const pmPlan = await requestRunText(context, "PM-TAN", {
+    instructions:
+      findRunMember(context, "PM-TAN")?.identityPrompt ||
+      "당신은 PM-TAN이다. 일정과 병목을 관리한다.",
+    input: [
+      `CEO 지시: ${context.task}`,
+      `브레인스토밍 전략: ${strategy}`,
+      `PO 배정안: ${poPlan}`,
+      formatScheduleFeedback(scheduleFeedback),
+      "역할: 담당자별 일정/WBS, 의존성, 완료 조건, 리스크 완화 순서를 명시하라.",
+      `일정 형식: WBS 항목마다 담당자, 마감일(YYYY-MM-DD, 오늘 ${new Date().toISOString().slice(0, 10)} 기준), 예상 공수(일), 선행 항목을 붙여라.`,
+    ].join("\n\n"),
+    maxOutputTokens: 700,
+  });
+  await acknowledgeScheduleFeedback(context, scheduleFeedback);
+  await pushRunEvent(context, {
+    kind: "meeting",
+    sessionId: `manage-${Date.now()}-pm`,
+    room: "collaboration",
+    speakerId: "PM-TAN",
+    speakerName: "PM-TAN",
+    text: pmPlan,
+  });
+  await pushRunEvent(context, { kind: "plan", memberId: "PM-TAN", plan: pmPlan, source: "management" });
+  await upsertRunActionPlan(context, "PM-TAN", pmPlan, "management");
+  await logRun(context, "collaboration", "PO-TAN/PM-TAN 업무 배정 및 일정 관리안 확정");
+
+  return { phase: "collaboration", checkpoint: { managementPlan: { poPlan, pmPlan } }, done: false };
+};
+
+// Server side of the browser's batched memory extraction in src/App.tsx: one model call per
+// collaboration step, on the first speaker's runtime. Failures only cost the memory, never the run.
+const rememberRunTurns = async (context: RunContext, turns: MemoryTurn[]) => {
+  const usable = turns.filter((turn) => turn.text.trim() && !turn.text.startsWith("호출 실패"));
+  if (usable.length === 0) {
+    return;
+  }
+
+  let extracted: ExtractedMemory[] = [];
+  try {
+    const text = await requestRunText(context, usable[0].memberId, {
+      ...buildMemoryExtractionRequest(usable),
+      maxOutputTokens: 600,
+    });
+    extracted = parseMemoryExtraction(text, usable);
+  } catch (error) {
+    if (error instanceof RunInterruptedError) {
+      throw error;
+    }
+    console.error("Memory extraction failed", error);
+  }
+  if (extracted.length === 0) {
+    extracted = usable.flatMap(extractMemoryHeuristically);
+  }
+
+  const collection = admin.firestore().collection(`users/${context.uid}/agentMemories`);
+  for (const item of extracted) {
+    const duplicate = await collection
+      .where("memberId", "==", item.memberId)
+      .where("text", "==", item.text)
+      .limit(1)
+      .get();
+    if (duplicate.empty) {
+      await collection.add({
+        ...item,
+        threadId: context.threadId,
+        pinned: false,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+  }
+};
+
+const runCollaborationStep = async (context: RunContext): Promise<RunStepResult> => {
+  const strategy = context.run.brainstorm?.strategy || "";
+  const managementContext = context.run.managementPlan
+    ? buildManagementContext(context.run.managementPlan)
+    : "";
+  const sessionId = `collab-${Date.now()}`;
+  const notes: RunNote[] = [];
+  const transcript: RunMeetingTurn[] = [];
+  const dialogue: Array<{ speakerId: string; text: string }> = [];
+
+  for (const memberId of resolveRunParticipants(context).slice(0, 8)) {
+    const member = findRunMember(context, memberId);
+    if (!member) {
+      continue;
+    }
+
+    let note = "";
+    try {
+      const attachmentContext = await runAttachmentContext(context, `${context.task}\n${member.role}`);
+      note = await requestRunText(context, memberId, {
+        instructions: member.identityPrompt,
+        messages: toRunMessages(dialogue, memberId),
+        input: [
+          `CEO 지시: ${context.task}`,
+          `브레인스토밍 전략: ${strategy}`,
+          `PO/PM 관리 배정안: ${managementContext || "없음"}`,
+          attachmentContext.text ? `첨부 내용(발췌):\n${attachmentContext.text}` : "",
+          context.run.memories?.[memberId] || "",
+          dialogue.length > 0
+            ? "앞선 대화는 회의 발언 기록이다. 먼저 말한 에이전트의 발언을 반드시 반영할 것."
+            : "아직 발언 없음. 당신이 첫 발언자다.",
+          "당신 차례: 앞선 발언을 이어받아 액션 2개 + 리스크/대응 1개 + 다음 담당자에게 넘길 한 줄을 제시하라.",
+          "중요: 회의 대화록이므로 마크다운 기호(#,*,``` 등)를 과도하게 쓰지 말고 일반 문장으로 작성하라.",
+        ].join("\n\n"),
+        images: attachmentContext.images.length > 0 ? attachmentContext.images : undefined,
+        maxOutputTokens: 700,
+        useWebSearch: memberId === "RESEARCHER-TAN",
+      });
+    } catch (error) {
+      if (error instanceof RunInterruptedError) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : "협업 노트 생성 중 알 수 없는 오류";
+      note = `호출 실패로 기본 제안 사용: ${message}`;
+    }
+
+    notes.push({ memberId, note });
+    transcript.push({
+      id: randomUUID(),
+      threadId: context.threadId,
+      sessionId,
+      room: "collaboration",
+      speakerId: member.id,
+      speakerName: member.displayName,
+      text: note,
+      createdAt: new Date().toISOString(),
+      source: "workflow",
+    });
+    dialogue.push({ speakerId: member.id, text: note });
+
+    await pushRunEvent(context, {
+      kind: "meeting",
+      sessionId,
+      room: "collaboration",
+      speakerId: member.id,
+      speakerName: member.displayName,
+      text: note,
+    });
+    await pushRunEvent(context, { kind: "plan", memberId, plan: note, source: "workflow" });
+    await upsertRunActionPlan(context, memberId, note, "workflow");
+    await logRun(context, "collaboration", `${member.id} 발언 공유 완료`);
+  }
+
+  await rememberRunTurns(context, notes.map(({ memberId, note }) => ({ memberId, text: note })));
+
+  await logRun(
+    context,
+    "collaboration",
+    `회의 로그 기록 완료: 세션 ${sessionId}, 발언 ${transcript.length}건`,
+  );
+  return {
+    phase: "collaboration",
+    checkpoint: { collaborationSession: { sessionId, notes, transcript } },
+    done: false,
+  };
+};
+
+// Server side of compactThreadContext in src/App.tsx. The result reaches the Meetings tab as a "summary" event.
+const compactRunContext = async (context: RunContext, foldedText: string, foldedTurns: number) => {
+  const previous = context.run.threadSummary;
+  let text = "";
+  try {
+    text = await requestRunText(context, "ATTENDANT-TAN", {
+      ...buildSummaryRequest(previous, foldedText),
+      maxOutputTokens: 900,
+    });
+  } catch (error) {
+    if (error instanceof RunInterruptedError) {
+      throw error;
+    }
+    text = [previous?.narrative || "", foldedText.slice(0, 600)].filter(Boolean).join("\n");
+  }
+
+  // Everything the run logged so far is folded, so the Meetings tab stops counting it as pending.
+  const summary = parseSummaryResponse(text, previous, {
+    threadId: context.threadId,
+    foldedTurns,
+    coveredUntil: new Date().toISOString(),
+  });
+  context.run.threadSummary = summary;
+
+  await pushRunEvent(context, { kind: "summary", summary });
+  await logRun(
+    context,
+    "execution",
+    `스레드 맥락 압축: ${foldedTurns}건 → 요약 약 ${summary.tokenEstimate} 토큰`,
+  );
+  return formatThreadSummary(summary);
+};
+
+// Server side of upsertActionPlan in src/App.tsx: each plan statement is extracted into tasks by PM-TAN
+// and merged into users/{uid}/actionPlans/{planId}, with the statement kept in its history subcollection.
+// The "plan" event is still pushed for the run log.
+const upsertRunActionPlan = async (
+  context: RunContext,
+  memberId: string,
+  plan: string,
+  source: "workflow" | "management",
+) => {
+  const text = plan.trim();
+  if (!text) {
+    return;
+  }
+
+  const id = `plan-${context.threadId}-${memberId}`;
+  const planRef = admin.firestore().doc(`users/${context.uid}/actionPlans/${id}`);
+  const readTasks = (snapshot: admin.firestore.DocumentSnapshot) =>
+    (Array.isArray(snapshot.get("tasks")) ? (snapshot.get("tasks") as unknown[]) : [])
+      .map(parsePlanTask)
+      .filter((task): task is PlanTask => task !== null);
+
+  const seen = readTasks(await planRef.get());
+
+  let drafts: PlanTaskDraft[];
+  try {
+    const responseText = await requestRunText(context, "PM-TAN", {
+      ...buildPlanExtractionRequest(memberId, text, seen, new Date().toISOString().slice(0, 10)),
+      maxOutputTokens: 1200,
+    });
+    drafts = parsePlanTaskDrafts(responseText) || extractPlanTasksHeuristically(text);
+  } catch (error) {
+    if (error instanceof RunInterruptedError) {
+      throw error;
+    }
+    drafts = extractPlanTasksHeuristically(text);
+  }
+
+  // The browser or a parallel turn may have merged into the plan during the PM-TAN call, so the
+  // drafts are merged into the stored tasks inside the transaction that writes them.
+  await admin.firestore().runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(planRef);
+    const now = new Date().toISOString();
+    const { tasks, changes } = mergePlanTasks(readTasks(snapshot), drafts, memberId, now);
+    transaction.set(
+      planRef,
+      {
+        threadId: context.threadId,
+        memberId,
+        memberName: findRunMember(context, memberId)?.displayName || memberId,
+        plan: text,
+        tasks,
+        source,
+        updatedAt: now,
+        ...(snapshot.exists ? {} : { createdAt: now }),
+      },
+      { merge: true },
+    );
+    transaction.set(planRef.collection("history").doc(), {
+      planId: id,
+      threadId: context.threadId,
+      memberId,
+      source,
+      text,
+      replacesPlan: true,
+      changes,
+      createdAt: now,
+    });
+  });
+};
+
+// Plan board edits the CEO made since PM-TAN last spoke (thread field `scheduleFeedback`). Only the
+// lines PM-TAN saw are removed, after its reply succeeds, as in the browser's PM-TAN turns.
+const loadScheduleFeedback = async (context: RunContext) => {
+  const snapshot = await admin.firestore().doc(`users/${context.uid}/threads/${context.threadId}`).get();
+  const lines = snapshot.get("scheduleFeedback") as unknown;
+  return Array.isArray(lines) ? lines.filter((line): line is string => typeof line === "string") : [];
+};
+
+const acknowledgeScheduleFeedback = async (context: RunContext, lines: string[]) => {
+  if (lines.length === 0) {
+    return;
+  }
+  await admin
+    .firestore()
+    .doc(`users/${context.uid}/threads/${context.threadId}`)
+    .set({ scheduleFeedback: admin.firestore.FieldValue.arrayRemove(...lines) }, { merge: true });
+};
+
+// One round per invocation; the rolling state between rounds lives in `autonomousProgress`.
+const runAutonomousStep = async (context: RunContext): Promise<RunStepResult> => {
+  const strategy = context.run.brainstorm?.strategy || "";
+  const participants = resolveRunParticipants(context);
+  const rounds = Math.min(
+    MAX_AUTONOMOUS_ROUNDS,
+    Math.max(0, Math.floor(Number(context.run.autonomousRounds ?? 1))),
+  );
+  const collaborationNotes = context.run.collaborationSession?.notes || [];
+  const progress: RunAutonomousProgress = context.run.autonomousProgress || {
+    round: 0,
+    notes: [],
+    digestBlocks: [],
+    rollingSummary: context.run.threadSummary ? formatThreadSummary(context.run.threadSummary) : "",
+    rollingContext: [
+      context.run.managementPlan ? buildManagementContext(context.run.managementPlan) : "",
+      ...collaborationNotes.map((item) => `${item.memberId}: ${item.note}`),
+    ].join("\n\n"),
+    rollingTurns: collaborationNotes.length + (context.run.managementPlan ? 1 : 0),
+  };
+  const { notes, digestBlocks } = progress;
+  let { rollingSummary, rollingContext, rollingTurns } = progress;
+  const round = progress.round + 1;
+
+  if (round <= rounds && participants.length > 0) {
+    await logRun(context, "execution", `자기개선 라운드 ${round} 시작 (병렬 실행)`);
+
+    const results = await Promise.all(
+      participants.map(async (memberId) => {
+        try {
+          const reply = await requestOfficerReply(
+            context,
+            memberId,
+            [
+              `[자기개선 라운드 ${round}]`,
+              `CEO 지시: ${context.task}`,
+              `기준 전략: ${strategy}`,
+              "당신 담당 액션플랜을 실제 실행한다고 가정하고, 실행 로그/산출물/다음 단계/차단 이슈를 상세히 작성하라.",
+              "중요: 마크다운 기호를 과도하게 사용하지 말고 일반 텍스트 위주로 작성하라.",
+            ].join("\n"),
+            [rollingSummary, rollingContext].filter(Boolean).join("\n\n"),
+            { withAttachments: true },
+          );
+          return { memberId, reply };
+        } catch (error) {
+          if (error instanceof RunInterruptedError) {
+            throw error;
+          }
+          const message = error instanceof Error ? error.message : "병렬 실행 응답 실패";
+          return { memberId, reply: `응답 실패: ${message}` };
+        }
+      }),
+    );
+
+    for (const item of results) {
+      notes.push({ memberId: item.memberId, note: item.reply });
+      await pushRunEvent(context, {
+        kind: "meeting",
+        sessionId: `autonomous-${round}-${Date.now()}`,
+        room: "collaboration",
+        speakerId: item.memberId,
+        speakerName: findRunMember(context, item.memberId)?.displayName || item.memberId,
+        text: `[자기개선 라운드 ${round}] ${item.reply}`,
+      });
+      await pushRunEvent(context, {
+        kind: "plan",
+        memberId: item.memberId,
+        plan: item.reply,
+        source: "workflow",
+      });
+      await upsertRunActionPlan(context, item.memberId, item.reply, "workflow");
+    }
+
+    const roundTranscript = results.map((item) => `${item.memberId}: ${item.reply}`).join("\n\n");
+    const hostSummary = await requestOfficerReply(
+      context,
+      "HOST-TAN",
+      `자기개선 라운드 ${round}의 병렬 실행 결과를 운영 관점에서 정리하고 다음 액션을 지시하라.`,
+      roundTranscript,
+    );
+    const poSummary = await requestOfficerReply(
+      context,
+      "PO-TAN",
+      `자기개선 라운드 ${round} 결과를 우선순위/가치 기준으로 재정렬하고, 목표(P1..Pn) 순위와 어긋나는 항목을 지적해 다음 액션을 지시하라.`,
+      roundTranscript,
+    );
+    const pmSummary = await requestOfficerReply(
+      context,
+      "PM-TAN",
+      `자기개선 라운드 ${round} 결과를 일정/의존성/WBS 관점에서 재정렬해 다음 액션을 지시하라.`,
+      roundTranscript,
+    );
+    const attendantSummary = await requestOfficerReply(
+      context,
+      "ATTENDANT-TAN",
+      `자기개선 라운드 ${round} 결과를 통합하여 다음 실행 순서를 결정하라.`,
+      [roundTranscript, hostSummary, poSummary, pmSummary].join("\n\n"),
+    );
+
+    const synthesis = [
+      `HOST-TAN: ${hostSummary}`,
+      `PO-TAN: ${poSummary}`,
+      `PM-TAN: ${pmSummary}`,
+      `ATTENDANT-TAN: ${attendantSummary}`,
+    ].join("\n\n");
+
+    await pushRunEvent(context, {
+      kind: "meeting",
+      sessionId: `autonomous-summary-${round}-${Date.now()}`,
+      room: "collaboration",
+      speakerId: "ATTENDANT-TAN",
+      speakerName: "ATTENDANT-TAN",
+      text: `[라운드 ${round} 통합 요약]\n${synthesis}`,
+    });
+
+    digestBlocks.push(
+      [
+        `## 자기개선 라운드 ${round}`,
+        "",
+        "### 병렬 실행 로그",
+        roundTranscript || "- 없음",
+        "",
+        "### 운영 통합 요약",
+        synthesis,
+      ].join("\n"),
+    );
+
+    rollingContext = [rollingContext, roundTranscript, synthesis].join("\n\n");
+    rollingTurns += results.length + 4;
+    if (estimateTokens(`${rollingSummary}\n\n${rollingContext}`) > THREAD_CONTEXT_TOKEN_BUDGET) {
+      rollingSummary = await compactRunContext(context, rollingContext, rollingTurns);
+      rollingContext = "";
+      rollingTurns = 0;
+    }
+    await logRun(context, "execution", `자기개선 라운드 ${round} 완료`);
+    await runGovernanceStep(
+      context,
+      "execution",
+      `자기개선 라운드 ${round} 점검\n${[rollingSummary, rollingContext].filter(Boolean).join("\n\n")}`,
+    );
+
+    if (round < rounds) {
+      return {
+        phase: "execution",
+        checkpoint: {
+          autonomousProgress: {
+            round,
+            notes,
+            digestBlocks,
+            rollingSummary,
+            rollingContext,
+            rollingTurns,
+          },
+        },
+        done: false,
+      };
+    }
+  }
+
+  return {
+    phase: "execution",
+    checkpoint: {
+      autonomousProgress: null,
+      autonomousResult: { notes, digest: digestBlocks.join("\n\n") },
+    },
+    done: false,
+  };
+};
+
+// Same layout as uploadTextAsset in the client, so reports open in the existing preview.
+const saveRunTextAsset = async (uid: string, content: string, filename: string): Promise<RunAsset> => {
+  const bucket = admin.storage().bucket();
+  const path = `hobbytan-office/${uid}/reports/${Date.now()}-${filename}`;
+  const token = randomUUID();
+  const body = `\uFEFF${content}`;
+  const mimeType = "text/markdown; charset=utf-8";
+
+  await bucket.file(path).save(body, {
+    contentType: mimeType,
+    metadata: { metadata: { firebaseStorageDownloadTokens: token } },
+  });
+
+  return {
+    id: randomUUID(),
+    name: filename,
+    url: `https://firebasestorage.googleapis.com/v0/b/${bucket.name}/o/${encodeURIComponent(path)}?alt=media&token=${token}`,
+    mimeType,
+    size: Buffer.byteLength(body),
+    uploadedAt: new Date().toISOString(),
+    source: "cloud",
+    path,
+  };
+};
+
+const runReportStep = async (context: RunContext): Promise<RunStepResult> => {
+  const { run } = context;
+  const strategy = run.brainstorm?.strategy || "";
+  const participants = resolveRunParticipants(context);
+  const managementPlan = run.managementPlan || { poPlan: "", pmPlan: "" };
+  const collaborationSession = run.collaborationSession || {
+    sessionId: "",
+    notes: [],
+    transcript: [],
+  };
+  const notes = [...collaborationSession.notes, ...(run.autonomousResult?.notes || [])];
+  const memberName = (memberId: string) => findRunMember(context, memberId)?.displayName || memberId;
+
+  // Charged before the report is written; a retried report step of the same run is not charged again.
+  const quota = await consumeReportQuota(context.uid, context.runId);
+  if (!quota.consumed) {
+    throw new Error(`Free report quota exhausted (${quota.usage.usedReports}/${quota.usage.limit}).`);
+  }
+
+  await logRun(context, "reporting", "협업 결과를 기반으로 최종 보고서를 작성합니다.");
+
+  const joinedNotes = notes.map((item) => `${item.memberId}: ${item.note}`).join("\n\n");
+  const joinedPlans = [
+    { memberId: "PO-TAN", plan: managementPlan.poPlan },
+    { memberId: "PM-TAN", plan: managementPlan.pmPlan },
+    ...notes.map((item) => ({ memberId: item.memberId, plan: item.note })),
+  ]
+    .map((item, index) => `${index + 1}. ${item.memberId} (${memberName(item.memberId)})\n${item.plan}`)
+    .join("\n\n");
+  const improvementBlock = run.autonomousResult?.digest.trim() || "자기개선 라운드 로그 없음";
+
+  let reportText = await requestRunText(context, "ATTENDANT-TAN", {
+    instructions:
+      "당신은 ATTENDANT-TAN이다. 대표에게 올리는 상세 경영 실행보고서를 작성한다. 절대 요약형으로 끝내지 말고, 실제 실행/개발/배포까지 이어질 수준으로 상세하게 작성한다. 문서 길이는 충분히 길고(최소 2,500자 이상) 실무지시가 바로 가능한 수준이어야 한다.",
+    input: [
+      `CEO 지시: ${context.task}`,
+      `브레인스토밍 전략: ${strategy}`,
+      "협업실 산출물:",
+      joinedNotes,
+      "TAN별 액션플랜:",
+      joinedPlans || "없음",
+      "자기개선 라운드 로그:",
+      improvementBlock,
+      "응답 형식:",
+      "1) 경영 요약(3~5문단, 숫자 근거 포함)",
+      "2) TAN별 상세 액션플랜(담당/산출물/완료조건/예상소요/선행의존성/대체경로)",
+      "3) 병렬 실행 로그 요약(누가 무엇을 병렬 수행했는지)",
+      "4) 개발 실행안(기능 구현 범위, 테스트 계획, 품질 게이트, 코드/배포 연계)",
+      "5) 배포 실행안(환경/체크리스트/롤백/모니터링/알림 규칙)",
+      "6) 리스크/법무/HR 감시 포인트",
+      "7) CEO 승인 필요 항목",
+      "8) 승인 직후 다음 플로우(오늘/내일/이번주 액션 + 책임자)",
+    ].join("\n\n"),
+    maxOutputTokens: 2400,
+  });
+
+  if (reportText.length < 2000) {
+    reportText = await requestRunText(context, "ATTENDANT-TAN", {
+      instructions:
+        "당신은 ATTENDANT-TAN이다. 아래 초안 보고서를 2배 이상 상세화하라. 누락된 실행 단계를 채우고 실제 개발/배포/검증 흐름으로 확장하라.",
+      input: [
+        "초안 보고서:",
+        reportText,
+        "",
+        "확장 지시:",
+        "- 길이: 최소 2,500자",
+        "- TAN별 액션플랜은 담당/완료조건/다음 단계 포함",
+        "- 마지막에 CEO 승인 체크리스트를 명확히 제시",
+      ].join("\n"),
+      maxOutputTokens: 3000,
+    });
+  }
+
+  // The report is final from here on; pause/cancel no longer apply to this run.
+  await assertRunActive(context);
+
+  const assets: RunAsset[] = [];
+  try {
+    const reportAsset = await saveRunTextAsset(context.uid, reportText, `ceo-report-${Date.now()}.md`);
+    assets.push(reportAsset);
+    await indexRunTextAsset(context, reportAsset, reportText, "report");
+  } catch (error) {
+    console.error("Failed to store report document", error);
+  }
+
+  if (collaborationSession.transcript.length > 0) {
+    try {
+      const transcriptBody = collaborationSession.transcript
+        .map((turn) => `- [${turn.createdAt}] ${turn.speakerId}: ${turn.text}`)
+        .join("\n\n");
+      const meetingLog = [
+        "# 회의 로그",
+        `- Session: ${collaborationSession.sessionId}`,
+        `- Task: ${context.task}`,
+        `- Strategy: ${strategy}`,
+        "",
+        transcriptBody,
+      ].join("\n");
+      const meetingLogAsset = await saveRunTextAsset(
+        context.uid,
+        meetingLog,
+        `meeting-log-${collaborationSession.sessionId}.md`,
+      );
+      assets.push(meetingLogAsset);
+      await indexRunTextAsset(context, meetingLogAsset, meetingLog, "meeting-log");
+    } catch (error) {
+      console.error("Failed to store meeting log", error);
+    }
+  }
+  assets.push(...(run.attachments || []));
+
+  const shortTitle = context.task.length > 42 ? `${context.task.slice(0, 42).trim()}...` : context.task;
+  const reportTitle = `[${new Date().toLocaleTimeString("ko-KR", {
+    hour12: false,
+    timeZone: "Asia/Seoul",
+  })}] ${shortTitle}`;
+  const userRef = admin.firestore().doc(`users/${context.uid}`);
+
+  await userRef.collection("ceoReports").add({
+    threadId: context.threadId,
+    title: reportTitle,
+    body: reportText,
+    participants,
+    assets,
+    personas: ["ATTENDANT-TAN", ...participants]
+      .map((memberId) => runPersonaStamp(context, memberId))
+      .filter((persona): persona is RunPersona => !!persona),
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  const reporterPersona = runPersonaStamp(context, "ATTENDANT-TAN");
+  await userRef.collection("officeMessages").add({
+    threadId: context.threadId,
+    senderId: "ATTENDANT-TAN",
+    senderName: "ATTENDANT-TAN",
+    senderRole: findRunMember(context, "ATTENDANT-TAN")?.role || "DEO / Executive Attendant",
+    kind: "report",
+    text: reportText,
+    targetIds: ["CEO-HOBBY"],
+    attachments: assets,
+    ...(reporterPersona ? { persona: reporterPersona } : {}),
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  // Governance still runs after the report; a pause here only skips the audit.
+  await runGovernanceStep(
+    context,
+    "reporting",
+    `워크플로우 최종 보고: ${context.task}\n전략: ${strategy}\n참여자: ${participants.join(", ")}`,
+  ).catch((error) => {
+    if (!(error instanceof RunInterruptedError)) {
+      throw error;
+    }
+  });
+  await logRun(context, "reporting", `CEO 좌석으로 보고 전달 완료. 참여자: ${participants.join(", ")}`);
+
+  return { phase: "idle", checkpoint: { reportTitle }, done: true };
+};
+
+const runNextWorkflowStep = (context: RunContext) => {
+  const { run } = context;
+  if (!run.brainstorm) {
+    return { phase: "brainstorming" as const, execute: runBrainstormStep };
+  }
+  if (!run.managementPlan) {
+    return { phase: "collaboration" as const, execute: runManagementStep };
+  }
+  if (!run.collaborationSession) {
+    return { phase: "collaboration" as const, execute: runCollaborationStep };
+  }
+  if (!run.autonomousResult) {
+    return { phase: "execution" as const, execute: runAutonomousStep };
+  }
+  return { phase: "reporting" as const, execute: runReportStep };
+};
+
+const settleWorkflowRun = async (
+  context: RunContext,
+  update: Record<string, unknown>,
+  nextStatus: "queued" | "completed" | "failed",
+) => {
+  await admin.firestore().runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(context.ref);
+    // A re-claimed run belongs to the newer invocation; this one's result is dropped.
+    if (snapshot.get("leaseOwner") !== context.leaseOwner) {
+      return;
+    }
+    const control = snapshot.get("control");
+    const status =
+      nextStatus !== "queued"
+        ? nextStatus
+        : control === "cancel"
+          ? "cancelled"
+          : control === "pause"
+            ? "paused"
+            : "queued";
+    transaction.update(context.ref, {
+      ...update,
+      status,
+      control: null,
+      leaseOwner: admin.firestore.FieldValue.delete(),
+      leaseUntil: admin.firestore.FieldValue.delete(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+};
+
+export const workflowRunner = onDocumentWritten(
+  {
+    document: "users/{uid}/workflowRuns/{runId}",
+    region: "us-central1",
+    timeoutSeconds: 540,
+    memory: "1GiB",
+    secrets: [OPENAI_API_KEY, ANTHROPIC_API_KEY, XAI_API_KEY, GEMINI_API_KEY],
+  },
+  async (event) => {
+    const after = event.data?.after;
+    const run = after?.data() as WorkflowRunDoc | undefined;
+    if (!after?.exists || !run || run.executor !== "server" || run.status !== "queued") {
+      return;
+    }
+
+    // Firestore delivers at least once; only the invocation that flips queued → running proceeds.
+    const claimed = await admin.firestore().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(after.ref);
+      if (snapshot.get("status") !== "queued") {
+        return false;
+      }
+      transaction.update(after.ref, {
+        status: "running",
+        leaseOwner: event.id,
+        leaseUntil: runLeaseUntil(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return true;
+    });
+    if (!claimed) {
+      return;
+    }
+
+    const context: RunContext = {
+      uid: event.params.uid,
+      runId: event.params.runId,
+      ref: after.ref,
+      leaseOwner: event.id,
+      run,
+      threadId: run.threadId || "thread-main",
+      task: String(run.task || "").trim(),
+    };
+    const step = runNextWorkflowStep(context);
+    const heartbeat = setInterval(() => {
+      void admin
+        .firestore()
+        .runTransaction(async (transaction) => {
+          const snapshot = await transaction.get(after.ref);
+          if (snapshot.get("leaseOwner") === context.leaseOwner && snapshot.get("status") === "running") {
+            transaction.update(after.ref, { leaseUntil: runLeaseUntil() });
+          }
+        })
+        .catch((error) => console.error("Failed to renew workflow lease", context.runId, error));
+    }, RUN_HEARTBEAT_MS);
+
+    try {
+      if (!context.task) {
+        throw new Error("task is required");
+      }
+
+      // Only a fresh run is turned away here; the report stage charges the quota itself.
+      if (!context.run.brainstorm) {
+        const usage = readUsageState((await usageDoc(context.uid).get()).data());
+        if (usage.exhausted) {
+          throw new Error(`Free report quota exhausted (${usage.usedReports}/${usage.limit}).`);
+        }
+      }
+
+      await after.ref.update({ phase: step.phase });
+      const result = await step.execute(context);
+      await settleWorkflowRun(
+        context,
+        { ...result.checkpoint, phase: result.phase, error: admin.firestore.FieldValue.delete() },
+        result.done ? "completed" : "queued",
+      );
+    } catch (error) {
+      if (error instanceof RunInterruptedError && error.control === "lost") {
+        console.warn("Workflow run re-claimed elsewhere", context.runId);
+        return;
+      }
+      if (error instanceof RunInterruptedError) {
+        const status = error.control === "pause" ? "paused" : "cancelled";
+        await logRun(
+          context,
+          step.phase,
+          status === "paused"
+            ? `워크플로우 일시정지: ${step.phase} 단계 중단. 재개하면 완료된 단계 이후부터 진행합니다.`
+            : "워크플로우 취소: 남은 단계와 보고서 생성을 중단했습니다.",
+        );
+        await after.ref.update({
+          status,
+          control: null,
+          leaseOwner: admin.firestore.FieldValue.delete(),
+          leaseUntil: admin.firestore.FieldValue.delete(),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        return;
+      }
+
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.error("Workflow run failed", context.runId, error);
+      await logRun(context, step.phase, `워크플로우 실패: ${message}`).catch(() => undefined);
+      await settleWorkflowRun(context, { error: message }, "failed");
+    } finally {
+      clearInterval(heartbeat);
+    }
+  },
+);
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { mergePlanTasks } from "./actionPlan";
+import type { PlanTask } from "./actionPlan";
+
+const NOW = "2026-07-01T09:00:00.000Z";
+
+const task = (patch: Partial<PlanTask> & Pick<PlanTask, "id" | "title">): PlanTask => ({
+  owner: "PM-TAN",
+  deliverable: "",
+  acceptanceCriteria: [],
+  dueDate: "",
+  status: "todo",
+  effortDays: null,
+  dependsOn: [],
+  updatedAt: "2026-06-01T00:00:00.000Z",
+  ...patch,
+});
+
+describe("mergePlanTasks", () => {
+  it("adds new tasks after the highest existing id", () => {
+    const { tasks, changes } = mergePlanTasks(
+      [task({ id: "T1", title: "요구사항 정리" }), task({ id: "T4", title: "QA" })],
+      [{ title: "배포" }],
+      "DEV-TAN",
+      NOW,
+    );
+
+    expect(tasks.map((item) => item.id)).toEqual(["T1", "T4", "T5"]);
+    expect(tasks[2]).toMatchObject({ title: "배포", owner: "DEV-TAN", status: "todo", updatedAt: NOW });
+    expect(changes).toEqual(["+ T5 배포"]);
+  });
+
+  it("updates a task matched by title and keeps the ones the draft leaves out", () => {
+    const existing = [task({ id: "T1", title: "요구사항 정리" }), task({ id: "T2", title: "API 설계" })];
+    const { tasks, changes } = mergePlanTasks(
+      existing,
+      [{ title: "api  설계", status: "in_progress", dueDate: "2026-07-10" }],
+      "PM-TAN",
+      NOW,
+    );
+
+    expect(tasks[0]).toEqual(existing[0]);
+    expect(tasks[1]).toMatchObject({ id: "T2", status: "in_progress", dueDate: "2026-07-10", updatedAt: NOW });
+    expect(changes).toEqual(["~ T2 제목 → api  설계, 상태 대기 → 진행, 마감 미정 → 2026-07-10"]);
+    expect(existing[1].status).toBe("todo");
+  });
+
+  it("leaves a task untouched when the draft restates it", () => {
+    const existing = [task({ id: "T1", title: "API 설계", status: "blocked" })];
+    const { tasks, changes } = mergePlanTasks(existing, [{ id: "T1", title: "API 설계" }], "PM-TAN", NOW);
+
+    expect(tasks).toEqual(existing);
+    expect(changes).toEqual([]);
+  });
+
+  it("resolves dependencies by id or title, including tasks introduced later in the drafts", () => {
+    const { tasks, changes } = mergePlanTasks(
+      [task({ id: "T1", title: "API 설계" })],
+      [
+        { title: "프론트 연동", dependsOn: ["T1", "백엔드 구현", "없는 작업"] },
+        { title: "백엔드 구현", dependsOn: ["T1", "T1"] },
+      ],
+      "DEV-TAN",
+      NOW,
+    );
+
+    expect(tasks.find((item) => item.title === "프론트 연동")?.dependsOn).toEqual(["T1", "T3"]);
+    expect(tasks.find((item) => item.title === "백엔드 구현")?.dependsOn).toEqual(["T1"]);
+    expect(changes).toEqual(["+ T2 프론트 연동", "+ T3 백엔드 구현", "~ T2 선행 +T1, T3", "~ T3 선행 +T1"]);
+  });
+});
@@ -0,0 +1,459 @@
+import { parseJsonObject } from "./json";
+
+// Structured action plans. Agents restate their plan in prose; each statement is turned into task
+// JSON and merged into the plan, never replacing it. Used by both the browser and the server executor.
+export type PlanTaskStatus = "todo" | "in_progress" | "blocked" | "done";
+
+export type PlanTask = {
+  // Short per-plan ids (T1, T2, ...) so agents can reference tasks in dependsOn.
+  id: string;
+  title: string;
+  owner: string;
+  deliverable: string;
+  acceptanceCriteria: string[];
+  // YYYY-MM-DD, or "" when nobody committed to a date yet.
+  dueDate: string;
+  status: PlanTaskStatus;
+  // Estimated person-days.
+  effortDays: number | null;
+  dependsOn: string[];
+  updatedAt: string;
+};
+
+export type PlanTaskDraft = Partial<Omit<PlanTask, "updatedAt">> & { title: string };
+
+export type PlanHistoryEntry = {
+  id: string;
+  planId: string;
+  threadId: string;
+  memberId: string;
+  source: string;
+  text: string;
+  // True when the statement restated the plan, so the entry is a revision of its prose.
+  replacesPlan: boolean;
+  changes: string[];
+  createdAt: string;
+};
+
+export const PLAN_TASK_STATUS_LABEL: Record<PlanTaskStatus, string> = {
+  todo: "대기",
+  in_progress: "진행",
+  blocked: "막힘",
+  done: "완료",
+};
+
+const MAX_PLAN_TASKS = 40;
+
+const toTitleKey = (title: string) => title.toLowerCase().replace(/\s+/g, " ").trim();
+
+const readStatus = (value: unknown): PlanTaskStatus | undefined =>
+  typeof value === "string" && Object.hasOwn(PLAN_TASK_STATUS_LABEL, value)
+    ? (value as PlanTaskStatus)
+    : undefined;
+
+const readDate = (value: unknown) =>
+  typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? value.trim() : undefined;
+
+const readEffort = (value: unknown) => {
+  const number = typeof value === "number" ? value : Number.parseFloat(String(value ?? ""));
+  return Number.isFinite(number) && number > 0 ? Math.round(number * 10) / 10 : undefined;
+};
+
+const readStrings = (value: unknown) =>
+  Array.isArray(value)
+    ? value.map((item) => (typeof item === "string" ? item.trim() : "")).filter(Boolean)
+    : [];
+
+export const formatPlanTasks = (tasks: PlanTask[]) =>
+  tasks
+    .map(
+      (task) =>
+        `${task.id} [${task.status}] ${task.title} (담당 ${task.owner}, 마감 ${task.dueDate || "미정"}, ${
+          task.effortDays ?? "?"
+        }일${task.dependsOn.length > 0 ? `, 선행 ${task.dependsOn.join("/")}` : ""})`,
+    )
+    .join("\n");
+
+export const buildPlanExtractionRequest = (
+  memberId: string,
+  text: string,
+  tasks: PlanTask[],
+  today: string,
+) => ({
+  instructions:
+    "당신은 발언을 실행 가능한 작업 목록으로 정리하는 PMO다. 반드시 JSON 객체만 응답하라. 코드블록 금지.",
+  input: [
+    `오늘: ${today}`,
+    `${memberId}의 현재 작업:`,
+    tasks.length > 0 ? formatPlanTasks(tasks) : "없음",
+    "",
+    `${memberId} 최신 발언:`,
+    text,
+    "",
+    "발언에서 약속한 작업만 추출하라. 기존 작업을 갱신하면 같은 id를, 새 작업은 id를 비워라.",
+    "언급하지 않은 기존 작업은 생략하라(삭제되지 않는다). 날짜는 YYYY-MM-DD, effortDays는 인일(person-day) 숫자.",
+    "status는 todo|in_progress|blocked|done, dependsOn은 선행 작업의 id 또는 제목 배열.",
+    '반환 형식: {"tasks":[{"id":"T1","title":"작업","owner":"DEV-TAN","deliverable":"산출물","acceptanceCriteria":["완료 조건"],"dueDate":"2026-01-31","status":"todo","effortDays":2,"dependsOn":[]}]}',
+  ].join("\n"),
+});
+
+export const parsePlanTaskDrafts = (text: string): PlanTaskDraft[] | null => {
+  const parsed = parseJsonObject(text);
+  if (!parsed || !Array.isArray(parsed.tasks)) {
+    return null;
+  }
+
+  return parsed.tasks
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === "object")
+    .filter((item) => typeof item.title === "string" && item.title.trim())
+    .slice(0, MAX_PLAN_TASKS)
+    .map((item) => ({
+      id: typeof item.id === "string" && item.id.trim() ? item.id.trim() : undefined,
+      title: String(item.title).trim().slice(0, 160),
+      owner: typeof item.owner === "string" && item.owner.trim() ? item.owner.trim() : undefined,
+      deliverable: typeof item.deliverable === "string" ? item.deliverable.trim() : undefined,
+      acceptanceCriteria: readStrings(item.acceptanceCriteria).slice(0, 8),
+      dueDate: readDate(item.dueDate),
+      status: readStatus(item.status),
+      effortDays: readEffort(item.effortDays),
+      dependsOn: readStrings(item.dependsOn),
+    }));
+};
+
+// Without usable JSON, numbered or bulleted lines become todo tasks so the plan still grows.
+export const extractPlanTasksHeuristically = (text: string): PlanTaskDraft[] =>
+  text
+    .split("\n")
+    .map((line) => line.match(/^\s*(?:\d+[.)]|[-*•])\s+(.{6,})$/)?.[1]?.trim() || "")
+    .filter(Boolean)
+    .slice(0, 8)
+    .map((title) => ({ title: title.slice(0, 160) }));
+
+/**
+ * Matches drafts to tasks by id, then by title. Matched tasks take every field the draft states;
+ * dependencies accumulate. Tasks the draft does not mention are kept as they were.
+ */
+export const mergePlanTasks = (
+  existing: PlanTask[],
+  drafts: PlanTaskDraft[],
+  owner: string,
+  now: string,
+): { tasks: PlanTask[]; changes: string[] } => {
+  const tasks = existing.map((task) => ({ ...task }));
+  const changes: string[] = [];
+  let nextNumber =
+    tasks.reduce((max, task) => Math.max(max, Number(task.id.replace(/^T/, "")) || 0), 0) + 1;
+
+  const resolveTask = (reference: string) =>
+    tasks.find((task) => task.id === reference) ||
+    tasks.find((task) => toTitleKey(task.title) === toTitleKey(reference));
+
+  const touched: Array<{ task: PlanTask; dependsOn: string[] }> = [];
+  for (const draft of drafts) {
+    let task = (draft.id && tasks.find((item) => item.id === draft.id)) || resolveTask(draft.title);
+    if (!task) {
+      if (tasks.length >= MAX_PLAN_TASKS) {
+        continue;
+      }
+      task = {
+        id: `T${nextNumber}`,
+        title: draft.title,
+        owner: draft.owner || owner,
+        deliverable: draft.deliverable || "",
+        acceptanceCriteria: draft.acceptanceCriteria || [],
+        dueDate: draft.dueDate || "",
+        status: draft.status || "todo",
+        effortDays: draft.effortDays ?? null,
+        dependsOn: [],
+        updatedAt: now,
+      };
+      nextNumber += 1;
+      tasks.push(task);
+      changes.push(`+ ${task.id} ${task.title}`);
+      touched.push({ task, dependsOn: draft.dependsOn || [] });
+      continue;
+    }
+
+    const before = { ...task };
+    Object.assign(task, {
+      title: draft.title || task.title,
+      owner: draft.owner || task.owner,
+      deliverable: draft.deliverable || task.deliverable,
+      acceptanceCriteria:
+        draft.acceptanceCriteria && draft.acceptanceCriteria.length > 0
+          ? draft.acceptanceCriteria
+          : task.acceptanceCriteria,
+      dueDate: draft.dueDate || task.dueDate,
+      status: draft.status || task.status,
+      effortDays: draft.effortDays ?? task.effortDays,
+    });
+
+    const fields = [
+      before.title !== task.title ? `제목 → ${task.title}` : "",
+      before.owner !== task.owner ? `담당 ${before.owner} → ${task.owner}` : "",
+      before.status !== task.status
+        ? `상태 ${PLAN_TASK_STATUS_LABEL[before.status]} → ${PLAN_TASK_STATUS_LABEL[task.status]}`
+        : "",
+      before.dueDate !== task.dueDate ? `마감 ${before.dueDate || "미정"} → ${task.dueDate}` : "",
+      before.effortDays !== task.effortDays ? `공수 ${before.effortDays ?? "?"} → ${task.effortDays}일` : "",
+      before.deliverable !== task.deliverable ? "산출물 변경" : "",
+      before.acceptanceCriteria.join("\n") !== task.acceptanceCriteria.join("\n") ? "완료 조건 변경" : "",
+    ].filter(Boolean);
+    if (fields.length > 0) {
+      task.updatedAt = now;
+      changes.push(`~ ${task.id} ${fields.join(", ")}`);
+    }
+    touched.push({ task, dependsOn: draft.dependsOn || [] });
+  }
+
+  // Resolved after every draft is placed, so a task may depend on one introduced later in the list.
+  for (const { task, dependsOn } of touched) {
+    const added = dependsOn
+      .map((reference) => resolveTask(reference)?.id)
+      .filter((id): id is string => !!id && id !== task.id && !task.dependsOn.includes(id));
+    const unique = Array.from(new Set(added));
+    if (unique.length > 0) {
+      task.dependsOn = [...task.dependsOn, ...unique];
+      task.updatedAt = now;
+      changes.push(`~ ${task.id} 선행 +${unique.join(", ")}`);
+    }
+  }
+
+  return { tasks, changes };
+};
+
+export const parsePlanTask = (raw: unknown): PlanTask | null => {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+
+  const item = raw as Record<string, unknown>;
+  if (typeof item.id !== "string" || typeof item.title !== "string") {
+    return null;
+  }
+
+  return {
+    id: item.id,
+    title: item.title,
+    owner: typeof item.owner === "string" ? item.owner : "",
+    deliverable: typeof item.deliverable === "string" ? item.deliverable : "",
+    acceptanceCriteria: readStrings(item.acceptanceCriteria),
+    dueDate: readDate(item.dueDate) || "",
+    status: readStatus(item.status) || "todo",
+    effortDays: readEffort(item.effortDays) ?? null,
+    dependsOn: readStrings(item.dependsOn),
+    updatedAt: typeof item.updatedAt === "string" ? item.updatedAt : "",
+  };
+};
+
+export const parsePlanHistoryEntry = (id: string, raw: unknown): PlanHistoryEntry | null => {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+
+  const item = raw as Record<string, unknown>;
+  if (typeof item.planId !== "string") {
+    return null;
+  }
+
+  return {
+    id,
+    planId: item.planId,
+    threadId: typeof item.threadId === "string" ? item.threadId : "",
+    memberId: typeof item.memberId === "string" ? item.memberId : "",
+    source: typeof item.source === "string" ? item.source : "",
+    text: typeof item.text === "string" ? item.text : "",
+    replacesPlan: item.replacesPlan === true,
+    changes: readStrings(item.changes),
+    createdAt: typeof item.createdAt === "string" ? item.createdAt : "",
+  };
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Plan dates are calendar days; UTC arithmetic keeps them from drifting across time zones.
+export const shiftPlanDate = (date: string, days: number) => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+};
+
+export const daysBetweenPlanDates = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+
+// A task is scheduled to end on its due date and to take its estimated effort, at least one day.
+export const planTaskStartDate = (task: PlanTask) =>
+  task.dueDate ? shiftPlanDate(task.dueDate, 1 - Math.max(1, Math.ceil(task.effortDays ?? 1))) : "";
+
+export const formatScheduleFeedback = (lines: string[]) =>
+  lines.length > 0
+    ? ["CEO 일정/보드 조정(이번 답변과 일정에 반영하라):", ...lines.map((line) => `- ${line}`)].join("\n")
+    : "";
+
+// Plan execution runs in steps; each step is stored as its own versioned entry.
+export type PlanStepStatus = "continue" | "done" | "blocked" | "failed";
+
+export type PlanExecutionAsset = {
+  id: string;
+  name: string;
+  url: string;
+  path?: string;
+  mimeType: string;
+  size: number;
+  uploadedAt: string;
+};
+
+export type PlanExecutionEntry = {
+  id: string;
+  planId: string;
+  threadId: string;
+  memberId: string;
+  // Increments per run of the plan; steps within a run share it.
+  version: number;
+  step: number;
+  status: PlanStepStatus;
+  prompt: string;
+  output: string;
+  blocker: string;
+  provider: string;
+  model: string;
+  // The run's markdown deliverable, set on every step once the run is saved.
+  deliverable: PlanExecutionAsset | null;
+  createdAt: string;
+};
+
+export type PlanExecutionRun = {
+  version: number;
+  steps: PlanExecutionEntry[];
+  status: PlanStepStatus;
+  provider: string;
+  model: string;
+  deliverable: PlanExecutionAsset | null;
+  createdAt: string;
+};
+
+export const PLAN_STEP_STATUS_LABEL: Record<PlanStepStatus, string> = {
+  continue: "계속",
+  done: "완료",
+  blocked: "차단",
+  failed: "실패",
+};
+
+export const MAX_PLAN_EXECUTION_STEPS = 4;
+
+const shortenStepOutput = (text: string) => (text.length > 600 ? `${text.slice(0, 600)}...` : text);
+
+export const buildExecutionStepInput = (
+  plan: string,
+  tasks: PlanTask[],
+  previousSteps: PlanExecutionEntry[],
+  step: number,
+) =>
+  [
+    `[실행 단계 ${step}/${MAX_PLAN_EXECUTION_STEPS}]`,
+    `액션플랜:\n${plan}`,
+    tasks.length > 0 ? `작업 목록:\n${formatPlanTasks(tasks)}` : "",
+    previousSteps.length > 0
+      ? `이전 단계 결과:\n${previousSteps
+          .map((entry) => `- ${entry.step}단계: ${shortenStepOutput(entry.output)}`)
+          .join("\n")}`
+      : "",
+    previousSteps.length > 0
+      ? "이전 단계에서 끝낸 일은 반복하지 말고 다음으로 필요한 일을 진행하라."
+      : "액션플랜을 즉시 실행 가능한 수준으로 구체화하고 첫 단계를 진행하라.",
+    "실행 결과는 1) 지금 수행한 일 2) 산출물 3) 다음 실행 단계 4) 차단 이슈로 보고하라.",
+    "마지막 줄에 '상태: 계속|완료|차단' 중 하나를 쓰고, 차단이면 다음 줄에 '차단 이슈: 내용'을 적어라.",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+// A reply without a status line counts as "continue"; the step limit still ends the run.
+export const parseExecutionStepStatus = (text: string): { status: PlanStepStatus; blocker: string } => {
+  const status = text.match(/상태\s*[:：]\s*(계속|완료|차단)/g)?.pop()?.replace(/.*[:：]\s*/, "");
+  const blocker = text.match(/차단 이슈\s*[:：]\s*(.+)/)?.[1]?.trim() || "";
+  if (status === "차단") {
+    return { status: "blocked", blocker: blocker || "차단 이슈 보고" };
+  }
+  return { status: status === "완료" ? "done" : "continue", blocker: "" };
+};
+
+const parseExecutionAsset = (raw: unknown): PlanExecutionAsset | null => {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+
+  const item = raw as Record<string, unknown>;
+  if (typeof item.url !== "string" || typeof item.name !== "string") {
+    return null;
+  }
+
+  return {
+    id: typeof item.id === "string" ? item.id : item.url,
+    name: item.name,
+    url: item.url,
+    path: typeof item.path === "string" ? item.path : undefined,
+    mimeType: typeof item.mimeType === "string" ? item.mimeType : "text/markdown",
+    size: Number(item.size) || 0,
+    uploadedAt: typeof item.uploadedAt === "string" ? item.uploadedAt : "",
+  };
+};
+
+export const parsePlanExecutionEntry = (id: string, raw: unknown): PlanExecutionEntry | null => {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+
+  const item = raw as Record<string, unknown>;
+  if (typeof item.planId !== "string" || typeof item.output !== "string") {
+    return null;
+  }
+
+  return {
+    id,
+    planId: item.planId,
+    threadId: typeof item.threadId === "string" ? item.threadId : "",
+    memberId: typeof item.memberId === "string" ? item.memberId : "",
+    version: Number(item.version) || 1,
+    step: Number(item.step) || 1,
+    status:
+      typeof item.status === "string" && Object.hasOwn(PLAN_STEP_STATUS_LABEL, item.status)
+        ? (item.status as PlanStepStatus)
+        : "continue",
+    prompt: typeof item.prompt === "string" ? item.prompt : "",
+    output: item.output,
+    blocker: typeof item.blocker === "string" ? item.blocker : "",
+    provider: typeof item.provider === "string" ? item.provider : "",
+    model: typeof item.model === "string" ? item.model : "",
+    deliverable: parseExecutionAsset(item.deliverable),
+    createdAt: typeof item.createdAt === "string" ? item.createdAt : "",
+  };
+};
+
+// Newest run first; a run's status and runtime are those of its last step.
+export const groupPlanExecutions = (entries: PlanExecutionEntry[]): PlanExecutionRun[] => {
+  const byVersion = new Map<number, PlanExecutionEntry[]>();
+  for (const entry of entries) {
+    byVersion.set(entry.version, [...(byVersion.get(entry.version) || []), entry]);
+  }
+
+  return Array.from(byVersion.entries())
+    .map(([version, items]) => {
+      const steps = [...items].sort((left, right) => left.step - right.step);
+      const last = steps[steps.length - 1];
+      return {
+        version,
+        steps,
+        status: last.status,
+        provider: last.provider,
+        model: last.model,
+        deliverable: steps.find((step) => step.deliverable)?.deliverable || null,
+        createdAt: steps[0].createdAt,
+      };
+    })
+    .sort((left, right) => right.version - left.version);
+};
+
+export const formatPlanExecutionRun = (run: PlanExecutionRun) =>
+  run.steps
+    .map((step) => `## ${step.step}단계 · ${PLAN_STEP_STATUS_LABEL[step.status]}\n${step.output}`)
+    .join("\n\n");
@@ -0,0 +1,86 @@
+// Attachment chunking and selection, shared by the browser (src/lib/attachments.ts) and the
+// server executor so both inline the same excerpts for the same prompt.
+export type AttachmentDocument = {
+  name: string;
+  chunks: string[];
+};
+
+export const ATTACHMENT_CHUNK_CHARS = 1500;
+export const ATTACHMENT_CONTEXT_CHARS = 6000;
+export const MAX_IMAGE_INPUTS = 4;
+export const MAX_IMAGE_INPUT_BYTES = 3_500_000;
+
+// Splits on paragraph boundaries; a paragraph longer than `size` is cut at line or hard boundaries.
+export const chunkText = (text: string, size = ATTACHMENT_CHUNK_CHARS) => {
+  const chunks: string[] = [];
+  let current = "";
+  const flush = () => {
+    if (current.trim()) {
+      chunks.push(current.trim());
+    }
+    current = "";
+  };
+
+  for (const paragraph of text.split(/\n{2,}/)) {
+    const pieces =
+      paragraph.length <= size
+        ? [paragraph]
+        : paragraph.split("\n").flatMap((line) => line.match(new RegExp(`[\\s\\S]{1,${size}}`, "g")) || []);
+    for (const piece of pieces) {
+      if (current && current.length + piece.length + 2 > size) {
+        flush();
+      }
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  }
+  flush();
+  return chunks;
+};
+
+const toTerms = (text: string) =>
+  Array.from(new Set(text.toLowerCase().match(/[a-z0-9]{2,}|[가-힣]{2,}/g) || []));
+
+// Every document opens with its first chunk; the remaining budget goes to the chunks sharing most
+// terms with the query (ties keep document order), and the selection is printed back in document order.
+export const selectAttachmentChunks = (
+  documents: AttachmentDocument[],
+  query: string,
+  budget = ATTACHMENT_CONTEXT_CHARS,
+) => {
+  const terms = toTerms(query);
+  const candidates = documents.flatMap((source, documentIndex) =>
+    source.chunks.map((text, index) => {
+      const lowered = text.toLowerCase();
+      return {
+        documentIndex,
+        index,
+        text,
+        score: index === 0 ? Number.POSITIVE_INFINITY : terms.filter((term) => lowered.includes(term)).length,
+      };
+    }),
+  );
+
+  const selected: typeof candidates = [];
+  let used = 0;
+  for (const candidate of [...candidates].sort((left, right) => right.score - left.score)) {
+    const room = budget - used;
+    if (room < 200 && selected.length > 0) {
+      break;
+    }
+    const text = candidate.text.slice(0, room);
+    selected.push({ ...candidate, text });
+    used += text.length;
+  }
+
+  return selected
+    .sort((left, right) => left.documentIndex - right.documentIndex || left.index - right.index)
+    .map((item) => {
+      const source = documents[item.documentIndex];
+      return `[첨부: ${source.name}, 조각 ${item.index + 1}/${source.chunks.length}]\n${item.text}`;
+    })
+    .join("\n\n");
+};
+
+// Selected excerpts first, then one note per attachment that could not be inlined.
+export const formatAttachmentContext = (documents: AttachmentDocument[], query: string, notes: string[]) =>
+  [selectAttachmentChunks(documents, query), ...notes].filter(Boolean).join("\n\n");
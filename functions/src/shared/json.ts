@@ -0,0 +1,13 @@
+// Models often wrap JSON in prose or code fences; the outermost braces are parsed.
+export const parseJsonObject = (text: string): Record<string, unknown> | null => {
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(match[0]) as unknown;
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,62 @@
+import { parseJsonObject } from "./json";
+
+// Long-term agent memory extraction, shared by the browser and the server executor. Turns are
+// extracted in batches, so one model call covers several speakers.
+export type MemoryKind = "fact" | "decision";
+
+export type MemoryTurn = {
+  memberId: string;
+  text: string;
+};
+
+export type ExtractedMemory = {
+  memberId: string;
+  kind: MemoryKind;
+  text: string;
+};
+
+const MEMORY_DECISION_PATTERN = /결정|확정|합의|해결|승인|마감|기한|일정|완료|보류|폐기/;
+// Per turn in the extraction prompt; a batch of long turns must still fit one request.
+const MEMORY_TURN_CHARS = 1500;
+const MAX_MEMORIES_PER_MEMBER = 3;
+
+export const buildMemoryExtractionRequest = (turns: MemoryTurn[]) => ({
+  instructions:
+    "당신은 회의 발언에서 장기 기억을 추출하는 기록 담당이다. 반드시 JSON 객체만 응답하라. 코드블록 금지.",
+  input: [
+    ...turns.map((turn) => `${turn.memberId} 발언:\n${turn.text.slice(0, MEMORY_TURN_CHARS)}`),
+    "",
+    "발언자별로 다음 주, 다른 스레드에서도 유효한 사실(fact)과 결정(decision)만 최대 3개 추출하라. 일반론/제안은 제외.",
+    '반환 형식: {"memories":[{"memberId":"발언자 ID","kind":"decision","text":"한 문장"}]}',
+  ].join("\n\n"),
+});
+
+// Memories are only kept for speakers in the batch; a single-speaker batch may omit memberId.
+export const parseMemoryExtraction = (text: string, turns: MemoryTurn[]): ExtractedMemory[] => {
+  const memberIds = new Set(turns.map((turn) => turn.memberId));
+  const fallbackMemberId = memberIds.size === 1 ? turns[0].memberId : "";
+  const counts = new Map<string, number>();
+  const memories = parseJsonObject(text)?.memories;
+  return (Array.isArray(memories) ? memories : [])
+    .filter((item): item is { memberId?: unknown; kind?: unknown; text: string } =>
+      !!item && typeof item.text === "string" && !!item.text.trim())
+    .map((item) => ({
+      memberId: typeof item.memberId === "string" && memberIds.has(item.memberId) ? item.memberId : fallbackMemberId,
+      kind: item.kind === "decision" ? ("decision" as const) : ("fact" as const),
+      text: item.text.trim().slice(0, 240),
+    }))
+    .filter((item) => {
+      const count = counts.get(item.memberId) || 0;
+      counts.set(item.memberId, count + 1);
+      return !!item.memberId && count < MAX_MEMORIES_PER_MEMBER;
+    });
+};
+
+// Fallback when the extraction call fails or returns no JSON: keep sentences that read like decisions.
+export const extractMemoryHeuristically = (turn: MemoryTurn): ExtractedMemory[] =>
+  turn.text
+    .split(/(?<=[.!?다요])\s+|\n+/)
+    .map((sentence) => sentence.replace(/[#*`>]/g, "").trim())
+    .filter((sentence) => sentence.length >= 8 && MEMORY_DECISION_PATTERN.test(sentence))
+    .slice(0, 2)
+    .map((sentence) => ({ memberId: turn.memberId, kind: "decision", text: sentence.slice(0, 200) }));
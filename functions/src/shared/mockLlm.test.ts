@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { embedMockText, prepareMockText, splitMockStream } from "./mockLlm";
+import type { MockPrompt } from "./mockLlm";
+
+const prompt = (patch: Partial<MockPrompt> = {}): MockPrompt => ({
+  system: "당신은 PM-TAN입니다.",
+  input: "CEO 지시: 출시 일정 점검",
+  history: [],
+  imageCount: 0,
+  ...patch,
+});
+
+const cosine = (left: number[], right: number[]) =>
+  left.reduce((sum, value, index) => sum + value * right[index], 0);
+
+describe("prepareMockText", () => {
+  it("replies identically to the same prompt", () => {
+    const first = prepareMockText(prompt());
+    const second = prepareMockText(prompt());
+
+    expect(first.text).toContain("PM-TAN 모의 응답");
+    expect(second.text).toBe(first.text);
+    expect(splitMockStream(first.text).join("")).toBe(first.text);
+  });
+
+  it("reads the stream-error directive from any message", () => {
+    expect(prepareMockText(prompt()).directives.streamError).toBe(false);
+    expect(
+      prepareMockText(prompt({ history: ["이전 발언 [[mock:stream-error]]"] })).directives.streamError,
+    ).toBe(true);
+  });
+
+  it("reads the per-chunk delay and caps it at five seconds", () => {
+    expect(prepareMockText(prompt()).directives.delayMs).toBe(15);
+    expect(prepareMockText(prompt({ input: "[[mock:delay=250]] 점검" })).directives.delayMs).toBe(250);
+    expect(prepareMockText(prompt({ system: "[[mock:delay=90000]]" })).directives.delayMs).toBe(5000);
+  });
+
+  it("fails on the error directive and the mock-error model", () => {
+    expect(() => prepareMockText(prompt({ input: "[[mock:error]]" }))).toThrow("Mock provider injected failure.");
+    expect(() => prepareMockText(prompt({ model: "mock-error" }))).toThrow("Mock provider injected failure.");
+  });
+});
+
+describe("embedMockText", () => {
+  it("embeds the same text to the same unit vector", () => {
+    const vector = embedMockText("출시 일정 리스크 점검");
+
+    expect(embedMockText("출시 일정 리스크 점검")).toEqual(vector);
+    expect(vector).toHaveLength(256);
+    expect(cosine(vector, vector)).toBeCloseTo(1, 3);
+  });
+
+  it("places related texts closer than unrelated ones", () => {
+    const query = embedMockText("출시 일정 리스크");
+    const related = embedMockText("출시 일정이 밀릴 리스크가 있습니다");
+    const unrelated = embedMockText("login page color palette");
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+});
@@ -0,0 +1,239 @@
+// Scripted, network-free provider for local runs, `?devMock=1` and the Functions emulator. The browser
+// (src/lib/mockLlm.ts) and the proxy both build replies here, so a workflow replays identically on
+// either side. Output depends only on the request. Directives anywhere in the prompt inject failures:
+// [[mock:error]], [[mock:stream-error]], [[mock:empty]], [[mock:warn]] and [[mock:delay=<ms per chunk>]].
+// Model "mock-error" always fails.
+type MockScenario = "brainstorm" | "memory" | "summary" | "plan" | "report" | "governance" | "reply";
+
+const MOCK_BRAINSTORM_TEAM = ["PO-TAN", "PM-TAN", "DEV-TAN", "UX-TAN", "QA-TAN", "LEGAL-TAN"];
+
+const hashText = (text: string) => {
+  let hash = 2166136261;
+  for (let index = 0; index < text.length; index += 1) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+export const MOCK_EMBEDDING_MODEL = "mock-embedding";
+const MOCK_EMBEDDING_DIMENSIONS = 256;
+
+// Hashed words plus Hangul bigrams, L2-normalized, so related texts land close together offline.
+export const embedMockText = (text: string) => {
+  const vector = new Array<number>(MOCK_EMBEDDING_DIMENSIONS).fill(0);
+  const lowered = text.toLowerCase();
+  const features = [
+    ...(lowered.match(/[a-z0-9-]{2,}/g) || []),
+    ...(lowered.match(/[가-힣]{2,}/g) || []).flatMap((word) =>
+      Array.from({ length: word.length - 1 }, (_, index) => word.slice(index, index + 2)),
+    ),
+  ];
+  for (const feature of features) {
+    vector[hashText(feature) % MOCK_EMBEDDING_DIMENSIONS] += 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map((value) => Number((value / norm).toFixed(5)));
+};
+
+const readMockDirectives = (prompt: string) => {
+  const delayMatch = prompt.match(/\[\[mock:delay=(\d+)\]\]/);
+  return {
+    error: prompt.includes("[[mock:error]]"),
+    streamError: prompt.includes("[[mock:stream-error]]"),
+    empty: prompt.includes("[[mock:empty]]"),
+    warn: prompt.includes("[[mock:warn]]"),
+    delayMs: delayMatch ? Math.min(Number(delayMatch[1]), 5000) : 15,
+  };
+};
+
+const resolveMockScenario = (
+  system: string,
+  input: string,
+  maxOutputTokens?: number,
+): MockScenario => {
+  if (/JSON/.test(system) && input.includes('"participants"')) {
+    return "brainstorm";
+  }
+  if (/JSON/.test(system) && input.includes('"memories"')) {
+    return "memory";
+  }
+  if (/JSON/.test(system) && input.includes('"openIssues"')) {
+    return "summary";
+  }
+  if (/JSON/.test(system) && input.includes('"tasks"')) {
+    return "plan";
+  }
+  if (input.includes("헌법")) {
+    return "governance";
+  }
+  if ((maxOutputTokens || 0) >= 2000 || /보고서를/.test(system)) {
+    return "report";
+  }
+  return "reply";
+};
+
+const buildMockText = (
+  scenario: MockScenario,
+  system: string,
+  input: string,
+  warn: boolean,
+  imageCount = 0,
+) => {
+  const seed = hashText(`${system}\n${input}`);
+  const task = input.match(/CEO 지시: ?(.+)/)?.[1]?.trim() || "현재 지시";
+  const speaker = system.match(/당신은 ([A-Z]+-TAN|CEO HOBBY)/)?.[1] || "TAN";
+
+  if (scenario === "brainstorm") {
+    const roster = Array.from(input.matchAll(/^([A-Z]+-TAN):/gm)).map((match) => match[1]);
+    const participants = MOCK_BRAINSTORM_TEAM.filter(
+      (memberId) => roster.length === 0 || roster.includes(memberId),
+    ).slice(0, 4 + (seed % 3));
+    return JSON.stringify({
+      strategy: `모의 전략: '${task}'를 ${participants.length}명이 발견 → 설계 → 검증 3단계로 나눠 실행하고 단계마다 CEO에 보고한다.`,
+      participants,
+      handoff: "협업실에서 담당자별 산출물을 확정한 뒤 ATTENDANT-TAN이 CEO 좌석으로 전달",
+    });
+  }
+
+  if (scenario === "memory") {
+    const memberId = input.match(/^([A-Z0-9-]+) 발언:/m)?.[1] || "TAN";
+    const topic = input.match(/'([^']+)'/)?.[1] || "현재 과제";
+    return JSON.stringify({
+      memories: [{ kind: "decision", text: `${memberId}: '${topic}'는 1단계 범위 승인 후 착수하기로 함` }],
+    });
+  }
+
+  if (scenario === "summary") {
+    const speakers = Array.from(new Set(Array.from(input.matchAll(/^([A-Z0-9]+-[A-Z0-9-]+):/gm)).map((match) => match[1])));
+    return JSON.stringify({
+      narrative: `모의 요약: ${speakers.join(", ") || "참여 TAN"}이 실행 범위와 담당 산출물을 논의했고 1단계 착수에 합의했다.`,
+      decisions: ["1단계 범위 승인 후 착수"],
+      openIssues: ["의존 작업 지연 리스크"],
+      actionItems: speakers.slice(0, 3).map((speaker) => `${speaker}: 담당 산출물 초안 공유`),
+    });
+  }
+
+  if (scenario === "plan") {
+    const memberId = input.match(/^([A-Z0-9-]+)의 현재 작업:/m)?.[1] || "TAN";
+    const today = input.match(/^오늘: (\d{4}-\d{2}-\d{2})/m)?.[1] || new Date().toISOString().slice(0, 10);
+    const current = Array.from(input.matchAll(/^(T\d+) \[(\w+)\] (.+?) \(담당/gm));
+    if (current.length > 0) {
+      // A restated plan moves its oldest open task one status forward.
+      const open = current.find((match) => match[2] !== "done");
+      return JSON.stringify({
+        tasks: open ? [{ id: open[1], title: open[3], status: open[2] === "todo" ? "in_progress" : "done" }] : [],
+      });
+    }
+    const dueIn = (days: number) => {
+      const date = new Date(`${today}T00:00:00Z`);
+      date.setUTCDate(date.getUTCDate() + days);
+      return date.toISOString().slice(0, 10);
+    };
+    const steps = ["요구사항 정리", "구현", "검증 및 보고"];
+    return JSON.stringify({
+      tasks: steps.map((step, index) => ({
+        title: `${memberId} ${step}`,
+        owner: memberId,
+        deliverable: `${step} 결과 문서`,
+        acceptanceCriteria: [`CEO 검토용 ${step} 요약 공유`],
+        dueDate: dueIn((index + 1) * 2),
+        status: "todo",
+        effortDays: index + 1,
+        dependsOn: index > 0 ? [`${memberId} ${steps[index - 1]}`] : [],
+      })),
+    });
+  }
+
+  if (scenario === "governance") {
+    return warn
+      ? `${speaker} 감사 결과: 개인정보 처리 범위가 불명확해 리스크가 있습니다. 수집 항목과 보관 기간을 확정하기 전까지 배포를 보류하세요.`
+      : `${speaker} 감사 결과: 법/규정, 역할 분리, 개인정보/보안 기준 모두 준수 상태입니다. 추가 조치 없음.`;
+  }
+
+  if (scenario === "report") {
+    const sections = [
+      "1) 경영 요약",
+      "2) TAN별 상세 액션플랜",
+      "3) 병렬 실행 로그 요약",
+      "4) 개발 실행안",
+      "5) 배포 실행안",
+      "6) 리스크/법무/HR 감시 포인트",
+      "7) CEO 승인 필요 항목",
+      "8) 승인 직후 다음 플로우",
+    ];
+    const body = sections.map((title, index) =>
+      [
+        `## ${title}`,
+        `'${task}' 기준 ${title.slice(3)} 항목입니다. 담당 TAN은 산출물, 완료 조건, 예상 소요(${index + 1}일), 선행 의존성, 대체 경로를 명시하고 진행 상황을 매일 보고합니다.`,
+        `- 책임자: ${MOCK_BRAINSTORM_TEAM[(seed + index) % MOCK_BRAINSTORM_TEAM.length]}`,
+        "- 산출물: 실행 체크리스트, 검증 로그, 변경 이력 문서",
+        "- 완료 조건: 검증 로그와 산출물 링크가 보고서에 첨부될 것",
+        "- 선행 의존성: 직전 단계 산출물 승인, 담당 TAN 간 인수인계 완료",
+        "- 리스크: 일정 지연 시 범위를 줄이고 핵심 경로를 우선 확보",
+        "- 다음 단계: 오늘 착수, 내일 중간 점검, 이번 주 내 CEO 승인 요청",
+      ].join("\n"),
+    );
+    return [`# CEO 최종 보고서 (모의)`, `지시 사항: ${task}`, "", ...body].join("\n\n");
+  }
+
+  const attachmentName = input.match(/\[첨부: ([^,\]]+),/)?.[1];
+  // Plan execution steps end on a status line; the second step finishes unless [[mock:warn]] blocks it.
+  const executionStep = Number(input.match(/\[실행 단계 (\d+)\/\d+\]/)?.[1] || 0);
+  const executionStatus = warn
+    ? "상태: 차단\n차단 이슈: 모의 차단 - 외부 승인 대기"
+    : executionStep >= 2
+      ? "상태: 완료"
+      : "상태: 계속";
+  const openers = [
+    "바로 실행 가능한 안으로 정리했습니다.",
+    "앞선 발언을 반영해 보완했습니다.",
+    "담당 범위 기준으로 답변드립니다.",
+  ];
+  return [
+    `${speaker} 모의 응답: ${openers[seed % openers.length]}`,
+    `1) '${task}' 범위를 확정하고 담당 산출물을 정의합니다.`,
+    "2) 첫 결과물을 만들고 관련 TAN에게 검토를 요청합니다.",
+    "3) 검토 결과를 반영해 CEO에게 보고합니다.",
+    "리스크: 의존 작업 지연. CEO 확인 포인트: 1단계 범위 승인.",
+    attachmentName ? `첨부 '${attachmentName}' 내용을 반영했습니다.` : "",
+    imageCount > 0 ? `첨부 이미지 ${imageCount}장을 확인했습니다.` : "",
+    executionStep ? executionStatus : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+};
+
+export type MockPrompt = {
+  model?: string;
+  system: string;
+  // The newest user turn; scenarios are recognized from it.
+  input: string;
+  // Every other message, scanned for directives only.
+  history: string[];
+  imageCount: number;
+  maxOutputTokens?: number;
+};
+
+export const prepareMockText = ({ model, system, input, history, imageCount, maxOutputTokens }: MockPrompt) => {
+  const directives = readMockDirectives([system, ...history, input].join("\n"));
+
+  if (model === "mock-error" || directives.error) {
+    throw new Error("Mock provider injected failure.");
+  }
+
+  const text = directives.empty
+    ? ""
+    : buildMockText(
+        resolveMockScenario(system, input, maxOutputTokens),
+        system,
+        input,
+        directives.warn,
+        imageCount,
+      );
+
+  return { text, directives };
+};
+
+// Streams are replayed in fixed-size chunks so both sides emit the same deltas.
+export const splitMockStream = (text: string) => text.match(/[\s\S]{1,24}/g) || [];
@@ -0,0 +1,163 @@
+import { chunkText } from "./attachments";
+
+// Per-thread file library: text of reports, meeting logs, deliverables and attachments is split
+// into passages, embedded, and searched when an agent answers. Used by both the browser and the
+// server executor, so the two rank and cite passages identically.
+export type PassageSource = "report" | "meeting-log" | "deliverable" | "attachment";
+
+export type ThreadPassage = {
+  // `${assetId}-${chunkIndex}`, so re-indexing a file overwrites its passages.
+  id: string;
+  threadId: string;
+  assetId: string;
+  assetName: string;
+  assetUrl: string;
+  source: PassageSource;
+  chunkIndex: number;
+  chunkCount: number;
+  text: string;
+  embedding: number[];
+  // Vectors are only compared with vectors from the same model.
+  model: string;
+  createdAt: string;
+};
+
+export type RankedPassage = {
+  passage: ThreadPassage;
+  score: number;
+};
+
+export const PASSAGE_SOURCE_LABEL: Record<PassageSource, string> = {
+  report: "보고서",
+  "meeting-log": "회의록",
+  deliverable: "산출물",
+  attachment: "첨부",
+};
+
+export const PASSAGE_CHUNK_CHARS = 900;
+export const EMBEDDING_BATCH_SIZE = 32;
+export const RETRIEVAL_TOP_K = 4;
+// Passages searched per thread, newest first. Older passages beyond this are reported as
+// excluded rather than silently dropped.
+export const THREAD_PASSAGE_LIMIT = 600;
+// Below this cosine a passage is noise rather than evidence.
+const MIN_VECTOR_SCORE = 0.2;
+
+export const buildPassages = (
+  asset: { id: string; name: string; url: string; uploadedAt: string },
+  text: string,
+  source: PassageSource,
+  threadId: string,
+): Array<Omit<ThreadPassage, "embedding" | "model">> => {
+  const chunks = chunkText(text.replace(/^\uFEFF/, ""), PASSAGE_CHUNK_CHARS);
+  return chunks.map((chunk, index) => ({
+    id: `${asset.id}-${index}`,
+    threadId,
+    assetId: asset.id,
+    assetName: asset.name,
+    assetUrl: asset.url,
+    source,
+    chunkIndex: index,
+    chunkCount: chunks.length,
+    text: chunk,
+    createdAt: asset.uploadedAt,
+  }));
+};
+
+export const cosineSimilarity = (left: number[], right: number[]) => {
+  if (left.length === 0 || left.length !== right.length) {
+    return 0;
+  }
+  let dot = 0;
+  let leftNorm = 0;
+  let rightNorm = 0;
+  for (let index = 0; index < left.length; index += 1) {
+    dot += left[index] * right[index];
+    leftNorm += left[index] * left[index];
+    rightNorm += right[index] * right[index];
+  }
+  return leftNorm && rightNorm ? dot / Math.sqrt(leftNorm * rightNorm) : 0;
+};
+
+const toTerms = (text: string) =>
+  Array.from(new Set(text.toLowerCase().match(/[a-z0-9-]{2,}|[가-힣]{2,}/g) || []));
+
+/**
+ * Scores by cosine when the passage was embedded with `model`; passages from another model, or
+ * every passage when the query could not be embedded, fall back to term overlap scaled into the
+ * same range.
+ */
+export const rankPassages = (
+  passages: ThreadPassage[],
+  query: string,
+  queryVector: number[],
+  model: string,
+  limit = RETRIEVAL_TOP_K,
+): RankedPassage[] => {
+  const terms = toTerms(query);
+  return passages
+    .map((passage) => {
+      if (queryVector.length > 0 && passage.model === model) {
+        return { passage, score: cosineSimilarity(queryVector, passage.embedding) };
+      }
+      const lowered = passage.text.toLowerCase();
+      const overlap = terms.filter((term) => lowered.includes(term)).length;
+      return { passage, score: terms.length > 0 ? overlap / terms.length : 0 };
+    })
+    .filter((item) => item.score >= MIN_VECTOR_SCORE)
+    .sort((left, right) => right.score - left.score)
+    .slice(0, limit);
+};
+
+const formatPassageDate = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? ""
+    : date.toLocaleDateString("ko-KR", {
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        weekday: "short",
+        timeZone: "Asia/Seoul",
+      });
+};
+
+// "[출처 n]" labels are what agents are told to cite, so keep them stable and numbered.
+export const formatPassageContext = (ranked: RankedPassage[]) =>
+  ranked
+    .map(({ passage }, index) =>
+      [
+        `[출처 ${index + 1}] ${formatPassageDate(passage.createdAt)} ${PASSAGE_SOURCE_LABEL[passage.source]} ${passage.assetName} (조각 ${passage.chunkIndex + 1}/${passage.chunkCount})`,
+        passage.text.length > 700 ? `${passage.text.slice(0, 700)}...` : passage.text,
+      ].join("\n"),
+    )
+    .join("\n\n");
+
+export const parseThreadPassage = (id: string, raw: unknown): ThreadPassage | null => {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+
+  const item = raw as Record<string, unknown>;
+  if (typeof item.threadId !== "string" || typeof item.text !== "string") {
+    return null;
+  }
+
+  return {
+    id,
+    threadId: item.threadId,
+    assetId: typeof item.assetId === "string" ? item.assetId : id,
+    assetName: typeof item.assetName === "string" ? item.assetName : "file",
+    assetUrl: typeof item.assetUrl === "string" ? item.assetUrl : "",
+    source:
+      typeof item.source === "string" && Object.hasOwn(PASSAGE_SOURCE_LABEL, item.source)
+        ? (item.source as PassageSource)
+        : "attachment",
+    chunkIndex: Number(item.chunkIndex) || 0,
+    chunkCount: Number(item.chunkCount) || 1,
+    text: item.text,
+    embedding: Array.isArray(item.embedding) ? item.embedding.map((value) => Number(value) || 0) : [],
+    model: typeof item.model === "string" ? item.model : "",
+    createdAt: typeof item.createdAt === "string" ? item.createdAt : new Date().toISOString(),
+  };
+};
@@ -0,0 +1,120 @@
+import { parseJsonObject } from "./json";
+
+// Rolling per-thread summaries. Older dialogue is folded into one structured summary once the
+// estimated prompt size passes the budget. Used by both the browser and the server executor.
+export type ThreadSummary = {
+  threadId: string;
+  decisions: string[];
+  openIssues: string[];
+  actionItems: string[];
+  narrative: string;
+  compactedTurns: number;
+  // createdAt of the newest meeting turn already folded in; later turns are still verbatim.
+  coveredUntil: string;
+  tokenEstimate: number;
+  updatedAt: string;
+};
+
+export const THREAD_CONTEXT_TOKEN_BUDGET = 6000;
+
+// Rough count without a tokenizer: ~4 Latin characters per token, Hangul closer to one per character.
+export const estimateTokens = (text: string) => {
+  let ascii = 0;
+  let other = 0;
+  for (const char of text) {
+    if (char.charCodeAt(0) < 128) {
+      ascii += 1;
+    } else {
+      other += 1;
+    }
+  }
+  return Math.ceil(ascii / 4 + other / 1.3);
+};
+
+const toList = (raw: unknown) =>
+  Array.isArray(raw)
+    ? raw
+        .map((item) => (typeof item === "string" ? item.trim() : ""))
+        .filter(Boolean)
+        .slice(0, 12)
+    : [];
+
+export const formatThreadSummary = (summary: ThreadSummary) =>
+  [
+    `스레드 요약(이전 대화 ${summary.compactedTurns}건 압축):`,
+    summary.narrative,
+    summary.decisions.length > 0 ? `결정: ${summary.decisions.join(" / ")}` : "",
+    summary.openIssues.length > 0 ? `미해결: ${summary.openIssues.join(" / ")}` : "",
+    summary.actionItems.length > 0 ? `진행 액션: ${summary.actionItems.join(" / ")}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+export const buildSummaryRequest = (previous: ThreadSummary | undefined, foldedText: string) => ({
+  instructions:
+    "당신은 회의 기록을 압축하는 기록 담당이다. 반드시 JSON 객체만 응답하라. 코드블록 금지.",
+  input: [
+    previous ? `기존 요약:\n${formatThreadSummary(previous)}` : "기존 요약: 없음",
+    `새로 압축할 대화:\n${foldedText}`,
+    "기존 요약과 새 대화를 합쳐 하나의 요약으로 갱신하라. 해결된 이슈는 미해결에서 빼고 결정으로 옮겨라.",
+    "narrative는 600자 이내, 각 목록은 8개 이내의 짧은 문장으로 작성하라.",
+    '반환 형식: {"narrative":"문단","decisions":["..."],"openIssues":["..."],"actionItems":["..."]}',
+  ].join("\n\n"),
+});
+
+type SummaryMeta = {
+  threadId: string;
+  foldedTurns: number;
+  coveredUntil?: string;
+};
+
+// A response without usable JSON still becomes a summary, so compaction never grows the prompt.
+export const parseSummaryResponse = (
+  text: string,
+  previous: ThreadSummary | undefined,
+  meta: SummaryMeta,
+): ThreadSummary => {
+  const parsed = parseJsonObject(text);
+  const narrative =
+    typeof parsed?.narrative === "string" && parsed.narrative.trim()
+      ? parsed.narrative.trim()
+      : text.trim().slice(0, 900);
+  const summary: ThreadSummary = {
+    threadId: meta.threadId,
+    narrative,
+    decisions: parsed ? toList(parsed.decisions) : previous?.decisions || [],
+    openIssues: parsed ? toList(parsed.openIssues) : previous?.openIssues || [],
+    actionItems: parsed ? toList(parsed.actionItems) : previous?.actionItems || [],
+    compactedTurns: (previous?.compactedTurns || 0) + meta.foldedTurns,
+    coveredUntil:
+      meta.coveredUntil && meta.coveredUntil > (previous?.coveredUntil || "")
+        ? meta.coveredUntil
+        : previous?.coveredUntil || "",
+    tokenEstimate: 0,
+    updatedAt: new Date().toISOString(),
+  };
+  return { ...summary, tokenEstimate: estimateTokens(formatThreadSummary(summary)) };
+};
+
+export const parseThreadSummary = (raw: unknown): ThreadSummary | null => {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+
+  const item = raw as Record<string, unknown>;
+  if (typeof item.threadId !== "string" || typeof item.narrative !== "string") {
+    return null;
+  }
+
+  return {
+    threadId: item.threadId,
+    narrative: item.narrative,
+    decisions: toList(item.decisions),
+    openIssues: toList(item.openIssues),
+    actionItems: toList(item.actionItems),
+    compactedTurns: typeof item.compactedTurns === "number" ? item.compactedTurns : 0,
+    coveredUntil: typeof item.coveredUntil === "string" ? item.coveredUntil : "",
+    tokenEstimate: typeof item.tokenEstimate === "number" ? item.tokenEstimate : 0,
+    updatedAt: typeof item.updatedAt === "string" ? item.updatedAt : new Date().toISOString(),
+  };
+};
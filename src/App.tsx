@@ -9,40 +9,136 @@ import type { User } from "firebase/auth";
 import {
   addDoc,
   collection,
+  deleteDoc,
+  arrayRemove,
+  arrayUnion,
+  deleteField,
   doc,
-  getDoc,
+  getDocs,
+  limit,
   onSnapshot,
   orderBy,
   query,
   runTransaction,
-  setDoc,
   serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
 } from "firebase/firestore";
-import { getBlob, getDownloadURL, ref, uploadBytes } from "firebase/storage";
+import { deleteObject, getBlob, getDownloadURL, ref, uploadBytes } from "firebase/storage";
 import "./App.css";
 import {
-  BRAINSTORMING_ROOM,
-  BRAINSTORMING_SPOTS,
   CEO_REPORT_POINT,
-  COLLABORATION_ROOM,
-  COLLABORATION_SPOTS,
-  COUNCIL_MEMBERS,
-  DEFAULT_COLLABORATION_TEAM,
-  DEFAULT_OPENAI_DEV_MODEL,
+  CORE_MEMBER_IDS,
+  DEFAULT_COUNCIL_MEMBERS,
+  DEFAULT_OFFICE_LAYOUT,
+  DEFAULT_MOCK_MODEL,
   DEFAULT_OPENAI_MODEL,
-  MEMBER_BY_ID,
-  OFFICE_DECOR_ITEMS,
-  OFFICE_BACKGROUND_GRID,
+  MEMBER_ID_PATTERN,
+  buildCouncilRoster,
+  findFreeSeat,
   getDefaultModelForProvider,
+  parseCouncilMembers,
+  parseOfficeLayout,
+  personaVersionId,
 } from "./data/council";
 import type {
+  CouncilMember,
   LlmProvider,
+  OfficeLayout,
   OfficeZone,
+  PersonaVersion,
   RoleRuntimeConfig,
 } from "./data/council";
+import {
+  MAX_PLAN_EXECUTION_STEPS,
+  PLAN_STEP_STATUS_LABEL,
+  PLAN_TASK_STATUS_LABEL,
+  buildExecutionStepInput,
+  buildPlanExtractionRequest,
+  daysBetweenPlanDates,
+  extractPlanTasksHeuristically,
+  formatPlanExecutionRun,
+  formatScheduleFeedback,
+  groupPlanExecutions,
+  mergePlanTasks,
+  parseExecutionStepStatus,
+  parsePlanExecutionEntry,
+  parsePlanHistoryEntry,
+  parsePlanTask,
+  parsePlanTaskDrafts,
+  planTaskStartDate,
+  shiftPlanDate,
+} from "../functions/src/shared/actionPlan";
+import type {
+  PlanExecutionEntry,
+  PlanHistoryEntry,
+  PlanStepStatus,
+  PlanTask,
+  PlanTaskDraft,
+  PlanTaskStatus,
+} from "../functions/src/shared/actionPlan";
+import {
+  EMPTY_ATTACHMENT_CONTEXT,
+  buildAttachmentContext,
+  detectAttachmentKind,
+  extractAttachmentText,
+} from "./lib/attachments";
+import type { AttachmentContext, AttachmentTextRef } from "./lib/attachments";
 import { auth, db, googleProvider, storage } from "./lib/firebase";
-import { requestLlmText, tryParseJson } from "./lib/llm";
+import {
+  ProxyQuotaError,
+  requestEmbeddings,
+  requestLlmText,
+  requestReportCharge,
+  streamLlmText,
+  tryParseJson,
+} from "./lib/llm";
+import type { EmbeddingProvider, LlmEmbeddingResult, LlmMessage, LlmTextRequest } from "./lib/llm";
 import { fileToBase64, generateGeminiImage } from "./lib/gemini";
+import {
+  buildMemoryExtractionRequest,
+  extractMemoryHeuristically,
+  parseMemoryExtraction,
+} from "../functions/src/shared/memory";
+import type { ExtractedMemory, MemoryKind, MemoryTurn } from "../functions/src/shared/memory";
+import {
+  buildOfficeConfig,
+  diffOfficeConfig,
+  parseOfficeConfig,
+  serializeOfficeConfig,
+} from "./lib/officeConfig";
+import type { OfficeConfig, OfficeConfigFileType } from "./lib/officeConfig";
+import {
+  EMBEDDING_BATCH_SIZE,
+  THREAD_PASSAGE_LIMIT,
+  buildPassages,
+  formatPassageContext,
+  parseThreadPassage,
+  rankPassages,
+} from "../functions/src/shared/retrieval";
+import type { PassageSource, ThreadPassage } from "../functions/src/shared/retrieval";
+import {
+  MAX_REPORT_EXPORT_IMAGES,
+  REPORT_EXPORT_FORMAT_LABEL,
+  buildReportDocx,
+  buildReportHtml,
+  toExportAvatar,
+  toExportImage,
+} from "./lib/reportExport";
+import type { ExportImage, ReportExportFormat } from "./lib/reportExport";
+import { diffLines, diffWords } from "./lib/textDiff";
+import type { DiffRow } from "./lib/textDiff";
+import {
+  THREAD_CONTEXT_TOKEN_BUDGET,
+  buildSummaryRequest,
+  estimateTokens,
+  formatThreadSummary,
+  parseSummaryResponse,
+  parseThreadSummary,
+} from "../functions/src/shared/threadSummary";
+import type { ThreadSummary } from "../functions/src/shared/threadSummary";
 
 type WorkflowPhase =
   | "idle"
@@ -72,6 +168,14 @@ type FileAsset = {
   uploadedAt: string;
   source: "cloud" | "local";
   path?: string;
+  textExtract?: AttachmentTextRef;
+};
+
+// Which persona revision and model produced an output, so prompt edits can be compared.
+type PersonaStamp = {
+  memberId: string;
+  personaVersion: number;
+  model: string;
 };
 
 type ReportItem = {
@@ -83,6 +187,8 @@ type ReportItem = {
   createdAt: string;
   assets: FileAsset[];
   source: "cloud" | "local";
+  // Writer first, then the collaborators whose notes fed the report.
+  personas?: PersonaStamp[];
 };
 
 type ActivityLog = {
@@ -93,12 +199,28 @@ type ActivityLog = {
   message: string;
 };
 
+// Per-thread histories kept under users/{uid}/{collection} for signed-in users.
+type HistoryCollection = "meetingTurns" | "actionPlans" | "governanceAlerts" | "activityLogs";
+
+// Lets a replayed server-run event land on the same document every time it is replayed.
+type HistoryOrigin = {
+  id: string;
+  createdAt: string;
+};
+
 type BrainstormPlan = {
   strategy: string;
   participants: string[];
   handoff: string;
 };
 
+type DialogueTurn = {
+  speakerId: string;
+  text: string;
+  // Set on turns that were also logged as meeting turns, so compaction can mark them covered.
+  createdAt?: string;
+};
+
 type CollaborationNote = {
   memberId: string;
   note: string;
@@ -110,17 +232,61 @@ type CollaborationSessionResult = {
   transcript: MeetingTurn[];
 };
 
+type AutonomousLoopResult = {
+  notes: CollaborationNote[];
+  digest: string;
+};
+
+type WorkflowInterruption = "paused" | "cancelled";
+
+// Outputs of every completed phase. A resumed run skips whatever is already filled in.
+type WorkflowCheckpoint = {
+  runId: string;
+  threadId: string;
+  task: string;
+  startedAt: string;
+  brainstorm?: BrainstormPlan;
+  managementPlan?: { poPlan: string; pmPlan: string };
+  collaborationSession?: CollaborationSessionResult;
+  autonomousResult?: AutonomousLoopResult;
+  // Uploaded before brainstorming so every phase, and a resumed run, reads the same files.
+  attachments?: FileAsset[];
+};
+
+type WorkflowRunStatus = "queued" | "running" | "paused" | "cancelled" | "failed" | "completed";
+
+// "browser" runs are driven by this tab; "server" runs by the workflowRunner Cloud Function.
+type WorkflowExecutor = "browser" | "server";
+
+type WorkflowRun = WorkflowCheckpoint & {
+  executor: WorkflowExecutor;
+  status: WorkflowRunStatus;
+  phase: WorkflowPhase;
+  control?: "pause" | "cancel";
+  error?: string;
+  reportTitle?: string;
+  updatedAt: string;
+  // Renewed by whoever is executing the run; once it lapses the run was cut off and can resume.
+  leaseUntil?: string;
+  // Tab driving a browser run (BROWSER_TAB_ID of that tab).
+  owner?: string;
+};
+
 type ActionPlanItem = {
   id: string;
   threadId: string;
   memberId: string;
   memberName: string;
   plan: string;
+  // Merged from every restatement of the plan; the prose above is only the latest statement.
+  tasks: PlanTask[];
   source: "workflow" | "management" | "manual";
   createdAt: string;
   updatedAt: string;
   lastExecutedAt?: string;
-  lastExecutionSummary?: string;
+  // Runs so far; each run's steps are stored as execution entries under this number.
+  executionCount?: number;
+  lastExecutionStatus?: PlanStepStatus;
 };
 
 type OfficeMessageKind = "chat" | "report" | "image" | "system";
@@ -137,6 +303,7 @@ type OfficeMessage = {
   attachments: FileAsset[];
   createdAt: string;
   source: "cloud" | "local";
+  persona?: PersonaStamp;
 };
 
 type MeetingTurn = {
@@ -149,12 +316,42 @@ type MeetingTurn = {
   text: string;
   createdAt: string;
   source: "workflow" | "chat";
+  persona?: PersonaStamp;
+};
+
+type LiveDraftChannel = "chat" | "meeting" | "report";
+
+// The thread and workflow run an agent call is metered to. Callers pass it in, because the active
+// thread can change and ordinary chat can run while a workflow is in flight.
+type AgentCallScope = {
+  threadId: string;
+  runId?: string;
 };
 
+type LiveDraft = {
+  id: string;
+  threadId: string;
+  memberId: string;
+  channel: LiveDraftChannel;
+  text: string;
+  startedAt: string;
+};
+
+type GoalStatus = "not_started" | "in_progress" | "achieved" | "dropped";
+
 type ThreadGoal = {
   id: string;
   title: string;
   description: string;
+  status: GoalStatus;
+  metric: string;
+  targetValue: number | null;
+  currentValue: number | null;
+  linkedPlanIds: string[];
+  linkedReportIds: string[];
+  // P-number shown in the Mission tab and sent in prompts, set by numberGoals whenever the list
+  // changes; null for dropped goals. Derived, so never saved.
+  priority: number | null;
 };
 
 type ThreadItem = {
@@ -164,6 +361,25 @@ type ThreadItem = {
   updatedAt: string;
   vision: string;
   goals: ThreadGoal[];
+  pinned: boolean;
+  archived: boolean;
+  // Set by a manual rename; workflows then stop retitling the thread from the task.
+  titleLocked: boolean;
+  // Plan board edits PM-TAN has not seen yet; removed once they reach its prompt.
+  scheduleFeedback: string[];
+  // "local" threads were created signed out in this browser; only those are kept in localStorage
+  // and copied into an account on its first sign-in here.
+  origin: "local" | "cloud";
+};
+
+type ThreadSearchHit = {
+  key: string;
+  kind: "thread" | "message" | "meeting" | "report";
+  threadId: string;
+  itemId: string;
+  label: string;
+  snippet: string;
+  createdAt: string;
 };
 
 type GovernanceAlert = {
@@ -191,6 +407,25 @@ type DetailModalState = {
   body: string;
   markdown: boolean;
   attachments: FileAsset[];
+  // Shown instead of the body when comparing two texts side by side.
+  diff?: { leftLabel: string; rightLabel: string; rows: DiffRow[] };
+};
+
+type AgentMemory = {
+  id: string;
+  memberId: string;
+  threadId: string;
+  kind: MemoryKind;
+  text: string;
+  pinned: boolean;
+  createdAt: string;
+};
+
+type OfficeImportPreview = {
+  fileName: string;
+  config: OfficeConfig;
+  warnings: string[];
+  changes: string[];
 };
 
 type UsageQuota = {
@@ -199,22 +434,64 @@ type UsageQuota = {
   exhausted: boolean;
 };
 
+type UsageRollup = {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  unpricedCalls: number;
+};
+
+// Running totals the Functions proxy keeps in `usageTotals` alongside every ledger entry.
+type UsageTotal = UsageRollup & {
+  scope: "thread" | "member" | "run";
+  threadId: string;
+  memberId: string;
+  runId: string;
+};
+
 const PROVIDER_LABEL: Record<LlmProvider, string> = {
   openai: "OpenAI",
   anthropic: "Anthropic",
   xai: "xAI",
   gemini: "Gemini",
+  mock: "Mock (offline)",
 };
 
 const LOCAL_KEY_ROLE_CONFIG = "hobbytan.role_config";
 const LOCAL_KEY_TASK_DRAFT = "hobbytan.task_draft";
 const LOCAL_KEY_THREADS = "hobbytan.threads";
+// uids whose signed-out threads this browser has already copied to Firestore.
+const LOCAL_KEY_THREAD_MIGRATION = "hobbytan.thread_migration";
 const LOCAL_KEY_ACTIVE_THREAD = "hobbytan.active_thread";
 const LOCAL_KEY_LEFT_TAB = "hobbytan.left_tab";
 const LOCAL_KEY_RIGHT_TAB = "hobbytan.right_tab";
 const LOCAL_KEY_LEFT_PANEL_OPEN = "hobbytan.left_panel_open";
 const LOCAL_KEY_RIGHT_PANEL_OPEN = "hobbytan.right_panel_open";
 const LOCAL_KEY_AMBIENT_MOTION = "hobbytan.ambient_motion";
+const LOCAL_KEY_WORKFLOW_EXECUTOR = "hobbytan.workflow_executor";
+const LOCAL_KEY_ROSTER = "hobbytan.roster";
+const LOCAL_KEY_PERSONA_HISTORY = "hobbytan.persona_history";
+const LOCAL_KEY_OFFICE_LAYOUT = "hobbytan.office_layout";
+const LOCAL_KEY_AGENT_MEMORIES = "hobbytan.agent_memories";
+const LOCAL_KEY_THREAD_SUMMARIES = "hobbytan.thread_summaries";
+const LOCAL_KEY_THREAD_PASSAGES = "hobbytan.thread_passages";
+
+const PROFILE_IMAGE_OPTIONS = Array.from(
+  new Set(DEFAULT_COUNCIL_MEMBERS.map((member) => member.image)),
+);
+
+const AGENT_MEMORY_KIND_LABEL: Record<MemoryKind, string> = {
+  fact: "사실",
+  decision: "결정",
+};
+const MEMORY_RECALL_LIMIT = 6;
+// Turns are extracted together once this many are queued, or after the conversation goes quiet.
+const MEMORY_EXTRACTION_BATCH = 4;
+const MEMORY_EXTRACTION_IDLE_MS = 30000;
+// Listened to per TAN, pinned first, so one busy TAN never pushes another's memories out.
+const MEMORY_LIMIT_PER_MEMBER = 100;
 
 const DEFAULT_CHAT_RECIPIENTS = ["ATTENDANT-TAN", "PM-TAN", "DEV-TAN", "UX-TAN"];
 const FREE_REPORT_LIMIT = 3;
@@ -226,8 +503,33 @@ const DEPLOYED_APP_URL = "https://automagent-8d64c.web.app";
 
 const makeId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
 
+// Identifies this tab as the owner of the browser runs it drives.
+const BROWSER_TAB_ID = makeId();
+// A browser run renews its lease every heartbeat while its tab is driving it.
+const BROWSER_RUN_LEASE_MS = 90 * 1000;
+const BROWSER_RUN_HEARTBEAT_MS = 30 * 1000;
+
 const sleep = (delay: number) => new Promise((resolve) => setTimeout(resolve, delay));
 
+// Used as the AbortSignal reason so every in-flight call rejects with the same error.
+class WorkflowInterruptedError extends Error {
+  interruption: WorkflowInterruption;
+
+  constructor(interruption: WorkflowInterruption) {
+    super(interruption === "paused" ? "워크플로우가 일시정지되었습니다." : "워크플로우가 취소되었습니다.");
+    this.name = "WorkflowInterruptedError";
+    this.interruption = interruption;
+  }
+}
+
+// Per-member fallbacks swallow call errors; an interrupted run must still unwind.
+const rethrowIfInterrupted = (error: unknown, signal?: AbortSignal) => {
+  if (error instanceof ProxyQuotaError || error instanceof WorkflowInterruptedError) {
+    throw error;
+  }
+  signal?.throwIfAborted();
+};
+
 const withTimeout = async <T,>(promise: Promise<T>, timeoutMs = 15000) =>
   new Promise<T>((resolve, reject) => {
     const timer = window.setTimeout(() => {
@@ -253,6 +555,18 @@ const createMockUser = () =>
     photoURL: "/assets/profiles/ceo.png",
   }) as User;
 
+const describeError = (error: unknown, fallback: string) => {
+  if (error instanceof ProxyQuotaError) {
+    if (error.code === "rate_limited") {
+      return `요청이 너무 많습니다. ${error.retryAfterSeconds || 60}초 후 다시 시도해 주세요.`;
+    }
+    const limit = error.usage?.limit ?? FREE_REPORT_LIMIT;
+    return `무료 보고서 ${limit}회를 모두 사용했습니다. 추가 이용은 ${SUPPORT_EMAIL} 로 문의해 주세요.`;
+  }
+
+  return error instanceof Error ? error.message : fallback;
+};
+
 const formatTime = (isoText: string) =>
   new Date(isoText).toLocaleString("ko-KR", {
     hour12: false,
@@ -311,6 +625,113 @@ const shortenText = (raw: string, maxLength = 240) => {
   return `${plain.slice(0, maxLength).trim()}...`;
 };
 
+const WORKFLOW_RUN_STATUS_LABEL: Record<WorkflowRunStatus, string> = {
+  queued: "서버 대기열",
+  running: "진행 중",
+  paused: "일시정지",
+  cancelled: "취소됨",
+  failed: "실패",
+  completed: "완료",
+};
+
+const WORKFLOW_PHASES: WorkflowPhase[] = [
+  "idle",
+  "brainstorming",
+  "collaboration",
+  "execution",
+  "reporting",
+];
+
+const parseWorkflowRun = (runId: string, data: Record<string, unknown>): WorkflowRun => {
+  const status =
+    typeof data.status === "string" && Object.hasOwn(WORKFLOW_RUN_STATUS_LABEL, data.status)
+      ? (data.status as WorkflowRunStatus)
+      : "failed";
+  const phase = WORKFLOW_PHASES.includes(data.phase as WorkflowPhase)
+    ? (data.phase as WorkflowPhase)
+    : "idle";
+  const brainstorm = data.brainstorm as BrainstormPlan | undefined;
+  const managementPlan = data.managementPlan as WorkflowCheckpoint["managementPlan"];
+  const collaborationSession = data.collaborationSession as CollaborationSessionResult | undefined;
+  const autonomousResult = data.autonomousResult as AutonomousLoopResult | undefined;
+
+  return {
+    runId,
+    threadId: typeof data.threadId === "string" && data.threadId ? data.threadId : "thread-main",
+    task: typeof data.task === "string" ? data.task : "",
+    startedAt: parseTimestamp(data.startedAt),
+    updatedAt: parseTimestamp(data.updatedAt),
+    executor: data.executor === "server" ? "server" : "browser",
+    status,
+    phase,
+    control: data.control === "pause" || data.control === "cancel" ? data.control : undefined,
+    error: typeof data.error === "string" ? data.error : undefined,
+    reportTitle: typeof data.reportTitle === "string" ? data.reportTitle : undefined,
+    leaseUntil: data.leaseUntil ? parseTimestamp(data.leaseUntil) : undefined,
+    owner: typeof data.owner === "string" ? data.owner : undefined,
+    brainstorm:
+      brainstorm && typeof brainstorm.strategy === "string" && Array.isArray(brainstorm.participants)
+        ? brainstorm
+        : undefined,
+    managementPlan:
+      managementPlan && typeof managementPlan.poPlan === "string" ? managementPlan : undefined,
+    collaborationSession:
+      collaborationSession && Array.isArray(collaborationSession.notes)
+        ? {
+            sessionId: String(collaborationSession.sessionId || ""),
+            notes: collaborationSession.notes,
+            transcript: Array.isArray(collaborationSession.transcript)
+              ? collaborationSession.transcript
+              : [],
+          }
+        : undefined,
+    autonomousResult:
+      autonomousResult && Array.isArray(autonomousResult.notes) ? autonomousResult : undefined,
+    attachments: Array.isArray(data.attachments) ? parseAssetList(data.attachments) : undefined,
+  };
+};
+
+// Runs written before leases existed have none, so a "running" one of those counts as cut off.
+const isRunLeaseExpired = (run: WorkflowRun, now: Date) =>
+  run.status === "running" && (!run.leaseUntil || run.leaseUntil < now.toISOString());
+
+const formatUsd = (value: number) => `$${value.toFixed(value < 1 ? 4 : 2)}`;
+
+const formatTokens = (value: number) => value.toLocaleString("ko-KR");
+
+// Uses the same P-numbers as the Mission tab. Dropped and untitled goals are left out.
+const formatMissionContext = ({ vision, goals }: Pick<ThreadItem, "vision" | "goals">) => {
+  const goalLines = goals
+    .filter((goal) => goal.title.trim() && goal.priority !== null)
+    .map((goal) => {
+      const metric = goal.metric.trim()
+        ? `, ${goal.metric.trim()} ${goal.currentValue ?? "-"}/${goal.targetValue ?? "-"}`
+        : "";
+      return `P${goal.priority}. ${goal.title.trim()}${goal.description.trim() ? ` - ${goal.description.trim()}` : ""} [${GOAL_STATUS_LABEL[goal.status]}${metric}]`;
+    });
+  if (!vision.trim() && goalLines.length === 0) {
+    return "";
+  }
+
+  return [
+    "[회사 미션 컨텍스트]",
+    `비전: ${vision.trim() || "미정"}`,
+    "우선순위 목표(P1이 최우선):",
+    ...(goalLines.length > 0 ? goalLines : ["- 없음"]),
+  ].join("\n");
+};
+
+const formatDialogue = (turns: DialogueTurn[]) =>
+  turns.map((turn) => `${turn.speakerId}: ${turn.text}`).join("\n\n");
+
+// The speaking agent sees its own earlier turns as "assistant" and everyone else as "user".
+const toAgentMessages = (turns: DialogueTurn[], selfId: string): LlmMessage[] =>
+  turns.map((turn) => ({
+    role: turn.speakerId === selfId ? "assistant" : "user",
+    name: turn.speakerId,
+    content: turn.text,
+  }));
+
 const stripInlineMarkdown = (text: string) =>
   text
     .replace(/`([^`]+)`/g, "$1")
@@ -408,9 +829,9 @@ const base64ToBlob = (base64Data: string, mimeType: string) => {
   return new Blob([buffer], { type: mimeType });
 };
 
-const createDefaultRoleConfig = (): RoleConfigMap =>
+const createDefaultRoleConfig = (members: CouncilMember[]): RoleConfigMap =>
   Object.fromEntries(
-    COUNCIL_MEMBERS.map((member) => [
+    members.map((member) => [
       member.id,
       {
         provider: member.defaultProvider,
@@ -421,24 +842,21 @@ const createDefaultRoleConfig = (): RoleConfigMap =>
     ]),
   );
 
-const createInitialAgents = (): Record<string, AgentState> =>
-  Object.fromEntries(
-    COUNCIL_MEMBERS.map((member) => [
-      member.id,
-      {
-        x: member.seat.x,
-        y: member.seat.y,
-        targetX: member.seat.x,
-        targetY: member.seat.y,
-        zone: member.id === "CEO-HOBBY" ? "ceo" : "desk",
-        status: member.id === "CEO-HOBBY" ? "최종 승인 대기" : "좌석 대기",
-        active: false,
-      },
-    ]),
-  );
+const createAgentState = (member: CouncilMember): AgentState => ({
+  x: member.seat.x,
+  y: member.seat.y,
+  targetX: member.seat.x,
+  targetY: member.seat.y,
+  zone: member.id === "CEO-HOBBY" ? "ceo" : "desk",
+  status: member.id === "CEO-HOBBY" ? "최종 승인 대기" : "좌석 대기",
+  active: false,
+});
 
-const loadRoleConfig = () => {
-  const defaults = createDefaultRoleConfig();
+const createInitialAgents = (members: CouncilMember[]): Record<string, AgentState> =>
+  Object.fromEntries(members.map((member) => [member.id, createAgentState(member)]));
+
+const loadRoleConfig = (members: CouncilMember[]) => {
+  const defaults = createDefaultRoleConfig(members);
   const raw = localStorage.getItem(LOCAL_KEY_ROLE_CONFIG);
 
   if (!raw) {
@@ -447,12 +865,12 @@ const loadRoleConfig = () => {
 
   try {
     const parsed = JSON.parse(raw) as RoleConfigMap;
-    for (const member of COUNCIL_MEMBERS) {
+    for (const member of members) {
       const existing = parsed[member.id];
       const provider = existing?.provider || member.defaultProvider;
       defaults[member.id] = {
         provider,
-        model: existing?.model || getRoleDefaultModel(member.id, provider),
+        model: existing?.model || getRoleDefaultModel(member, provider),
         apiKey: "",
         baseUrl: existing?.baseUrl || "",
       };
@@ -480,13 +898,10 @@ const parseTimestamp = (value: unknown) => {
   return new Date().toISOString();
 };
 
-const getMember = (memberId: string) => MEMBER_BY_ID.get(memberId);
-
 const getRoleDefaultModel = (
-  memberId: string,
+  member: CouncilMember | undefined,
   provider: LlmProvider,
 ) => {
-  const member = getMember(memberId);
   if (!member) {
     return getDefaultModelForProvider(provider);
   }
@@ -496,6 +911,72 @@ const getRoleDefaultModel = (
   return getDefaultModelForProvider(provider);
 };
 
+const GOAL_STATUS_LABEL: Record<GoalStatus, string> = {
+  not_started: "시작 전",
+  in_progress: "진행 중",
+  achieved: "달성",
+  dropped: "중단",
+};
+
+const createGoal = (patch: Partial<ThreadGoal> = {}): ThreadGoal => ({
+  id: makeId(),
+  title: "",
+  description: "",
+  status: "not_started",
+  metric: "",
+  targetValue: null,
+  currentValue: null,
+  linkedPlanIds: [],
+  linkedReportIds: [],
+  priority: null,
+  ...patch,
+});
+
+// Goal order is priority order, so P1 is the first goal the Mission tab lists that is not dropped.
+const numberGoals = (goals: ThreadGoal[]): ThreadGoal[] => {
+  let next = 0;
+  return goals.map((goal) => ({ ...goal, priority: goal.status === "dropped" ? null : (next += 1) }));
+};
+
+const toGoalDocument = (goal: ThreadGoal) => {
+  const stored: Partial<ThreadGoal> = { ...goal };
+  delete stored.priority;
+  return stored;
+};
+
+// Threads saved before goals had status/metrics/links load with neutral defaults.
+const normalizeGoal = (raw: Partial<ThreadGoal>): ThreadGoal => {
+  const readNumber = (value: unknown) =>
+    typeof value === "number" && Number.isFinite(value) ? value : null;
+  const readIds = (value: unknown) =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+
+  return createGoal({
+    id: typeof raw.id === "string" && raw.id ? raw.id : makeId(),
+    title: typeof raw.title === "string" ? raw.title : "",
+    description: typeof raw.description === "string" ? raw.description : "",
+    status:
+      typeof raw.status === "string" && Object.hasOwn(GOAL_STATUS_LABEL, raw.status)
+        ? raw.status
+        : "not_started",
+    metric: typeof raw.metric === "string" ? raw.metric : "",
+    targetValue: readNumber(raw.targetValue),
+    currentValue: readNumber(raw.currentValue),
+    linkedPlanIds: readIds(raw.linkedPlanIds),
+    linkedReportIds: readIds(raw.linkedReportIds),
+  });
+};
+
+const goalProgress = (goal: ThreadGoal) => {
+  if (goal.status === "achieved") {
+    return 100;
+  }
+  if (goal.targetValue === null || goal.currentValue === null || goal.targetValue === 0) {
+    return null;
+  }
+  return Math.max(0, Math.min(100, Math.round((goal.currentValue / goal.targetValue) * 100)));
+};
+
 const createDefaultThread = (): ThreadItem => ({
   id: "thread-main",
   title: "Create virtual HOBBYTAN office",
@@ -503,23 +984,46 @@ const createDefaultThread = (): ThreadItem => ({
   updatedAt: new Date().toISOString(),
   vision:
     "HOBBYTAN AI Digital Office는 역할 분담형 에이전트 조직으로, CEO 지시를 실행 가능한 산출물로 빠르게 전환한다.",
-  goals: [
-    {
+  goals: numberGoals([
+    createGoal({
       id: "goal-1",
       title: "워크플로우 자동화 품질 향상",
       description: "브레인스토밍-협업-보고 파이프라인 정확도와 속도를 개선한다.",
-    },
-    {
+    }),
+    createGoal({
       id: "goal-2",
       title: "문서/파일 전달 신뢰성 강화",
       description: "미리보기, 다운로드, 버전 히스토리 관리를 안정화한다.",
-    },
-    {
+    }),
+    createGoal({
       id: "goal-3",
       title: "거버넌스 준수 자동 점검",
       description: "LEGAL/HR 감시 규칙으로 위반 가능성을 실시간 감지한다.",
-    },
-  ],
+    }),
+  ]),
+  pinned: false,
+  archived: false,
+  titleLocked: false,
+  scheduleFeedback: [],
+  origin: "local",
+});
+
+const normalizeThread = (thread: Partial<ThreadItem>, index: number): ThreadItem => ({
+  id: thread.id || `thread-${index + 1}`,
+  title: thread.title || `Thread ${index + 1}`,
+  createdAt: thread.createdAt || new Date().toISOString(),
+  updatedAt: thread.updatedAt || thread.createdAt || new Date().toISOString(),
+  vision: thread.vision || createDefaultThread().vision,
+  goals: Array.isArray(thread.goals)
+    ? numberGoals(thread.goals.map(normalizeGoal))
+    : createDefaultThread().goals,
+  pinned: thread.pinned === true,
+  archived: thread.archived === true,
+  titleLocked: thread.titleLocked === true,
+  scheduleFeedback: Array.isArray(thread.scheduleFeedback)
+    ? thread.scheduleFeedback.filter((line) => typeof line === "string")
+    : [],
+  origin: thread.origin === "cloud" ? "cloud" : "local",
 });
 
 const loadThreads = (): ThreadItem[] => {
@@ -533,22 +1037,73 @@ const loadThreads = (): ThreadItem[] => {
     if (!Array.isArray(parsed) || parsed.length === 0) {
       return [createDefaultThread()];
     }
-    return parsed.map((thread, index) => ({
-      ...thread,
-      id: thread.id || `thread-${index + 1}`,
-      title: thread.title || `Thread ${index + 1}`,
-      createdAt: thread.createdAt || new Date().toISOString(),
-      updatedAt: thread.updatedAt || thread.createdAt || new Date().toISOString(),
-      vision: thread.vision || createDefaultThread().vision,
-      goals: Array.isArray(thread.goals) && thread.goals.length > 0
-        ? thread.goals
-        : createDefaultThread().goals,
-    }));
+    const local = parsed.map(normalizeThread).filter((thread) => thread.origin === "local");
+    return local.length > 0 ? local : [createDefaultThread()];
   } catch {
     return [createDefaultThread()];
   }
 };
 
+// Firestore keeps goals as a map keyed by goal id with an explicit order, so two devices editing
+// different goals (or different fields of one goal) merge instead of overwriting the whole list.
+const toThreadDocument = (thread: ThreadItem) => ({
+  title: thread.title,
+  vision: thread.vision,
+  createdAt: thread.createdAt,
+  updatedAt: thread.updatedAt,
+  pinned: thread.pinned,
+  archived: thread.archived,
+  titleLocked: thread.titleLocked,
+  scheduleFeedback: thread.scheduleFeedback,
+  goals: Object.fromEntries(thread.goals.map((goal, order) => [goal.id, { ...toGoalDocument(goal), order }])),
+});
+
+const parseThreadDocument = (id: string, raw: Record<string, unknown>): ThreadItem => {
+  const goals =
+    raw.goals && typeof raw.goals === "object" && !Array.isArray(raw.goals)
+      ? Object.entries(raw.goals as Record<string, Record<string, unknown>>)
+          .filter(([, goal]) => goal && typeof goal === "object")
+          .sort(
+            ([leftId, left], [rightId, right]) =>
+              Number(left.order ?? 0) - Number(right.order ?? 0) || leftId.localeCompare(rightId),
+          )
+          .map(([goalId, goal]) => normalizeGoal({ ...goal, id: goalId }))
+      : [];
+  return normalizeThread(
+    {
+      id,
+      title: typeof raw.title === "string" ? raw.title : "",
+      vision: typeof raw.vision === "string" ? raw.vision : "",
+      createdAt: typeof raw.createdAt === "string" ? raw.createdAt : undefined,
+      updatedAt: typeof raw.updatedAt === "string" ? raw.updatedAt : undefined,
+      goals,
+      pinned: raw.pinned === true,
+      archived: raw.archived === true,
+      titleLocked: raw.titleLocked === true,
+      scheduleFeedback: Array.isArray(raw.scheduleFeedback) ? (raw.scheduleFeedback as string[]) : [],
+      origin: "cloud",
+    },
+    0,
+  );
+};
+
+const toSearchTerms = (text: string) => text.toLowerCase().split(/\s+/).filter(Boolean);
+
+const matchesSearchTerms = (text: string, terms: string[]) => {
+  const lowered = text.toLowerCase();
+  return terms.every((term) => lowered.includes(term));
+};
+
+// A window around the first matching term, so the hit shows why it matched.
+const buildSearchSnippet = (text: string, terms: string[]) => {
+  const flat = text.replace(/\s+/g, " ").trim();
+  const index = Math.max(0, flat.toLowerCase().indexOf(terms[0] || ""));
+  const start = Math.max(0, index - 40);
+  return `${start > 0 ? "..." : ""}${flat.slice(start, start + 140)}${start + 140 < flat.length ? "..." : ""}`;
+};
+
+const SEARCH_RESULT_LIMIT = 60;
+
 const randomStatusByDepartment = (department: string) => {
   switch (department) {
     case "Product":
@@ -598,6 +1153,14 @@ const parseAsset = (raw: unknown): FileAsset | null => {
           : new Date().toISOString(),
     source: item.source === "local" ? "local" : "cloud",
     path: typeof item.path === "string" ? item.path : undefined,
+    textExtract:
+      item.textExtract && typeof item.textExtract.url === "string"
+        ? {
+            url: item.textExtract.url,
+            path: typeof item.textExtract.path === "string" ? item.textExtract.path : undefined,
+            chars: Number(item.textExtract.chars) || 0,
+          }
+        : undefined,
   };
 };
 
@@ -609,89 +1172,460 @@ const parseAssetList = (raw: unknown): FileAsset[] => {
   return raw.map(parseAsset).filter((item): item is FileAsset => !!item);
 };
 
-const avatarForMember = (memberId: string, user: User | null) => {
-  if (memberId === "CEO-HOBBY" && user?.photoURL) {
-    return user.photoURL;
+const parseAgentMemory = (id: string, raw: unknown): AgentMemory | null => {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+
+  const item = raw as Record<string, unknown>;
+  if (typeof item.memberId !== "string" || typeof item.text !== "string" || !item.text.trim()) {
+    return null;
   }
 
-  return getMember(memberId)?.image || "/assets/profiles/ceo.png";
+  return {
+    id,
+    memberId: item.memberId,
+    threadId: typeof item.threadId === "string" ? item.threadId : "thread-main",
+    kind: item.kind === "decision" ? "decision" : "fact",
+    text: item.text,
+    pinned: item.pinned === true,
+    createdAt: parseTimestamp(item.createdAt),
+  };
 };
 
-function App() {
-  const [devMockEnabled] = useState(() => isDevMockEnabled());
-  const [user, setUser] = useState<User | null>(null);
-  const [authLoading, setAuthLoading] = useState(true);
-  const [authError, setAuthError] = useState("");
+const HISTORY_PAGE_SIZE = 50;
+const PLAN_BOARD_COLUMNS = Object.keys(PLAN_TASK_STATUS_LABEL) as PlanTaskStatus[];
+const GANTT_DAY_WIDTH = 26;
 
-  const [roleConfig, setRoleConfig] = useState<RoleConfigMap>(() => loadRoleConfig());
-  const [taskInput, setTaskInput] = useState(
-    localStorage.getItem(LOCAL_KEY_TASK_DRAFT) || "",
-  );
+const parseMeetingTurn = (id: string, raw: Record<string, unknown>): MeetingTurn | null => {
+  if (typeof raw.speakerId !== "string" || typeof raw.text !== "string") {
+    return null;
+  }
 
-  const [phase, setPhase] = useState<WorkflowPhase>("idle");
-  const [running, setRunning] = useState(false);
-  const [workflowError, setWorkflowError] = useState("");
+  return {
+    id,
+    threadId: typeof raw.threadId === "string" ? raw.threadId : "thread-main",
+    sessionId: typeof raw.sessionId === "string" ? raw.sessionId : "",
+    room: raw.room === "brainstorming" ? "brainstorming" : "collaboration",
+    speakerId: raw.speakerId,
+    speakerName: typeof raw.speakerName === "string" ? raw.speakerName : raw.speakerId,
+    text: raw.text,
+    createdAt: parseTimestamp(raw.createdAt),
+    source: raw.source === "chat" ? "chat" : "workflow",
+    persona: parsePersonaStamp(raw.persona),
+  };
+};
 
-  const [agents, setAgents] = useState<Record<string, AgentState>>(() => createInitialAgents());
-  const [activeMembers, setActiveMembers] = useState<string[]>([]);
+const parseActionPlan = (id: string, raw: Record<string, unknown>): ActionPlanItem | null => {
+  if (typeof raw.memberId !== "string" || typeof raw.plan !== "string") {
+    return null;
+  }
 
-  const [activityLogs, setActivityLogs] = useState<ActivityLog[]>([]);
-  const [cloudReports, setCloudReports] = useState<ReportItem[]>([]);
-  const [localReports, setLocalReports] = useState<ReportItem[]>([]);
+  return {
+    id,
+    threadId: typeof raw.threadId === "string" ? raw.threadId : "thread-main",
+    memberId: raw.memberId,
+    memberName: typeof raw.memberName === "string" ? raw.memberName : raw.memberId,
+    plan: raw.plan,
+    tasks: Array.isArray(raw.tasks)
+      ? raw.tasks.map(parsePlanTask).filter((task): task is PlanTask => task !== null)
+      : [],
+    source: raw.source === "management" || raw.source === "manual" ? raw.source : "workflow",
+    createdAt: parseTimestamp(raw.createdAt),
+    updatedAt: parseTimestamp(raw.updatedAt),
+    lastExecutedAt: typeof raw.lastExecutedAt === "string" ? raw.lastExecutedAt : undefined,
+    executionCount: Number(raw.executionCount) || 0,
+    lastExecutionStatus:
+      typeof raw.lastExecutionStatus === "string" && Object.hasOwn(PLAN_STEP_STATUS_LABEL, raw.lastExecutionStatus)
+        ? (raw.lastExecutionStatus as PlanStepStatus)
+        : undefined,
+  };
+};
 
-  const [cloudMessages, setCloudMessages] = useState<OfficeMessage[]>([]);
-  const [localMessages, setLocalMessages] = useState<OfficeMessage[]>([]);
-  const [meetingTurns, setMeetingTurns] = useState<MeetingTurn[]>([]);
-  const [actionPlans, setActionPlans] = useState<ActionPlanItem[]>([]);
-  const [governanceAlerts, setGovernanceAlerts] = useState<GovernanceAlert[]>([]);
-  const [threads, setThreads] = useState<ThreadItem[]>(() => loadThreads());
-  const [activeThreadId, setActiveThreadId] = useState(
-    localStorage.getItem(LOCAL_KEY_ACTIVE_THREAD) || "thread-main",
-  );
-  const [leftTab, setLeftTab] = useState(
-    localStorage.getItem(LOCAL_KEY_LEFT_TAB) || "threads",
-  );
-  const [rightTab, setRightTab] = useState(
-    localStorage.getItem(LOCAL_KEY_RIGHT_TAB) || "chat",
-  );
-  const [leftPanelOpen, setLeftPanelOpen] = useState(
-    localStorage.getItem(LOCAL_KEY_LEFT_PANEL_OPEN) === "1",
-  );
-  const [rightPanelOpen, setRightPanelOpen] = useState(
-    localStorage.getItem(LOCAL_KEY_RIGHT_PANEL_OPEN) === "1",
-  );
-  const [ambientMotionEnabled, setAmbientMotionEnabled] = useState(
-    localStorage.getItem(LOCAL_KEY_AMBIENT_MOTION) === "1",
+const parseGovernanceAlert = (id: string, raw: Record<string, unknown>): GovernanceAlert | null => {
+  if (typeof raw.message !== "string") {
+    return null;
+  }
+
+  return {
+    id,
+    threadId: typeof raw.threadId === "string" ? raw.threadId : "thread-main",
+    source: raw.source === "HR-TAN" ? "HR-TAN" : "LEGAL-TAN",
+    status: raw.status === "warning" ? "warning" : "ok",
+    message: raw.message,
+    createdAt: parseTimestamp(raw.createdAt),
+  };
+};
+
+const parseActivityLog = (id: string, raw: Record<string, unknown>): ActivityLog | null => {
+  if (typeof raw.message !== "string") {
+    return null;
+  }
+
+  return {
+    id,
+    threadId: typeof raw.threadId === "string" ? raw.threadId : "thread-main",
+    createdAt: parseTimestamp(raw.createdAt),
+    phase: WORKFLOW_PHASES.includes(raw.phase as WorkflowPhase) ? (raw.phase as WorkflowPhase) : "idle",
+    message: raw.message,
+  };
+};
+
+// Newest first, one page past the limit so the view knows whether an older page exists.
+const subscribeThreadHistory = <T,>(
+  uid: string,
+  name: HistoryCollection,
+  threadId: string,
+  orderField: "createdAt" | "updatedAt",
+  pageLimit: number,
+  parse: (id: string, raw: Record<string, unknown>) => T | null,
+  onItems: (items: T[]) => void,
+) =>
+  onSnapshot(
+    query(
+      collection(db, "users", uid, name),
+      where("threadId", "==", threadId),
+      orderBy(orderField, "desc"),
+      limit(pageLimit + 1),
+    ),
+    (snapshot) => {
+      onItems(
+        snapshot.docs
+          .map((documentSnapshot) => parse(documentSnapshot.id, documentSnapshot.data()))
+          .filter((item): item is T => !!item),
+      );
+    },
+    (error) => {
+      console.error(`Failed to sync ${name}:`, error);
+    },
   );
 
-  const [workflowAttachmentFile, setWorkflowAttachmentFile] = useState<File | null>(null);
+// Signed-out memories stay in this browser; signed-in ones live in Firestore.
+const loadLocalMemories = (): AgentMemory[] => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(LOCAL_KEY_AGENT_MEMORIES) || "[]") as unknown;
+    return Array.isArray(raw)
+      ? raw
+          .map((item) => parseAgentMemory(String((item as { id?: unknown })?.id || makeId()), item))
+          .filter((item): item is AgentMemory => !!item)
+      : [];
+  } catch {
+    return [];
+  }
+};
 
-  const [currentClock, setCurrentClock] = useState(new Date());
+const loadLocalPassages = (): ThreadPassage[] => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(LOCAL_KEY_THREAD_PASSAGES) || "[]") as unknown;
+    return Array.isArray(raw)
+      ? raw
+          .map((item) => parseThreadPassage(String((item as { id?: unknown })?.id || makeId()), item))
+          .filter((item): item is ThreadPassage => !!item)
+      : [];
+  } catch {
+    return [];
+  }
+};
 
-  const [messageDraft, setMessageDraft] = useState("");
-  const [messageTarget, setMessageTarget] = useState("ATTENDANT-TAN");
-  const [messageFiles, setMessageFiles] = useState<File[]>([]);
-  const [sendingMessage, setSendingMessage] = useState(false);
-  const [messageError, setMessageError] = useState("");
-  const [executingPlanId, setExecutingPlanId] = useState("");
+const toRecallTerms = (text: string) =>
+  new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((term) => term.length >= 2),
+  );
 
-  const [uxPrompt, setUxPrompt] = useState("");
-  const [uxReferenceFiles, setUxReferenceFiles] = useState<File[]>([]);
-  const [uxAspectRatio, setUxAspectRatio] = useState("16:9");
-  const [uxImageSize, setUxImageSize] = useState<"1K" | "2K" | "4K">("2K");
-  const [uxUseSearch, setUxUseSearch] = useState(false);
-  const [uxGenerating, setUxGenerating] = useState(false);
-  const [uxError, setUxError] = useState("");
+// Pinned memories always come first; the rest need at least one shared term with the query.
+const rankMemories = (memories: AgentMemory[], query: string, limit = MEMORY_RECALL_LIMIT) => {
+  const terms = toRecallTerms(query);
+  return memories
+    .map((memory) => {
+      const overlap = Array.from(toRecallTerms(memory.text)).filter((term) => terms.has(term)).length;
+      return { memory, score: (memory.pinned ? 100 : 0) + overlap * 2 + (memory.kind === "decision" ? 1 : 0) };
+    })
+    .filter((item) => item.memory.pinned || item.score > 1)
+    .sort(
+      (left, right) =>
+        right.score - left.score || right.memory.createdAt.localeCompare(left.memory.createdAt),
+    )
+    .slice(0, limit)
+    .map((item) => item.memory);
+};
 
-  const [previewState, setPreviewState] = useState<PreviewState>({
-    open: false,
-    asset: null,
-    assetUrl: "",
-    loading: false,
-    textContent: "",
-    error: "",
-  });
-  const [detailModal, setDetailModal] = useState<DetailModalState>({
+const formatMemoryContext = (memories: AgentMemory[]) =>
+  memories.length === 0
+    ? ""
+    : [
+        "장기 기억(이전 스레드 포함). 이미 결정/해결된 사항은 다시 제기하지 말고 이어서 진행하라:",
+        ...memories.map(
+          (memory) =>
+            `- [${AGENT_MEMORY_KIND_LABEL[memory.kind]}] ${memory.text} (${memory.createdAt.slice(0, 10)})`,
+        ),
+      ].join("\n");
+
+const loadThreadSummaries = (): Record<string, ThreadSummary> => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(LOCAL_KEY_THREAD_SUMMARIES) || "{}") as unknown;
+    if (!raw || typeof raw !== "object") {
+      return {};
+    }
+    return Object.fromEntries(
+      Object.values(raw)
+        .map(parseThreadSummary)
+        .filter((item): item is ThreadSummary => !!item)
+        .map((item) => [item.threadId, item]),
+    );
+  } catch {
+    return {};
+  }
+};
+
+const loadOfficeLayout = () => {
+  try {
+    return (
+      parseOfficeLayout(JSON.parse(localStorage.getItem(LOCAL_KEY_OFFICE_LAYOUT) || "null"))?.layout ||
+      DEFAULT_OFFICE_LAYOUT
+    );
+  } catch {
+    return DEFAULT_OFFICE_LAYOUT;
+  }
+};
+
+const parsePersonaStamp = (raw: unknown): PersonaStamp | undefined => {
+  if (!raw || typeof raw !== "object") {
+    return undefined;
+  }
+
+  const item = raw as Record<string, unknown>;
+  if (
+    typeof item.memberId !== "string" ||
+    typeof item.personaVersion !== "number" ||
+    typeof item.model !== "string"
+  ) {
+    return undefined;
+  }
+
+  return { memberId: item.memberId, personaVersion: item.personaVersion, model: item.model };
+};
+
+const formatPersonaStamp = (persona: PersonaStamp) =>
+  `persona v${persona.personaVersion} · ${persona.model}`;
+
+const parsePersonaVersion = (raw: unknown): PersonaVersion | null => {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+
+  const item = raw as Record<string, unknown>;
+  if (
+    typeof item.memberId !== "string" ||
+    typeof item.version !== "number" ||
+    typeof item.identityPrompt !== "string"
+  ) {
+    return null;
+  }
+
+  return {
+    memberId: item.memberId,
+    version: item.version,
+    identityPrompt: item.identityPrompt,
+    createdAt: parseTimestamp(item.createdAt),
+    note: typeof item.note === "string" ? item.note : "",
+  };
+};
+
+const loadPersonaHistory = (): PersonaVersion[] => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(LOCAL_KEY_PERSONA_HISTORY) || "[]") as unknown;
+    return Array.isArray(raw)
+      ? raw.map(parsePersonaVersion).filter((item): item is PersonaVersion => !!item)
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+const avatarForMember = (member: CouncilMember | undefined, user: User | null) => {
+  if (member?.id === "CEO-HOBBY" && user?.photoURL) {
+    return user.photoURL;
+  }
+
+  return member?.image || "/assets/profiles/ceo.png";
+};
+
+// Offline copy of the roster so the office renders the custom TANs before Firestore answers.
+const loadRosterMembers = () => {
+  try {
+    return (
+      parseCouncilMembers(JSON.parse(localStorage.getItem(LOCAL_KEY_ROSTER) || "null")) ||
+      DEFAULT_COUNCIL_MEMBERS
+    );
+  } catch {
+    return DEFAULT_COUNCIL_MEMBERS;
+  }
+};
+
+function App() {
+  const [devMockEnabled] = useState(() => isDevMockEnabled());
+  const [user, setUser] = useState<User | null>(null);
+  const [authLoading, setAuthLoading] = useState(true);
+  const [authError, setAuthError] = useState("");
+
+  const [rosterMembers, setRosterMembers] = useState<CouncilMember[]>(() => loadRosterMembers());
+  const [rosterDraft, setRosterDraft] = useState<CouncilMember[] | null>(null);
+  const [rosterError, setRosterError] = useState("");
+  const [agentMemories, setAgentMemories] = useState<AgentMemory[]>(() => loadLocalMemories());
+  const [threadPassages, setThreadPassages] = useState<ThreadPassage[]>(() => loadLocalPassages());
+  const [threadPassagesTruncated, setThreadPassagesTruncated] = useState(false);
+  const [memoryMemberId, setMemoryMemberId] = useState("PM-TAN");
+  const [personaHistory, setPersonaHistory] = useState<PersonaVersion[]>(() => loadPersonaHistory());
+  const [personaMemberId, setPersonaMemberId] = useState("HOST-TAN");
+  const [personaCompareVersion, setPersonaCompareVersion] = useState<number | null>(null);
+  const [newMemberId, setNewMemberId] = useState("");
+  const [officeLayout, setOfficeLayout] = useState<OfficeLayout>(() => loadOfficeLayout());
+  const [officeImport, setOfficeImport] = useState<OfficeImportPreview | null>(null);
+  const [officeImportError, setOfficeImportError] = useState("");
+  const roster = useMemo(
+    () => buildCouncilRoster(rosterMembers, officeLayout),
+    [officeLayout, rosterMembers],
+  );
+  const councilMembers = roster.members;
+  const activeMemberIds = useMemo(
+    () => new Set(councilMembers.map((member) => member.id)),
+    [councilMembers],
+  );
+  // A stable key, so the per-TAN memory listeners only resubscribe when the roster changes.
+  const memoryMemberIds = useMemo(
+    () =>
+      councilMembers
+        .filter((member) => member.id !== "CEO-HOBBY")
+        .map((member) => member.id)
+        .join("\n"),
+    [councilMembers],
+  );
+  const getMember = useCallback(
+    (memberId: string) => roster.memberById.get(memberId),
+    [roster],
+  );
+
+  const [roleConfig, setRoleConfig] = useState<RoleConfigMap>(() => loadRoleConfig(rosterMembers));
+  const [taskInput, setTaskInput] = useState(
+    localStorage.getItem(LOCAL_KEY_TASK_DRAFT) || "",
+  );
+
+  const [phase, setPhase] = useState<WorkflowPhase>("idle");
+  const [running, setRunning] = useState(false);
+  const [workflowError, setWorkflowError] = useState("");
+
+  const [agents, setAgents] = useState<Record<string, AgentState>>(() =>
+    createInitialAgents(rosterMembers),
+  );
+  const [activeMembers, setActiveMembers] = useState<string[]>([]);
+
+  const [activityLogs, setActivityLogs] = useState<ActivityLog[]>([]);
+  const [cloudReports, setCloudReports] = useState<ReportItem[]>([]);
+  const [localReports, setLocalReports] = useState<ReportItem[]>([]);
+
+  const [cloudMessages, setCloudMessages] = useState<OfficeMessage[]>([]);
+  const [localMessages, setLocalMessages] = useState<OfficeMessage[]>([]);
+  const [meetingTurns, setMeetingTurns] = useState<MeetingTurn[]>([]);
+  const [threadSummaries, setThreadSummaries] = useState<Record<string, ThreadSummary>>(
+    () => loadThreadSummaries(),
+  );
+  const [compactingThreadId, setCompactingThreadId] = useState("");
+  // Compaction runs inside long async loops, which would otherwise see a stale summary.
+  const threadSummariesRef = useRef(threadSummaries);
+  const [actionPlans, setActionPlans] = useState<ActionPlanItem[]>([]);
+  // Plan upserts need the current list without re-creating every callback that records a plan.
+  const actionPlansRef = useRef(actionPlans);
+  // Tasks this session merged last, per plan id, ahead of the snapshot listener catching up.
+  const planTasksRef = useRef<Record<string, { tasks: PlanTask[]; updatedAt: string }>>({});
+  // Statements about one plan merge one at a time, so a slow extraction cannot overwrite a later one.
+  const planQueueRef = useRef<Record<string, Promise<void>>>({});
+  // Signed-in history is fetched when a plan is expanded; signed-out history only lives in state.
+  const [planHistory, setPlanHistory] = useState<Record<string, PlanHistoryEntry[]>>({});
+  const [expandedPlanId, setExpandedPlanId] = useState("");
+  const [planView, setPlanView] = useState<"list" | "kanban" | "gantt">("list");
+  // A Gantt bar being dragged: the pointer's start and the whole days it has moved so far.
+  const [ganttDrag, setGanttDrag] = useState<{ key: string; originX: number; days: number } | null>(null);
+  const [governanceAlerts, setGovernanceAlerts] = useState<GovernanceAlert[]>([]);
+  // Pages shown per `${threadId}:${collection}`; a thread starts on its newest page.
+  const [historyPages, setHistoryPages] = useState<Record<string, number>>({});
+  const [liveDrafts, setLiveDrafts] = useState<LiveDraft[]>([]);
+  const [threads, setThreads] = useState<ThreadItem[]>(() => loadThreads());
+  // Agent calls read the mission of the thread they belong to, which need not be the active one.
+  const threadsRef = useRef(threads);
+  const [activeThreadId, setActiveThreadId] = useState(
+    localStorage.getItem(LOCAL_KEY_ACTIVE_THREAD) || "thread-main",
+  );
+  const [leftTab, setLeftTab] = useState(
+    localStorage.getItem(LOCAL_KEY_LEFT_TAB) || "threads",
+  );
+  const [rightTab, setRightTab] = useState(
+    localStorage.getItem(LOCAL_KEY_RIGHT_TAB) || "chat",
+  );
+  const [leftPanelOpen, setLeftPanelOpen] = useState(
+    localStorage.getItem(LOCAL_KEY_LEFT_PANEL_OPEN) === "1",
+  );
+  const [rightPanelOpen, setRightPanelOpen] = useState(
+    localStorage.getItem(LOCAL_KEY_RIGHT_PANEL_OPEN) === "1",
+  );
+  const [ambientMotionEnabled, setAmbientMotionEnabled] = useState(
+    localStorage.getItem(LOCAL_KEY_AMBIENT_MOTION) === "1",
+  );
+  const [workflowExecutor, setWorkflowExecutor] = useState<WorkflowExecutor>(
+    localStorage.getItem(LOCAL_KEY_WORKFLOW_EXECUTOR) === "server" ? "server" : "browser",
+  );
+
+  const [workflowAttachmentFile, setWorkflowAttachmentFile] = useState<File | null>(null);
+  const [editingGoalId, setEditingGoalId] = useState("");
+  const [showArchivedThreads, setShowArchivedThreads] = useState(false);
+  const [renamingThreadId, setRenamingThreadId] = useState("");
+  const [threadTitleDraft, setThreadTitleDraft] = useState("");
+  const [deletingThreadId, setDeletingThreadId] = useState("");
+  const [threadSearch, setThreadSearch] = useState("");
+  const [threadSearchHits, setThreadSearchHits] = useState<ThreadSearchHit[] | null>(null);
+  const [searchingThreads, setSearchingThreads] = useState(false);
+  // Right-panel item a search hit points at; scrolled into view once it renders.
+  const [focusedItemId, setFocusedItemId] = useState("");
+  const scrolledFocusRef = useRef("");
+
+  const [currentClock, setCurrentClock] = useState(new Date());
+
+  const [messageDraft, setMessageDraft] = useState("");
+  const [messageTarget, setMessageTarget] = useState("ATTENDANT-TAN");
+  const [messageFiles, setMessageFiles] = useState<File[]>([]);
+  const [sendingMessage, setSendingMessage] = useState(false);
+  const [messageError, setMessageError] = useState("");
+  const [executingPlanId, setExecutingPlanId] = useState("");
+  const planExecutionAbortRef = useRef<AbortController | null>(null);
+  // Like plan history: fetched on expand when signed in, state-only when signed out.
+  const [planExecutions, setPlanExecutions] = useState<Record<string, PlanExecutionEntry[]>>({});
+  const [expandedExecutionsPlanId, setExpandedExecutionsPlanId] = useState("");
+  // Up to two runs or plan revisions of one list, picked for a side-by-side diff.
+  const [compareSelection, setCompareSelection] = useState<{ key: string; ids: string[] }>({
+    key: "",
+    ids: [],
+  });
+  const [exportingReportId, setExportingReportId] = useState("");
+
+  const [uxPrompt, setUxPrompt] = useState("");
+  const [uxReferenceFiles, setUxReferenceFiles] = useState<File[]>([]);
+  const [uxAspectRatio, setUxAspectRatio] = useState("16:9");
+  const [uxImageSize, setUxImageSize] = useState<"1K" | "2K" | "4K">("2K");
+  const [uxUseSearch, setUxUseSearch] = useState(false);
+  const [uxGenerating, setUxGenerating] = useState(false);
+  const [uxError, setUxError] = useState("");
+
+  const [previewState, setPreviewState] = useState<PreviewState>({
+    open: false,
+    asset: null,
+    assetUrl: "",
+    loading: false,
+    textContent: "",
+    error: "",
+  });
+  const [detailModal, setDetailModal] = useState<DetailModalState>({
     open: false,
     title: "",
     subtitle: "",
@@ -704,6 +1638,17 @@ function App() {
     limit: FREE_REPORT_LIMIT,
     exhausted: false,
   });
+  const [usageTotals, setUsageTotals] = useState<UsageTotal[]>([]);
+  const [workflowRuns, setWorkflowRuns] = useState<WorkflowRun[]>([]);
+  const [workflowStopping, setWorkflowStopping] = useState<WorkflowInterruption | null>(null);
+  const workflowAbortRef = useRef<AbortController | null>(null);
+  const serverRunEventIdsRef = useRef(new Set<string>());
+  // Extracted attachment text by asset id, so one workflow parses each file once.
+  const attachmentTextCacheRef = useRef(new Map<string, string>());
+  // Query vectors by question, so every recipient of one chat message shares one embedding call.
+  const queryEmbeddingCacheRef = useRef(new Map<string, LlmEmbeddingResult>());
+  const pendingMemoryTurnsRef = useRef<Array<MemoryTurn & { threadId: string }>>([]);
+  const memoryFlushTimerRef = useRef(0);
   const governancePollingRef = useRef(false);
   const governanceLastRunRef = useRef(0);
   const governanceSignatureRef = useRef("");
@@ -746,6 +1691,27 @@ function App() {
     [mergedMessages, activeThread.id],
   );
 
+  const historyLimit = useCallback(
+    (name: HistoryCollection) => (historyPages[`${activeThread.id}:${name}`] || 1) * HISTORY_PAGE_SIZE,
+    [activeThread.id, historyPages],
+  );
+  const meetingTurnLimit = historyLimit("meetingTurns");
+  const actionPlanLimit = historyLimit("actionPlans");
+  const governanceAlertLimit = historyLimit("governanceAlerts");
+  const activityLogLimit = historyLimit("activityLogs");
+
+  const showOlderHistory = (name: HistoryCollection) => {
+    const key = `${activeThread.id}:${name}`;
+    setHistoryPages((previous) => ({ ...previous, [key]: (previous[key] || 1) + 1 }));
+  };
+
+  const renderOlderHistoryButton = (name: HistoryCollection, loaded: number, pageLimit: number) =>
+    loaded > pageLimit ? (
+      <button type="button" className="secondary-button" onClick={() => showOlderHistory(name)}>
+        이전 {HISTORY_PAGE_SIZE}건 더 보기
+      </button>
+    ) : null;
+
   const visibleMeetingTurns = useMemo(
     () => meetingTurns.filter((turn) => turn.threadId === activeThread.id),
     [meetingTurns, activeThread.id],
@@ -761,6 +1727,96 @@ function App() {
     [governanceAlerts, activeThread.id],
   );
 
+  const visibleWorkflowRuns = useMemo(
+    () =>
+      workflowRuns
+        .filter((run) => run.threadId === activeThread.id)
+        .sort((a, b) => b.startedAt.localeCompare(a.startedAt)),
+    [workflowRuns, activeThread.id],
+  );
+
+  // Server runs keep going without this tab, so they count as active until the runner settles them
+  // or the runner's lease lapses (crash or timeout), which leaves them resumable instead.
+  const activeServerRun = useMemo(
+    () =>
+      visibleWorkflowRuns.find(
+        (run) =>
+          run.executor === "server" &&
+          (run.status === "queued" || (run.status === "running" && !isRunLeaseExpired(run, currentClock))),
+      ),
+    [currentClock, visibleWorkflowRuns],
+  );
+
+  const missionContext = useMemo(() => formatMissionContext(activeThread), [activeThread]);
+
+  const stoppingState: WorkflowInterruption | null = activeServerRun?.control
+    ? activeServerRun.control === "pause"
+      ? "paused"
+      : "cancelled"
+    : workflowStopping;
+
+  const serverRunIdsKey = useMemo(
+    () =>
+      visibleWorkflowRuns
+        .filter((run) => run.executor === "server")
+        .slice(0, 8)
+        .map((run) => run.runId)
+        .join(","),
+    [visibleWorkflowRuns],
+  );
+
+  const threadTitleById = useMemo(
+    () => new Map(threads.map((thread) => [thread.id, thread.title])),
+    [threads],
+  );
+
+  const usageByMember = useMemo(
+    () =>
+      usageTotals
+        .filter((total) => total.scope === "member" && total.threadId === activeThread.id)
+        .map((total) => ({ ...total, key: total.memberId || "(unattributed)" }))
+        .sort((a, b) => b.costUsd - a.costUsd),
+    [usageTotals, activeThread.id],
+  );
+
+  const usageByRun = useMemo(
+    () =>
+      usageTotals
+        .filter((total) => total.scope === "run")
+        .map((total) => ({ ...total, key: total.runId }))
+        .sort((a, b) => b.key.localeCompare(a.key)),
+    [usageTotals],
+  );
+
+  const usageByThread = useMemo(
+    () =>
+      usageTotals
+        .filter((total) => total.scope === "thread")
+        .map((total) => ({ ...total, key: total.threadId || "(unattributed)" }))
+        .sort((a, b) => b.costUsd - a.costUsd),
+    [usageTotals],
+  );
+
+  const activeThreadCostUsd = useMemo(
+    () => usageByMember.reduce((sum, rollup) => sum + rollup.costUsd, 0),
+    [usageByMember],
+  );
+
+  const visibleLiveDrafts = useMemo(
+    () => liveDrafts.filter((draft) => draft.threadId === activeThread.id),
+    [liveDrafts, activeThread.id],
+  );
+
+  const liveSpeechByMember = useMemo(() => {
+    const speech = new Map<string, string>();
+    for (const draft of liveDrafts) {
+      if (draft.text.trim()) {
+        speech.set(draft.memberId, draft.text);
+      }
+    }
+    return speech;
+  }, [liveDrafts]);
+
   const visibleActionPlans = useMemo(
     () =>
       actionPlans
@@ -772,6 +1828,30 @@ function App() {
     [actionPlans, activeThread.id],
   );
 
+  const boardTasks = useMemo(
+    () =>
+      visibleActionPlans.flatMap((plan) =>
+        plan.tasks.map((task) => ({ key: `${plan.id}:${task.id}`, plan, task })),
+      ),
+    [visibleActionPlans],
+  );
+
+  // Dated tasks plus today, padded a day before and two after.
+  const ganttRange = useMemo(() => {
+    const dated = boardTasks.filter(({ task }) => task.dueDate);
+    if (dated.length === 0) {
+      return null;
+    }
+    const today = new Date().toISOString().slice(0, 10);
+    const dates = [today, ...dated.flatMap(({ task }) => [planTaskStartDate(task), task.dueDate])].sort();
+    const start = shiftPlanDate(dates[0], -1);
+    return {
+      start,
+      today,
+      days: daysBetweenPlanDates(start, shiftPlanDate(dates[dates.length - 1], 2)) + 1,
+    };
+  }, [boardTasks]);
+
   const visibleFileCount = useMemo(() => {
     const fromMessages = visibleMessages.reduce(
       (count, message) => count + message.attachments.length,
@@ -792,162 +1872,1027 @@ function App() {
       provider,
       model:
         saved?.model?.trim() ||
-        getRoleDefaultModel(memberId, provider) ||
+        getRoleDefaultModel(getMember(memberId), provider) ||
         DEFAULT_OPENAI_MODEL,
       apiKey: saved?.apiKey?.trim() || "",
       baseUrl: saved?.baseUrl?.trim() || "",
     };
-  }, [roleConfig]);
+  }, [getMember, roleConfig]);
+
+  // Mirrors requestAgentText: without proxy credentials every TAN answers from the mock model.
+  const personaStamp = useCallback((memberId: string): PersonaStamp | undefined => {
+    const member = getMember(memberId);
+    if (!member || member.id === "CEO-HOBBY") {
+      return undefined;
+    }
+
+    return {
+      memberId,
+      personaVersion: member.personaVersion,
+      model: user && !devMockEnabled ? resolveRuntime(memberId).model : DEFAULT_MOCK_MODEL,
+    };
+  }, [devMockEnabled, getMember, resolveRuntime, user]);
+
+  // Signed-in writes go to Firestore and come back through the thread's onSnapshot listener;
+  // signed-out (or a failed write) updates state directly.
+  const persistHistoryItem = useCallback(
+    (name: HistoryCollection, item: { id: string }, applyLocal: () => void) => {
+      if (!user || devMockEnabled) {
+        applyLocal();
+        return;
+      }
+
+      const { id, ...payload } = item;
+      void setDoc(doc(db, "users", user.uid, name, id), JSON.parse(JSON.stringify(payload)), {
+        merge: true,
+      }).catch((error: unknown) => {
+        console.error(`Failed to save ${name}:`, error);
+        applyLocal();
+      });
+    },
+    [devMockEnabled, user],
+  );
+
+  const appendLog = useCallback((
+    currentPhase: WorkflowPhase,
+    message: string,
+    threadId = activeThreadId,
+    origin?: HistoryOrigin,
+  ) => {
+    const next: ActivityLog = {
+      id: origin?.id || makeId(),
+      threadId,
+      createdAt: origin?.createdAt || new Date().toISOString(),
+      phase: currentPhase,
+      message,
+    };
+    persistHistoryItem("activityLogs", next, () =>
+      setActivityLogs((previous) => [next, ...previous.filter((item) => item.id !== next.id)]),
+    );
+  }, [activeThreadId, persistHistoryItem]);
+
+  const appendMeetingTurn = useCallback((
+    payload: Omit<MeetingTurn, "id" | "createdAt" | "threadId"> & {
+      threadId?: string;
+      origin?: HistoryOrigin;
+    },
+  ) => {
+    const { origin, ...turn } = payload;
+    const next: MeetingTurn = {
+      ...turn,
+      id: origin?.id || makeId(),
+      threadId: turn.threadId || activeThreadId,
+      createdAt: origin?.createdAt || new Date().toISOString(),
+      persona: turn.persona || personaStamp(turn.speakerId),
+    };
+    persistHistoryItem("meetingTurns", next, () =>
+      setMeetingTurns((previous) => [next, ...previous.filter((item) => item.id !== next.id)]),
+    );
+  }, [activeThreadId, persistHistoryItem, personaStamp]);
+
+  const getProxyAuthToken = useCallback(async () => {
+    if (!user || devMockEnabled) {
+      return "";
+    }
+
+    try {
+      return await user.getIdToken();
+    } catch {
+      return "";
+    }
+  }, [devMockEnabled, user]);
+
+  const requestAgentText = useCallback(async (
+    memberId: string,
+    request: LlmTextRequest,
+    scope: AgentCallScope,
+    liveChannel?: LiveDraftChannel,
+  ) => {
+    const thread = threadsRef.current.find((item) => item.id === scope.threadId);
+    const threadMission = thread ? formatMissionContext(thread) : "";
+    // Without proxy credentials (signed out or ?devMock=1) every agent runs on the scripted mock.
+    const meteredRequest: LlmTextRequest = {
+      ...request,
+      ...(request.authToken ? {} : { provider: "mock" as const, model: DEFAULT_MOCK_MODEL }),
+      instructions: [request.instructions, threadMission].filter(Boolean).join("\n\n") || undefined,
+      meter: { ...request.meter, memberId, threadId: scope.threadId, runId: scope.runId },
+    };
+
+    if (!liveChannel) {
+      return requestLlmText(meteredRequest);
+    }
+
+    const draftId = makeId();
+    setLiveDrafts((previous) => [
+      ...previous,
+      {
+        id: draftId,
+        threadId: scope.threadId,
+        memberId,
+        channel: liveChannel,
+        text: "",
+        startedAt: new Date().toISOString(),
+      },
+    ]);
+
+    try {
+      return await streamLlmText({
+        ...meteredRequest,
+        onDelta: (_delta, accumulated) => {
+          setLiveDrafts((previous) =>
+            previous.map((draft) =>
+              draft.id === draftId ? { ...draft, text: accumulated } : draft,
+            ),
+          );
+        },
+      });
+    } finally {
+      setLiveDrafts((previous) => previous.filter((draft) => draft.id !== draftId));
+    }
+  }, []);
+
+  const activeThreadPassages = useMemo(
+    () => threadPassages.filter((passage) => passage.threadId === activeThreadId),
+    [activeThreadId, threadPassages],
+  );
+
+  // Embeddings follow ATTENDANT-TAN's provider when it has an embeddings API, otherwise OpenAI.
+  const requestAgentEmbeddings = useCallback(async (
+    texts: string[],
+    scope: AgentCallScope,
+    signal?: AbortSignal,
+  ) => {
+    const authToken = await getProxyAuthToken();
+    const runtimeProvider = resolveRuntime("ATTENDANT-TAN").provider;
+    const provider: EmbeddingProvider = !authToken
+      ? "mock"
+      : runtimeProvider === "gemini" || runtimeProvider === "mock"
+        ? runtimeProvider
+        : "openai";
+    return requestEmbeddings({
+      provider,
+      texts,
+      authToken,
+      signal,
+      meter: { memberId: "ATTENDANT-TAN", threadId: scope.threadId, runId: scope.runId },
+    });
+  }, [getProxyAuthToken, resolveRuntime]);
+
+  // Indexing runs after the file is saved; a file that fails to index is kept, just never cited.
+  const indexAssetText = useCallback(async (
+    asset: FileAsset,
+    text: string,
+    source: PassageSource,
+    scope: AgentCallScope,
+  ) => {
+    const { threadId } = scope;
+    const drafts = buildPassages(asset, text, source, threadId);
+    if (drafts.length === 0) {
+      return;
+    }
+
+    try {
+      const passages: ThreadPassage[] = [];
+      for (let start = 0; start < drafts.length; start += EMBEDDING_BATCH_SIZE) {
+        const batch = drafts.slice(start, start + EMBEDDING_BATCH_SIZE);
+        const { vectors, model } = await requestAgentEmbeddings(
+          batch.map((passage) => passage.text),
+          scope,
+        );
+        passages.push(...batch.map((passage, index) => ({ ...passage, embedding: vectors[index], model })));
+      }
+
+      if (!user || devMockEnabled) {
+        setThreadPassages((previous) =>
+          [...passages, ...previous.filter((passage) => passage.assetId !== asset.id)].slice(
+            0,
+            THREAD_PASSAGE_LIMIT,
+          ),
+        );
+        return;
+      }
+
+      await Promise.all(
+        passages.map(({ id, ...passage }) =>
+          setDoc(doc(db, "users", user.uid, "threadPassages", id), passage),
+        ),
+      );
+    } catch (error) {
+      appendLog("execution", `자료 색인 실패: ${asset.name} (${describeError(error, "embedding")})`, threadId);
+    }
+  }, [appendLog, devMockEnabled, requestAgentEmbeddings, user]);
+
+  // Falls back to term overlap when the question cannot be embedded.
+  const retrieveThreadContext = useCallback(async (
+    question: string,
+    scope: AgentCallScope,
+    signal?: AbortSignal,
+  ) => {
+    const passages = threadPassages.filter((passage) => passage.threadId === scope.threadId);
+    const trimmed = question.trim().slice(0, 2000);
+    if (passages.length === 0 || !trimmed) {
+      return "";
+    }
+
+    let embedded = queryEmbeddingCacheRef.current.get(trimmed);
+    if (!embedded) {
+      try {
+        embedded = await requestAgentEmbeddings([trimmed], scope, signal);
+        if (queryEmbeddingCacheRef.current.size >= 50) {
+          queryEmbeddingCacheRef.current.clear();
+        }
+        queryEmbeddingCacheRef.current.set(trimmed, embedded);
+      } catch {
+        embedded = { vectors: [[]], model: "" };
+      }
+    }
+
+    return formatPassageContext(rankPassages(passages, trimmed, embedded.vectors[0], embedded.model));
+  }, [requestAgentEmbeddings, threadPassages]);
+
+  const recallMemories = useCallback(
+    (memberId: string, query: string) =>
+      formatMemoryContext(
+        rankMemories(
+          agentMemories.filter((memory) => memory.memberId === memberId),
+          query,
+        ),
+      ),
+    [agentMemories],
+  );
+
+  // One model call for the whole batch, on the first speaker's runtime.
+  const extractMemories = useCallback(async (turns: Array<MemoryTurn & { threadId: string }>) => {
+    let extracted: ExtractedMemory[] = [];
+    try {
+      const runtime = resolveRuntime(turns[0].memberId);
+      const text = await requestAgentText(turns[0].memberId, {
+        provider: runtime.provider,
+        model: runtime.model,
+        baseUrl: runtime.baseUrl,
+        authToken: await getProxyAuthToken(),
+        ...buildMemoryExtractionRequest(turns),
+        maxOutputTokens: 600,
+      }, { threadId: turns[0].threadId });
+      extracted = parseMemoryExtraction(text, turns);
+    } catch (error) {
+      console.error("Memory extraction failed:", error);
+    }
+    if (extracted.length === 0) {
+      extracted = turns.flatMap((turn) =>
+        extractMemoryHeuristically({ memberId: turn.memberId, text: toConversationPlainText(turn.text) }),
+      );
+    }
+
+    const known = new Set(agentMemories.map((memory) => `${memory.memberId}\n${memory.text}`));
+    const entries: AgentMemory[] = extracted
+      .filter((item) => !known.has(`${item.memberId}\n${item.text}`))
+      .map((item) => ({
+        ...item,
+        id: makeId(),
+        // A TAN's memory belongs to the thread of its latest turn in the batch.
+        threadId:
+          turns.filter((turn) => turn.memberId === item.memberId).at(-1)?.threadId || turns[0].threadId,
+        pinned: false,
+        createdAt: new Date().toISOString(),
+      }));
+    if (entries.length === 0) {
+      return;
+    }
+
+    if (!user || devMockEnabled) {
+      setAgentMemories((previous) => [...entries, ...previous]);
+      return;
+    }
+
+    await Promise.all(
+      entries.map(({ id, ...entry }) =>
+        setDoc(doc(db, "users", user.uid, "agentMemories", id), {
+          ...entry,
+          createdAt: serverTimestamp(),
+        }),
+      ),
+    ).catch((error: unknown) => {
+      console.error("Failed to save agent memories:", error);
+    });
+  }, [agentMemories, devMockEnabled, getProxyAuthToken, requestAgentText, resolveRuntime, user]);
+
+  // Queues a shown turn, so extraction never delays the conversation and costs one model call per
+  // batch rather than one per turn.
+  const rememberTurn = useCallback((memberId: string, turnText: string, threadId: string) => {
+    if (!turnText.trim() || turnText.startsWith("호출 실패")) {
+      return;
+    }
+
+    const flush = () => {
+      window.clearTimeout(memoryFlushTimerRef.current);
+      const batch = pendingMemoryTurnsRef.current.splice(0);
+      if (batch.length > 0) {
+        void extractMemories(batch);
+      }
+    };
+    pendingMemoryTurnsRef.current.push({ memberId, text: turnText, threadId });
+    if (pendingMemoryTurnsRef.current.length >= MEMORY_EXTRACTION_BATCH) {
+      flush();
+      return;
+    }
+    window.clearTimeout(memoryFlushTimerRef.current);
+    memoryFlushTimerRef.current = window.setTimeout(flush, MEMORY_EXTRACTION_IDLE_MS);
+  }, [extractMemories]);
+
+  // Folds text into the thread's rolling summary. ATTENDANT-TAN writes it; on failure the
+  // previous summary is kept and the folded text is truncated instead.
+  const compactThreadContext = useCallback(async (
+    threadId: string,
+    foldedText: string,
+    foldedTurns: number,
+    options: { coveredUntil?: string; runId?: string; signal?: AbortSignal } = {},
+  ) => {
+    const previous = threadSummariesRef.current[threadId];
+    let responseText = "";
+    try {
+      const runtime = resolveRuntime("ATTENDANT-TAN");
+      responseText = await requestAgentText("ATTENDANT-TAN", {
+        provider: runtime.provider,
+        model: runtime.model,
+        baseUrl: runtime.baseUrl,
+        authToken: await getProxyAuthToken(),
+        ...buildSummaryRequest(previous, foldedText),
+        maxOutputTokens: 900,
+        signal: options.signal,
+      }, { threadId, runId: options.runId });
+    } catch (error) {
+      rethrowIfInterrupted(error, options.signal);
+      responseText = [previous?.narrative || "", shortenText(foldedText, 600)].filter(Boolean).join("\n");
+    }
+
+    const summary = parseSummaryResponse(responseText, previous, {
+      threadId,
+      foldedTurns,
+      coveredUntil: options.coveredUntil,
+    });
+    threadSummariesRef.current = { ...threadSummariesRef.current, [threadId]: summary };
+    setThreadSummaries(threadSummariesRef.current);
+    appendLog(
+      "execution",
+      `스레드 맥락 압축: ${foldedTurns}건 → 요약 약 ${summary.tokenEstimate} 토큰`,
+      threadId,
+    );
+    return summary;
+  }, [appendLog, getProxyAuthToken, requestAgentText, resolveRuntime]);
+
+  // Dialogue folded into the summary is gone from every later prompt, so agent prompts carry the summary.
+  const readThreadSummary = useCallback((threadId: string) => {
+    const summary = threadSummariesRef.current[threadId];
+    return summary ? formatThreadSummary(summary) : "";
+  }, []);
+
+  // PM-TAN turns a plan statement into task drafts; without a usable answer, list lines become tasks.
+  const extractPlanTasks = useCallback(async (
+    memberId: string,
+    text: string,
+    tasks: PlanTask[],
+    scope: AgentCallScope,
+  ): Promise<PlanTaskDraft[]> => {
+    try {
+      const runtime = resolveRuntime("PM-TAN");
+      const responseText = await requestAgentText("PM-TAN", {
+        provider: runtime.provider,
+        model: runtime.model,
+        baseUrl: runtime.baseUrl,
+        authToken: await getProxyAuthToken(),
+        ...buildPlanExtractionRequest(memberId, text, tasks, new Date().toISOString().slice(0, 10)),
+        maxOutputTokens: 1200,
+      }, scope);
+      return parsePlanTaskDrafts(responseText) || extractPlanTasksHeuristically(text);
+    } catch {
+      return extractPlanTasksHeuristically(text);
+    }
+  }, [getProxyAuthToken, requestAgentText, resolveRuntime]);
+
+  const recordPlanHistory = useCallback((entry: PlanHistoryEntry) => {
+    setPlanHistory((previous) => ({
+      ...previous,
+      [entry.planId]: [entry, ...(previous[entry.planId] || [])],
+    }));
+    if (!user || devMockEnabled) {
+      return;
+    }
+
+    const { id, ...payload } = entry;
+    void setDoc(doc(db, "users", user.uid, "actionPlans", entry.planId, "history", id), payload).catch(
+      (error: unknown) => {
+        console.error("Failed to save plan history:", error);
+      },
+    );
+  }, [devMockEnabled, user]);
+
+  // One plan per TAN per thread, so the id is derived and a replayed upsert cannot duplicate it.
+  // Each statement is merged into the plan's tasks and kept as a history entry.
+  const mergeActionPlan = useCallback((
+    statement: {
+      memberId: string;
+      threadId: string;
+      source: ActionPlanItem["source"];
+      text: string;
+      // The plan prose is only replaced when the statement is a restated plan.
+      plan?: string;
+    },
+    resolveDrafts: (tasks: PlanTask[]) => Promise<PlanTaskDraft[]>,
+  ) => {
+    const member = getMember(statement.memberId);
+    if (!member) {
+      return Promise.resolve();
+    }
+
+    const id = `plan-${statement.threadId}-${statement.memberId}`;
+    const merge = async () => {
+      const existing = actionPlansRef.current.find((item) => item.id === id);
+      const latest = planTasksRef.current[id];
+      const seen =
+        latest && (!existing || latest.updatedAt >= existing.updatedAt) ? latest.tasks : existing?.tasks || [];
+      const drafts = await resolveDrafts(seen);
+      const now = new Date().toISOString();
+      const mergeInto = (current: PlanTask[], created: boolean) => {
+        const { tasks, changes } = mergePlanTasks(current, drafts, statement.memberId, now);
+        const update = {
+          threadId: statement.threadId,
+          memberId: statement.memberId,
+          memberName: member.displayName,
+          tasks,
+          updatedAt: now,
+          ...(statement.plan ? { plan: statement.plan, source: statement.source } : {}),
+          ...(created ? { createdAt: now } : {}),
+        };
+        return { update, changes };
+      };
+      const applyLocal = (update: ReturnType<typeof mergeInto>["update"]) =>
+        setActionPlans((previous) => {
+          const base = previous.find((item) => item.id === id);
+          return [
+            {
+              plan: "",
+              source: statement.source,
+              ...base,
+              id,
+              ...update,
+              createdAt: base?.createdAt || now,
+            },
+            ...previous.filter((item) => item.id !== id),
+          ];
+        });
+
+      let merged = mergeInto(seen, !existing);
+      if (!user || devMockEnabled) {
+        applyLocal(merged.update);
+      } else {
+        // Resolving drafts takes a model call, during which the server executor or another tab may
+        // have merged into the same plan, so the drafts are merged into the stored tasks in one transaction.
+        const planRef = doc(db, "users", user.uid, "actionPlans", id);
+        try {
+          merged = await runTransaction(db, async (transaction) => {
+            const stored = await transaction.get(planRef);
+            const raw = stored.get("tasks") as unknown;
+            const current = (Array.isArray(raw) ? raw : [])
+              .map(parsePlanTask)
+              .filter((task): task is PlanTask => task !== null);
+            const result = mergeInto(current, !stored.exists());
+            transaction.set(planRef, JSON.parse(JSON.stringify(result.update)), { merge: true });
+            return result;
+          });
+        } catch (error) {
+          console.error("Failed to save actionPlans:", error);
+          applyLocal(merged.update);
+        }
+      }
+      const { changes } = merged;
+      planTasksRef.current = { ...planTasksRef.current, [id]: { tasks: merged.update.tasks, updatedAt: now } };
+
+      recordPlanHistory({
+        id: makeId(),
+        planId: id,
+        threadId: statement.threadId,
+        memberId: statement.memberId,
+        source: statement.source,
+        text: statement.text,
+        replacesPlan: !!statement.plan,
+        changes,
+        createdAt: now,
+      });
+    };
+
+    const queued = (planQueueRef.current[id] || Promise.resolve()).then(merge).catch((error: unknown) => {
+      console.error("Failed to merge action plan:", error);
+    });
+    planQueueRef.current = { ...planQueueRef.current, [id]: queued };
+    return queued;
+  }, [devMockEnabled, getMember, recordPlanHistory, user]);
+
+  const upsertActionPlan = useCallback(
+    (
+      memberId: string,
+      plan: string,
+      source: ActionPlanItem["source"],
+      threadId = activeThreadId,
+      runId?: string,
+    ) => {
+      const text = plan.trim();
+      if (!text) {
+        return Promise.resolve();
+      }
+
+      return mergeActionPlan(
+        { memberId, threadId, source, text, plan: text },
+        (tasks) => extractPlanTasks(memberId, text, tasks, { threadId, runId }),
+      );
+    },
+    [activeThreadId, extractPlanTasks, mergeActionPlan],
+  );
+
+  const noteScheduleFeedback = useCallback((threadId: string, line: string) => {
+    setThreads((previous) =>
+      previous.map((thread) =>
+        thread.id === threadId
+          ? { ...thread, scheduleFeedback: [...thread.scheduleFeedback.filter((item) => item !== line), line] }
+          : thread,
+      ),
+    );
+    if (!user || devMockEnabled) {
+      return;
+    }
+
+    void setDoc(
+      doc(db, "users", user.uid, "threads", threadId),
+      { scheduleFeedback: arrayUnion(line) },
+      { merge: true },
+    ).catch((error: unknown) => {
+      console.error("Failed to save schedule feedback:", error);
+    });
+  }, [devMockEnabled, user]);
+
+  // Only the lines PM-TAN actually saw are removed; edits made while it was answering stay queued.
+  const acknowledgeScheduleFeedback = useCallback((threadId: string, lines: string[]) => {
+    if (lines.length === 0) {
+      return;
+    }
+
+    setThreads((previous) =>
+      previous.map((thread) =>
+        thread.id === threadId
+          ? { ...thread, scheduleFeedback: thread.scheduleFeedback.filter((item) => !lines.includes(item)) }
+          : thread,
+      ),
+    );
+    if (!user || devMockEnabled) {
+      return;
+    }
+
+    void setDoc(
+      doc(db, "users", user.uid, "threads", threadId),
+      { scheduleFeedback: arrayRemove(...lines) },
+      { merge: true },
+    ).catch((error: unknown) => {
+      console.error("Failed to clear schedule feedback:", error);
+    });
+  }, [devMockEnabled, user]);
+
+  // Board edits merge like any other statement and are queued for PM-TAN's next turn.
+  const editPlanTask = (
+    plan: ActionPlanItem,
+    task: PlanTask,
+    patch: Partial<Pick<PlanTask, "status" | "dueDate">>,
+  ) => {
+    const changes = [
+      patch.status && patch.status !== task.status
+        ? `상태 ${PLAN_TASK_STATUS_LABEL[task.status]} → ${PLAN_TASK_STATUS_LABEL[patch.status]}`
+        : "",
+      patch.dueDate && patch.dueDate !== task.dueDate ? `마감 ${task.dueDate || "미정"} → ${patch.dueDate}` : "",
+    ].filter(Boolean);
+    if (changes.length === 0) {
+      return;
+    }
+
+    const line = `${plan.memberId} ${task.id} ${task.title}: ${changes.join(", ")}`;
+    void mergeActionPlan(
+      { memberId: plan.memberId, threadId: plan.threadId, source: "manual", text: `CEO-HOBBY: ${line}` },
+      async () => [{ id: task.id, title: task.title, ...patch }],
+    );
+    noteScheduleFeedback(plan.threadId, line);
+  };
+
+  const togglePlanHistory = async (planId: string) => {
+    if (expandedPlanId === planId) {
+      setExpandedPlanId("");
+      return;
+    }
+
+    setExpandedPlanId(planId);
+    if (!user || devMockEnabled) {
+      return;
+    }
+
+    try {
+      const snapshot = await getDocs(
+        query(
+          collection(db, "users", user.uid, "actionPlans", planId, "history"),
+          orderBy("createdAt", "desc"),
+          limit(HISTORY_PAGE_SIZE),
+        ),
+      );
+      setPlanHistory((previous) => ({
+        ...previous,
+        [planId]: snapshot.docs
+          .map((item) => parsePlanHistoryEntry(item.id, item.data()))
+          .filter((entry): entry is PlanHistoryEntry => entry !== null),
+      }));
+    } catch (error) {
+      console.error("Failed to load plan history:", error);
+    }
+  };
+
+  // Keeps the opening turn and the newest turns within half the budget; the middle is folded into
+  // the thread summary, which runOfficerSingleReply adds to the prompt.
+  const fitDialogueToBudget = async (threadId: string, turns: DialogueTurn[]) => {
+    const summaryTokens = estimateTokens(readThreadSummary(threadId));
+    if (turns.length < 3 || summaryTokens + estimateTokens(formatDialogue(turns)) <= THREAD_CONTEXT_TOKEN_BUDGET) {
+      return turns;
+    }
+
+    const [opening, ...rest] = turns;
+    let used = estimateTokens(opening.text);
+    let keep = 0;
+    for (let index = rest.length - 1; index >= 0; index -= 1) {
+      const cost = estimateTokens(rest[index].text);
+      if (keep > 0 && used + cost > THREAD_CONTEXT_TOKEN_BUDGET / 2) {
+        break;
+      }
+      used += cost;
+      keep += 1;
+    }
+
+    const folded = rest.slice(0, rest.length - keep);
+    if (folded.length === 0) {
+      return turns;
+    }
+
+    const coveredUntil = folded.reduce(
+      (latest, turn) => (turn.createdAt && turn.createdAt > latest ? turn.createdAt : latest),
+      "",
+    );
+    await compactThreadContext(threadId, formatDialogue(folded), folded.length, { coveredUntil });
+    return [opening, ...rest.slice(rest.length - keep)];
+  };
+
+  // Manual compaction from the Meetings tab; the newest turns stay verbatim.
+  const compactMeetingLog = async () => {
+    const summary = threadSummaries[activeThreadId];
+    const pending = visibleMeetingTurns
+      .filter((turn) => turn.createdAt > (summary?.coveredUntil || ""))
+      .slice(4)
+      .reverse();
+    if (pending.length === 0 || compactingThreadId) {
+      return;
+    }
+
+    setCompactingThreadId(activeThreadId);
+    try {
+      await compactThreadContext(
+        activeThreadId,
+        pending.map((turn) => `${turn.speakerId}: ${turn.text}`).join("\n\n"),
+        pending.length,
+        { coveredUntil: pending[pending.length - 1].createdAt },
+      );
+    } finally {
+      setCompactingThreadId("");
+    }
+  };
+
+  const toggleMemoryPin = async (memory: AgentMemory) => {
+    if (!user || devMockEnabled) {
+      setAgentMemories((previous) =>
+        previous.map((item) => (item.id === memory.id ? { ...item, pinned: !item.pinned } : item)),
+      );
+      return;
+    }
+
+    await updateDoc(doc(db, "users", user.uid, "agentMemories", memory.id), {
+      pinned: !memory.pinned,
+    }).catch((error: unknown) => {
+      appendLog("execution", `기억 고정 변경 실패: ${describeError(error, "알 수 없는 오류")}`);
+    });
+  };
+
+  const deleteMemory = async (memory: AgentMemory) => {
+    if (!user || devMockEnabled) {
+      setAgentMemories((previous) => previous.filter((item) => item.id !== memory.id));
+      return;
+    }
+
+    await deleteDoc(doc(db, "users", user.uid, "agentMemories", memory.id)).catch(
+      (error: unknown) => {
+        appendLog("execution", `기억 삭제 실패: ${describeError(error, "알 수 없는 오류")}`);
+      },
+    );
+  };
+
+  // Local state updates immediately; the Firestore copy lets a reloaded tab find and resume the run.
+  const recordWorkflowRun = useCallback((run: WorkflowRun) => {
+    setWorkflowRuns((previous) => [
+      run,
+      ...previous.filter((item) => item.runId !== run.runId),
+    ]);
+
+    if (!user || devMockEnabled) {
+      return;
+    }
+
+    // JSON round-trip drops undefined fields, which Firestore rejects.
+    const payload = JSON.parse(JSON.stringify(run)) as Record<string, unknown>;
+    delete payload.runId;
+    void setDoc(
+      doc(db, "users", user.uid, "workflowRuns", run.runId),
+      { ...payload, updatedAt: serverTimestamp() },
+    ).catch((error: unknown) => {
+      console.error("Failed to save workflow run:", error);
+    });
+  }, [devMockEnabled, user]);
+
+  // New TANs need a seat and a runtime before the office or a workflow can address them.
+  const applyRosterMembers = useCallback((members: CouncilMember[]) => {
+    setRosterMembers(members);
+    localStorage.setItem(LOCAL_KEY_ROSTER, JSON.stringify(members));
+    setAgents((previous) => {
+      const next = { ...previous };
+      for (const member of members) {
+        next[member.id] = next[member.id] || createAgentState(member);
+      }
+      return next;
+    });
+    setRoleConfig((previous) => {
+      const next = { ...previous };
+      for (const member of members) {
+        next[member.id] = next[member.id] || {
+          provider: member.defaultProvider,
+          model: member.defaultModel,
+          apiKey: "",
+          baseUrl: "",
+        };
+      }
+      return next;
+    });
+  }, []);
+
+  // Every identityPrompt change becomes a new persona version; rollbacks too, so history only grows.
+  const commitRosterMembers = async (members: CouncilMember[], note: string) => {
+    const now = new Date().toISOString();
+    const entries: PersonaVersion[] = [];
+    const latestVersion = (memberId: string) =>
+      Math.max(
+        0,
+        ...personaHistory.filter((item) => item.memberId === memberId).map((item) => item.version),
+        ...rosterMembers.filter((item) => item.id === memberId).map((item) => item.personaVersion),
+      );
+
+    const versioned = members.map((member) => {
+      const previous = rosterMembers.find((item) => item.id === member.id);
+      if (previous?.identityPrompt === member.identityPrompt) {
+        return { ...member, personaVersion: previous.personaVersion };
+      }
+
+      // Built-in prompts were never saved, so the version being replaced is recorded first.
+      if (
+        previous &&
+        !personaHistory.some(
+          (item) => item.memberId === previous.id && item.version === previous.personaVersion,
+        )
+      ) {
+        entries.push({
+          memberId: previous.id,
+          version: previous.personaVersion,
+          identityPrompt: previous.identityPrompt,
+          createdAt: now,
+          note: "기존 버전",
+        });
+      }
 
-  const appendLog = useCallback((currentPhase: WorkflowPhase, message: string, threadId = activeThreadId) => {
-    setActivityLogs((previous) => {
-      const next: ActivityLog = {
-        id: makeId(),
-        threadId,
-        createdAt: new Date().toISOString(),
-        phase: currentPhase,
-        message,
-      };
-      return [next, ...previous].slice(0, 140);
+      const version = latestVersion(member.id) + 1;
+      entries.push({ memberId: member.id, version, identityPrompt: member.identityPrompt, createdAt: now, note });
+      return { ...member, personaVersion: version };
     });
-  }, [activeThreadId]);
 
-  const appendMeetingTurn = (
-    payload: Omit<MeetingTurn, "id" | "createdAt" | "threadId"> & {
-      threadId?: string;
-    },
-  ) => {
-    setMeetingTurns((previous) => [
-      {
-        ...payload,
-        id: makeId(),
-        threadId: payload.threadId || activeThreadId,
-        createdAt: new Date().toISOString(),
-      },
-      ...previous,
-    ].slice(0, 320));
+    applyRosterMembers(versioned);
+    setPersonaHistory((previous) => [...entries, ...previous]);
+
+    if (!user || devMockEnabled) {
+      return;
+    }
+
+    try {
+      // JSON round-trip drops undefined fields, which Firestore rejects.
+      await setDoc(doc(db, "users", user.uid, "meta", "roster"), {
+        members: JSON.parse(JSON.stringify(versioned)) as CouncilMember[],
+        updatedAt: serverTimestamp(),
+      });
+      await Promise.all(
+        entries.map((entry) =>
+          setDoc(
+            doc(db, "users", user.uid, "personaVersions", personaVersionId(entry.memberId, entry.version)),
+            { ...entry, createdAt: serverTimestamp() },
+          ),
+        ),
+      );
+    } catch (error) {
+      setRosterError(describeError(error, "로스터 저장 실패(이 브라우저에만 적용됨)"));
+    }
   };
 
-  const upsertActionPlan = useCallback(
-    (
-      memberId: string,
-      plan: string,
-      source: ActionPlanItem["source"],
-      threadId = activeThreadId,
-    ) => {
-      const member = getMember(memberId);
-      if (!member || !plan.trim()) {
-        return;
-      }
+  const applyOfficeLayout = useCallback((layout: OfficeLayout) => {
+    setOfficeLayout(layout);
+    localStorage.setItem(LOCAL_KEY_OFFICE_LAYOUT, JSON.stringify(layout));
+  }, []);
 
-      setActionPlans((previous) => {
-        const existingIndex = previous.findIndex(
-          (item) => item.threadId === threadId && item.memberId === memberId,
-        );
-        const now = new Date().toISOString();
+  const exportOfficeConfig = (fileType: OfficeConfigFileType) => {
+    const content = serializeOfficeConfig(
+      buildOfficeConfig(rosterMembers, roleConfig, officeLayout),
+      fileType,
+    );
+    const blob = new Blob([content], {
+      type: fileType === "yaml" ? "application/yaml; charset=utf-8" : "application/json; charset=utf-8",
+    });
+    const objectUrl = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = objectUrl;
+    link.download = `hobbytan-office-${new Date().toISOString().slice(0, 10)}.${fileType === "yaml" ? "yaml" : "json"}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.setTimeout(() => URL.revokeObjectURL(objectUrl), 3000);
+  };
 
-        if (existingIndex === -1) {
-          const next: ActionPlanItem = {
-            id: makeId(),
-            threadId,
-            memberId,
-            memberName: member.displayName,
-            plan: plan.trim(),
-            source,
-            createdAt: now,
-            updatedAt: now,
-          };
-          return [next, ...previous].slice(0, 220);
-        }
+  const previewOfficeImport = async (file: File) => {
+    setOfficeImport(null);
+    setOfficeImportError("");
 
-        const clone = [...previous];
-        clone[existingIndex] = {
-          ...clone[existingIndex],
-          plan: plan.trim(),
-          source,
-          updatedAt: now,
-        };
-        return clone;
+    try {
+      const { config, warnings } = parseOfficeConfig(await file.text());
+      setOfficeImport({
+        fileName: file.name,
+        config,
+        warnings,
+        changes: diffOfficeConfig(buildOfficeConfig(rosterMembers, roleConfig, officeLayout), config),
       });
-    },
-    [activeThreadId],
-  );
+    } catch (error) {
+      setOfficeImportError(describeError(error, "설정 파일을 읽지 못했습니다."));
+    }
+  };
+
+  // Members missing from the file are retired rather than dropped so old logs keep their names.
+  const applyOfficeImport = async () => {
+    if (!officeImport) {
+      return;
+    }
+
+    const { config } = officeImport;
+    const members = [
+      ...config.members,
+      ...rosterMembers
+        .filter((member) => !config.members.some((item) => item.id === member.id))
+        .map((member) => ({ ...member, retired: CORE_MEMBER_IDS.includes(member.id) ? undefined : true })),
+    ];
+
+    setOfficeImport(null);
+    setRosterDraft(null);
+    setRoleConfig((previous) => {
+      const next = { ...previous };
+      for (const [memberId, runtime] of Object.entries(config.runtimes)) {
+        next[memberId] = { ...runtime, apiKey: previous[memberId]?.apiKey || "" };
+      }
+      return next;
+    });
+    applyOfficeLayout(config.layout);
+    await commitRosterMembers(members, `설정 가져오기: ${officeImport.fileName}`);
 
-  const getProxyAuthToken = useCallback(async () => {
     if (!user || devMockEnabled) {
-      return "";
+      return;
     }
 
     try {
-      return await user.getIdToken();
-    } catch {
-      return "";
+      await setDoc(doc(db, "users", user.uid, "meta", "officeLayout"), {
+        layout: JSON.parse(JSON.stringify(config.layout)) as OfficeLayout,
+        updatedAt: serverTimestamp(),
+      });
+    } catch (error) {
+      setOfficeImportError(describeError(error, "오피스 배치 저장 실패(이 브라우저에만 적용됨)"));
     }
-  }, [devMockEnabled, user]);
+  };
 
-  const refreshUsageQuota = useCallback(async (targetUser: User) => {
-    const usageRef = doc(db, "users", targetUser.uid, "meta", "usage");
-    const snapshot = await getDoc(usageRef);
+  const updateRosterDraftMember = (memberId: string, patch: Partial<CouncilMember>) => {
+    setRosterDraft((previous) =>
+      previous
+        ? previous.map((member) => (member.id === memberId ? { ...member, ...patch } : member))
+        : previous,
+    );
+  };
 
-    if (!snapshot.exists()) {
-      await setDoc(usageRef, {
-        usedReports: 0,
-        limit: FREE_REPORT_LIMIT,
-        updatedAt: serverTimestamp(),
-      });
-      setUsageQuota({
-        usedReports: 0,
-        limit: FREE_REPORT_LIMIT,
-        exhausted: false,
-      });
+  const addRosterDraftMember = (source?: CouncilMember) => {
+    if (!rosterDraft) {
       return;
     }
 
-    const data = snapshot.data() as Record<string, unknown>;
-    const usedReports = Math.max(0, Number(data.usedReports || 0));
-    const limit = Math.max(1, Number(data.limit || FREE_REPORT_LIMIT));
+    const memberId = newMemberId.trim().toUpperCase();
+    if (!MEMBER_ID_PATTERN.test(memberId)) {
+      setRosterError("TAN ID는 영문 대문자/숫자와 하이픈만 사용할 수 있습니다. (예: DATA-TAN)");
+      return;
+    }
+    if (rosterDraft.some((member) => member.id === memberId)) {
+      setRosterError(`${memberId}는 이미 로스터에 있습니다.`);
+      return;
+    }
 
-    setUsageQuota({
-      usedReports,
-      limit,
-      exhausted: usedReports >= limit,
-    });
-  }, []);
+    const base: CouncilMember = source || {
+      id: memberId,
+      displayName: memberId,
+      callSign: memberId.split("-")[0],
+      role: "Specialist",
+      department: "Operations",
+      color: "#9ad1ff",
+      image: "/assets/profiles/host.png",
+      seat: { x: 50, y: 40 },
+      identityPrompt: `당신은 ${memberId}이다. 담당 영역의 실행안과 리스크를 근거와 함께 보고한다.`,
+      personaVersion: 1,
+      defaultProvider: "openai",
+      defaultModel: DEFAULT_OPENAI_MODEL,
+      joinsCollaboration: true,
+    };
 
-  const consumeReportQuota = useCallback(async () => {
-    if (!user || devMockEnabled) {
+    setRosterDraft([
+      ...rosterDraft,
+      {
+        ...base,
+        id: memberId,
+        displayName: source ? memberId : base.displayName,
+        callSign: memberId.split("-")[0],
+        seat: findFreeSeat(rosterDraft, officeLayout.backgroundGrid),
+        personaVersion: 1,
+        retired: undefined,
+      },
+    ]);
+    setNewMemberId("");
+    setRosterError("");
+  };
+
+  const saveRosterDraft = async () => {
+    if (!rosterDraft) {
       return;
     }
 
-    const usageRef = doc(db, "users", user.uid, "meta", "usage");
+    const invalid = rosterDraft.find(
+      (member) => !member.displayName.trim() || !member.identityPrompt.trim(),
+    );
+    if (invalid) {
+      setRosterError(`${invalid.id}의 표시 이름과 정체성 프롬프트를 입력하세요.`);
+      return;
+    }
 
-    const nextQuota = await runTransaction(db, async (transaction) => {
-      const snapshot = await transaction.get(usageRef);
-      const currentData = snapshot.data() as Record<string, unknown> | undefined;
-      const currentUsed = Math.max(0, Number(currentData?.usedReports || 0));
-      const limit = Math.max(1, Number(currentData?.limit || FREE_REPORT_LIMIT));
-      const nextUsed = Math.min(currentUsed + 1, limit);
+    setRosterDraft(null);
+    setRosterError("");
+    await commitRosterMembers(parseCouncilMembers(rosterDraft) || DEFAULT_COUNCIL_MEMBERS, "로스터 편집");
+  };
 
-      transaction.set(
-        usageRef,
-        {
-          usedReports: nextUsed,
-          limit,
-          lastUsedAt: serverTimestamp(),
-          updatedAt: serverTimestamp(),
-        },
-        { merge: true },
-      );
+  const rollbackPersona = async (memberId: string, version: number) => {
+    const entry = personaHistory.find(
+      (item) => item.memberId === memberId && item.version === version,
+    );
+    if (!entry || rosterDraft) {
+      return;
+    }
 
-      return { usedReports: nextUsed, limit };
-    });
+    setRosterError("");
+    setPersonaCompareVersion(null);
+    await commitRosterMembers(
+      rosterMembers.map((member) =>
+        member.id === memberId ? { ...member, identityPrompt: entry.identityPrompt } : member,
+      ),
+      `v${version} 롤백`,
+    );
+  };
+
+  // Thread edits apply locally first; signed-in edits also merge only the touched fields into
+  // users/{uid}/threads/{threadId}, and the listener brings back whatever other devices changed.
+  const persistThreadFields = (threadId: string, fields: Record<string, unknown>) => {
+    if (!user || devMockEnabled) {
+      return;
+    }
 
-    setUsageQuota({
-      usedReports: nextQuota.usedReports,
-      limit: nextQuota.limit,
-      exhausted: nextQuota.usedReports >= nextQuota.limit,
+    void setDoc(
+      doc(db, "users", user.uid, "threads", threadId),
+      { ...fields, updatedAt: new Date().toISOString() },
+      { merge: true },
+    ).catch((error: unknown) => {
+      console.error("Failed to sync thread:", error);
+      setWorkflowError(describeError(error, "스레드 동기화에 실패했습니다."));
     });
-  }, [devMockEnabled, user]);
+  };
 
   const createThread = () => {
     const next: ThreadItem = {
@@ -956,13 +2901,18 @@ function App() {
       title: `Thread ${threads.length + 1}`,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
+      origin: !user || devMockEnabled ? "local" : "cloud",
     };
 
     setThreads((previous) => [next, ...previous]);
     setActiveThreadId(next.id);
+    persistThreadFields(next.id, toThreadDocument(next));
   };
 
-  const updateThread = (threadId: string, patch: Partial<ThreadItem>) => {
+  const updateThread = (
+    threadId: string,
+    patch: Partial<Pick<ThreadItem, "title" | "vision" | "pinned" | "archived" | "titleLocked">>,
+  ) => {
     setThreads((previous) =>
       previous.map((item) =>
         item.id === threadId
@@ -974,9 +2924,324 @@ function App() {
           : item,
       ),
     );
+    persistThreadFields(threadId, patch);
+  };
+
+  // Workflows name a thread after its latest task until the CEO renames it by hand.
+  const retitleThreadFromTask = (threadId: string, task: string) => {
+    if (threads.find((thread) => thread.id === threadId)?.titleLocked) {
+      return;
+    }
+    updateThread(threadId, { title: task.length > 36 ? `${task.slice(0, 36).trim()}...` : task });
+  };
+
+  const renameThread = (threadId: string) => {
+    const title = threadTitleDraft.trim();
+    if (title) {
+      updateThread(threadId, { title, titleLocked: true });
+    }
+    setRenamingThreadId("");
+  };
+
+  const setThreadArchived = (thread: ThreadItem, archived: boolean) => {
+    updateThread(thread.id, { archived, ...(archived ? { pinned: false } : {}) });
+    if (archived && thread.id === activeThread.id && !showArchivedThreads) {
+      const next = threads.find((item) => item.id !== thread.id && !item.archived);
+      if (next) {
+        setActiveThreadId(next.id);
+      }
+    }
+  };
+
+  // Removes the thread with everything recorded under it: messages, reports and their Storage files,
+  // meeting/plan/governance/log history, retrieval passages and the rolling summary.
+  const deleteThread = async (thread: ThreadItem) => {
+    // A live run would keep writing into the thread after its records are gone, so it has to be
+    // cancelled first.
+    const now = new Date();
+    const liveRun = workflowRuns.find(
+      (run) =>
+        run.threadId === thread.id &&
+        (run.status === "queued" || (run.status === "running" && !isRunLeaseExpired(run, now))),
+    );
+    if (liveRun) {
+      setWorkflowError(
+        `'${thread.title}' 스레드에서 워크플로우가 진행 중입니다. 워크플로우를 취소한 뒤 삭제하세요.`,
+      );
+      return;
+    }
+
+    const messages = mergedMessages.filter((message) => message.threadId === thread.id);
+    const reports = mergedReports.filter((report) => report.threadId === thread.id);
+    if (
+      !window.confirm(
+        `'${thread.title}' 스레드와 메시지 ${messages.length}건, 보고서 ${reports.length}건, 첨부 파일을 모두 삭제할까요?`,
+      )
+    ) {
+      return;
+    }
+
+    const remaining = threads.filter((item) => item.id !== thread.id);
+    const fallback = remaining.find((item) => !item.archived) || remaining[0] || {
+      ...createDefaultThread(),
+      id: `thread-${Date.now()}`,
+      origin: !user || devMockEnabled ? ("local" as const) : ("cloud" as const),
+    };
+    setDeletingThreadId(thread.id);
+    setThreads(remaining.length > 0 ? remaining : [fallback]);
+    if (thread.id === activeThread.id) {
+      setActiveThreadId(fallback.id);
+    }
+    setLocalMessages((previous) => previous.filter((item) => item.threadId !== thread.id));
+    setLocalReports((previous) => previous.filter((item) => item.threadId !== thread.id));
+    setMeetingTurns((previous) => previous.filter((item) => item.threadId !== thread.id));
+    setActionPlans((previous) => previous.filter((item) => item.threadId !== thread.id));
+    setPlanHistory((previous) =>
+      Object.fromEntries(
+        Object.entries(previous).filter(([, entries]) => entries[0]?.threadId !== thread.id),
+      ),
+    );
+    setPlanExecutions((previous) =>
+      Object.fromEntries(
+        Object.entries(previous).filter(([, entries]) => entries[0]?.threadId !== thread.id),
+      ),
+    );
+    setGovernanceAlerts((previous) => previous.filter((item) => item.threadId !== thread.id));
+    setActivityLogs((previous) => previous.filter((item) => item.threadId !== thread.id));
+    setThreadPassages((previous) => previous.filter((item) => item.threadId !== thread.id));
+    setAgentMemories((previous) => previous.filter((item) => item.threadId !== thread.id));
+    setWorkflowRuns((previous) => previous.filter((item) => item.threadId !== thread.id));
+    const summaries = { ...threadSummariesRef.current };
+    delete summaries[thread.id];
+    threadSummariesRef.current = summaries;
+    setThreadSummaries(summaries);
+
+    if (!user || devMockEnabled) {
+      setDeletingThreadId("");
+      return;
+    }
+
+    const uid = user.uid;
+    const storagePaths = new Set(
+      [...messages.flatMap((message) => message.attachments), ...reports.flatMap((report) => report.assets)]
+        .flatMap((asset) => [asset.path, asset.textExtract?.path])
+        .filter((path): path is string => !!path && path.startsWith(`hobbytan-office/${uid}/`)),
+    );
+
+    try {
+      // The thread document goes first so the thread listener never brings it back mid-cascade.
+      await deleteDoc(doc(db, "users", uid, "threads", thread.id));
+      if (remaining.length === 0) {
+        persistThreadFields(fallback.id, toThreadDocument(fallback));
+      }
+
+      for (const name of [
+        "officeMessages",
+        "ceoReports",
+        "meetingTurns",
+        "actionPlans",
+        "governanceAlerts",
+        "activityLogs",
+        "threadPassages",
+        "agentMemories",
+        "workflowRuns",
+      ]) {
+        const snapshot = await getDocs(
+          query(collection(db, "users", uid, name), where("threadId", "==", thread.id)),
+        );
+        const refs = snapshot.docs.map((item) => item.ref);
+        // Deleting a document leaves its subcollections behind: plan history and executions, and
+        // the event log of a workflow run.
+        const children =
+          name === "actionPlans" ? ["history", "executions"] : name === "workflowRuns" ? ["events"] : [];
+        for (const item of snapshot.docs) {
+          for (const child of children) {
+            const entries = await getDocs(collection(item.ref, child));
+            refs.push(...entries.docs.map((entry) => entry.ref));
+          }
+        }
+        // Firestore caps a batch at 500 writes.
+        for (let start = 0; start < refs.length; start += 450) {
+          const batch = writeBatch(db);
+          refs.slice(start, start + 450).forEach((item) => batch.delete(item));
+          await batch.commit();
+        }
+      }
+
+      await Promise.all(
+        Array.from(storagePaths).map((path) =>
+          deleteObject(ref(storage, path)).catch((error: unknown) => {
+            console.error(`Failed to delete ${path}:`, error);
+          }),
+        ),
+      );
+    } catch (error) {
+      setWorkflowError(describeError(error, "스레드 삭제 중 일부 기록을 지우지 못했습니다."));
+    } finally {
+      setDeletingThreadId("");
+    }
+  };
+
+  // Titles, messages, reports and meeting turns of every thread. Signed-in meeting turns are only
+  // paged in for the active thread, so the newest ones across all threads are fetched per search.
+  const searchThreads = async (event: FormEvent) => {
+    event.preventDefault();
+    const terms = toSearchTerms(threadSearch);
+    if (terms.length === 0) {
+      setThreadSearchHits(null);
+      return;
+    }
+
+    setSearchingThreads(true);
+    try {
+      let turns = meetingTurns;
+      if (user && !devMockEnabled) {
+        const snapshot = await getDocs(
+          query(collection(db, "users", user.uid, "meetingTurns"), orderBy("createdAt", "desc"), limit(1000)),
+        );
+        turns = snapshot.docs
+          .map((item) => parseMeetingTurn(item.id, item.data()))
+          .filter((item): item is MeetingTurn => !!item);
+      }
+
+      const threadTitle = (threadId: string) =>
+        threads.find((thread) => thread.id === threadId)?.title || threadId;
+      const hits: ThreadSearchHit[] = [
+        ...threads
+          .filter((thread) => matchesSearchTerms(`${thread.title}\n${thread.vision}`, terms))
+          .map((thread) => ({
+            key: `thread-${thread.id}`,
+            kind: "thread" as const,
+            threadId: thread.id,
+            itemId: thread.id,
+            label: `스레드 · ${thread.title}`,
+            snippet: buildSearchSnippet(thread.vision, terms),
+            createdAt: thread.updatedAt,
+          })),
+        ...mergedMessages
+          .filter((message) => matchesSearchTerms(`${message.senderName}\n${message.text}`, terms))
+          .map((message) => ({
+            key: `message-${message.id}`,
+            kind: "message" as const,
+            threadId: message.threadId,
+            itemId: message.id,
+            label: `채팅 · ${message.senderName} · ${threadTitle(message.threadId)}`,
+            snippet: buildSearchSnippet(message.text, terms),
+            createdAt: message.createdAt,
+          })),
+        ...turns
+          .filter((turn) => matchesSearchTerms(`${turn.speakerName}\n${turn.text}`, terms))
+          .map((turn) => ({
+            key: `meeting-${turn.id}`,
+            kind: "meeting" as const,
+            threadId: turn.threadId,
+            itemId: turn.id,
+            label: `회의 · ${turn.speakerName} · ${threadTitle(turn.threadId)}`,
+            snippet: buildSearchSnippet(turn.text, terms),
+            createdAt: turn.createdAt,
+          })),
+        ...mergedReports
+          .filter((report) => matchesSearchTerms(`${report.title}\n${report.body}`, terms))
+          .map((report) => ({
+            key: `report-${report.id}`,
+            kind: "report" as const,
+            threadId: report.threadId,
+            itemId: report.id,
+            label: `보고서 · ${report.title}`,
+            snippet: buildSearchSnippet(report.body, terms),
+            createdAt: report.createdAt,
+          })),
+      ];
+      setThreadSearchHits(
+        hits
+          .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+          .slice(0, SEARCH_RESULT_LIMIT),
+      );
+    } catch (error) {
+      setWorkflowError(describeError(error, "검색에 실패했습니다."));
+    } finally {
+      setSearchingThreads(false);
+    }
+  };
+
+  const openSearchHit = (hit: ThreadSearchHit) => {
+    setActiveThreadId(hit.threadId);
+    if (hit.kind === "thread") {
+      return;
+    }
+    setRightTab(hit.kind === "message" ? "chat" : hit.kind);
+    setRightPanelOpen(true);
+    scrolledFocusRef.current = "";
+    setFocusedItemId(hit.itemId);
+  };
+
+  const updateGoals = (threadId: string, transform: (goals: ThreadGoal[]) => ThreadGoal[]) => {
+    setThreads((previous) =>
+      previous.map((thread) =>
+        thread.id === threadId
+          ? { ...thread, goals: numberGoals(transform(thread.goals)), updatedAt: new Date().toISOString() }
+          : thread,
+      ),
+    );
+  };
+
+  const addGoal = (threadId: string) => {
+    const goal = createGoal({ title: "새 목표" });
+    updateGoals(threadId, (goals) => [...goals, goal]);
+    // Sorts after every index-based order, also after a goal added on another device.
+    persistThreadFields(threadId, { goals: { [goal.id]: { ...toGoalDocument(goal), order: Date.now() } } });
+    setEditingGoalId(goal.id);
+  };
+
+  const updateGoal = (threadId: string, goalId: string, patch: Partial<ThreadGoal>) => {
+    updateGoals(threadId, (goals) =>
+      goals.map((goal) => (goal.id === goalId ? { ...goal, ...patch } : goal)),
+    );
+    persistThreadFields(threadId, { goals: { [goalId]: patch } });
+  };
+
+  const deleteGoal = (threadId: string, goalId: string) => {
+    updateGoals(threadId, (goals) => goals.filter((goal) => goal.id !== goalId));
+    persistThreadFields(threadId, { goals: { [goalId]: deleteField() } });
+  };
+
+  const toggleGoalLink = (
+    threadId: string,
+    goalId: string,
+    field: "linkedPlanIds" | "linkedReportIds",
+    itemId: string,
+  ) => {
+    const linkedNow = threads
+      .find((thread) => thread.id === threadId)
+      ?.goals.find((goal) => goal.id === goalId)
+      ?.[field].includes(itemId);
+    updateGoals(threadId, (goals) =>
+      goals.map((goal) => {
+        if (goal.id !== goalId) {
+          return goal;
+        }
+        const linked = goal[field].includes(itemId)
+          ? goal[field].filter((id) => id !== itemId)
+          : [...goal[field], itemId];
+        return { ...goal, [field]: linked };
+      }),
+    );
+    persistThreadFields(threadId, {
+      goals: { [goalId]: { [field]: linkedNow ? arrayRemove(itemId) : arrayUnion(itemId) } },
+    });
   };
 
   const moveGoal = (threadId: string, goalId: string, direction: -1 | 1) => {
+    const goals = [...(threads.find((thread) => thread.id === threadId)?.goals || [])];
+    const index = goals.findIndex((goal) => goal.id === goalId);
+    if (index !== -1 && goals[index + direction]) {
+      const [target] = goals.splice(index, 1);
+      goals.splice(index + direction, 0, target);
+      persistThreadFields(threadId, {
+        goals: Object.fromEntries(goals.map((goal, order) => [goal.id, { order }])),
+      });
+    }
+
     setThreads((previous) =>
       previous.map((thread) => {
         if (thread.id !== threadId) {
@@ -999,14 +3264,14 @@ function App() {
 
         return {
           ...thread,
-          goals: reordered,
+          goals: numberGoals(reordered),
           updatedAt: new Date().toISOString(),
         };
       }),
     );
   };
 
-  const setMembersToDesk = (
+  const setMembersToDesk = useCallback((
     memberIds: string[],
     active = false,
     statusFactory?: (memberId: string) => string,
@@ -1019,7 +3284,7 @@ function App() {
           continue;
         }
 
-        const current = previous[memberId];
+        const current = previous[memberId] || createAgentState(member);
         next[memberId] = {
           ...current,
           targetX: member.seat.x,
@@ -1031,14 +3296,14 @@ function App() {
       }
       return next;
     });
-  };
+  }, [getMember]);
 
-  const moveMembersToRoom = (
+  const moveMembersToRoom = useCallback((
     memberIds: string[],
     room: "brainstorming" | "collaboration",
     status: string,
   ) => {
-    const spots = room === "brainstorming" ? BRAINSTORMING_SPOTS : COLLABORATION_SPOTS;
+    const spots = room === "brainstorming" ? roster.brainstormingSpots : roster.collaborationSpots;
 
     setAgents((previous) => {
       const next = { ...previous };
@@ -1062,7 +3327,7 @@ function App() {
 
       return next;
     });
-  };
+  }, [roster]);
 
   const moveReportersToCEO = (memberIds: string[]) => {
     setAgents((previous) => {
@@ -1147,24 +3412,66 @@ function App() {
     };
   };
 
+  // With `index`, the saved text also joins the thread's retrieval index so agents can cite it.
   const uploadTextAsset = async (
     content: string,
     filename: string,
     category: string,
     mimeType = "text/markdown; charset=utf-8",
+    index?: { source: PassageSource; threadId?: string; runId?: string },
   ) => {
     const normalizedMimeType =
       mimeType.startsWith("text/") && !mimeType.toLowerCase().includes("charset=")
         ? `${mimeType}; charset=utf-8`
         : mimeType;
     const file = new File([`\uFEFF${content}`], filename, { type: normalizedMimeType });
-    return uploadFileAsset(file, category);
+    const asset = await uploadFileAsset(file, category);
+    if (index) {
+      void indexAssetText(asset, content, index.source, {
+        threadId: index.threadId || activeThreadId,
+        runId: index.runId,
+      });
+    }
+    return asset;
+  };
+
+  // CEO attachments: the text is extracted from the original file and saved beside it, so agents
+  // and server runs read the content rather than a filename. Extraction failures keep the upload.
+  const uploadAttachment = async (file: File, category: string): Promise<FileAsset> => {
+    const asset = await uploadFileAsset(file, category);
+    const kind = detectAttachmentKind(file.name, asset.mimeType);
+    if (kind === "image" || kind === "unsupported") {
+      return asset;
+    }
+
+    try {
+      const text = await extractAttachmentText(file, file.name, asset.mimeType);
+      attachmentTextCacheRef.current.set(asset.id, text);
+      if (!text) {
+        appendLog("execution", `첨부 본문 없음: ${file.name} (스캔 이미지 PDF 등)`);
+        return asset;
+      }
+      void indexAssetText(asset, text, "attachment", { threadId: activeThreadId });
+      const textAsset = await uploadFileAsset(
+        new File([text], `${file.name}.txt`, { type: "text/plain; charset=utf-8" }),
+        `${category}-text`,
+      );
+      return {
+        ...asset,
+        textExtract: { url: textAsset.url, path: textAsset.path, chars: text.length },
+      };
+    } catch (error) {
+      appendLog("execution", `첨부 본문 추출 실패(파일명만 전달): ${describeError(error, file.name)}`);
+      return asset;
+    }
   };
 
   const persistOfficeMessage = async (
-    payload: Omit<OfficeMessage, "id" | "createdAt" | "source">,
+    message: Omit<OfficeMessage, "id" | "createdAt" | "source">,
   ) => {
     const createdAt = new Date().toISOString();
+    const persona = message.persona || personaStamp(message.senderId);
+    const payload = persona ? { ...message, persona } : message;
 
     if (!user) {
       addLocalMessage({
@@ -1203,24 +3510,20 @@ function App() {
     }
   };
 
-  const runBrainstorm = async (task: string): Promise<BrainstormPlan> => {
-    const roster = COUNCIL_MEMBERS.filter((member) => member.id !== "CEO-HOBBY")
+  const runBrainstorm = async (
+    task: string,
+    attachmentContext: AttachmentContext,
+    scope: AgentCallScope,
+    signal?: AbortSignal,
+  ): Promise<BrainstormPlan> => {
+    const rosterText = councilMembers.filter((member) => member.id !== "CEO-HOBBY")
       .map((member) => `${member.id}: ${member.identityPrompt}`)
       .join("\n");
 
     const runtime = resolveRuntime("ATTENDANT-TAN");
     const authToken = await getProxyAuthToken();
 
-    if (!authToken) {
-      return {
-        strategy:
-          "오프라인 전략: ATTENDANT-TAN이 PM/PO/DEV/UX/QA/LEGAL 중심으로 3단계 실행안을 구성하고 CEO에 단계별 보고한다.",
-        participants: DEFAULT_COLLABORATION_TEAM,
-        handoff: "협업실에서 세부 실행안 작성 후 담당자별 산출물을 CEO 좌석으로 전달",
-      };
-    }
-
-    const text = await requestLlmText({
+    const text = await requestAgentText("ATTENDANT-TAN", {
       provider: runtime.provider,
       model: runtime.model,
       baseUrl: runtime.baseUrl,
@@ -1229,20 +3532,24 @@ function App() {
         "당신은 HOBBYTAN Council 조정자다. 반드시 JSON 객체만 응답하라. 코드블록 금지.",
       input: [
         `CEO 지시: ${task}`,
+        readThreadSummary(scope.threadId),
+        attachmentContext.text ? `\n첨부 내용(발췌):\n${attachmentContext.text}` : "",
         "\n참여 가능한 구성원/정체성:",
-        roster,
+        rosterText,
         "\n반환 형식:",
         '{"strategy":"문장","participants":["PO-TAN"],"handoff":"문장"}',
       ].join("\n"),
+      images: attachmentContext.images.length > 0 ? attachmentContext.images : undefined,
       maxOutputTokens: 700,
-    });
+      signal,
+    }, scope);
 
     const parsed = tryParseJson<BrainstormPlan>(text);
 
     if (!parsed) {
       return {
         strategy: text,
-        participants: DEFAULT_COLLABORATION_TEAM,
+        participants: roster.defaultCollaborationTeam,
         handoff: "협업실 세션 후 담당자가 CEO에게 보고",
       };
     }
@@ -1254,7 +3561,7 @@ function App() {
           : "전략 초안이 생성되었지만 요약이 비어 있어 기본 플랜을 사용합니다.",
       participants: Array.isArray(parsed.participants)
         ? parsed.participants.map((item) => String(item).trim()).filter(Boolean)
-        : DEFAULT_COLLABORATION_TEAM,
+        : roster.defaultCollaborationTeam,
       handoff:
         typeof parsed.handoff === "string" && parsed.handoff.trim()
           ? parsed.handoff.trim()
@@ -1266,23 +3573,19 @@ function App() {
     task: string,
     strategy: string,
     participants: string[],
+    attachmentContext: AttachmentContext,
+    scope: AgentCallScope,
+    signal?: AbortSignal,
   ) => {
     const authToken = await getProxyAuthToken();
     const participantText = participants.join(", ");
 
-    if (!authToken) {
-      return {
-        poPlan: `PO-TAN 배정안(오프라인): ${participantText} 기준으로 고객가치/리스크 기반 우선순위를 지정`,
-        pmPlan: `PM-TAN 일정안(오프라인): 담당자별 D1~D5 마일스톤과 의존성 관리`,
-      };
-    }
-
     const poRuntime = resolveRuntime("PO-TAN");
     const pmRuntime = resolveRuntime("PM-TAN");
     const poMember = getMember("PO-TAN");
     const pmMember = getMember("PM-TAN");
 
-    const poPlan = await requestLlmText({
+    const poPlan = await requestAgentText("PO-TAN", {
       provider: poRuntime.provider,
       model: poRuntime.model,
       baseUrl: poRuntime.baseUrl,
@@ -1294,13 +3597,18 @@ function App() {
         `CEO 지시: ${task}`,
         `브레인스토밍 전략: ${strategy}`,
         `협업 참여자: ${participantText}`,
+        readThreadSummary(scope.threadId),
+        attachmentContext.text ? `첨부 내용(발췌):\n${attachmentContext.text}` : "",
         "역할: 참여자별 업무 배정 + 우선순위 + 승인기준을 제시하라.",
-        "형식: 담당자별 항목을 포함한 간결한 실행 지시문",
+        "목표 정합성: 각 배정 항목이 기여하는 목표(P1..Pn)를 표기하고, 우선순위가 목표 순위와 다르면 근거를 밝혀라. 어떤 목표에도 기여하지 않는 항목은 보류로 분류하라.",
+        "형식: 담당자별 항목을 포함한 간결한 실행 지시문 + 마지막에 '목표 대비 우선순위 점검' 항목",
       ].join("\n\n"),
       maxOutputTokens: 700,
-    });
+      signal,
+    }, scope, "meeting");
 
-    const pmPlan = await requestLlmText({
+    const scheduleFeedback = activeThread.scheduleFeedback;
+    const pmPlan = await requestAgentText("PM-TAN", {
       provider: pmRuntime.provider,
       model: pmRuntime.model,
       baseUrl: pmRuntime.baseUrl,
@@ -1312,10 +3620,15 @@ function App() {
         `CEO 지시: ${task}`,
         `브레인스토밍 전략: ${strategy}`,
         `PO 배정안: ${poPlan}`,
+        readThreadSummary(scope.threadId),
+        formatScheduleFeedback(scheduleFeedback),
         "역할: 담당자별 일정/WBS, 의존성, 완료 조건, 리스크 완화 순서를 명시하라.",
+        `일정 형식: WBS 항목마다 담당자, 마감일(YYYY-MM-DD, 오늘 ${new Date().toISOString().slice(0, 10)} 기준), 예상 공수(일), 선행 항목을 붙여라.`,
       ].join("\n\n"),
       maxOutputTokens: 700,
-    });
+      signal,
+    }, scope, "meeting");
+    acknowledgeScheduleFeedback(activeThread.id, scheduleFeedback);
 
     return { poPlan, pmPlan };
   };
@@ -1325,6 +3638,9 @@ function App() {
     strategy: string,
     participants: string[],
     managementContext: string,
+    attachments: FileAsset[],
+    scope: AgentCallScope,
+    signal?: AbortSignal,
   ): Promise<CollaborationSessionResult> => {
     const selected = participants.slice(0, 8);
     const sessionId = `collab-${Date.now()}`;
@@ -1332,9 +3648,7 @@ function App() {
     const notes: CollaborationNote[] = [];
     const authToken = await getProxyAuthToken();
 
-    let priorDialogue = managementContext
-      ? `PO/PM 관리 배정안:\n${managementContext}\n\n`
-      : "";
+    const dialogue: DialogueTurn[] = [];
 
     for (const memberId of selected) {
       const member = getMember(memberId);
@@ -1343,37 +3657,43 @@ function App() {
       }
 
       await sleep(320);
+      signal?.throwIfAborted();
 
       const runtime = resolveRuntime(memberId);
       let note = "";
 
-      if (!authToken) {
-        note = `오프라인 제안: ${member.role} 관점에서 '${task}' 실행을 위한 핵심 2단계 액션, 리스크 1개, CEO 확인 포인트 1개를 제안합니다.`;
-      } else {
-        try {
-          note = await requestLlmText({
-            provider: runtime.provider,
-            model: runtime.model,
-            baseUrl: runtime.baseUrl,
-            authToken,
-            instructions: member.identityPrompt,
-            input: [
-              `CEO 지시: ${task}`,
-              `브레인스토밍 전략: ${strategy}`,
-              `PO/PM 관리 배정안: ${managementContext || "없음"}`,
-              "이전 발언 기록(먼저 말한 에이전트의 발언을 반드시 반영할 것):",
-              priorDialogue || "아직 발언 없음",
-              "당신 차례: 앞선 발언을 이어받아 액션 2개 + 리스크/대응 1개 + 다음 담당자에게 넘길 한 줄을 제시하라.",
-              "중요: 회의 대화록이므로 마크다운 기호(#,*,``` 등)를 과도하게 쓰지 말고 일반 문장으로 작성하라.",
-            ].join("\n\n"),
-            maxOutputTokens: 700,
-            useWebSearch: memberId === "RESEARCHER-TAN",
-          });
-        } catch (error) {
-          const message =
-            error instanceof Error ? error.message : "협업 노트 생성 중 알 수 없는 오류";
-          note = `호출 실패로 기본 제안 사용: ${message}`;
-        }
+      try {
+        const attachmentContext = await loadAttachmentContext(attachments, `${task}\n${member.role}`);
+        note = await requestAgentText(memberId, {
+          provider: runtime.provider,
+          model: runtime.model,
+          baseUrl: runtime.baseUrl,
+          authToken,
+          instructions: member.identityPrompt,
+          messages: toAgentMessages(dialogue, memberId),
+          input: [
+            `CEO 지시: ${task}`,
+            `브레인스토밍 전략: ${strategy}`,
+            `PO/PM 관리 배정안: ${managementContext || "없음"}`,
+            readThreadSummary(scope.threadId),
+            attachmentContext.text ? `첨부 내용(발췌):\n${attachmentContext.text}` : "",
+            recallMemories(memberId, `${task}\n${strategy}`),
+            dialogue.length > 0
+              ? "앞선 대화는 회의 발언 기록이다. 먼저 말한 에이전트의 발언을 반드시 반영할 것."
+              : "아직 발언 없음. 당신이 첫 발언자다.",
+            "당신 차례: 앞선 발언을 이어받아 액션 2개 + 리스크/대응 1개 + 다음 담당자에게 넘길 한 줄을 제시하라.",
+            "중요: 회의 대화록이므로 마크다운 기호(#,*,``` 등)를 과도하게 쓰지 말고 일반 문장으로 작성하라.",
+          ].join("\n\n"),
+          images: attachmentContext.images.length > 0 ? attachmentContext.images : undefined,
+          maxOutputTokens: 700,
+          useWebSearch: memberId === "RESEARCHER-TAN",
+          signal,
+        }, scope, "meeting");
+      } catch (error) {
+        rethrowIfInterrupted(error, signal);
+        const message =
+          error instanceof Error ? error.message : "협업 노트 생성 중 알 수 없는 오류";
+        note = `호출 실패로 기본 제안 사용: ${message}`;
       }
 
       notes.push({
@@ -1383,7 +3703,7 @@ function App() {
 
       const turn: MeetingTurn = {
         id: makeId(),
-        threadId: activeThreadId,
+        threadId: scope.threadId,
         sessionId,
         room: "collaboration",
         speakerId: member.id,
@@ -1403,8 +3723,9 @@ function App() {
         source: "workflow",
       });
       appendLog("collaboration", `${member.id} 발언 공유 완료`);
+      rememberTurn(memberId, note, scope.threadId);
 
-      priorDialogue += `${member.id}: ${note}\n\n`;
+      dialogue.push({ speakerId: member.id, text: note });
     }
 
     return {
@@ -1419,17 +3740,21 @@ function App() {
     strategy: string,
     participants: string[],
     managementContext: string,
-  ) => {
+    attachments: FileAsset[],
+    scope: AgentCallScope,
+    signal?: AbortSignal,
+  ): Promise<AutonomousLoopResult> => {
     const rounds = Math.max(0, AUTONOMOUS_EXECUTION_ROUNDS);
     if (rounds === 0 || participants.length === 0) {
       return {
-        notes: [] as CollaborationNote[],
+        notes: [],
         digest: "",
       };
     }
 
     const generatedNotes: CollaborationNote[] = [];
     const digestBlocks: string[] = [];
+    let rollingSummary = readThreadSummary(scope.threadId);
     let rollingContext = managementContext;
 
     for (let round = 1; round <= rounds; round += 1) {
@@ -1452,13 +3777,15 @@ function App() {
                 "당신 담당 액션플랜을 실제 실행한다고 가정하고, 실행 로그/산출물/다음 단계/차단 이슈를 상세히 작성하라.",
                 "중요: 마크다운 기호를 과도하게 사용하지 말고 일반 텍스트 위주로 작성하라.",
               ].join("\n"),
-              [],
+              attachments,
               "CEO-HOBBY",
               rollingContext,
+              { liveChannel: "meeting", scope, signal },
             );
 
             return { memberId, reply };
           } catch (error) {
+            rethrowIfInterrupted(error, signal);
             const message =
               error instanceof Error ? error.message : "병렬 실행 응답 실패";
             return {
@@ -1486,7 +3813,7 @@ function App() {
           text: `[자기개선 라운드 ${round}] ${item.reply}`,
           source: "workflow",
         });
-        upsertActionPlan(item.memberId, item.reply, "workflow", activeThreadId);
+        void upsertActionPlan(item.memberId, item.reply, "workflow", scope.threadId, scope.runId);
       });
 
       const roundTranscript = normalized
@@ -1499,13 +3826,15 @@ function App() {
         [],
         "CEO-HOBBY",
         roundTranscript,
+        { scope, signal },
       );
       const poSummary = await runOfficerSingleReply(
         "PO-TAN",
-        `자기개선 라운드 ${round} 결과를 우선순위/가치 기준으로 재정렬해 다음 액션을 지시하라.`,
+        `자기개선 라운드 ${round} 결과를 우선순위/가치 기준으로 재정렬하고, 목표(P1..Pn) 순위와 어긋나는 항목을 지적해 다음 액션을 지시하라.`,
         [],
         "CEO-HOBBY",
         roundTranscript,
+        { scope, signal },
       );
       const pmSummary = await runOfficerSingleReply(
         "PM-TAN",
@@ -1513,6 +3842,7 @@ function App() {
         [],
         "CEO-HOBBY",
         roundTranscript,
+        { scope, signal },
       );
       const attendantSummary = await runOfficerSingleReply(
         "ATTENDANT-TAN",
@@ -1520,6 +3850,7 @@ function App() {
         [],
         "CEO-HOBBY",
         [roundTranscript, hostSummary, poSummary, pmSummary].join("\n\n"),
+        { scope, signal },
       );
 
       const synthesis = [
@@ -1551,8 +3882,21 @@ function App() {
       );
 
       rollingContext = [rollingContext, roundTranscript, synthesis].join("\n\n");
+      if (estimateTokens(`${rollingSummary}\n\n${rollingContext}`) > THREAD_CONTEXT_TOKEN_BUDGET) {
+        const summary = await compactThreadContext(
+          scope.threadId,
+          rollingContext,
+          normalized.length + 4,
+          { coveredUntil: new Date().toISOString(), runId: scope.runId, signal },
+        );
+        rollingSummary = formatThreadSummary(summary);
+        rollingContext = "";
+      }
       appendLog("execution", `자기개선 라운드 ${round} 완료`);
-      await runGovernanceWatch(`자기개선 라운드 ${round} 점검\n${rollingContext}`);
+      await runGovernanceWatch(
+        `자기개선 라운드 ${round} 점검\n${rollingContext || "이번 라운드까지의 내용은 스레드 요약 참조"}`,
+        { scope, signal },
+      );
     }
 
     return {
@@ -1567,9 +3911,14 @@ function App() {
     notes: CollaborationNote[],
     detailedActionPlans: ActionPlanItem[],
     improvementDigest: string,
+    scope: AgentCallScope,
+    signal?: AbortSignal,
   ) => {
     const runtime = resolveRuntime("ATTENDANT-TAN");
     const authToken = await getProxyAuthToken();
+    if (authToken) {
+      setUsageQuota(await requestReportCharge(authToken));
+    }
     const joinedNotes = notes
       .map((item) => `${item.memberId}: ${item.note}`)
       .join("\n\n");
@@ -1581,23 +3930,7 @@ function App() {
       .join("\n\n");
     const improvementBlock = improvementDigest.trim() || "자기개선 라운드 로그 없음";
 
-    if (!authToken) {
-      return [
-        "[CEO 최종 보고서 - 오프라인 모드]",
-        `지시 사항: ${task}`,
-        `전략: ${strategy}`,
-        "실행 핵심:",
-        ...notes.map((item) => `- ${item.memberId}: ${item.note}`),
-        "",
-        "TAN별 액션플랜:",
-        joinedPlans || "- 없음",
-        "",
-        "자기개선 라운드:",
-        improvementBlock,
-      ].join("\n");
-    }
-
-    let reportText = await requestLlmText({
+    let reportText = await requestAgentText("ATTENDANT-TAN", {
       provider: runtime.provider,
       model: runtime.model,
       baseUrl: runtime.baseUrl,
@@ -1624,10 +3957,11 @@ function App() {
         "8) 승인 직후 다음 플로우(오늘/내일/이번주 액션 + 책임자)",
       ].join("\n\n"),
       maxOutputTokens: 2400,
-    });
+      signal,
+    }, scope, "report");
 
     if (reportText.length < 2000) {
-      reportText = await requestLlmText({
+      reportText = await requestAgentText("ATTENDANT-TAN", {
         provider: runtime.provider,
         model: runtime.model,
         baseUrl: runtime.baseUrl,
@@ -1644,20 +3978,31 @@ function App() {
           "- 마지막에 CEO 승인 체크리스트를 명확히 제시",
         ].join("\n"),
         maxOutputTokens: 3000,
-      });
+        signal,
+      }, scope, "report");
     }
 
     return reportText;
   };
 
+  const loadAttachmentContext = useCallback(
+    (attachments: FileAsset[], query: string) =>
+      attachments.length > 0
+        ? buildAttachmentContext(attachments, query, attachmentTextCacheRef.current)
+        : Promise.resolve(EMPTY_ATTACHMENT_CONTEXT),
+    [],
+  );
+
   const runOfficerSingleReply = useCallback(async (
     memberId: string,
     prompt: string,
     attachments: FileAsset[],
     targetLabel: string,
-    priorDialogue = "",
+    priorDialogue: string | DialogueTurn[] = "",
+    options: { liveChannel?: LiveDraftChannel; scope?: AgentCallScope; signal?: AbortSignal } = {},
   ) => {
     const member = getMember(memberId);
+    const scope = options.scope || { threadId: activeThreadId };
     if (!member) {
       return "역할 정보를 찾지 못했습니다.";
     }
@@ -1671,6 +4016,8 @@ function App() {
             .map((asset) => `${asset.name} (${asset.mimeType}, ${asset.size} bytes)`)
             .join("\n")
         : "없음";
+    const attachmentContext = await loadAttachmentContext(attachments, prompt);
+    const threadContext = await retrieveThreadContext(prompt, scope, options.signal);
     const devSyncInstruction =
       memberId === "DEV-TAN"
         ? [
@@ -1680,49 +4027,88 @@ function App() {
           ].join("\n")
         : "";
 
-    if (!authToken) {
-      return `${member.role} 오프라인 응답: '${prompt}'에 대한 3단계 실행안, 리스크 1개, CEO 확인 포인트 1개를 제시합니다.`;
-    }
+    const scheduleFeedback = memberId === "PM-TAN" ? activeThread.scheduleFeedback : [];
+
+    const dialogueTurns = Array.isArray(priorDialogue) ? priorDialogue : [];
+    const dialogueSummary = typeof priorDialogue === "string" ? priorDialogue : "";
+    const threadSummary = readThreadSummary(scope.threadId);
 
-    return requestLlmText({
+    const reply = await requestAgentText(memberId, {
       provider: runtime.provider,
       model: runtime.model,
       baseUrl: runtime.baseUrl,
       authToken,
       instructions: member.identityPrompt,
+      messages: dialogueTurns.length > 0 ? toAgentMessages(dialogueTurns, memberId) : undefined,
       input: [
         `CEO 메시지: ${prompt}`,
         `대상: ${targetLabel}`,
         `첨부 파일: ${attachmentSummary}`,
-        `이전 대화 요약: ${priorDialogue || "없음"}`,
+        attachmentContext.text ? `첨부 내용(발췌):\n${attachmentContext.text}` : "",
+        threadContext
+          ? [
+              `스레드 자료(검색 결과):\n${threadContext}`,
+              "자료를 근거로 답한 문장 끝에는 [출처 n]을 붙이고, 자료에 없는 과거 사실은 추측하지 말고 찾지 못했다고 답하라.",
+            ].join("\n")
+          : "",
+        threadSummary,
+        dialogueTurns.length > 0
+          ? "이전 대화: 앞선 메시지 기록 참조"
+          : `이전 대화 요약: ${dialogueSummary || "없음"}`,
+        recallMemories(memberId, prompt),
         devSyncInstruction,
+        formatScheduleFeedback(scheduleFeedback),
         "형식: 핵심 요약 1문단 + 액션 3개 + 리스크/대응 1개 + 보고 문장 1개",
         "중요: 대화용 답변이므로 마크다운 문법(#,*,``` 등)을 과도하게 사용하지 말고 일반 문장/번호 텍스트로 작성하라.",
       ].join("\n\n"),
+      images: attachmentContext.images.length > 0 ? attachmentContext.images : undefined,
       maxOutputTokens: 750,
       useWebSearch: memberId === "RESEARCHER-TAN",
-    });
-  }, [getProxyAuthToken, resolveRuntime]);
+      signal: options.signal,
+    }, scope, options.liveChannel);
+    rememberTurn(memberId, reply, scope.threadId);
+    acknowledgeScheduleFeedback(activeThreadId, scheduleFeedback);
+    return reply;
+  }, [
+    acknowledgeScheduleFeedback,
+    activeThread.scheduleFeedback,
+    activeThreadId,
+    getMember,
+    getProxyAuthToken,
+    loadAttachmentContext,
+    readThreadSummary,
+    recallMemories,
+    rememberTurn,
+    requestAgentText,
+    resolveRuntime,
+    retrieveThreadContext,
+  ]);
 
   const addGovernanceAlert = useCallback((
     source: "LEGAL-TAN" | "HR-TAN",
     message: string,
     status: "ok" | "warning",
+    threadId = activeThreadId,
+    origin?: HistoryOrigin,
   ) => {
-    setGovernanceAlerts((previous) => [
-      {
-        id: makeId(),
-        threadId: activeThreadId,
-        source,
-        status,
-        message,
-        createdAt: new Date().toISOString(),
-      },
-      ...previous,
-    ].slice(0, 140));
-  }, [activeThreadId]);
+    const next: GovernanceAlert = {
+      id: origin?.id || makeId(),
+      threadId,
+      source,
+      status,
+      message,
+      createdAt: origin?.createdAt || new Date().toISOString(),
+    };
+    persistHistoryItem("governanceAlerts", next, () =>
+      setGovernanceAlerts((previous) => [next, ...previous.filter((item) => item.id !== next.id)]),
+    );
+  }, [activeThreadId, persistHistoryItem]);
 
-  const runGovernanceWatch = useCallback(async (context: string) => {
+  const runGovernanceWatch = useCallback(async (
+    context: string,
+    options: { scope?: AgentCallScope; signal?: AbortSignal } = {},
+  ) => {
+    const { signal } = options;
     const checks: Array<"LEGAL-TAN" | "HR-TAN"> = ["LEGAL-TAN", "HR-TAN"];
 
     for (const checker of checks) {
@@ -1732,6 +4118,8 @@ function App() {
           `다음 실행 맥락이 HOBBYTAN 헌법(법/규정 준수, 역할 충돌 금지, 개인정보/보안 보호)을 위반하는지 감사: ${context}`,
           [],
           "CEO-HOBBY",
+          "",
+          options,
         );
         const status = /위반|리스크|warning|금지|불가/i.test(reply)
           ? "warning"
@@ -1740,6 +4128,7 @@ function App() {
         addGovernanceAlert(checker, reply, status);
         appendLog("execution", `${checker} 감시 보고 (${status})`);
       } catch (error) {
+        signal?.throwIfAborted();
         const message = error instanceof Error ? error.message : "감시 실패";
         addGovernanceAlert(checker, message, "warning");
         appendLog("execution", `${checker} 감시 실패: ${message}`);
@@ -1775,6 +4164,7 @@ function App() {
       useSearch: config?.useSearch ?? uxUseSearch,
       aspectRatio: config?.aspectRatio || uxAspectRatio,
       imageSize: config?.imageSize || uxImageSize,
+      meter: { memberId: "UX-TAN", threadId: activeThreadId },
       authToken,
     });
 
@@ -1825,74 +4215,240 @@ function App() {
     return files.filter((item): item is File => !!item);
   };
 
-  const startWorkflow = async (task: string) => {
+  // Queues the run for the workflowRunner function; progress arrives through the events listener.
+  const startServerWorkflow = async (task: string) => {
+    if (!user) {
+      return;
+    }
+
+    const runId = `run-${Date.now()}`;
+    setWorkflowError("");
+    retitleThreadFromTask(activeThreadId, task);
+
+    const attachments: FileAsset[] = [];
+    if (workflowAttachmentFile) {
+      appendLog("brainstorming", `첨부 파일 업로드 시작: ${workflowAttachmentFile.name}`);
+      try {
+        attachments.push(await uploadAttachment(workflowAttachmentFile, "workflow-inputs"));
+        appendLog("brainstorming", "첨부 파일 업로드 완료");
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "스토리지 업로드 실패";
+        appendLog("brainstorming", `첨부 업로드 실패(계속 진행): ${message}`);
+      }
+    }
+
+    // The server runner calls only the default provider endpoints, so custom base URLs stay in the browser.
+    const runtimes = Object.fromEntries(
+      councilMembers.map((member) => {
+        const runtime = resolveRuntime(member.id);
+        return [member.id, { provider: runtime.provider, model: runtime.model }];
+      }),
+    );
+    const customBaseUrlMembers = councilMembers
+      .filter((member) => resolveRuntime(member.id).baseUrl)
+      .map((member) => member.id);
+    if (customBaseUrlMembers.length > 0) {
+      appendLog(
+        "brainstorming",
+        `서버 실행은 사용자 지정 Base URL을 쓰지 않고 기본 엔드포인트로 호출합니다: ${customBaseUrlMembers.join(", ")}`,
+      );
+    }
+
+    try {
+      await setDoc(doc(db, "users", user.uid, "workflowRuns", runId), {
+        executor: "server",
+        status: "queued",
+        phase: "brainstorming",
+        control: null,
+        threadId: activeThreadId,
+        task,
+        startedAt: new Date().toISOString(),
+        updatedAt: serverTimestamp(),
+        roster: councilMembers.map((member) => ({
+          id: member.id,
+          displayName: member.displayName,
+          role: member.role,
+          identityPrompt: member.identityPrompt,
+          personaVersion: member.personaVersion,
+        })),
+        runtimes,
+        defaultTeam: roster.defaultCollaborationTeam,
+        autonomousRounds: AUTONOMOUS_EXECUTION_ROUNDS,
+        mission: missionContext,
+        memories: Object.fromEntries(
+          councilMembers
+            .map((member) => [member.id, recallMemories(member.id, task)])
+            .filter(([, memoryContext]) => memoryContext),
+        ),
+        ...(threadSummariesRef.current[activeThreadId]
+          ? { threadSummary: threadSummariesRef.current[activeThreadId] }
+          : {}),
+        attachments: JSON.parse(JSON.stringify(attachments)) as FileAsset[],
+      });
+      appendLog("brainstorming", `서버 실행 대기열 등록: ${task}`);
+      setWorkflowAttachmentFile(null);
+    } catch (error) {
+      setWorkflowError(describeError(error, "서버 실행 등록 실패"));
+    }
+  };
+
+  const updateServerRun = (run: WorkflowRun, changes: Record<string, unknown>) => {
+    if (!user) {
+      return;
+    }
+
+    void updateDoc(doc(db, "users", user.uid, "workflowRuns", run.runId), {
+      ...changes,
+      updatedAt: serverTimestamp(),
+    }).catch((error: unknown) => {
+      setWorkflowError(describeError(error, "서버 실행 상태 변경 실패"));
+    });
+  };
+
+  const startWorkflow = async (task: string, resumeFrom?: WorkflowCheckpoint) => {
     if (!task.trim()) {
       setWorkflowError("CEO 지시 문장을 입력하세요.");
       return;
     }
 
-    if (running) {
+    if (running || activeServerRun) {
       setWorkflowError("이미 워크플로우가 실행 중입니다.");
       return;
     }
 
-    const trimmedTask = task.trim();
-
-    if (!devMockEnabled && usageQuota.exhausted) {
+    if (!resumeFrom && user && !devMockEnabled && usageQuota.exhausted) {
       setWorkflowError(
         `무료 보고서 ${usageQuota.limit}회를 모두 사용했습니다. 추가 이용은 ${SUPPORT_EMAIL} 로 문의해 주세요.`,
       );
       return;
     }
 
+    const trimmedTask = task.trim();
+    if (!resumeFrom && workflowExecutor === "server" && user && !devMockEnabled) {
+      await startServerWorkflow(trimmedTask);
+      return;
+    }
+
+    const controller = new AbortController();
+    const { signal } = controller;
+    const checkpoint: WorkflowCheckpoint = resumeFrom
+      ? {
+          runId: resumeFrom.runId,
+          threadId: resumeFrom.threadId,
+          task: resumeFrom.task,
+          startedAt: resumeFrom.startedAt,
+          brainstorm: resumeFrom.brainstorm,
+          managementPlan: resumeFrom.managementPlan,
+          collaborationSession: resumeFrom.collaborationSession,
+          autonomousResult: resumeFrom.autonomousResult,
+          attachments: resumeFrom.attachments,
+        }
+      : {
+          runId: `run-${Date.now()}`,
+          threadId: activeThreadId,
+          task: trimmedTask,
+          startedAt: new Date().toISOString(),
+        };
+    let currentPhase: WorkflowPhase = "brainstorming";
+    // Other tabs see the run as live while the lease is fresh; the heartbeat stops at settlement.
+    let settled = false;
+    const saveRun = (status: WorkflowRunStatus, extra: Partial<WorkflowRun> = {}) => {
+      settled = status !== "running";
+      recordWorkflowRun({
+        ...checkpoint,
+        executor: "browser",
+        status,
+        phase: currentPhase,
+        updatedAt: new Date().toISOString(),
+        owner: BROWSER_TAB_ID,
+        leaseUntil: settled ? undefined : new Date(Date.now() + BROWSER_RUN_LEASE_MS).toISOString(),
+        ...extra,
+      });
+    };
+    const heartbeat = window.setInterval(() => {
+      if (!settled) {
+        saveRun("running");
+      }
+    }, BROWSER_RUN_HEARTBEAT_MS);
+    const enterPhase = (nextPhase: WorkflowPhase) => {
+      currentPhase = nextPhase;
+      setPhase(nextPhase);
+      saveRun("running");
+    };
+
     setWorkflowError("");
     setRunning(true);
-    updateThread(activeThreadId, {
-      title:
-        trimmedTask.length > 36
-          ? `${trimmedTask.slice(0, 36).trim()}...`
-          : trimmedTask,
-    });
+    saveRun("running");
+    workflowAbortRef.current = controller;
+    const scope: AgentCallScope = { threadId: checkpoint.threadId, runId: checkpoint.runId };
+    retitleThreadFromTask(scope.threadId, trimmedTask);
 
     try {
-      const nonCeoMembers = COUNCIL_MEMBERS.filter(
+      const nonCeoMembers = councilMembers.filter(
         (member) => member.id !== "CEO-HOBBY",
       ).map((member) => member.id);
 
-      appendLog("brainstorming", `CEO 지시 접수: ${trimmedTask}`);
-      setPhase("brainstorming");
-      setActiveMembers(nonCeoMembers);
+      let attachments = checkpoint.attachments;
+      if (!attachments) {
+        attachments = [];
+        if (workflowAttachmentFile) {
+          appendLog("brainstorming", `첨부 파일 업로드 시작: ${workflowAttachmentFile.name}`);
+          try {
+            attachments.push(await uploadAttachment(workflowAttachmentFile, "workflow-inputs"));
+            appendLog("brainstorming", "첨부 파일 업로드 완료");
+          } catch (error) {
+            const message =
+              error instanceof Error ? error.message : "스토리지 업로드 실패";
+            appendLog("brainstorming", `첨부 업로드 실패(계속 진행): ${message}`);
+          }
+          setWorkflowAttachmentFile(null);
+        }
+        checkpoint.attachments = attachments;
+        saveRun("running");
+      }
+      const taskAttachmentContext = await loadAttachmentContext(attachments, trimmedTask);
 
-      moveMembersToRoom(nonCeoMembers, "brainstorming", "브레인스토밍 회의 진행");
-      setMembersToDesk(["CEO-HOBBY"], false, () => "지시/승인 대기");
+      let brainstorm = checkpoint.brainstorm;
+      if (brainstorm) {
+        appendLog("brainstorming", `워크플로우 재개: 완료된 단계를 건너뛰고 이어서 진행합니다.`);
+      } else {
+        appendLog("brainstorming", `CEO 지시 접수: ${trimmedTask}`);
+        enterPhase("brainstorming");
+        setActiveMembers(nonCeoMembers);
 
-      await sleep(900);
-      const brainstorm = await runBrainstorm(trimmedTask);
-      appendLog("brainstorming", `전략 수립 완료: ${brainstorm.strategy}`);
-      appendMeetingTurn({
-        sessionId: `brain-${Date.now()}`,
-        room: "brainstorming",
-        speakerId: "ATTENDANT-TAN",
-        speakerName: "ATTENDANT-TAN",
-        text: brainstorm.strategy,
-        source: "workflow",
-      });
+        moveMembersToRoom(nonCeoMembers, "brainstorming", "브레인스토밍 회의 진행");
+        setMembersToDesk(["CEO-HOBBY"], false, () => "지시/승인 대기");
+
+        await sleep(900);
+        brainstorm = await runBrainstorm(trimmedTask, taskAttachmentContext, scope, signal);
+        appendLog("brainstorming", `전략 수립 완료: ${brainstorm.strategy}`);
+        appendMeetingTurn({
+          sessionId: `brain-${Date.now()}`,
+          room: "brainstorming",
+          speakerId: "ATTENDANT-TAN",
+          speakerName: "ATTENDANT-TAN",
+          text: brainstorm.strategy,
+          source: "workflow",
+        });
+        checkpoint.brainstorm = brainstorm;
+        saveRun("running");
+      }
 
       const participants = Array.from(
         new Set(
           brainstorm.participants
             .map((item) => item.toUpperCase())
             .filter((memberId) => memberId !== "CEO-HOBBY")
-            .filter((memberId) => MEMBER_BY_ID.has(memberId)),
+            .filter((memberId) => activeMemberIds.has(memberId)),
         ),
       );
 
       const collaborationMembers =
         participants.length > 0
           ? participants
-          : DEFAULT_COLLABORATION_TEAM.filter((memberId) => MEMBER_BY_ID.has(memberId));
+          : roster.defaultCollaborationTeam.filter((memberId) => activeMemberIds.has(memberId));
 
-      setPhase("collaboration");
+      enterPhase("collaboration");
       setActiveMembers(collaborationMembers);
 
       moveMembersToRoom(collaborationMembers, "collaboration", "협업회의실 실행 플랜 조율");
@@ -1910,11 +4466,41 @@ function App() {
         `${collaborationMembers.length}명이 협업회의실로 이동해 실행안을 구체화합니다.`,
       );
 
-      const managementPlan = await runPoPmManagementPlan(
-        trimmedTask,
-        brainstorm.strategy,
-        collaborationMembers,
-      );
+      let managementPlan = checkpoint.managementPlan;
+      if (!managementPlan) {
+        managementPlan = await runPoPmManagementPlan(
+          trimmedTask,
+          brainstorm.strategy,
+          collaborationMembers,
+          taskAttachmentContext,
+          scope,
+          signal,
+        );
+
+        appendMeetingTurn({
+          sessionId: `manage-${Date.now()}`,
+          room: "collaboration",
+          speakerId: "PO-TAN",
+          speakerName: "PO-TAN",
+          text: managementPlan.poPlan,
+          source: "workflow",
+        });
+        void upsertActionPlan("PO-TAN", managementPlan.poPlan, "management", scope.threadId, scope.runId);
+        appendMeetingTurn({
+          sessionId: `manage-${Date.now()}-pm`,
+          room: "collaboration",
+          speakerId: "PM-TAN",
+          speakerName: "PM-TAN",
+          text: managementPlan.pmPlan,
+          source: "workflow",
+        });
+        void upsertActionPlan("PM-TAN", managementPlan.pmPlan, "management", scope.threadId, scope.runId);
+        appendLog("collaboration", "PO-TAN/PM-TAN 업무 배정 및 일정 관리안 확정");
+        checkpoint.managementPlan = managementPlan;
+        saveRun("running");
+
+        await sleep(1000);
+      }
       const managementContext = [
         `[PO-TAN 업무 배정]`,
         managementPlan.poPlan,
@@ -1923,107 +4509,92 @@ function App() {
         managementPlan.pmPlan,
       ].join("\n");
 
-      appendMeetingTurn({
-        sessionId: `manage-${Date.now()}`,
-        room: "collaboration",
-        speakerId: "PO-TAN",
-        speakerName: "PO-TAN",
-        text: managementPlan.poPlan,
-        source: "workflow",
-      });
-      upsertActionPlan("PO-TAN", managementPlan.poPlan, "management", activeThreadId);
-      appendMeetingTurn({
-        sessionId: `manage-${Date.now()}-pm`,
-        room: "collaboration",
-        speakerId: "PM-TAN",
-        speakerName: "PM-TAN",
-        text: managementPlan.pmPlan,
-        source: "workflow",
-      });
-      upsertActionPlan("PM-TAN", managementPlan.pmPlan, "management", activeThreadId);
-      appendLog("collaboration", "PO-TAN/PM-TAN 업무 배정 및 일정 관리안 확정");
-
-      await sleep(1000);
-
-      const collaborationSession = await runCollaboration(
-        trimmedTask,
-        brainstorm.strategy,
-        collaborationMembers,
-        managementContext,
-      );
+      let collaborationSession = checkpoint.collaborationSession;
+      if (!collaborationSession) {
+        collaborationSession = await runCollaboration(
+          trimmedTask,
+          brainstorm.strategy,
+          collaborationMembers,
+          managementContext,
+          attachments,
+          scope,
+          signal,
+        );
+        collaborationSession.notes.forEach((item) => {
+          void upsertActionPlan(item.memberId, item.note, "workflow", scope.threadId, scope.runId);
+        });
+        appendLog(
+          "collaboration",
+          `회의 로그 기록 완료: 세션 ${collaborationSession.sessionId}, 발언 ${collaborationSession.transcript.length}건`,
+        );
+        checkpoint.collaborationSession = collaborationSession;
+        saveRun("running");
+      }
       let notes = collaborationSession.notes;
-      notes.forEach((item) => {
-        upsertActionPlan(item.memberId, item.note, "workflow", activeThreadId);
-      });
-      appendLog(
-        "collaboration",
-        `회의 로그 기록 완료: 세션 ${collaborationSession.sessionId}, 발언 ${collaborationSession.transcript.length}건`,
-      );
 
-      const autonomousResult = await runAutonomousExecutionLoop(
-        trimmedTask,
-        brainstorm.strategy,
-        collaborationMembers,
-        [
-          managementContext,
-          ...collaborationSession.notes.map((item) => `${item.memberId}: ${item.note}`),
-        ].join("\n\n"),
-      );
+      let autonomousResult = checkpoint.autonomousResult;
+      if (!autonomousResult) {
+        autonomousResult = await runAutonomousExecutionLoop(
+          trimmedTask,
+          brainstorm.strategy,
+          collaborationMembers,
+          [
+            managementContext,
+            ...collaborationSession.notes.map((item) => `${item.memberId}: ${item.note}`),
+          ].join("\n\n"),
+          attachments,
+          scope,
+          signal,
+        );
+        checkpoint.autonomousResult = autonomousResult;
+        saveRun("running");
+      }
 
       if (autonomousResult.notes.length > 0) {
         notes = [...notes, ...autonomousResult.notes];
       }
 
-      setPhase("execution");
+      enterPhase("execution");
       setMembersToDesk(collaborationMembers, true, () => "개별 산출물 작성 중");
       appendLog("execution", "협업 결과를 기반으로 각 부서가 실제 결과물을 작성합니다.");
 
       await sleep(900);
 
-      let inboundAsset: FileAsset | undefined;
-      if (workflowAttachmentFile) {
-        appendLog("execution", `첨부 파일 업로드 시작: ${workflowAttachmentFile.name}`);
-        try {
-          inboundAsset = await uploadFileAsset(workflowAttachmentFile, "workflow-inputs");
-          appendLog("execution", "첨부 파일 업로드 완료");
-        } catch (error) {
-          const message =
-            error instanceof Error ? error.message : "스토리지 업로드 실패";
-          appendLog("execution", `첨부 업로드 실패(계속 진행): ${message}`);
-        }
-      }
-
-      setPhase("reporting");
+      signal.throwIfAborted();
+      enterPhase("reporting");
       moveReportersToCEO(["ATTENDANT-TAN", "PM-TAN", "HOST-TAN"]);
       setMembersToDesk(["CEO-HOBBY"], true, () => "최종 보고 수신 중");
 
       const reportPlans: ActionPlanItem[] = [
         {
           id: makeId(),
-          threadId: activeThreadId,
+          threadId: scope.threadId,
           memberId: "PO-TAN",
           memberName: getMember("PO-TAN")?.displayName || "PO-TAN",
           plan: managementPlan.poPlan,
+          tasks: [],
           source: "management",
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
         },
         {
           id: makeId(),
-          threadId: activeThreadId,
+          threadId: scope.threadId,
           memberId: "PM-TAN",
           memberName: getMember("PM-TAN")?.displayName || "PM-TAN",
           plan: managementPlan.pmPlan,
+          tasks: [],
           source: "management",
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
         },
         ...notes.map((item) => ({
           id: makeId(),
-          threadId: activeThreadId,
+          threadId: scope.threadId,
           memberId: item.memberId,
           memberName: getMember(item.memberId)?.displayName || item.memberId,
           plan: item.note,
+          tasks: [],
           source: "workflow" as const,
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
@@ -2036,6 +4607,8 @@ function App() {
         notes,
         reportPlans,
         autonomousResult.digest,
+        scope,
+        signal,
       );
 
       let reportDocumentAsset: FileAsset | undefined;
@@ -2046,6 +4619,7 @@ function App() {
           `ceo-report-${Date.now()}.md`,
           "reports",
           "text/markdown",
+          { source: "report" },
         );
       } catch {
         reportDocumentAsset = undefined;
@@ -2072,13 +4646,14 @@ function App() {
             `meeting-log-${collaborationSession.sessionId}.md`,
             "reports",
             "text/markdown",
+            { source: "meeting-log" },
           );
         } catch {
           meetingLogAsset = undefined;
         }
       }
 
-      const reportAssets = [reportDocumentAsset, meetingLogAsset, inboundAsset].filter(
+      const reportAssets = [reportDocumentAsset, meetingLogAsset, ...attachments].filter(
         (item): item is FileAsset => !!item,
       );
 
@@ -2086,7 +4661,7 @@ function App() {
         trimmedTask.length > 42 ? `${trimmedTask.slice(0, 42).trim()}...` : trimmedTask;
 
       const reportData: Omit<ReportItem, "id" | "source"> = {
-        threadId: activeThreadId,
+        threadId: scope.threadId,
         title: `[${new Date().toLocaleTimeString("ko-KR", {
           hour12: false,
         })}] ${reportTitle}`,
@@ -2094,17 +4669,20 @@ function App() {
         participants: collaborationMembers,
         assets: reportAssets,
         createdAt: new Date().toISOString(),
+        personas: ["ATTENDANT-TAN", ...collaborationMembers]
+          .map(personaStamp)
+          .filter((item): item is PersonaStamp => !!item),
       };
 
+      signal.throwIfAborted();
+      // The report is final from here on; pause/cancel no longer apply to this run.
+      workflowAbortRef.current = null;
+      setWorkflowStopping(null);
+
       await persistReport(reportData);
-      await consumeReportQuota().catch((error) => {
-        const message =
-          error instanceof Error ? error.message : "사용량 반영 실패";
-        appendLog("reporting", `무료 사용량 반영 실패(보고는 완료): ${message}`);
-      });
 
       await persistOfficeMessage({
-        threadId: activeThreadId,
+        threadId: scope.threadId,
         senderId: "ATTENDANT-TAN",
         senderName: "ATTENDANT-TAN",
         senderRole: "DEO / Executive Attendant",
@@ -2116,14 +4694,15 @@ function App() {
 
       await runGovernanceWatch(
         `워크플로우 최종 보고: ${trimmedTask}\n전략: ${brainstorm.strategy}\n참여자: ${collaborationMembers.join(", ")}`,
+        { scope },
       );
 
       appendLog(
         "reporting",
         `CEO 좌석으로 보고 전달 완료. 참여자: ${collaborationMembers.join(", ")}`,
       );
+      saveRun("completed", { phase: "idle", reportTitle: reportData.title });
 
-      setWorkflowAttachmentFile(null);
       setPhase("idle");
       setRunning(false);
       setActiveMembers([]);
@@ -2133,16 +4712,141 @@ function App() {
       });
       setMembersToDesk(["CEO-HOBBY"], false, () => "다음 지시 대기");
     } catch (error) {
-      const message = error instanceof Error ? error.message : "알 수 없는 오류";
+      workflowAbortRef.current = null;
+      setWorkflowStopping(null);
+
+      if (error instanceof WorkflowInterruptedError) {
+        saveRun(error.interruption);
+        if (error.interruption === "paused") {
+          appendLog(currentPhase, `워크플로우 일시정지: ${currentPhase} 단계 중단. 재개하면 완료된 단계 이후부터 진행합니다.`);
+        } else {
+          appendLog(currentPhase, "워크플로우 취소: 남은 단계와 보고서 생성을 중단했습니다.");
+        }
+        setPhase("idle");
+        setRunning(false);
+        setActiveMembers([]);
+        setMembersToDesk(councilMembers.map((member) => member.id), false, (memberId) =>
+          memberId === "CEO-HOBBY" ? "다음 지시 대기" : "대기",
+        );
+        return;
+      }
+
+      const message = describeError(error, "알 수 없는 오류");
+      if (error instanceof ProxyQuotaError && error.usage) {
+        setUsageQuota(error.usage);
+      }
       setWorkflowError(message);
       appendLog("reporting", `워크플로우 실패: ${message}`);
+      saveRun("failed", { error: message });
       setPhase("idle");
       setRunning(false);
       setActiveMembers([]);
-      setMembersToDesk(COUNCIL_MEMBERS.map((member) => member.id), false, (memberId) =>
+      setMembersToDesk(councilMembers.map((member) => member.id), false, (memberId) =>
         memberId === "CEO-HOBBY" ? "다음 지시 대기" : "오류 복구 대기",
       );
+    } finally {
+      window.clearInterval(heartbeat);
+    }
+  };
+
+  const interruptWorkflow = (interruption: WorkflowInterruption) => {
+    if (activeServerRun) {
+      updateServerRun(activeServerRun, {
+        control: interruption === "paused" ? "pause" : "cancel",
+      });
+      return;
+    }
+
+    const controller = workflowAbortRef.current;
+    if (!controller || controller.signal.aborted) {
+      return;
+    }
+
+    setWorkflowStopping(interruption);
+    controller.abort(new WorkflowInterruptedError(interruption));
+  };
+
+  // A cut-off server run is re-queued only if its lease is still expired when the write lands, so a
+  // runner that just renewed it keeps the run.
+  const requeueServerRun = async (run: WorkflowRun) => {
+    if (!user) {
+      return;
+    }
+
+    const runRef = doc(db, "users", user.uid, "workflowRuns", run.runId);
+    try {
+      const requeued = await runTransaction(db, async (transaction) => {
+        const snapshot = await transaction.get(runRef);
+        const current = parseWorkflowRun(run.runId, snapshot.data() || {});
+        if (current.status === "running" && !isRunLeaseExpired(current, new Date())) {
+          return false;
+        }
+        transaction.update(runRef, {
+          status: "queued",
+          control: null,
+          error: deleteField(),
+          updatedAt: serverTimestamp(),
+        });
+        return true;
+      });
+      if (!requeued) {
+        setWorkflowError("서버 실행이 아직 진행 중입니다.");
+      }
+    } catch (error) {
+      setWorkflowError(describeError(error, "서버 실행 상태 변경 실패"));
+    }
+  };
+
+  const resumeWorkflow = async (run: WorkflowRun) => {
+    if (run.executor === "server") {
+      await requeueServerRun(run);
+      return;
+    }
+
+    if (run.threadId !== activeThreadId) {
+      setActiveThreadId(run.threadId);
+      return;
+    }
+
+    // Two tabs resuming the same cut-off run: only the one whose claim lands first continues.
+    if (user && !devMockEnabled) {
+      const runRef = doc(db, "users", user.uid, "workflowRuns", run.runId);
+      try {
+        const claimed = await runTransaction(db, async (transaction) => {
+          const current = parseWorkflowRun(run.runId, (await transaction.get(runRef)).data() || {});
+          if (
+            current.status === "running" &&
+            current.owner !== BROWSER_TAB_ID &&
+            !isRunLeaseExpired(current, new Date())
+          ) {
+            return false;
+          }
+          transaction.update(runRef, {
+            owner: BROWSER_TAB_ID,
+            leaseUntil: new Date(Date.now() + BROWSER_RUN_LEASE_MS).toISOString(),
+          });
+          return true;
+        });
+        if (!claimed) {
+          setWorkflowError("다른 탭에서 이 워크플로우가 진행 중입니다.");
+          return;
+        }
+      } catch (error) {
+        setWorkflowError(describeError(error, "워크플로우 재개 준비 실패"));
+        return;
+      }
+    }
+
+    await startWorkflow(run.task, run);
+  };
+
+  const discardWorkflowRun = (run: WorkflowRun) => {
+    appendLog("idle", `재개 대기 중인 워크플로우를 폐기했습니다: ${run.task}`, run.threadId);
+    if (run.executor === "server") {
+      updateServerRun(run, { status: "cancelled", control: null });
+      return;
     }
+    recordWorkflowRun({ ...run, status: "cancelled", updatedAt: new Date().toISOString() });
   };
 
   const triggerOfficerReplies = async (
@@ -2153,7 +4857,7 @@ function App() {
     const resolvedTargets =
       targetId === "ALL" ? DEFAULT_CHAT_RECIPIENTS : [targetId];
     const sessionId = `chat-${Date.now()}`;
-    let priorDialogue = `CEO-HOBBY: ${ceoPrompt}\n`;
+    let dialogue: DialogueTurn[] = [{ speakerId: "CEO-HOBBY", text: ceoPrompt }];
 
     if (!running) {
       moveMembersToRoom(resolvedTargets, "collaboration", "CEO 지시 협업 논의");
@@ -2220,12 +4924,14 @@ function App() {
         }
 
         const targetLabel = targetId === "ALL" ? "전체" : targetId;
+        dialogue = await fitDialogueToBudget(activeThreadId, dialogue);
         const reply = await runOfficerSingleReply(
           memberId,
           ceoPrompt,
           attachments,
           targetLabel,
-          priorDialogue,
+          [...dialogue],
+          { liveChannel: "chat" },
         );
 
         let deliverableAsset: FileAsset | undefined;
@@ -2242,6 +4948,7 @@ function App() {
             `${member.id.toLowerCase()}-deliverable-${Date.now()}.md`,
             "deliverables",
             "text/markdown",
+            { source: "deliverable" },
           );
         } catch {
           deliverableAsset = undefined;
@@ -2266,12 +4973,11 @@ function App() {
           text: reply,
           source: "chat",
         });
-        upsertActionPlan(member.id, reply, "manual", activeThreadId);
-        priorDialogue += `${member.id}: ${reply}\n\n`;
+        void upsertActionPlan(member.id, reply, "manual", activeThreadId);
+        dialogue.push({ speakerId: member.id, text: reply, createdAt: new Date().toISOString() });
         appendLog("execution", `${member.id} 응답 및 문서 전달 완료`);
       } catch (error) {
-        const message =
-          error instanceof Error ? error.message : "오피서 응답 생성 실패";
+        const message = describeError(error, "오피서 응답 생성 실패");
         appendLog("execution", `${member.id} 응답 실패: ${message}`);
 
         await persistOfficeMessage({
@@ -2294,7 +5000,7 @@ function App() {
       });
     }
 
-    await runGovernanceWatch(`CEO 채팅 세션 점검:\n${priorDialogue}`);
+    await runGovernanceWatch(`CEO 채팅 세션 점검:\n${formatDialogue(dialogue)}`);
   };
 
   const handleSendChat = async (event: FormEvent<HTMLFormElement>) => {
@@ -2315,7 +5021,7 @@ function App() {
 
       for (const file of messageFiles) {
         try {
-          const asset = await uploadFileAsset(file, "chat-attachments");
+          const asset = await uploadAttachment(file, "chat-attachments");
           uploadedAssets.push(asset);
         } catch (error) {
           const message =
@@ -2360,6 +5066,70 @@ function App() {
     }
   };
 
+  const recordPlanExecution = (entry: PlanExecutionEntry) => {
+    setPlanExecutions((previous) => ({
+      ...previous,
+      [entry.planId]: [entry, ...(previous[entry.planId] || []).filter((item) => item.id !== entry.id)],
+    }));
+    if (!user || devMockEnabled) {
+      return;
+    }
+
+    const { id, ...payload } = entry;
+    void setDoc(doc(db, "users", user.uid, "actionPlans", entry.planId, "executions", id), payload).catch(
+      (error: unknown) => {
+        console.error("Failed to save plan execution:", error);
+      },
+    );
+  };
+
+  // A third pick replaces the older of the two.
+  const toggleCompareItem = (key: string, id: string) => {
+    setCompareSelection((previous) =>
+      previous.key !== key
+        ? { key, ids: [id] }
+        : {
+            key,
+            ids: previous.ids.includes(id)
+              ? previous.ids.filter((item) => item !== id)
+              : [...previous.ids, id].slice(-2),
+          },
+    );
+  };
+
+  const togglePlanExecutions = async (planId: string) => {
+    if (expandedExecutionsPlanId === planId) {
+      setExpandedExecutionsPlanId("");
+      return;
+    }
+
+    setExpandedExecutionsPlanId(planId);
+    if (!user || devMockEnabled) {
+      return;
+    }
+
+    try {
+      const snapshot = await getDocs(
+        query(
+          collection(db, "users", user.uid, "actionPlans", planId, "executions"),
+          orderBy("createdAt", "desc"),
+          limit(HISTORY_PAGE_SIZE),
+        ),
+      );
+      setPlanExecutions((previous) => ({
+        ...previous,
+        [planId]: snapshot.docs
+          .map((item) => parsePlanExecutionEntry(item.id, item.data()))
+          .filter((entry): entry is PlanExecutionEntry => entry !== null),
+      }));
+    } catch (error) {
+      console.error("Failed to load plan executions:", error);
+    }
+  };
+
+  // Runs the plan step by step on the TAN's configured runtime. Every step is kept as a versioned
+  // entry; the run ends when the TAN reports done or blocked, a step fails, the step limit is
+  // reached, or the CEO stops it.
   const executeActionPlan = async (plan: ActionPlanItem) => {
     if (executingPlanId) {
       return;
@@ -2370,58 +5140,166 @@ function App() {
       return;
     }
 
+    const controller = new AbortController();
+    planExecutionAbortRef.current = controller;
     setExecutingPlanId(plan.id);
+    const runtime = resolveRuntime(plan.memberId);
+    const steps: PlanExecutionEntry[] = [];
+
+    // The version is taken before the first step, so two tabs executing the same plan never share
+    // one and a failed run still uses its number up.
+    let version: number;
+    try {
+      if (!user || devMockEnabled) {
+        const stored = actionPlansRef.current.find((item) => item.id === plan.id);
+        version = Math.max(stored?.executionCount || 0, plan.executionCount || 0) + 1;
+        const allocated = version;
+        setActionPlans((previous) =>
+          previous.map((item) => (item.id === plan.id ? { ...item, executionCount: allocated } : item)),
+        );
+      } else {
+        const planRef = doc(db, "users", user.uid, "actionPlans", plan.id);
+        version = await runTransaction(db, async (transaction) => {
+          const next = (Number((await transaction.get(planRef)).get("executionCount")) || 0) + 1;
+          transaction.set(planRef, { executionCount: next }, { merge: true });
+          return next;
+        });
+      }
+    } catch (error) {
+      appendLog(
+        "execution",
+        `${plan.memberId} 액션플랜 실행 준비 실패: ${describeError(error, "실행 버전 할당 실패")}`,
+        plan.threadId,
+      );
+      planExecutionAbortRef.current = null;
+      setExecutingPlanId("");
+      return;
+    }
 
     try {
-      appendLog("execution", `${plan.memberId} 액션플랜 실행 시작`);
+      appendLog(
+        "execution",
+        `${plan.memberId} 액션플랜 실행 v${version} 시작 (${runtime.provider}/${runtime.model})`,
+        plan.threadId,
+      );
       const authToken = await getProxyAuthToken();
-      const openaiRuntime = roleConfig[plan.memberId];
-      const preferredModel =
-        plan.memberId === "DEV-TAN" ? DEFAULT_OPENAI_DEV_MODEL : DEFAULT_OPENAI_MODEL;
-
-      const reply = authToken
-        ? await requestLlmText({
-            provider: "openai",
-            model: preferredModel,
-            baseUrl:
-              openaiRuntime?.provider === "openai" ? openaiRuntime.baseUrl : "",
+
+      for (let step = 1; step <= MAX_PLAN_EXECUTION_STEPS; step += 1) {
+        const prompt = buildExecutionStepInput(plan.plan, plan.tasks, steps, step);
+        let output: string;
+        let outcome: { status: PlanStepStatus; blocker: string };
+        try {
+          output = await requestAgentText(plan.memberId, {
+            provider: runtime.provider,
+            model: runtime.model,
+            baseUrl: runtime.baseUrl,
             authToken,
             instructions: member.identityPrompt,
-            input: [
-              "다음 액션플랜을 즉시 실행 가능한 수준으로 구체화하고 진행하라.",
-              `액션플랜:\n${plan.plan}`,
-              "실행 결과는 1) 지금 수행한 일 2) 산출물 3) 다음 실행 단계 4) 차단 이슈로 보고하라.",
-            ].join("\n\n"),
+            input: prompt,
             maxOutputTokens: 900,
-          })
-        : await runOfficerSingleReply(
-            plan.memberId,
-            [
-              "다음 액션플랜을 즉시 실행 가능한 수준으로 구체화하고 진행하라.",
-              `액션플랜:\n${plan.plan}`,
-              "실행 결과는 1) 지금 수행한 일 2) 산출물 3) 다음 실행 단계 4) 차단 이슈로 보고하라.",
-            ].join("\n\n"),
-            [],
-            "CEO-HOBBY",
-          );
+            signal: controller.signal,
+          }, { threadId: plan.threadId });
+          outcome = parseExecutionStepStatus(output);
+        } catch (error) {
+          rethrowIfInterrupted(error, controller.signal);
+          output = describeError(error, "실행 단계 실패");
+          outcome = { status: "failed", blocker: output };
+        }
+
+        const entry: PlanExecutionEntry = {
+          id: `v${version}-s${step}`,
+          planId: plan.id,
+          threadId: plan.threadId,
+          memberId: plan.memberId,
+          version,
+          step,
+          status: outcome.status,
+          prompt,
+          output,
+          blocker: outcome.blocker,
+          provider: runtime.provider,
+          model: runtime.model,
+          deliverable: null,
+          createdAt: new Date().toISOString(),
+        };
+        steps.push(entry);
+        recordPlanExecution(entry);
+        appendMeetingTurn({
+          threadId: plan.threadId,
+          sessionId: `plan-exec-${plan.id}-v${version}`,
+          room: "collaboration",
+          speakerId: member.id,
+          speakerName: member.displayName,
+          text: `[Action Plan Execute v${version} · ${step}단계 · ${PLAN_STEP_STATUS_LABEL[outcome.status]}]\n${output}`,
+          source: "workflow",
+        });
+        if (outcome.status !== "continue") {
+          break;
+        }
+      }
+    } catch (error) {
+      appendLog(
+        "execution",
+        controller.signal.aborted
+          ? `${plan.memberId} 액션플랜 실행 v${version} 중지 (${steps.length}단계까지 기록)`
+          : `${plan.memberId} 액션플랜 실행 실패: ${describeError(error, "액션플랜 실행 실패")}`,
+        plan.threadId,
+      );
+    }
+
+    const last = steps[steps.length - 1];
+    if (last || !controller.signal.aborted) {
+      const executed = {
+        id: plan.id,
+        lastExecutedAt: last?.createdAt || new Date().toISOString(),
+        lastExecutionStatus: last?.status || ("failed" as const),
+        updatedAt: new Date().toISOString(),
+      };
+      persistHistoryItem("actionPlans", executed, () =>
+        setActionPlans((previous) =>
+          previous.map((item) => (item.id === plan.id ? { ...item, ...executed } : item)),
+        ),
+      );
+    }
+    if (!last) {
+      planExecutionAbortRef.current = null;
+      setExecutingPlanId("");
+      return;
+    }
 
+    try {
       const deliverableAsset = await uploadTextAsset(
         [
-          `# ${member.displayName} Action Plan Execution`,
-          `- Thread: ${activeThread.title}`,
+          `# ${member.displayName} Action Plan Execution v${version}`,
+          `- Thread: ${threads.find((thread) => thread.id === plan.threadId)?.title || plan.threadId}`,
           `- Member: ${plan.memberId}`,
-          `- ExecutedAt: ${new Date().toISOString()}`,
+          `- Runtime: ${runtime.provider}/${runtime.model}`,
+          `- ExecutedAt: ${last.createdAt}`,
+          `- Result: ${PLAN_STEP_STATUS_LABEL[last.status]}${last.blocker ? ` (${last.blocker})` : ""}`,
           "",
           "## Original Plan",
           plan.plan,
-          "",
-          "## Execution Result",
-          reply,
+          ...steps.flatMap((entry) => [
+            "",
+            `## Step ${entry.step} (${PLAN_STEP_STATUS_LABEL[entry.status]})`,
+            entry.output,
+          ]),
         ].join("\n"),
-        `${plan.memberId.toLowerCase()}-action-execution-${Date.now()}.md`,
+        `${plan.memberId.toLowerCase()}-action-execution-v${version}-${Date.now()}.md`,
         "deliverables",
         "text/markdown",
+        { source: "deliverable", threadId: plan.threadId },
       );
+      const deliverable = {
+        id: deliverableAsset.id,
+        name: deliverableAsset.name,
+        url: deliverableAsset.url,
+        path: deliverableAsset.path,
+        mimeType: deliverableAsset.mimeType,
+        size: deliverableAsset.size,
+        uploadedAt: deliverableAsset.uploadedAt,
+      };
+      steps.forEach((entry) => recordPlanExecution({ ...entry, deliverable }));
 
       await persistOfficeMessage({
         threadId: plan.threadId,
@@ -2429,40 +5307,36 @@ function App() {
         senderName: member.displayName,
         senderRole: member.role,
         kind: "chat",
-        text: reply,
+        text: last.output,
         targetIds: ["CEO-HOBBY"],
         attachments: [deliverableAsset],
       });
 
-      appendMeetingTurn({
-        threadId: plan.threadId,
-        sessionId: `plan-exec-${Date.now()}`,
-        room: "collaboration",
-        speakerId: member.id,
-        speakerName: member.displayName,
-        text: `[Action Plan Execute]\n${reply}`,
-        source: "workflow",
-      });
-
-      setActionPlans((previous) =>
-        previous.map((item) =>
-          item.id === plan.id
-            ? {
-                ...item,
-                lastExecutedAt: new Date().toISOString(),
-                lastExecutionSummary: reply.slice(0, 360),
-                updatedAt: new Date().toISOString(),
-              }
-            : item,
-        ),
+      // What the steps report as finished or blocked moves the plan's tasks forward.
+      const report = steps.map((entry) => entry.output).join("\n\n");
+      void mergeActionPlan(
+        {
+          memberId: plan.memberId,
+          threadId: plan.threadId,
+          source: "workflow",
+          text: `실행 v${version}: ${steps.length}단계, ${PLAN_STEP_STATUS_LABEL[last.status]}`,
+        },
+        (tasks) => extractPlanTasks(plan.memberId, report, tasks, { threadId: plan.threadId }),
       );
 
-      appendLog("execution", `${plan.memberId} 액션플랜 실행 완료`);
+      appendLog(
+        "execution",
+        last.status === "blocked" || last.status === "failed"
+          ? `${plan.memberId} 액션플랜 실행 v${version} ${PLAN_STEP_STATUS_LABEL[last.status]}: ${last.blocker}`
+          : last.status === "done"
+            ? `${plan.memberId} 액션플랜 실행 v${version} 완료 (${steps.length}단계)`
+            : `${plan.memberId} 액션플랜 실행 v${version} 종료 (${steps.length}단계, 미완료)`,
+        plan.threadId,
+      );
     } catch (error) {
-      const message =
-        error instanceof Error ? error.message : "액션플랜 실행 실패";
-      appendLog("execution", `${plan.memberId} 액션플랜 실행 실패: ${message}`);
+      appendLog("execution", `${plan.memberId} 실행 결과 저장 실패: ${describeError(error, "저장 실패")}`, plan.threadId);
     } finally {
+      planExecutionAbortRef.current = null;
       setExecutingPlanId("");
     }
   };
@@ -2519,8 +5393,7 @@ function App() {
       setUxPrompt("");
       setUxReferenceFiles([]);
     } catch (error) {
-      const message =
-        error instanceof Error ? error.message : "UX 이미지 생성 실패";
+      const message = describeError(error, "UX 이미지 생성 실패");
       setUxError(message);
       appendLog("execution", `UX 이미지 생성 실패: ${message}`);
     } finally {
@@ -2604,6 +5477,140 @@ function App() {
     }
   }, [appendLog, fetchAssetBlob]);
 
+  // Renders a report into an executive deliverable entirely in the browser. Avatars, UX images and
+  // the meeting log are fetched with the user's own credentials; a piece that fails to load is left
+  // out rather than failing the export. The "pdf" format opens the print dialog, where the browser
+  // saves the report as PDF.
+  const exportReport = async (report: ReportItem, format: ReportExportFormat) => {
+    setExportingReportId(report.id);
+    try {
+      const memberIds = Array.from(
+        new Set([...(report.personas || []).map((persona) => persona.memberId), ...report.participants]),
+      );
+      const participants = await Promise.all(
+        memberIds.map(async (memberId) => {
+          const member = getMember(memberId);
+          let avatar: ExportImage | null = null;
+          try {
+            const response = await fetchWithTimeout(avatarForMember(member, user));
+            if (response.ok) {
+              avatar = await toExportAvatar(await response.blob(), `${memberId}.png`);
+            }
+          } catch {
+            avatar = null;
+          }
+          return {
+            id: memberId,
+            name: member?.displayName || memberId,
+            role: member?.role || "",
+            color: member?.color || "#4b5563",
+            avatar,
+          };
+        }),
+      );
+
+      let meetingLog = "";
+      const meetingLogAsset = report.assets.find((asset) => asset.name.startsWith("meeting-log-"));
+      if (meetingLogAsset) {
+        try {
+          const blob = await withTimeout(fetchAssetBlob(meetingLogAsset), 18000);
+          meetingLog = new TextDecoder("utf-8").decode(await blob.arrayBuffer());
+        } catch (error) {
+          appendLog("reporting", `회의 로그 불러오기 실패(부록 생략): ${describeError(error, meetingLogAsset.name)}`);
+        }
+      } else {
+        const turns = meetingTurns
+          .filter((turn) => turn.threadId === report.threadId && turn.createdAt <= report.createdAt)
+          .sort((left, right) => left.createdAt.localeCompare(right.createdAt));
+        meetingLog = turns
+          .map((turn) => `- [${formatTime(turn.createdAt)}] ${turn.speakerName}: ${turn.text}`)
+          .join("\n\n");
+      }
+
+      // UX-TAN images from the same thread up to the report, plus any images attached to it.
+      const imageAssets = [
+        ...report.assets,
+        ...mergedMessages
+          .filter((message) => message.threadId === report.threadId)
+          .flatMap((message) => message.attachments)
+          .filter((asset) => asset.name.startsWith("ux-generated-") && asset.uploadedAt <= report.createdAt),
+      ]
+        .filter((asset) => asset.mimeType.startsWith("image/"))
+        .filter((asset, index, all) => all.findIndex((item) => item.id === asset.id) === index)
+        .slice(0, MAX_REPORT_EXPORT_IMAGES);
+      const images = (
+        await Promise.all(
+          imageAssets.map(async (asset) => {
+            try {
+              return await toExportImage(await withTimeout(fetchAssetBlob(asset), 18000), asset.name);
+            } catch (error) {
+              appendLog("reporting", `이미지 포함 실패: ${describeError(error, asset.name)}`);
+              return null;
+            }
+          }),
+        )
+      ).filter((item): item is ExportImage => !!item);
+
+      const input = {
+        title: report.title,
+        threadTitle: threads.find((thread) => thread.id === report.threadId)?.title || report.threadId,
+        createdAt: report.createdAt,
+        body: report.body,
+        participants,
+        meetingLog,
+        images,
+      };
+      const baseName = `ceo-report-${report.createdAt.slice(0, 10)}-${report.id.slice(0, 8)}`;
+
+      if (format === "pdf") {
+        const frame = document.createElement("iframe");
+        frame.style.position = "fixed";
+        frame.style.width = "0";
+        frame.style.height = "0";
+        frame.style.border = "0";
+        frame.srcdoc = buildReportHtml(input);
+        await new Promise<void>((resolve) => {
+          frame.onload = () => resolve();
+          document.body.appendChild(frame);
+        });
+        // Inlined images may still be decoding after load; printing then leaves them blank.
+        await Promise.all(
+          Array.from(frame.contentDocument?.images || []).map((image) => image.decode().catch(() => undefined)),
+        );
+        frame.contentWindow?.focus();
+        frame.contentWindow?.print();
+        window.setTimeout(() => frame.remove(), 60000);
+      } else {
+        const blob =
+          format === "docx"
+            ? buildReportDocx(input)
+            : new Blob([buildReportHtml(input)], { type: "text/html; charset=utf-8" });
+        const objectUrl = URL.createObjectURL(blob);
+        const link = document.createElement("a");
+        link.href = objectUrl;
+        link.download = `${baseName}.${format}`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        window.setTimeout(() => URL.revokeObjectURL(objectUrl), 3000);
+      }
+
+      appendLog(
+        "reporting",
+        `보고서 ${REPORT_EXPORT_FORMAT_LABEL[format]} 내보내기: ${report.title} (참여 ${participants.length}명, 이미지 ${images.length}장${meetingLog ? ", 회의 로그 부록" : ""})`,
+        report.threadId,
+      );
+    } catch (error) {
+      appendLog(
+        "reporting",
+        `보고서 ${REPORT_EXPORT_FORMAT_LABEL[format]} 내보내기 실패: ${describeError(error, report.title)}`,
+        report.threadId,
+      );
+    } finally {
+      setExportingReportId("");
+    }
+  };
+
   const openAttachmentPreview = async (asset: FileAsset) => {
     setPreview({
       open: true,
@@ -2690,61 +5697,429 @@ function App() {
     });
   };
 
-  const closeDetailModal = () => {
-    setDetailModal({
-      open: false,
-      title: "",
-      subtitle: "",
-      body: "",
-      markdown: false,
-      attachments: [],
-    });
-  };
+  const openDiffModal = (
+    title: string,
+    left: { label: string; text: string },
+    right: { label: string; text: string },
+  ) => {
+    const rows = diffLines(left.text, right.text);
+    const changed = rows.filter((row) => row.kind !== "same").length;
+    setDetailModal({
+      open: true,
+      title,
+      subtitle: `${left.label} → ${right.label} · 변경 ${changed}줄`,
+      body: "",
+      markdown: false,
+      attachments: [],
+      diff: { leftLabel: left.label, rightLabel: right.label, rows },
+    });
+  };
+
+  const closeDetailModal = () => {
+    setDetailModal({
+      open: false,
+      title: "",
+      subtitle: "",
+      body: "",
+      markdown: false,
+      attachments: [],
+    });
+  };
+
+  const executeWorkflow = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    await startWorkflow(taskInput);
+  };
+
+  useEffect(() => {
+    if (devMockEnabled) {
+      setUser(createMockUser());
+      setAuthLoading(false);
+      return;
+    }
+
+    const unsubscribe = onAuthStateChanged(auth, (nextUser) => {
+      setUser(nextUser);
+
+      if (!nextUser) {
+        setCloudReports([]);
+        setCloudMessages([]);
+      }
+
+      setAuthLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [devMockEnabled]);
+
+  useEffect(() => {
+    if (!user || devMockEnabled) {
+      setUsageQuota({
+        usedReports: 0,
+        limit: FREE_REPORT_LIMIT,
+        exhausted: false,
+      });
+      return;
+    }
+
+    return onSnapshot(
+      doc(db, "users", user.uid, "meta", "usage"),
+      (snapshot) => {
+        const data = snapshot.data() as Record<string, unknown> | undefined;
+        const usedReports = Math.max(0, Number(data?.usedReports || 0));
+        const limit = Math.max(1, Number(data?.limit || FREE_REPORT_LIMIT));
+
+        setUsageQuota({
+          usedReports,
+          limit,
+          exhausted: usedReports >= limit,
+        });
+      },
+      () => {
+        setUsageQuota({
+          usedReports: 0,
+          limit: FREE_REPORT_LIMIT,
+          exhausted: false,
+        });
+      },
+    );
+  }, [devMockEnabled, user]);
+
+  useEffect(() => {
+    if (!user || devMockEnabled) {
+      setUsageTotals([]);
+      return;
+    }
+
+    const totalsQuery = query(
+      collection(db, "users", user.uid, "usageTotals"),
+      orderBy("updatedAt", "desc"),
+      limit(500),
+    );
+
+    return onSnapshot(
+      totalsQuery,
+      (snapshot) => {
+        const totals: UsageTotal[] = snapshot.docs.map((documentSnapshot) => {
+          const data = documentSnapshot.data() as Record<string, unknown>;
+
+          return {
+            key: documentSnapshot.id,
+            scope: data.scope === "member" || data.scope === "run" ? data.scope : "thread",
+            threadId: typeof data.threadId === "string" ? data.threadId : "",
+            memberId: typeof data.memberId === "string" ? data.memberId : "",
+            runId: typeof data.runId === "string" ? data.runId : "",
+            calls: Math.max(0, Number(data.calls || 0)),
+            inputTokens: Math.max(0, Number(data.inputTokens || 0)),
+            outputTokens: Math.max(0, Number(data.outputTokens || 0)),
+            costUsd: Math.max(0, Number(data.costUsd || 0)),
+            unpricedCalls: Math.max(0, Number(data.unpricedCalls || 0)),
+          };
+        });
+
+        setUsageTotals(totals);
+      },
+      () => setUsageTotals([]),
+    );
+  }, [devMockEnabled, user]);
+
+  useEffect(() => {
+    if (!user || devMockEnabled) {
+      return;
+    }
+
+    const runQuery = query(
+      collection(db, "users", user.uid, "workflowRuns"),
+      orderBy("startedAt", "desc"),
+      limit(50),
+    );
+
+    return onSnapshot(runQuery, (snapshot) => {
+      setWorkflowRuns(
+        snapshot.docs.map((documentSnapshot) =>
+          parseWorkflowRun(
+            documentSnapshot.id,
+            documentSnapshot.data() as Record<string, unknown>,
+          ),
+        ),
+      );
+    });
+  }, [devMockEnabled, user]);
+
+  useEffect(() => {
+    if (!user || devMockEnabled) {
+      return;
+    }
+
+    return onSnapshot(doc(db, "users", user.uid, "meta", "roster"), (snapshot) => {
+      const members = parseCouncilMembers(snapshot.data()?.members);
+      if (members) {
+        applyRosterMembers(members);
+      }
+    });
+  }, [applyRosterMembers, devMockEnabled, user]);
+
+  useEffect(() => {
+    if (!user || devMockEnabled) {
+      return;
+    }
+
+    return onSnapshot(doc(db, "users", user.uid, "meta", "officeLayout"), (snapshot) => {
+      const parsed = parseOfficeLayout(snapshot.data()?.layout);
+      if (parsed) {
+        applyOfficeLayout(parsed.layout);
+      }
+    });
+  }, [applyOfficeLayout, devMockEnabled, user]);
+
+  useEffect(() => {
+    if (!user || devMockEnabled) {
+      return;
+    }
+
+    return onSnapshot(
+      query(collection(db, "users", user.uid, "personaVersions"), orderBy("createdAt", "desc")),
+      (snapshot) => {
+        const versions = snapshot.docs
+          .map((documentSnapshot) => parsePersonaVersion(documentSnapshot.data()))
+          .filter((item): item is PersonaVersion => !!item);
+        if (versions.length > 0) {
+          setPersonaHistory(versions);
+        }
+      },
+    );
+  }, [devMockEnabled, user]);
+
+  useEffect(() => {
+    if (!user || devMockEnabled) {
+      return;
+    }
+
+    const byMember = new Map<string, AgentMemory[]>();
+    const unsubscribes = memoryMemberIds.split("\n").filter(Boolean).map((memberId) =>
+      onSnapshot(
+        query(
+          collection(db, "users", user.uid, "agentMemories"),
+          where("memberId", "==", memberId),
+          orderBy("pinned", "desc"),
+          orderBy("createdAt", "desc"),
+          limit(MEMORY_LIMIT_PER_MEMBER),
+        ),
+        (snapshot) => {
+          byMember.set(
+            memberId,
+            snapshot.docs
+              .map((documentSnapshot) => parseAgentMemory(documentSnapshot.id, documentSnapshot.data()))
+              .filter((item): item is AgentMemory => !!item),
+          );
+          setAgentMemories(Array.from(byMember.values()).flat());
+        },
+      ),
+    );
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [devMockEnabled, memoryMemberIds, user]);
+
+  useEffect(() => {
+    if (!user || devMockEnabled) {
+      // Pinned memories are always kept; the cap only drops the oldest unpinned ones.
+      const pinned = agentMemories.filter((memory) => memory.pinned);
+      const recent = agentMemories.filter((memory) => !memory.pinned).slice(0, Math.max(0, 600 - pinned.length));
+      localStorage.setItem(LOCAL_KEY_AGENT_MEMORIES, JSON.stringify([...pinned, ...recent]));
+    }
+  }, [agentMemories, devMockEnabled, user]);
+
+  useEffect(() => {
+    actionPlansRef.current = actionPlans;
+  }, [actionPlans]);
+
+  useEffect(() => {
+    threadsRef.current = threads;
+  }, [threads]);
+
+  useEffect(() => {
+    if (!user || devMockEnabled) {
+      return;
+    }
+
+    return subscribeThreadHistory(
+      user.uid,
+      "meetingTurns",
+      activeThread.id,
+      "createdAt",
+      meetingTurnLimit,
+      parseMeetingTurn,
+      setMeetingTurns,
+    );
+  }, [activeThread.id, devMockEnabled, meetingTurnLimit, user]);
+
+  useEffect(() => {
+    if (!user || devMockEnabled) {
+      return;
+    }
 
-  const executeWorkflow = async (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault();
-    await startWorkflow(taskInput);
-  };
+    return subscribeThreadHistory(
+      user.uid,
+      "actionPlans",
+      activeThread.id,
+      "updatedAt",
+      actionPlanLimit,
+      parseActionPlan,
+      setActionPlans,
+    );
+  }, [actionPlanLimit, activeThread.id, devMockEnabled, user]);
 
   useEffect(() => {
-    if (devMockEnabled) {
-      setUser(createMockUser());
-      setAuthLoading(false);
+    if (!user || devMockEnabled) {
       return;
     }
 
-    const unsubscribe = onAuthStateChanged(auth, (nextUser) => {
-      setUser(nextUser);
+    return subscribeThreadHistory(
+      user.uid,
+      "governanceAlerts",
+      activeThread.id,
+      "createdAt",
+      governanceAlertLimit,
+      parseGovernanceAlert,
+      setGovernanceAlerts,
+    );
+  }, [activeThread.id, devMockEnabled, governanceAlertLimit, user]);
 
-      if (!nextUser) {
-        setCloudReports([]);
-        setCloudMessages([]);
-      }
+  useEffect(() => {
+    if (!user || devMockEnabled) {
+      return;
+    }
 
-      setAuthLoading(false);
-    });
+    return subscribeThreadHistory(
+      user.uid,
+      "activityLogs",
+      activeThread.id,
+      "createdAt",
+      activityLogLimit,
+      parseActivityLog,
+      setActivityLogs,
+    );
+  }, [activeThread.id, activityLogLimit, devMockEnabled, user]);
 
-    return () => unsubscribe();
-  }, [devMockEnabled]);
+  // Only the active thread's passages are retrieved, so only those are kept live.
+  useEffect(() => {
+    if (!user || devMockEnabled) {
+      setThreadPassagesTruncated(false);
+      return;
+    }
+
+    return onSnapshot(
+      query(
+        collection(db, "users", user.uid, "threadPassages"),
+        where("threadId", "==", activeThreadId),
+        orderBy("createdAt", "desc"),
+        // One extra document tells whether older passages fell outside the searched window.
+        limit(THREAD_PASSAGE_LIMIT + 1),
+      ),
+      (snapshot) => {
+        setThreadPassagesTruncated(snapshot.size > THREAD_PASSAGE_LIMIT);
+        setThreadPassages(
+          snapshot.docs
+            .slice(0, THREAD_PASSAGE_LIMIT)
+            .map((documentSnapshot) => parseThreadPassage(documentSnapshot.id, documentSnapshot.data()))
+            .filter((item): item is ThreadPassage => !!item),
+        );
+      },
+    );
+  }, [activeThreadId, devMockEnabled, user]);
 
   useEffect(() => {
     if (!user || devMockEnabled) {
-      setUsageQuota({
-        usedReports: 0,
-        limit: FREE_REPORT_LIMIT,
-        exhausted: false,
-      });
+      localStorage.setItem(LOCAL_KEY_THREAD_PASSAGES, JSON.stringify(threadPassages));
+    }
+  }, [devMockEnabled, threadPassages, user]);
+
+  useEffect(() => {
+    localStorage.setItem(LOCAL_KEY_THREAD_SUMMARIES, JSON.stringify(threadSummaries));
+  }, [threadSummaries]);
+
+  useEffect(() => {
+    localStorage.setItem(LOCAL_KEY_PERSONA_HISTORY, JSON.stringify(personaHistory.slice(0, 400)));
+  }, [personaHistory]);
+
+  // Replays server-run progress into the same logs/meetings/plans/governance views a browser run fills.
+  useEffect(() => {
+    if (!user || devMockEnabled || !serverRunIdsKey) {
       return;
     }
 
-    void refreshUsageQuota(user).catch(() => {
-      setUsageQuota({
-        usedReports: 0,
-        limit: FREE_REPORT_LIMIT,
-        exhausted: false,
-      });
-    });
-  }, [devMockEnabled, refreshUsageQuota, user]);
+    const threadId = activeThread.id;
+    const seen = serverRunEventIdsRef.current;
+    const unsubscribers = serverRunIdsKey.split(",").map((runId) =>
+      onSnapshot(
+        query(
+          collection(db, "users", user.uid, "workflowRuns", runId, "events"),
+          orderBy("createdAt", "asc"),
+        ),
+        (snapshot) => {
+          snapshot.docs.forEach((documentSnapshot) => {
+            if (seen.has(documentSnapshot.id)) {
+              return;
+            }
+            seen.add(documentSnapshot.id);
+
+            const data = documentSnapshot.data() as Record<string, unknown>;
+            const text = (key: string) => (typeof data[key] === "string" ? (data[key] as string) : "");
+            const origin: HistoryOrigin = {
+              id: `${runId}-${documentSnapshot.id}`,
+              createdAt: parseTimestamp(data.createdAt),
+            };
+
+            // "plan" events are not replayed: the run merges its plans into actionPlans itself.
+            if (data.kind === "log") {
+              const logPhase = WORKFLOW_PHASES.includes(data.phase as WorkflowPhase)
+                ? (data.phase as WorkflowPhase)
+                : "idle";
+              appendLog(logPhase, text("message"), threadId, origin);
+            } else if (data.kind === "meeting") {
+              appendMeetingTurn({
+                threadId,
+                sessionId: text("sessionId") || runId,
+                room: data.room === "brainstorming" ? "brainstorming" : "collaboration",
+                speakerId: text("speakerId"),
+                speakerName: text("speakerName") || text("speakerId"),
+                text: text("text"),
+                source: "workflow",
+                persona: parsePersonaStamp(data.persona),
+                origin,
+              });
+            } else if (data.kind === "governance") {
+              addGovernanceAlert(
+                data.source === "HR-TAN" ? "HR-TAN" : "LEGAL-TAN",
+                text("message"),
+                data.status === "warning" ? "warning" : "ok",
+                threadId,
+                origin,
+              );
+            } else if (data.kind === "summary") {
+              const summary = parseThreadSummary({
+                ...(data.summary as Record<string, unknown>),
+                threadId,
+              });
+              if (summary) {
+                threadSummariesRef.current = { ...threadSummariesRef.current, [threadId]: summary };
+                setThreadSummaries(threadSummariesRef.current);
+              }
+            }
+          });
+        },
+      ),
+    );
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [
+    activeThread.id,
+    addGovernanceAlert,
+    appendLog,
+    appendMeetingTurn,
+    devMockEnabled,
+    serverRunIdsKey,
+    user,
+  ]);
 
   useEffect(() => {
     const timer = setInterval(() => {
@@ -2774,8 +6149,102 @@ function App() {
   }, [taskInput]);
 
   useEffect(() => {
-    localStorage.setItem(LOCAL_KEY_THREADS, JSON.stringify(threads));
-  }, [threads]);
+    // Synced threads never reach localStorage, even in the render right after sign-out.
+    if (!user || devMockEnabled) {
+      localStorage.setItem(
+        LOCAL_KEY_THREADS,
+        JSON.stringify(threads.filter((thread) => thread.origin === "local")),
+      );
+    }
+  }, [devMockEnabled, threads, user]);
+
+  // A search hit may belong to another thread whose items are still loading, so this retries as
+  // the visible lists change and scrolls only once per hit. Meeting turns are paged, so an older hit
+  // pages in the next history page until it is rendered or the thread has no older turns.
+  useEffect(() => {
+    if (!focusedItemId || scrolledFocusRef.current === focusedItemId) {
+      return;
+    }
+    const element = document.getElementById(`item-${focusedItemId}`);
+    if (element) {
+      scrolledFocusRef.current = focusedItemId;
+      element.scrollIntoView({ block: "center", behavior: "smooth" });
+      return;
+    }
+    if (rightTab === "meeting" && visibleMeetingTurns.length > meetingTurnLimit) {
+      const key = `${activeThread.id}:meetingTurns`;
+      setHistoryPages((previous) => ({ ...previous, [key]: (previous[key] || 1) + 1 }));
+    }
+  }, [
+    activeThread.id,
+    focusedItemId,
+    meetingTurnLimit,
+    rightTab,
+    visibleMeetingTurns,
+    visibleMessages,
+    visibleReports,
+  ]);
+
+  useEffect(() => {
+    if (!user || devMockEnabled) {
+      return;
+    }
+
+    return onSnapshot(
+      query(collection(db, "users", user.uid, "threads"), orderBy("createdAt", "desc")),
+      (snapshot) => {
+        // An empty collection means migration has not landed yet; keep what is on screen.
+        if (snapshot.empty) {
+          return;
+        }
+        setThreads(
+          snapshot.docs.map((documentSnapshot) =>
+            parseThreadDocument(documentSnapshot.id, documentSnapshot.data()),
+          ),
+        );
+      },
+      (error) => {
+        console.error("Failed to sync threads:", error);
+      },
+    );
+  }, [devMockEnabled, user]);
+
+  // First sign-in in this browser copies its signed-out ("local") threads to Firestore. A thread that
+  // already exists in the cloud (for example thread-main from another device) is left untouched.
+  useEffect(() => {
+    if (!user || devMockEnabled) {
+      return;
+    }
+
+    const uid = user.uid;
+    let migrated: string[] = [];
+    try {
+      const raw = JSON.parse(localStorage.getItem(LOCAL_KEY_THREAD_MIGRATION) || "[]") as unknown;
+      migrated = Array.isArray(raw) ? raw.map((item) => String(item)) : [];
+    } catch {
+      migrated = [];
+    }
+    if (migrated.includes(uid)) {
+      return;
+    }
+
+    void Promise.all(
+      loadThreads().map((thread) =>
+        runTransaction(db, async (transaction) => {
+          const threadRef = doc(db, "users", uid, "threads", thread.id);
+          if (!(await transaction.get(threadRef)).exists()) {
+            transaction.set(threadRef, toThreadDocument(thread));
+          }
+        }),
+      ),
+    )
+      .then(() => {
+        localStorage.setItem(LOCAL_KEY_THREAD_MIGRATION, JSON.stringify([...migrated, uid]));
+      })
+      .catch((error: unknown) => {
+        console.error("Failed to migrate local threads:", error);
+      });
+  }, [devMockEnabled, user]);
 
   useEffect(() => {
     if (!threads.some((item) => item.id === activeThreadId) && threads[0]) {
@@ -2807,6 +6276,10 @@ function App() {
     localStorage.setItem(LOCAL_KEY_AMBIENT_MOTION, ambientMotionEnabled ? "1" : "0");
   }, [ambientMotionEnabled]);
 
+  useEffect(() => {
+    localStorage.setItem(LOCAL_KEY_WORKFLOW_EXECUTOR, workflowExecutor);
+  }, [workflowExecutor]);
+
   useEffect(() => {
     if (!user) {
       return;
@@ -2862,6 +6335,11 @@ function App() {
           assets,
           createdAt: parseTimestamp(data.createdAt),
           source: "cloud",
+          personas: Array.isArray(data.personas)
+            ? data.personas
+                .map(parsePersonaStamp)
+                .filter((item): item is PersonaStamp => !!item)
+            : [],
         };
       });
 
@@ -2912,6 +6390,7 @@ function App() {
           ],
           createdAt: parseTimestamp(data.createdAt),
           source: "cloud",
+          persona: parsePersonaStamp(data.persona),
         };
       });
 
@@ -2925,14 +6404,13 @@ function App() {
         let changed = false;
         const next: Record<string, AgentState> = {};
 
-        for (const member of COUNCIL_MEMBERS) {
-          const current = previous[member.id];
+        for (const [memberId, current] of Object.entries(previous)) {
           const deltaX = current.targetX - current.x;
           const deltaY = current.targetY - current.y;
           const distance = Math.sqrt(deltaX * deltaX + deltaY * deltaY);
 
           if (distance <= 0.08) {
-            next[member.id] = {
+            next[memberId] = {
               ...current,
               x: current.targetX,
               y: current.targetY,
@@ -2943,7 +6421,7 @@ function App() {
           changed = true;
           const step = Math.min(distance, 0.7);
 
-          next[member.id] = {
+          next[memberId] = {
             ...current,
             x: current.x + (deltaX / distance) * step,
             y: current.y + (deltaY / distance) * step,
@@ -2963,7 +6441,7 @@ function App() {
     }
 
     const timer = window.setInterval(() => {
-      const nonCeo = COUNCIL_MEMBERS.filter((member) => member.id !== "CEO-HOBBY");
+      const nonCeo = councilMembers.filter((member) => member.id !== "CEO-HOBBY");
       const shuffled = [...nonCeo].sort(() => Math.random() - 0.5);
 
       const brainstormingCount = 3 + Math.floor(Math.random() * 3);
@@ -3011,7 +6489,16 @@ function App() {
     }, 10000);
 
     return () => window.clearInterval(timer);
-  }, [ambientMotionEnabled, running, user, appendLog]);
+  }, [
+    ambientMotionEnabled,
+    appendLog,
+    councilMembers,
+    getMember,
+    moveMembersToRoom,
+    running,
+    setMembersToDesk,
+    user,
+  ]);
 
   useEffect(() => {
     if (!user || devMockEnabled) {
@@ -3106,6 +6593,10 @@ function App() {
       return;
     }
     await signOut(auth);
+    // The next account to sign in here must not inherit, or migrate, this account's threads.
+    localStorage.removeItem(LOCAL_KEY_THREADS);
+    setThreads([createDefaultThread()]);
+    setActiveThreadId("thread-main");
   };
 
   if (authLoading) {
@@ -3236,10 +6727,51 @@ function App() {
               <button type="button" className="secondary-button" onClick={createThread}>
                 New Thread
               </button>
+              <form className="thread-search" onSubmit={(event) => void searchThreads(event)}>
+                <input
+                  value={threadSearch}
+                  placeholder="제목·채팅·회의·보고서 검색"
+                  onChange={(event) => setThreadSearch(event.target.value)}
+                />
+                <button type="submit" disabled={searchingThreads}>
+                  {searchingThreads ? "검색 중..." : "검색"}
+                </button>
+              </form>
+              {threadSearchHits && (
+                <div className="thread-list">
+                  <div className="goal-actions">
+                    <span className="dimmed">검색 결과 {threadSearchHits.length}건</span>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setThreadSearchHits(null);
+                        setFocusedItemId("");
+                      }}
+                    >
+                      닫기
+                    </button>
+                  </div>
+                  {threadSearchHits.length === 0 && <p className="dimmed">일치하는 기록이 없습니다.</p>}
+                  {threadSearchHits.map((hit) => (
+                    <button
+                      key={hit.key}
+                      type="button"
+                      className={`thread-item ${hit.itemId === focusedItemId ? "active" : ""}`}
+                      onClick={() => openSearchHit(hit)}
+                    >
+                      <strong>{hit.label}</strong>
+                      {hit.snippet && <p>{hit.snippet}</p>}
+                      <span>{formatTime(hit.createdAt)}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
               <div className="thread-list">
-                {[...threads]
+                {threads
+                  .filter((thread) => thread.archived === showArchivedThreads)
                   .sort(
                     (a, b) =>
+                      Number(b.pinned) - Number(a.pinned) ||
                       new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime(),
                   )
                   .map((thread) => (
@@ -3249,11 +6781,74 @@ function App() {
                       className={`thread-item ${thread.id === activeThread.id ? "active" : ""}`}
                       onClick={() => setActiveThreadId(thread.id)}
                     >
-                      <strong>{thread.title}</strong>
+                      <strong>
+                        {thread.pinned ? "고정 · " : ""}
+                        {thread.title}
+                      </strong>
                       <span>{formatTime(thread.updatedAt)}</span>
                     </button>
                   ))}
               </div>
+              <button
+                type="button"
+                className="secondary-button"
+                onClick={() => setShowArchivedThreads((previous) => !previous)}
+              >
+                {showArchivedThreads
+                  ? "진행 중 스레드 보기"
+                  : `보관된 스레드 보기 (${threads.filter((thread) => thread.archived).length})`}
+              </button>
+              {renamingThreadId === activeThread.id ? (
+                <form
+                  className="thread-search"
+                  onSubmit={(event) => {
+                    event.preventDefault();
+                    renameThread(activeThread.id);
+                  }}
+                >
+                  <input
+                    value={threadTitleDraft}
+                    autoFocus
+                    onChange={(event) => setThreadTitleDraft(event.target.value)}
+                  />
+                  <button type="submit">저장</button>
+                  <button type="button" onClick={() => setRenamingThreadId("")}>
+                    취소
+                  </button>
+                </form>
+              ) : (
+                <div className="goal-actions">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setThreadTitleDraft(activeThread.title);
+                      setRenamingThreadId(activeThread.id);
+                    }}
+                  >
+                    이름 변경
+                  </button>
+                  <button
+                    type="button"
+                    disabled={activeThread.archived}
+                    onClick={() => updateThread(activeThread.id, { pinned: !activeThread.pinned })}
+                  >
+                    {activeThread.pinned ? "고정 해제" : "고정"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setThreadArchived(activeThread, !activeThread.archived)}
+                  >
+                    {activeThread.archived ? "보관 해제" : "보관"}
+                  </button>
+                  <button
+                    type="button"
+                    disabled={running || deletingThreadId === activeThread.id}
+                    onClick={() => void deleteThread(activeThread)}
+                  >
+                    {deletingThreadId === activeThread.id ? "삭제 중..." : "삭제"}
+                  </button>
+                </div>
+              )}
               <div className="status-line">
                 <span>메시지: {visibleMessages.length}</span>
                 <span>회의로그: {visibleMeetingTurns.length}</span>
@@ -3266,6 +6861,9 @@ function App() {
                 <span>감시알림: {visibleGovernanceAlerts.length}</span>
                 <span>이벤트: {visibleActivityLogs.length}</span>
               </div>
+              <div className="status-line">
+                <span>추정비용: {formatUsd(activeThreadCostUsd)}</span>
+              </div>
             </div>
           )}
 
@@ -3311,19 +6909,98 @@ function App() {
 
                 <div className="status-line">
                   <span>
-                    현재 단계: <strong>{phase}</strong>
+                    현재 단계: <strong>{activeServerRun ? `${activeServerRun.phase} (서버)` : phase}</strong>
                   </span>
                   <span>
                     활성 인원: <strong>{activeMembers.length}</strong>
                   </span>
                 </div>
 
-                <button type="submit" className="primary-button" disabled={running}>
-                  {running ? "회의/실행 진행 중..." : "지시 실행"}
+                <button
+                  type="submit"
+                  className="primary-button"
+                  disabled={running || !!activeServerRun}
+                >
+                  {running || activeServerRun ? "회의/실행 진행 중..." : "지시 실행"}
                 </button>
               </form>
+
+              {(running || activeServerRun) && (
+                <div className="workflow-controls">
+                  <button
+                    type="button"
+                    className="secondary-button"
+                    disabled={!!stoppingState || (activeServerRun?.phase ?? phase) === "reporting"}
+                    onClick={() => interruptWorkflow("paused")}
+                  >
+                    {stoppingState === "paused" ? "일시정지 중..." : "일시정지"}
+                  </button>
+                  <button
+                    type="button"
+                    className="secondary-button danger"
+                    disabled={!!stoppingState}
+                    onClick={() => interruptWorkflow("cancelled")}
+                  >
+                    {stoppingState === "cancelled" ? "취소 중..." : "실행 취소"}
+                  </button>
+                </div>
+              )}
+
               {workflowError && <p className="error-text">{workflowError}</p>}
 
+              <div className="workflow-runs">
+                <h3>실행 이력</h3>
+                {visibleWorkflowRuns.length === 0 && (
+                  <p className="dimmed">이 스레드의 워크플로우 실행 기록이 없습니다.</p>
+                )}
+                {visibleWorkflowRuns.slice(0, 8).map((run) => {
+                  // A run is cut off once its lease lapses: a closed or reloaded tab stops the browser
+                  // heartbeat, a crashed or timed-out runner stops the server one. A run of another
+                  // live tab keeps a fresh lease and is not offered for resume.
+                  const interrupted =
+                    run.executor === "browser" && run.owner === BROWSER_TAB_ID
+                      ? run.status === "running" && !running
+                      : isRunLeaseExpired(run, currentClock);
+                  const resumable = interrupted || run.status === "paused" || run.status === "failed";
+
+                  return (
+                    <article key={run.runId} className={`workflow-run ${interrupted ? "interrupted" : run.status}`}>
+                      <header>
+                        <strong>{shortenText(run.task, 48)}</strong>
+                        <span>{interrupted ? "중단됨" : WORKFLOW_RUN_STATUS_LABEL[run.status]}</span>
+                      </header>
+                      <p>
+                        {formatTime(run.startedAt)} 시작 · {run.executor === "server" ? "서버" : "브라우저"} · 단계 {run.phase}
+                        {run.brainstorm ? " · 브레인스토밍" : ""}
+                        {run.managementPlan ? " · PO/PM" : ""}
+                        {run.collaborationSession ? " · 협업" : ""}
+                        {run.autonomousResult ? " · 자기개선" : ""}
+                        {run.reportTitle ? ` · 보고: ${run.reportTitle}` : ""}
+                        {run.error ? ` · ${shortenText(run.error, 80)}` : ""}
+                      </p>
+                      {resumable && !running && !activeServerRun && (
+                        <div className="workflow-controls">
+                          <button
+                            type="button"
+                            className="primary-button"
+                            onClick={() => void resumeWorkflow(run)}
+                          >
+                            마지막 체크포인트부터 재개
+                          </button>
+                          <button
+                            type="button"
+                            className="secondary-button"
+                            onClick={() => discardWorkflowRun(run)}
+                          >
+                            폐기
+                          </button>
+                        </div>
+                      )}
+                    </article>
+                  );
+                })}
+              </div>
+
               <div className="ux-studio">
                 <h3>UX-TAN Image Studio</h3>
                 <p className="dimmed">
@@ -3415,6 +7092,9 @@ function App() {
           {leftTab === "mission" && (
             <div className="mission-panel">
               <h2>회사 비전 / 우선순위</h2>
+              <p className="dimmed">
+                비전과 목표 순서(P1이 최우선)는 모든 TAN 호출에 공통 컨텍스트로 전달됩니다.
+              </p>
               <label>비전</label>
               <textarea
                 value={activeThread.vision}
@@ -3423,40 +7103,547 @@ function App() {
                 }
                 rows={4}
               />
+              <div className="goal-board-head">
+                <span>
+                  달성 {activeThread.goals.filter((goal) => goal.status === "achieved").length} /{" "}
+                  {activeThread.goals.filter((goal) => goal.status !== "dropped").length}
+                </span>
+                <button type="button" className="secondary-button" onClick={() => addGoal(activeThread.id)}>
+                  목표 추가
+                </button>
+              </div>
               <div className="goal-list">
-                {activeThread.goals.map((goal, index) => (
-                  <article key={goal.id} className="goal-item">
-                    <header>
-                      <strong>P{index + 1}. {goal.title}</strong>
-                    </header>
-                    <p>{goal.description}</p>
-                    <div className="goal-actions">
+                {activeThread.goals.length === 0 && (
+                  <p className="dimmed">등록된 목표가 없습니다. 목표를 추가해 우선순위를 정하세요.</p>
+                )}
+                {activeThread.goals.map((goal) => {
+                  const progress = goalProgress(goal);
+                  const editing = editingGoalId === goal.id;
+                  const linkedPlans = visibleActionPlans.filter((plan) =>
+                    goal.linkedPlanIds.includes(plan.id),
+                  );
+                  const linkedReports = visibleReports.filter((report) =>
+                    goal.linkedReportIds.includes(report.id),
+                  );
+
+                  return (
+                    <article key={goal.id} className={`goal-item ${goal.status}`}>
+                      <header>
+                        <strong>
+                          {goal.priority !== null && `P${goal.priority}. `}
+                          {goal.title || "(제목 없음)"}
+                        </strong>
+                        <select
+                          value={goal.status}
+                          onChange={(event) =>
+                            updateGoal(activeThread.id, goal.id, {
+                              status: event.target.value as GoalStatus,
+                            })
+                          }
+                        >
+                          {(Object.keys(GOAL_STATUS_LABEL) as GoalStatus[]).map((status) => (
+                            <option key={status} value={status}>
+                              {GOAL_STATUS_LABEL[status]}
+                            </option>
+                          ))}
+                        </select>
+                      </header>
+                      {editing ? (
+                        <div className="goal-editor">
+                          <input
+                            value={goal.title}
+                            placeholder="목표"
+                            onChange={(event) =>
+                              updateGoal(activeThread.id, goal.id, { title: event.target.value })
+                            }
+                          />
+                          <textarea
+                            value={goal.description}
+                            placeholder="설명"
+                            rows={2}
+                            onChange={(event) =>
+                              updateGoal(activeThread.id, goal.id, { description: event.target.value })
+                            }
+                          />
+                          <input
+                            value={goal.metric}
+                            placeholder="측정 지표 (예: 주간 보고서 수)"
+                            onChange={(event) =>
+                              updateGoal(activeThread.id, goal.id, { metric: event.target.value })
+                            }
+                          />
+                          <div className="goal-metric-inputs">
+                            <input
+                              type="number"
+                              value={goal.currentValue ?? ""}
+                              placeholder="현재값"
+                              onChange={(event) =>
+                                updateGoal(activeThread.id, goal.id, {
+                                  currentValue:
+                                    event.target.value === "" ? null : Number(event.target.value),
+                                })
+                              }
+                            />
+                            <input
+                              type="number"
+                              value={goal.targetValue ?? ""}
+                              placeholder="목표값"
+                              onChange={(event) =>
+                                updateGoal(activeThread.id, goal.id, {
+                                  targetValue:
+                                    event.target.value === "" ? null : Number(event.target.value),
+                                })
+                              }
+                            />
+                          </div>
+                        </div>
+                      ) : (
+                        <>
+                          <p>{goal.description}</p>
+                          {goal.metric && (
+                            <p>
+                              {goal.metric}: {goal.currentValue ?? "-"} / {goal.targetValue ?? "-"}
+                            </p>
+                          )}
+                        </>
+                      )}
+                      {progress !== null && (
+                        <div className="goal-progress">
+                          <span style={{ width: `${progress}%` }} />
+                        </div>
+                      )}
+                      {(linkedPlans.length > 0 || linkedReports.length > 0) && (
+                        <div className="goal-links">
+                          {linkedPlans.map((plan) => (
+                            <span key={plan.id}>플랜 · {plan.memberId}</span>
+                          ))}
+                          {linkedReports.map((report) => (
+                            <span key={report.id}>보고 · {shortenText(report.title, 28)}</span>
+                          ))}
+                        </div>
+                      )}
+                      {editing && (
+                        <details className="goal-link-picker">
+                          <summary>액션플랜/보고서 연결</summary>
+                          {visibleActionPlans.length === 0 && visibleReports.length === 0 && (
+                            <p className="dimmed">연결할 액션플랜이나 보고서가 없습니다.</p>
+                          )}
+                          {visibleActionPlans.map((plan) => (
+                            <label key={plan.id} className="checkbox-row">
+                              <input
+                                type="checkbox"
+                                checked={goal.linkedPlanIds.includes(plan.id)}
+                                onChange={() =>
+                                  toggleGoalLink(activeThread.id, goal.id, "linkedPlanIds", plan.id)
+                                }
+                              />
+                              플랜 · {plan.memberId}: {shortenText(plan.plan, 40)}
+                            </label>
+                          ))}
+                          {visibleReports.map((report) => (
+                            <label key={report.id} className="checkbox-row">
+                              <input
+                                type="checkbox"
+                                checked={goal.linkedReportIds.includes(report.id)}
+                                onChange={() =>
+                                  toggleGoalLink(activeThread.id, goal.id, "linkedReportIds", report.id)
+                                }
+                              />
+                              보고 · {shortenText(report.title, 48)}
+                            </label>
+                          ))}
+                        </details>
+                      )}
+                      <div className="goal-actions">
+                        <button
+                          type="button"
+                          onClick={() => moveGoal(activeThread.id, goal.id, -1)}
+                        >
+                          위로
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveGoal(activeThread.id, goal.id, 1)}
+                        >
+                          아래로
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setEditingGoalId(editing ? "" : goal.id)}
+                        >
+                          {editing ? "완료" : "편집"}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => {
+                            if (window.confirm(`'${goal.title || "목표"}'를 삭제할까요?`)) {
+                              deleteGoal(activeThread.id, goal.id);
+                            }
+                          }}
+                        >
+                          삭제
+                        </button>
+                      </div>
+                    </article>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {leftTab === "settings" && (
+            <div className="role-grid">
+              <article className="role-card global-key-card">
+                <div className="role-head">
+                  <strong>서버 프록시 실행 정책</strong>
+                  <span>API 키는 Firebase Functions Secret Manager에서 관리됩니다.</span>
+                </div>
+              </article>
+              <article className="role-card global-key-card">
+                <div className="role-head">
+                  <strong>워크플로우 실행 위치</strong>
+                  <span>서버 실행은 탭을 닫아도 Cloud Functions에서 끝까지 진행됩니다.</span>
+                </div>
+                <select
+                  value={workflowExecutor}
+                  onChange={(event) => setWorkflowExecutor(event.target.value as WorkflowExecutor)}
+                >
+                  <option value="browser">브라우저 (이 탭에서 실행)</option>
+                  <option value="server">서버 (Cloud Functions)</option>
+                </select>
+                {workflowExecutor === "server" && (!user || devMockEnabled) && (
+                  <p className="dimmed">로그인 상태가 아니거나 목업 모드에서는 브라우저에서 실행됩니다.</p>
+                )}
+              </article>
+              <article className="role-card global-key-card">
+                <div className="role-head">
+                  <strong>TAN 로스터</strong>
+                  <span>
+                    활성 {councilMembers.length}명 · 은퇴{" "}
+                    {rosterMembers.length - councilMembers.length}명
+                  </span>
+                </div>
+                {!rosterDraft ? (
+                  <button
+                    type="button"
+                    className="secondary-button"
+                    onClick={() => {
+                      setRosterDraft(rosterMembers.map((member) => ({ ...member })));
+                      setRosterError("");
+                    }}
+                  >
+                    로스터 편집
+                  </button>
+                ) : (
+                  <div className="roster-editor">
+                    {rosterDraft.map((member) => {
+                      const core = CORE_MEMBER_IDS.includes(member.id);
+
+                      return (
+                        <div
+                          key={member.id}
+                          className={`roster-member ${member.retired ? "retired" : ""}`}
+                        >
+                          <div className="role-head">
+                            <strong style={{ color: member.color }}>{member.id}</strong>
+                            <span>{member.retired ? "은퇴" : core ? "핵심 역할" : member.department}</span>
+                          </div>
+                          <input
+                            value={member.displayName}
+                            placeholder="표시 이름"
+                            onChange={(event) =>
+                              updateRosterDraftMember(member.id, { displayName: event.target.value })
+                            }
+                          />
+                          <input
+                            value={member.role}
+                            placeholder="역할"
+                            onChange={(event) =>
+                              updateRosterDraftMember(member.id, { role: event.target.value })
+                            }
+                          />
+                          <input
+                            value={member.department}
+                            placeholder="부서"
+                            onChange={(event) =>
+                              updateRosterDraftMember(member.id, { department: event.target.value })
+                            }
+                          />
+                          <div className="roster-member-row">
+                            <input
+                              type="color"
+                              value={member.color}
+                              onChange={(event) =>
+                                updateRosterDraftMember(member.id, { color: event.target.value })
+                              }
+                            />
+                            <select
+                              value={member.image}
+                              onChange={(event) =>
+                                updateRosterDraftMember(member.id, { image: event.target.value })
+                              }
+                            >
+                              {Array.from(new Set([member.image, ...PROFILE_IMAGE_OPTIONS])).map(
+                                (image) => (
+                                  <option key={image} value={image}>
+                                    {image.split("/").pop()}
+                                  </option>
+                                ),
+                              )}
+                            </select>
+                          </div>
+                          <textarea
+                            value={member.identityPrompt}
+                            rows={3}
+                            placeholder="정체성 프롬프트"
+                            onChange={(event) =>
+                              updateRosterDraftMember(member.id, { identityPrompt: event.target.value })
+                            }
+                          />
+                          {member.id !== "CEO-HOBBY" && (
+                            <label className="checkbox-row">
+                              <input
+                                type="checkbox"
+                                checked={member.joinsCollaboration}
+                                onChange={(event) =>
+                                  updateRosterDraftMember(member.id, {
+                                    joinsCollaboration: event.target.checked,
+                                  })
+                                }
+                              />
+                              기본 협업팀 참여
+                            </label>
+                          )}
+                          <div className="goal-actions">
+                            {member.id !== "CEO-HOBBY" && (
+                              <button type="button" onClick={() => addRosterDraftMember(member)}>
+                                새 ID로 복제
+                              </button>
+                            )}
+                            {!core && (
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  updateRosterDraftMember(member.id, {
+                                    retired: member.retired ? undefined : true,
+                                  })
+                                }
+                              >
+                                {member.retired ? "복귀" : "은퇴"}
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                    <label htmlFor="new-member-id">새 TAN ID (추가/복제에 사용)</label>
+                    <div className="roster-member-row">
+                      <input
+                        id="new-member-id"
+                        value={newMemberId}
+                        placeholder="예) DATA-TAN"
+                        onChange={(event) => setNewMemberId(event.target.value)}
+                      />
+                      <button
+                        type="button"
+                        className="secondary-button"
+                        onClick={() => addRosterDraftMember()}
+                      >
+                        추가
+                      </button>
+                    </div>
+                    <div className="workflow-controls">
+                      <button type="button" className="primary-button" onClick={() => void saveRosterDraft()}>
+                        로스터 저장
+                      </button>
                       <button
                         type="button"
-                        onClick={() => moveGoal(activeThread.id, goal.id, -1)}
+                        className="secondary-button"
+                        onClick={() => setRosterDraft(DEFAULT_COUNCIL_MEMBERS.map((member) => ({ ...member })))}
                       >
-                        위로
+                        기본값
                       </button>
                       <button
                         type="button"
-                        onClick={() => moveGoal(activeThread.id, goal.id, 1)}
+                        className="secondary-button"
+                        onClick={() => {
+                          setRosterDraft(null);
+                          setRosterError("");
+                        }}
                       >
-                        아래로
+                        취소
                       </button>
                     </div>
-                  </article>
-                ))}
-              </div>
-            </div>
-          )}
-
-          {leftTab === "settings" && (
-            <div className="role-grid">
+                  </div>
+                )}
+                {rosterError && <p className="error-text">{rosterError}</p>}
+              </article>
               <article className="role-card global-key-card">
                 <div className="role-head">
-                  <strong>서버 프록시 실행 정책</strong>
-                  <span>API 키는 Firebase Functions Secret Manager에서 관리됩니다.</span>
+                  <strong>오피스 설정 파일</strong>
+                  <span>
+                    로스터 · 런타임(키 제외) · 협업팀 · 회의실 · 구역 · 소품
+                  </span>
+                </div>
+                <div className="workflow-controls">
+                  <button
+                    type="button"
+                    className="secondary-button"
+                    onClick={() => exportOfficeConfig("json")}
+                  >
+                    JSON 내보내기
+                  </button>
+                  <button
+                    type="button"
+                    className="secondary-button"
+                    onClick={() => exportOfficeConfig("yaml")}
+                  >
+                    YAML 내보내기
+                  </button>
+                </div>
+                <label htmlFor="office-config-import">가져오기 (.json / .yaml)</label>
+                <input
+                  id="office-config-import"
+                  type="file"
+                  accept=".json,.yaml,.yml,application/json,application/yaml"
+                  onChange={(event) => {
+                    const file = event.target.files?.[0];
+                    event.target.value = "";
+                    if (file) {
+                      void previewOfficeImport(file);
+                    }
+                  }}
+                />
+                {officeImport && (
+                  <div className="office-import-preview">
+                    <strong>{officeImport.fileName} 변경 미리보기</strong>
+                    {officeImport.changes.length === 0 ? (
+                      <p className="empty-text">현재 설정과 차이가 없습니다.</p>
+                    ) : (
+                      <ul>
+                        {officeImport.changes.map((change) => (
+                          <li key={change}>{change}</li>
+                        ))}
+                      </ul>
+                    )}
+                    {officeImport.warnings.length > 0 && (
+                      <ul className="office-import-warnings">
+                        {officeImport.warnings.map((warning) => (
+                          <li key={warning}>{warning}</li>
+                        ))}
+                      </ul>
+                    )}
+                    <div className="workflow-controls">
+                      <button
+                        type="button"
+                        className="primary-button"
+                        disabled={officeImport.changes.length === 0}
+                        onClick={() => void applyOfficeImport()}
+                      >
+                        적용
+                      </button>
+                      <button
+                        type="button"
+                        className="secondary-button"
+                        onClick={() => setOfficeImport(null)}
+                      >
+                        취소
+                      </button>
+                    </div>
+                  </div>
+                )}
+                {officeImportError && <p className="error-text">{officeImportError}</p>}
+              </article>
+              <article className="role-card global-key-card">
+                <div className="role-head">
+                  <strong>페르소나 버전</strong>
+                  <span>
+                    현재 v{getMember(personaMemberId)?.personaVersion ?? 1} ·{" "}
+                    {resolveRuntime(personaMemberId).model}
+                  </span>
                 </div>
+                <select
+                  value={personaMemberId}
+                  onChange={(event) => {
+                    setPersonaMemberId(event.target.value);
+                    setPersonaCompareVersion(null);
+                  }}
+                >
+                  {rosterMembers
+                    .filter((member) => member.id !== "CEO-HOBBY")
+                    .map((member) => (
+                      <option key={member.id} value={member.id}>
+                        {member.id}
+                        {member.retired ? " (은퇴)" : ""}
+                      </option>
+                    ))}
+                </select>
+                {(() => {
+                  const current = getMember(personaMemberId);
+                  const versions = personaHistory
+                    .filter((item) => item.memberId === personaMemberId)
+                    .sort((left, right) => right.version - left.version);
+                  const compared = versions.find((item) => item.version === personaCompareVersion);
+
+                  if (!current) {
+                    return null;
+                  }
+
+                  return (
+                    <div className="persona-history">
+                      {versions.length === 0 && (
+                        <p className="empty-text">
+                          아직 편집 이력이 없습니다. 로스터에서 정체성 프롬프트를 바꾸면 버전이 기록됩니다.
+                        </p>
+                      )}
+                      {versions.map((item) => (
+                        <div
+                          key={item.version}
+                          className={`persona-version ${item.version === current.personaVersion ? "current" : ""}`}
+                        >
+                          <header>
+                            <strong>v{item.version}</strong>
+                            <span>
+                              {formatTime(item.createdAt)}
+                              {item.note ? ` · ${item.note}` : ""}
+                            </span>
+                          </header>
+                          <p>{shortenText(item.identityPrompt, 140)}</p>
+                          {item.version !== current.personaVersion && (
+                            <div className="goal-actions">
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  setPersonaCompareVersion(
+                                    personaCompareVersion === item.version ? null : item.version,
+                                  )
+                                }
+                              >
+                                {personaCompareVersion === item.version ? "비교 닫기" : "현재와 비교"}
+                              </button>
+                              <button
+                                type="button"
+                                disabled={!!rosterDraft}
+                                onClick={() => void rollbackPersona(item.memberId, item.version)}
+                              >
+                                이 버전으로 롤백
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                      {compared && (
+                        <p className="persona-diff">
+                          {diffWords(compared.identityPrompt, current.identityPrompt).map((part, index) => (
+                            <span key={index} className={`diff-${part.kind}`}>
+                              {part.text}
+                            </span>
+                          ))}
+                        </p>
+                      )}
+                    </div>
+                  );
+                })()}
               </article>
               <article className="role-card global-key-card">
                 <div className="role-head">
@@ -3475,7 +7662,7 @@ function App() {
                   DEV-TAN 의무: GitHub 소스와 배포 버전({DEPLOYED_APP_URL}) 정합성 상시 점검
                 </p>
               </article>
-              {COUNCIL_MEMBERS.filter((item) => item.id !== "CEO-HOBBY").map((member) => {
+              {councilMembers.filter((item) => item.id !== "CEO-HOBBY").map((member) => {
                 const current = roleConfig[member.id] || {
                   provider: member.defaultProvider,
                   model: member.defaultModel,
@@ -3498,13 +7685,13 @@ function App() {
                           [member.id]: {
                             ...previous[member.id],
                             provider: nextProvider,
-                            model: getRoleDefaultModel(member.id, nextProvider),
+                            model: getRoleDefaultModel(getMember(member.id), nextProvider),
                           },
                         }));
                       }}
                     >
                       {(
-                        ["openai", "anthropic", "xai", "gemini"] as LlmProvider[]
+                        ["openai", "anthropic", "xai", "gemini", "mock"] as LlmProvider[]
                       ).map((provider) => (
                         <option key={provider} value={provider}>
                           {PROVIDER_LABEL[provider]}
@@ -3524,7 +7711,7 @@ function App() {
                           },
                         }));
                       }}
-                      placeholder={getRoleDefaultModel(member.id, current.provider)}
+                      placeholder={getRoleDefaultModel(getMember(member.id), current.provider)}
                     />
                     <input
                       type="text"
@@ -3552,9 +7739,9 @@ function App() {
         <section className="panel office-panel">
           <div className="camera-overlay">CAM-01 / OFFICE FLOOR</div>
           <div className="office-stage">
-            {OFFICE_BACKGROUND_GRID.map((zone) => (
+            {officeLayout.backgroundGrid.map((zone, index) => (
               <div
-                key={zone.label}
+                key={`${zone.label}-${index}`}
                 className="department-zone"
                 style={{
                   left: `${zone.x}%`,
@@ -3567,7 +7754,7 @@ function App() {
               </div>
             ))}
 
-            {OFFICE_DECOR_ITEMS.map((item) => (
+            {officeLayout.decor.map((item) => (
               <div
                 key={item.id}
                 className={`decor-item ${item.kind}`}
@@ -3587,13 +7774,13 @@ function App() {
                 phase === "brainstorming" ? "active" : ""
               }`}
               style={{
-                left: `${BRAINSTORMING_ROOM.x - BRAINSTORMING_ROOM.width / 2}%`,
-                top: `${BRAINSTORMING_ROOM.y - BRAINSTORMING_ROOM.height / 2}%`,
-                width: `${BRAINSTORMING_ROOM.width}%`,
-                height: `${BRAINSTORMING_ROOM.height}%`,
+                left: `${officeLayout.brainstormingRoom.x - officeLayout.brainstormingRoom.width / 2}%`,
+                top: `${officeLayout.brainstormingRoom.y - officeLayout.brainstormingRoom.height / 2}%`,
+                width: `${officeLayout.brainstormingRoom.width}%`,
+                height: `${officeLayout.brainstormingRoom.height}%`,
               }}
             >
-              <span>{BRAINSTORMING_ROOM.label}</span>
+              <span>{officeLayout.brainstormingRoom.label}</span>
               <div className="room-table" />
             </div>
 
@@ -3602,17 +7789,17 @@ function App() {
                 phase === "collaboration" ? "active" : ""
               }`}
               style={{
-                left: `${COLLABORATION_ROOM.x - COLLABORATION_ROOM.width / 2}%`,
-                top: `${COLLABORATION_ROOM.y - COLLABORATION_ROOM.height / 2}%`,
-                width: `${COLLABORATION_ROOM.width}%`,
-                height: `${COLLABORATION_ROOM.height}%`,
+                left: `${officeLayout.collaborationRoom.x - officeLayout.collaborationRoom.width / 2}%`,
+                top: `${officeLayout.collaborationRoom.y - officeLayout.collaborationRoom.height / 2}%`,
+                width: `${officeLayout.collaborationRoom.width}%`,
+                height: `${officeLayout.collaborationRoom.height}%`,
               }}
             >
-              <span>{COLLABORATION_ROOM.label}</span>
+              <span>{officeLayout.collaborationRoom.label}</span>
               <div className="room-table" />
             </div>
 
-            {COUNCIL_MEMBERS.map((member) => (
+            {councilMembers.map((member) => (
               <div
                 key={`${member.id}-desk`}
                 className={`workstation ${
@@ -3629,9 +7816,10 @@ function App() {
               </div>
             ))}
 
-            {COUNCIL_MEMBERS.map((member) => {
+            {councilMembers.map((member) => {
               const runtime = agents[member.id];
-              const avatar = avatarForMember(member.id, user);
+              const avatar = avatarForMember(getMember(member.id), user);
+              const liveSpeech = liveSpeechByMember.get(member.id);
 
               return (
                 <div
@@ -3650,6 +7838,11 @@ function App() {
                     <strong>{member.callSign}</strong>
                     <span>{runtime.status}</span>
                   </div>
+                  {liveSpeech && (
+                    <div className="agent-speech">
+                      {toConversationPlainText(liveSpeech).slice(-90)}
+                    </div>
+                  )}
                 </div>
               );
             })}
@@ -3701,6 +7894,20 @@ function App() {
             >
               Governance
             </button>
+            <button
+              type="button"
+              className={rightTab === "memory" ? "active" : ""}
+              onClick={() => setRightTab("memory")}
+            >
+              Memory
+            </button>
+            <button
+              type="button"
+              className={rightTab === "usage" ? "active" : ""}
+              onClick={() => setRightTab("usage")}
+            >
+              Usage
+            </button>
           </div>
 
           {rightTab === "chat" && (
@@ -3713,12 +7920,13 @@ function App() {
 
                 {visibleMessages.map((message) => {
                   const mine = message.senderId === "CEO-HOBBY";
-                  const avatar = avatarForMember(message.senderId, user);
+                  const avatar = avatarForMember(getMember(message.senderId), user);
 
                   return (
                     <article
                       key={message.id}
-                      className={`chat-message ${mine ? "mine" : ""}`}
+                      id={`item-${message.id}`}
+                      className={`chat-message ${mine ? "mine" : ""} ${message.id === focusedItemId ? "search-focus" : ""}`}
                       onClick={() =>
                         openDetailModal(
                           `${message.senderName} 메시지`,
@@ -3740,6 +7948,7 @@ function App() {
                           {message.targetIds.length > 0
                             ? ` · 대상: ${message.targetIds.join(", ")}`
                             : ""}
+                          {message.persona ? ` · ${formatPersonaStamp(message.persona)}` : ""}
                         </small>
                         <p>{toConversationPlainText(message.text)}</p>
 
@@ -3781,6 +7990,29 @@ function App() {
                     </article>
                   );
                 })}
+
+                {visibleLiveDrafts
+                  .filter((draft) => draft.channel === "chat")
+                  .map((draft) => {
+                    const member = getMember(draft.memberId);
+                    return (
+                      <article key={draft.id} className="chat-message streaming">
+                        <img
+                          src={avatarForMember(getMember(draft.memberId), user)}
+                          alt={member?.displayName || draft.memberId}
+                          referrerPolicy="no-referrer"
+                        />
+                        <div className="chat-bubble">
+                          <header>
+                            <strong>{member?.displayName || draft.memberId}</strong>
+                            <span>입력 중...</span>
+                          </header>
+                          <small>{member?.role || draft.memberId} · 실시간 응답</small>
+                          <p>{toConversationPlainText(draft.text) || "..."}</p>
+                        </div>
+                      </article>
+                    );
+                  })}
               </div>
 
               <form className="chat-form" onSubmit={handleSendChat}>
@@ -3825,6 +8057,77 @@ function App() {
           {rightTab === "meeting" && (
             <div className="side-block">
               <h2>회의 로그</h2>
+              {(() => {
+                const summary = threadSummaries[activeThread.id];
+                const pending = visibleMeetingTurns.filter(
+                  (turn) => turn.createdAt > (summary?.coveredUntil || ""),
+                );
+                const pendingTokens = estimateTokens(
+                  pending.map((turn) => `${turn.speakerId}: ${turn.text}`).join("\n\n"),
+                );
+
+                return (
+                  <div className="meeting-plan-summary thread-summary">
+                    <div className="goal-board-head">
+                      <strong>압축된 스레드 맥락</strong>
+                      <button
+                        type="button"
+                        className="secondary-button"
+                        disabled={pending.length <= 4 || !!compactingThreadId}
+                        onClick={() => void compactMeetingLog()}
+                      >
+                        {compactingThreadId ? "압축 중..." : "지금 압축"}
+                      </button>
+                    </div>
+                    <small>
+                      요약 약 {summary?.tokenEstimate || 0} 토큰 + 미압축 회의 {pending.length}건 약 {pendingTokens}{" "}
+                      토큰 / 예산 {THREAD_CONTEXT_TOKEN_BUDGET} 토큰
+                    </small>
+                    {!summary ? (
+                      <p className="dimmed">
+                        아직 압축된 맥락이 없습니다. 대화가 예산을 넘으면 오래된 발언부터 자동으로 요약됩니다.
+                      </p>
+                    ) : (
+                      <>
+                        <p>{summary.narrative}</p>
+                        {summary.decisions.length > 0 && (
+                          <>
+                            <strong>결정</strong>
+                            <ul>
+                              {summary.decisions.map((item) => (
+                                <li key={item}>{item}</li>
+                              ))}
+                            </ul>
+                          </>
+                        )}
+                        {summary.openIssues.length > 0 && (
+                          <>
+                            <strong>미해결 이슈</strong>
+                            <ul>
+                              {summary.openIssues.map((item) => (
+                                <li key={item}>{item}</li>
+                              ))}
+                            </ul>
+                          </>
+                        )}
+                        {summary.actionItems.length > 0 && (
+                          <>
+                            <strong>진행 액션</strong>
+                            <ul>
+                              {summary.actionItems.map((item) => (
+                                <li key={item}>{item}</li>
+                              ))}
+                            </ul>
+                          </>
+                        )}
+                        <small>
+                          누적 {summary.compactedTurns}건 압축 · {formatTime(summary.updatedAt)} 갱신
+                        </small>
+                      </>
+                    )}
+                  </div>
+                );
+              })()}
               {visibleActionPlans.length > 0 && (
                 <div className="meeting-plan-summary">
                   <strong>액션플랜 스냅샷</strong>
@@ -3838,19 +8141,46 @@ function App() {
                 </div>
               )}
               <div className="meeting-list">
-                {visibleMeetingTurns.length === 0 && (
+                {visibleMeetingTurns.length === 0 && visibleLiveDrafts.length === 0 && (
                   <p className="dimmed">회의 로그가 아직 없습니다.</p>
                 )}
 
-                {visibleMeetingTurns.map((turn) => {
-                  const avatar = avatarForMember(turn.speakerId, user);
+                {visibleLiveDrafts
+                  .filter((draft) => draft.channel === "meeting")
+                  .map((draft) => {
+                    const member = getMember(draft.memberId);
+                    return (
+                      <article
+                        key={draft.id}
+                        className="meeting-item meeting-dialog-item streaming"
+                      >
+                        <img
+                          src={avatarForMember(getMember(draft.memberId), user)}
+                          alt={member?.displayName || draft.memberId}
+                          referrerPolicy="no-referrer"
+                        />
+                        <div className="meeting-bubble">
+                          <header>
+                            <strong>{member?.displayName || draft.memberId}</strong>
+                            <span>발언 중...</span>
+                          </header>
+                          <small>{draft.memberId} · 실시간</small>
+                          <p>{toConversationPlainText(draft.text) || "..."}</p>
+                        </div>
+                      </article>
+                    );
+                  })}
+
+                {visibleMeetingTurns.slice(0, meetingTurnLimit).map((turn) => {
+                  const avatar = avatarForMember(getMember(turn.speakerId), user);
                   const roomLabel =
                     turn.room === "brainstorming" ? "브레인스토밍" : "협업";
 
                   return (
                     <article
                       key={turn.id}
-                      className="meeting-item meeting-dialog-item"
+                      id={`item-${turn.id}`}
+                      className={`meeting-item meeting-dialog-item ${turn.id === focusedItemId ? "search-focus" : ""}`}
                       onClick={() =>
                         openDetailModal(
                           `${turn.speakerName} 회의 발언`,
@@ -3868,12 +8198,14 @@ function App() {
                         </header>
                         <small>
                           {turn.speakerId} · {roomLabel}
+                          {turn.persona ? ` · ${formatPersonaStamp(turn.persona)}` : ""}
                         </small>
                         <p>{toConversationPlainText(turn.text)}</p>
                       </div>
                     </article>
                   );
                 })}
+                {renderOlderHistoryButton("meetingTurns", visibleMeetingTurns.length, meetingTurnLimit)}
               </div>
             </div>
           )}
@@ -3881,67 +8213,437 @@ function App() {
           {rightTab === "plans" && (
             <div className="side-block">
               <h2>TAN 액션플랜</h2>
-              <div className="meeting-list">
-                {visibleActionPlans.length === 0 && (
-                  <p className="dimmed">아직 생성된 액션플랜이 없습니다.</p>
-                )}
-                {visibleActionPlans.map((plan) => (
-                  <article
-                    key={plan.id}
-                    className="meeting-item"
-                    onClick={() =>
-                      openDetailModal(
-                        `${plan.memberName} 액션플랜`,
-                        `${plan.memberId} · ${formatTime(plan.updatedAt)}`,
-                        plan.plan,
-                        false,
-                      )
-                    }
+              <div className="panel-tabs">
+                {(
+                  [
+                    ["list", "목록"],
+                    ["kanban", "칸반"],
+                    ["gantt", "간트"],
+                  ] as const
+                ).map(([view, label]) => (
+                  <button
+                    key={view}
+                    type="button"
+                    className={planView === view ? "active" : ""}
+                    onClick={() => setPlanView(view)}
                   >
-                    <header>
-                      <strong>{plan.memberName}</strong>
-                      <span>{formatTime(plan.updatedAt)}</span>
-                    </header>
-                    <small>
-                      {plan.memberId} · {plan.source}
-                      {plan.lastExecutedAt ? ` · 실행: ${formatTime(plan.lastExecutedAt)}` : ""}
-                    </small>
-                    <p>{toConversationPlainText(plan.plan)}</p>
-                    {plan.lastExecutionSummary && (
-                      <p>
-                        <strong>최근 실행 요약:</strong>{" "}
-                        {toConversationPlainText(plan.lastExecutionSummary)}
-                      </p>
-                    )}
-                    <button
-                      type="button"
-                      className="primary-button"
-                      disabled={executingPlanId === plan.id}
-                      onClick={(event) => {
-                        event.stopPropagation();
-                        void executeActionPlan(plan);
-                      }}
-                    >
-                      {executingPlanId === plan.id ? "실행 중..." : `${plan.memberName} 실행`}
-                    </button>
-                  </article>
+                    {label}
+                  </button>
                 ))}
               </div>
+              {planView === "kanban" && (
+                <div className="plan-kanban">
+                  {PLAN_BOARD_COLUMNS.map((status) => {
+                    const cards = boardTasks.filter(({ task }) => task.status === status);
+                    return (
+                      <section
+                        key={status}
+                        className="plan-column"
+                        onDragOver={(event) => event.preventDefault()}
+                        onDrop={(event) => {
+                          event.preventDefault();
+                          const dropped = boardTasks.find(
+                            (item) => item.key === event.dataTransfer.getData("text/plain"),
+                          );
+                          if (dropped) {
+                            editPlanTask(dropped.plan, dropped.task, { status });
+                          }
+                        }}
+                      >
+                        <header>
+                          <strong>{PLAN_TASK_STATUS_LABEL[status]}</strong>
+                          <span>{cards.length}</span>
+                        </header>
+                        {cards.map(({ key, plan, task }) => {
+                          const waitingOn = task.dependsOn.filter(
+                            (id) => plan.tasks.find((item) => item.id === id)?.status !== "done",
+                          );
+                          return (
+                            <article
+                              key={key}
+                              className={`plan-task ${task.status}`}
+                              draggable
+                              onDragStart={(event) => event.dataTransfer.setData("text/plain", key)}
+                            >
+                              <strong>{task.title}</strong>
+                              <small>
+                                {task.owner} · {task.dueDate || "마감 미정"}
+                              </small>
+                              {status !== "done" && waitingOn.length > 0 && (
+                                <small>선행 대기: {waitingOn.join(", ")}</small>
+                              )}
+                            </article>
+                          );
+                        })}
+                      </section>
+                    );
+                  })}
+                </div>
+              )}
+              {planView === "gantt" &&
+                (ganttRange ? (
+                  <div className="plan-gantt">
+                    <div className="plan-gantt-row">
+                      <span />
+                      <div className="plan-gantt-scale">
+                        {Array.from({ length: ganttRange.days }, (_, index) => {
+                          const date = shiftPlanDate(ganttRange.start, index);
+                          return (
+                            <span
+                              key={date}
+                              className={date === ganttRange.today ? "today" : ""}
+                              style={{ width: GANTT_DAY_WIDTH }}
+                            >
+                              {date.slice(8)}
+                            </span>
+                          );
+                        })}
+                      </div>
+                    </div>
+                    {boardTasks
+                      .filter(({ task }) => task.dueDate)
+                      .map(({ key, plan, task }) => {
+                        const startDate = planTaskStartDate(task);
+                        const moved = ganttDrag?.key === key ? ganttDrag.days : 0;
+                        return (
+                          <div key={key} className="plan-gantt-row">
+                            <small title={`${task.id} ${task.title}`}>
+                              {task.owner} · {task.title}
+                            </small>
+                            <div
+                              className="plan-gantt-track"
+                              style={{ width: ganttRange.days * GANTT_DAY_WIDTH }}
+                            >
+                              <div
+                                className={`plan-gantt-bar ${task.status}`}
+                                style={{
+                                  left:
+                                    (daysBetweenPlanDates(ganttRange.start, startDate) + moved) *
+                                    GANTT_DAY_WIDTH,
+                                  width: (daysBetweenPlanDates(startDate, task.dueDate) + 1) * GANTT_DAY_WIDTH,
+                                }}
+                                title={`${startDate} ~ ${task.dueDate} · 끌어서 일정 변경`}
+                                onPointerDown={(event) => {
+                                  event.currentTarget.setPointerCapture(event.pointerId);
+                                  setGanttDrag({ key, originX: event.clientX, days: 0 });
+                                }}
+                                onPointerMove={(event) => {
+                                  if (ganttDrag?.key === key) {
+                                    setGanttDrag({
+                                      ...ganttDrag,
+                                      days: Math.round((event.clientX - ganttDrag.originX) / GANTT_DAY_WIDTH),
+                                    });
+                                  }
+                                }}
+                                onPointerUp={() => {
+                                  if (ganttDrag?.key === key && ganttDrag.days !== 0) {
+                                    editPlanTask(plan, task, {
+                                      dueDate: shiftPlanDate(task.dueDate, ganttDrag.days),
+                                    });
+                                  }
+                                  setGanttDrag(null);
+                                }}
+                                onPointerCancel={() => setGanttDrag(null)}
+                              >
+                                {moved !== 0 ? shiftPlanDate(task.dueDate, moved).slice(5) : task.id}
+                              </div>
+                            </div>
+                          </div>
+                        );
+                      })}
+                  </div>
+                ) : (
+                  <p className="dimmed">마감일이 정해진 작업이 없습니다.</p>
+                ))}
+              {planView !== "list" && (
+                <p className="dimmed">보드에서 바꾼 상태와 일정은 PM-TAN의 다음 발언에 전달됩니다.</p>
+              )}
+              {planView === "list" && (
+                <div className="meeting-list">
+                  {visibleActionPlans.length === 0 && (
+                    <p className="dimmed">아직 생성된 액션플랜이 없습니다.</p>
+                  )}
+                  {visibleActionPlans.slice(0, actionPlanLimit).map((plan) => (
+                    <article
+                      key={plan.id}
+                      className="meeting-item"
+                      onClick={() =>
+                        openDetailModal(
+                          `${plan.memberName} 액션플랜`,
+                          `${plan.memberId} · ${formatTime(plan.updatedAt)}`,
+                          plan.plan,
+                          false,
+                        )
+                      }
+                    >
+                      <header>
+                        <strong>{plan.memberName}</strong>
+                        <span>{formatTime(plan.updatedAt)}</span>
+                      </header>
+                      <small>
+                        {plan.memberId} · {plan.source}
+                        {plan.lastExecutedAt ? ` · 실행: ${formatTime(plan.lastExecutedAt)}` : ""}
+                      </small>
+                      <p>{toConversationPlainText(plan.plan)}</p>
+                      {plan.tasks.length > 0 && (
+                        <ul className="plan-tasks">
+                          {plan.tasks.map((task) => (
+                            <li key={task.id} className={`plan-task ${task.status}`}>
+                              <div>
+                                <strong>
+                                  {task.id} {task.title}
+                                </strong>
+                                <small>
+                                  {task.owner} · 마감 {task.dueDate || "미정"} · {task.effortDays ?? "?"}일
+                                  {task.dependsOn.length > 0 ? ` · 선행 ${task.dependsOn.join(", ")}` : ""}
+                                </small>
+                                {task.deliverable && <small>산출물: {task.deliverable}</small>}
+                                {task.acceptanceCriteria.length > 0 && (
+                                  <small>완료 조건: {task.acceptanceCriteria.join(" / ")}</small>
+                                )}
+                              </div>
+                              <select
+                                value={task.status}
+                                onClick={(event) => event.stopPropagation()}
+                                onChange={(event) =>
+                                  editPlanTask(plan, task, { status: event.target.value as PlanTaskStatus })
+                                }
+                              >
+                                {Object.entries(PLAN_TASK_STATUS_LABEL).map(([status, label]) => (
+                                  <option key={status} value={status}>
+                                    {label}
+                                  </option>
+                                ))}
+                              </select>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      {plan.lastExecutedAt && plan.lastExecutionStatus && (
+                        <p>
+                          <strong>최근 실행:</strong> v{plan.executionCount} ·{" "}
+                          {PLAN_STEP_STATUS_LABEL[plan.lastExecutionStatus]} · {formatTime(plan.lastExecutedAt)}
+                        </p>
+                      )}
+                      <div className="goal-actions">
+                        <button
+                          type="button"
+                          className="primary-button"
+                          disabled={executingPlanId === plan.id}
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            void executeActionPlan(plan);
+                          }}
+                        >
+                          {executingPlanId === plan.id ? "실행 중..." : `${plan.memberName} 실행`}
+                        </button>
+                        {executingPlanId === plan.id && (
+                          <button
+                            type="button"
+                            className="secondary-button danger"
+                            onClick={(event) => {
+                              event.stopPropagation();
+                              planExecutionAbortRef.current?.abort();
+                            }}
+                          >
+                            중지
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          className="secondary-button"
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            void togglePlanExecutions(plan.id);
+                          }}
+                        >
+                          {expandedExecutionsPlanId === plan.id ? "실행 기록 닫기" : "실행 기록"}
+                        </button>
+                        <button
+                          type="button"
+                          className="secondary-button"
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            void togglePlanHistory(plan.id);
+                          }}
+                        >
+                          {expandedPlanId === plan.id ? "이력 닫기" : "변경 이력"}
+                        </button>
+                      </div>
+                      {expandedExecutionsPlanId === plan.id &&
+                        (() => {
+                          const runs = groupPlanExecutions(planExecutions[plan.id] || []);
+                          const compareKey = `${plan.id}:executions`;
+                          const picked = runs
+                            .filter(
+                              (run) =>
+                                compareSelection.key === compareKey &&
+                                compareSelection.ids.includes(String(run.version)),
+                            )
+                            .reverse();
+                          return (
+                            <ul className="plan-history">
+                              {runs.length === 0 && <li className="dimmed">실행 기록이 없습니다.</li>}
+                              {runs.map((run) => (
+                                <li
+                                  key={run.version}
+                                  onClick={(event) => {
+                                    event.stopPropagation();
+                                    openDetailModal(
+                                      `${plan.memberName} 실행 v${run.version}`,
+                                      `${PLAN_STEP_STATUS_LABEL[run.status]} · ${run.provider}/${run.model} · ${formatTime(run.createdAt)}`,
+                                      run.steps
+                                        .map((step) =>
+                                          [
+                                            `## ${step.step}단계 · ${PLAN_STEP_STATUS_LABEL[step.status]} · ${formatTime(step.createdAt)}`,
+                                            `[프롬프트]\n${step.prompt}`,
+                                            `[출력]\n${step.output}`,
+                                          ].join("\n\n"),
+                                        )
+                                        .join("\n\n"),
+                                      false,
+                                      run.deliverable
+                                        ? [{ ...run.deliverable, source: run.deliverable.path ? "cloud" : "local" }]
+                                        : [],
+                                    );
+                                  }}
+                                >
+                                  <label className="checkbox-row" onClick={(event) => event.stopPropagation()}>
+                                    <input
+                                      type="checkbox"
+                                      checked={picked.includes(run)}
+                                      onChange={() => toggleCompareItem(compareKey, String(run.version))}
+                                    />
+                                    <small>
+                                      v{run.version} · {run.steps.length}단계 · {PLAN_STEP_STATUS_LABEL[run.status]} ·{" "}
+                                      {run.provider}/{run.model} · {formatTime(run.createdAt)}
+                                    </small>
+                                  </label>
+                                  <span>
+                                    {run.steps[run.steps.length - 1].blocker ||
+                                      shortenText(toConversationPlainText(run.steps[run.steps.length - 1].output), 140)}
+                                  </span>
+                                </li>
+                              ))}
+                              {picked.length === 2 && (
+                                <li>
+                                  <button
+                                    type="button"
+                                    className="secondary-button"
+                                    onClick={(event) => {
+                                      event.stopPropagation();
+                                      openDiffModal(
+                                        `${plan.memberName} 실행 비교`,
+                                        { label: `v${picked[0].version}`, text: formatPlanExecutionRun(picked[0]) },
+                                        { label: `v${picked[1].version}`, text: formatPlanExecutionRun(picked[1]) },
+                                      );
+                                    }}
+                                  >
+                                    v{picked[0].version} ↔ v{picked[1].version} 비교
+                                  </button>
+                                </li>
+                              )}
+                            </ul>
+                          );
+                        })()}
+                      {expandedPlanId === plan.id &&
+                        (() => {
+                          const entries = planHistory[plan.id] || [];
+                          const compareKey = `${plan.id}:history`;
+                          const picked = entries
+                            .filter(
+                              (entry) =>
+                                compareSelection.key === compareKey && compareSelection.ids.includes(entry.id),
+                            )
+                            .reverse();
+                          return (
+                            <ul className="plan-history">
+                              {entries.length === 0 && <li className="dimmed">기록된 변경이 없습니다.</li>}
+                              {entries.map((entry) => (
+                                <li key={entry.id}>
+                                  {entry.replacesPlan ? (
+                                    <label className="checkbox-row" onClick={(event) => event.stopPropagation()}>
+                                      <input
+                                        type="checkbox"
+                                        checked={picked.includes(entry)}
+                                        onChange={() => toggleCompareItem(compareKey, entry.id)}
+                                      />
+                                      <small>
+                                        {formatTime(entry.createdAt)} · {entry.source} · 플랜 개정
+                                      </small>
+                                    </label>
+                                  ) : (
+                                    <small>
+                                      {formatTime(entry.createdAt)} · {entry.source}
+                                    </small>
+                                  )}
+                                  {entry.changes.length > 0 ? (
+                                    entry.changes.map((change) => <span key={change}>{change}</span>)
+                                  ) : (
+                                    <span>변경 없음</span>
+                                  )}
+                                </li>
+                              ))}
+                              {picked.length === 2 && (
+                                <li>
+                                  <button
+                                    type="button"
+                                    className="secondary-button"
+                                    onClick={(event) => {
+                                      event.stopPropagation();
+                                      openDiffModal(
+                                        `${plan.memberName} 플랜 개정 비교`,
+                                        { label: formatTime(picked[0].createdAt), text: picked[0].text },
+                                        { label: formatTime(picked[1].createdAt), text: picked[1].text },
+                                      );
+                                    }}
+                                  >
+                                    선택한 개정 비교
+                                  </button>
+                                </li>
+                              )}
+                            </ul>
+                          );
+                        })()}
+                    </article>
+                  ))}
+                  {renderOlderHistoryButton("actionPlans", visibleActionPlans.length, actionPlanLimit)}
+                </div>
+              )}
             </div>
           )}
 
           {rightTab === "report" && (
             <div className="side-block">
               <h2>CEO 보고함</h2>
+              <p className="dimmed">
+                에이전트 검색 자료: {activeThreadPassages.length}조각 · 파일{" "}
+                {new Set(activeThreadPassages.map((passage) => passage.assetId)).size}개
+                {threadPassagesTruncated && ` · 최근 ${THREAD_PASSAGE_LIMIT}조각만 검색하며 이전 자료는 제외됩니다`}
+              </p>
               <div className="report-list">
-                {visibleReports.length === 0 && (
+                {visibleReports.length === 0 && visibleLiveDrafts.length === 0 && (
                   <p className="dimmed">보고서가 아직 없습니다.</p>
                 )}
 
+                {visibleLiveDrafts
+                  .filter((draft) => draft.channel === "report")
+                  .map((draft) => (
+                    <article key={draft.id} className="report-item streaming">
+                      <header>
+                        <strong>{draft.memberId} 보고서 작성 중</strong>
+                        <span>{formatTime(draft.startedAt)}</span>
+                      </header>
+                      <p>{draft.text ? shortenText(draft.text.slice(-600), 600) : "..."}</p>
+                      <small>{draft.text.length.toLocaleString()}자 수신</small>
+                    </article>
+                  ))}
+
                 {visibleReports.map((report) => (
                   <article
                     key={report.id}
-                    className="report-item"
+                    id={`item-${report.id}`}
+                    className={`report-item ${report.id === focusedItemId ? "search-focus" : ""}`}
                     onClick={() =>
                       openDetailModal(
                         report.title,
@@ -3961,6 +8663,14 @@ function App() {
                     {report.participants.length > 0 && (
                       <div className="participants">참여: {report.participants.join(", ")}</div>
                     )}
+                    {report.personas && report.personas.length > 0 && (
+                      <div className="participants">
+                        페르소나:{" "}
+                        {report.personas
+                          .map((persona) => `${persona.memberId} v${persona.personaVersion}(${persona.model})`)
+                          .join(", ")}
+                      </div>
+                    )}
 
                     {report.assets.length > 0 && (
                       <div className="attachment-list">
@@ -3995,6 +8705,24 @@ function App() {
                       </div>
                     )}
 
+                    <div className="report-export">
+                      <span>내보내기</span>
+                      {(["pdf", "docx", "html"] as const).map((format) => (
+                        <button
+                          key={format}
+                          type="button"
+                          disabled={!!exportingReportId}
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            void exportReport(report, format);
+                          }}
+                        >
+                          {REPORT_EXPORT_FORMAT_LABEL[format]}
+                        </button>
+                      ))}
+                      {exportingReportId === report.id && <small>생성 중...</small>}
+                    </div>
+
                     <small>
                       저장 위치: {report.source === "cloud" ? "Firestore" : "Local fallback"}
                     </small>
@@ -4012,7 +8740,7 @@ function App() {
                   <p className="dimmed">아직 이벤트가 없습니다.</p>
                 )}
 
-                {visibleActivityLogs.map((log) => (
+                {visibleActivityLogs.slice(0, activityLogLimit).map((log) => (
                   <article
                     key={log.id}
                     className="log-item"
@@ -4032,6 +8760,7 @@ function App() {
                     <p>{shortenText(log.message, 180)}</p>
                   </article>
                 ))}
+                {renderOlderHistoryButton("activityLogs", visibleActivityLogs.length, activityLogLimit)}
               </div>
             </div>
           )}
@@ -4043,7 +8772,7 @@ function App() {
                 {visibleGovernanceAlerts.length === 0 && (
                   <p className="dimmed">아직 감시 이벤트가 없습니다.</p>
                 )}
-                {visibleGovernanceAlerts.map((item) => (
+                {visibleGovernanceAlerts.slice(0, governanceAlertLimit).map((item) => (
                   <article
                     key={item.id}
                     className="log-item"
@@ -4065,9 +8794,150 @@ function App() {
                     <p>{shortenText(item.message, 180)}</p>
                   </article>
                 ))}
+                {renderOlderHistoryButton(
+                  "governanceAlerts",
+                  visibleGovernanceAlerts.length,
+                  governanceAlertLimit,
+                )}
+              </div>
+            </div>
+          )}
+
+          {rightTab === "memory" && (
+            <div className="side-block">
+              <h2>TAN 장기 기억</h2>
+              <select
+                className="memory-member-select"
+                value={memoryMemberId}
+                onChange={(event) => setMemoryMemberId(event.target.value)}
+              >
+                {councilMembers
+                  .filter((member) => member.id !== "CEO-HOBBY")
+                  .map((member) => (
+                    <option key={member.id} value={member.id}>
+                      {member.id} ({agentMemories.filter((memory) => memory.memberId === member.id).length})
+                    </option>
+                  ))}
+              </select>
+              <p className="dimmed">
+                회의/채팅 발언에서 추출한 사실·결정입니다. 고정한 기억은 항상, 나머지는 관련 있을 때 프롬프트에 포함됩니다.
+              </p>
+              <div className="log-list">
+                {agentMemories.filter((memory) => memory.memberId === memoryMemberId).length === 0 && (
+                  <p className="dimmed">아직 기록된 기억이 없습니다.</p>
+                )}
+                {agentMemories
+                  .filter((memory) => memory.memberId === memoryMemberId)
+                  .sort(
+                    (left, right) =>
+                      Number(right.pinned) - Number(left.pinned) ||
+                      right.createdAt.localeCompare(left.createdAt),
+                  )
+                  .map((memory) => (
+                    <article
+                      key={memory.id}
+                      className={`log-item memory-item ${memory.pinned ? "pinned" : ""}`}
+                    >
+                      <header>
+                        <strong>
+                          {memory.pinned ? "고정 · " : ""}
+                          {AGENT_MEMORY_KIND_LABEL[memory.kind]}
+                        </strong>
+                        <span>
+                          {threads.find((thread) => thread.id === memory.threadId)?.title || memory.threadId} ·{" "}
+                          {formatTime(memory.createdAt)}
+                        </span>
+                      </header>
+                      <p>{memory.text}</p>
+                      <div className="goal-actions">
+                        <button type="button" onClick={() => void toggleMemoryPin(memory)}>
+                          {memory.pinned ? "고정 해제" : "고정"}
+                        </button>
+                        <button type="button" onClick={() => void deleteMemory(memory)}>
+                          삭제
+                        </button>
+                      </div>
+                    </article>
+                  ))}
               </div>
             </div>
           )}
+
+          {rightTab === "usage" && (
+            <div className="side-block">
+              <h2>토큰 / 비용 사용량</h2>
+              {usageTotals.length === 0 && (
+                <p className="dimmed">
+                  {user && !devMockEnabled
+                    ? "아직 기록된 모델 호출이 없습니다."
+                    : "사용량 집계는 로그인 상태에서만 기록됩니다."}
+                </p>
+              )}
+
+              {usageTotals.length > 0 && (
+                <>
+                  <h3>현재 스레드 · TAN별</h3>
+                  <div className="usage-list">
+                    {usageByMember.map((rollup) => (
+                      <article key={rollup.key} className="usage-item">
+                        <header>
+                          <strong>{getMember(rollup.key)?.displayName || rollup.key}</strong>
+                          <span>{formatUsd(rollup.costUsd)}</span>
+                        </header>
+                        <p>
+                          {rollup.calls}회 · 입력 {formatTokens(rollup.inputTokens)} / 출력{" "}
+                          {formatTokens(rollup.outputTokens)} 토큰
+                          {rollup.unpricedCalls > 0 && ` · 단가 미등록 ${rollup.unpricedCalls}회`}
+                        </p>
+                      </article>
+                    ))}
+                    {usageByMember.length === 0 && (
+                      <p className="dimmed">이 스레드에는 아직 호출 기록이 없습니다.</p>
+                    )}
+                  </div>
+
+                  <h3>워크플로우 실행별</h3>
+                  <div className="usage-list">
+                    {usageByRun.map((rollup) => (
+                      <article key={rollup.key} className="usage-item">
+                        <header>
+                          <strong>
+                            {threadTitleById.get(rollup.threadId) || "삭제된 스레드"}
+                          </strong>
+                          <span>{formatUsd(rollup.costUsd)}</span>
+                        </header>
+                        <p>
+                          {formatTime(new Date(Number(rollup.key.replace("run-", ""))).toISOString())} ·{" "}
+                          {rollup.calls}회 · {formatTokens(rollup.inputTokens + rollup.outputTokens)} 토큰
+                        </p>
+                      </article>
+                    ))}
+                    {usageByRun.length === 0 && (
+                      <p className="dimmed">워크플로우 실행 기록이 없습니다.</p>
+                    )}
+                  </div>
+
+                  <h3>스레드별</h3>
+                  <div className="usage-list">
+                    {usageByThread.map((rollup) => (
+                      <article key={rollup.key} className="usage-item">
+                        <header>
+                          <strong>{threadTitleById.get(rollup.key) || rollup.key}</strong>
+                          <span>{formatUsd(rollup.costUsd)}</span>
+                        </header>
+                        <p>
+                          {rollup.calls}회 · {formatTokens(rollup.inputTokens + rollup.outputTokens)} 토큰
+                        </p>
+                      </article>
+                    ))}
+                  </div>
+                  <p className="dimmed">
+                    모든 호출의 누적 추정 비용입니다. 중단된 스트리밍은 전송·수신분으로 추정합니다.
+                  </p>
+                </>
+              )}
+            </div>
+          )}
           </section>
         )}
       </main>
@@ -4093,7 +8963,44 @@ function App() {
               </button>
             </header>
             <div className="detail-content">
-              {detailModal.markdown ? (
+              {detailModal.diff ? (
+                <table className="diff-table">
+                  <thead>
+                    <tr>
+                      <th>{detailModal.diff.leftLabel}</th>
+                      <th>{detailModal.diff.rightLabel}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {detailModal.diff.rows.map((row, index) => (
+                      <tr key={index} className={`diff-row-${row.kind}`}>
+                        <td>
+                          {row.kind === "changed" && row.left !== null && row.right !== null
+                            ? diffWords(row.left, row.right)
+                                .filter((part) => part.kind !== "added")
+                                .map((part, partIndex) => (
+                                  <span key={partIndex} className={`diff-${part.kind}`}>
+                                    {part.text}
+                                  </span>
+                                ))
+                            : row.left}
+                        </td>
+                        <td>
+                          {row.kind === "changed" && row.left !== null && row.right !== null
+                            ? diffWords(row.left, row.right)
+                                .filter((part) => part.kind !== "removed")
+                                .map((part, partIndex) => (
+                                  <span key={partIndex} className={`diff-${part.kind}`}>
+                                    {part.text}
+                                  </span>
+                                ))
+                            : row.right}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : detailModal.markdown ? (
                 <div className="markdown-preview">
                   {renderMarkdownBlocks(detailModal.body)}
                 </div>
@@ -1,6 +1,6 @@
 export type OfficeZone = "desk" | "brainstorming" | "collaboration" | "ceo";
 
-export type LlmProvider = "openai" | "anthropic" | "xai" | "gemini";
+export type LlmProvider = "openai" | "anthropic" | "xai" | "gemini" | "mock";
 
 export type RoleRuntimeConfig = {
   provider: LlmProvider;
@@ -19,8 +19,12 @@ export type CouncilMember = {
   image: string;
   seat: { x: number; y: number };
   identityPrompt: string;
+  // Bumped whenever identityPrompt changes; outputs record it to compare persona revisions.
+  personaVersion: number;
   defaultProvider: LlmProvider;
   defaultModel: string;
+  joinsCollaboration: boolean;
+  retired?: boolean;
 };
 
 export const DEFAULT_OPENAI_CONVERSATION_MODEL =
@@ -39,17 +43,20 @@ export const DEFAULT_XAI_MODEL = import.meta.env.VITE_DEFAULT_XAI_MODEL || "grok
 export const DEFAULT_GEMINI_TEXT_MODEL =
   import.meta.env.VITE_DEFAULT_GEMINI_TEXT_MODEL || "gemini-2.5-pro";
 
+export const DEFAULT_MOCK_MODEL = import.meta.env.VITE_DEFAULT_MOCK_MODEL || "mock-scripted";
+
 export const DEFAULT_MODEL_BY_PROVIDER: Record<LlmProvider, string> = {
   openai: DEFAULT_OPENAI_CONVERSATION_MODEL,
   anthropic: DEFAULT_ANTHROPIC_MODEL,
   xai: DEFAULT_XAI_MODEL,
   gemini: DEFAULT_GEMINI_TEXT_MODEL,
+  mock: DEFAULT_MOCK_MODEL,
 };
 
 export const getDefaultModelForProvider = (provider: LlmProvider) =>
   DEFAULT_MODEL_BY_PROVIDER[provider];
 
-export const COUNCIL_MEMBERS: CouncilMember[] = [
+export const DEFAULT_COUNCIL_MEMBERS: CouncilMember[] = [
   {
     id: "CEO-HOBBY",
     displayName: "CEO HOBBY",
@@ -63,6 +70,8 @@ export const COUNCIL_MEMBERS: CouncilMember[] = [
       "당신은 CEO HOBBY다. 모든 산출물의 최종 수신자이며 의사결정을 내린다. 보고서는 짧고 명확해야 하며 실행 가능해야 한다.",
     defaultProvider: "openai",
     defaultModel: DEFAULT_OPENAI_CONVERSATION_MODEL,
+    joinsCollaboration: false,
+    personaVersion: 1,
   },
   {
     id: "HOST-TAN",
@@ -77,6 +86,8 @@ export const COUNCIL_MEMBERS: CouncilMember[] = [
       "당신은 HOST-TAN이다. 오피스 로그, 의사결정 타임라인, 전달 상태를 정리한다. 빠르고 실무적으로 보고한다.",
     defaultProvider: "openai",
     defaultModel: DEFAULT_OPENAI_CONVERSATION_MODEL,
+    joinsCollaboration: false,
+    personaVersion: 1,
   },
   {
     id: "ATTENDANT-TAN",
@@ -91,6 +102,8 @@ export const COUNCIL_MEMBERS: CouncilMember[] = [
       "당신은 ATTENDANT-TAN이다. 완벽주의 집행관으로서 전 TAN을 오케스트레이션한다. 독단적으로 결정하지 말고 역할을 위임해 최적안을 만든다.",
     defaultProvider: "openai",
     defaultModel: DEFAULT_OPENAI_CONVERSATION_MODEL,
+    joinsCollaboration: true,
+    personaVersion: 1,
   },
   {
     id: "PO-TAN",
@@ -105,6 +118,8 @@ export const COUNCIL_MEMBERS: CouncilMember[] = [
       "당신은 PO-TAN이다. 비즈니스 가치와 고객 가치 기준으로 우선순위를 결정한다. 수치/가설/검증 기준을 반드시 포함한다.",
     defaultProvider: "openai",
     defaultModel: DEFAULT_OPENAI_CONVERSATION_MODEL,
+    joinsCollaboration: true,
+    personaVersion: 1,
   },
   {
     id: "PM-TAN",
@@ -119,6 +134,8 @@ export const COUNCIL_MEMBERS: CouncilMember[] = [
       "당신은 PM-TAN이다. 일정, 병목, 공정률을 관리한다. 단계 전환 조건과 마감 리스크를 명확히 제시한다.",
     defaultProvider: "openai",
     defaultModel: DEFAULT_OPENAI_CONVERSATION_MODEL,
+    joinsCollaboration: true,
+    personaVersion: 1,
   },
   {
     id: "BA-TAN",
@@ -133,6 +150,8 @@ export const COUNCIL_MEMBERS: CouncilMember[] = [
       "당신은 BA-TAN이다. ROI, 전환율, 실험 지표를 숫자로 설계하고 해석한다. 팩트 기반으로 우선순위를 제안한다.",
     defaultProvider: "openai",
     defaultModel: DEFAULT_OPENAI_CONVERSATION_MODEL,
+    joinsCollaboration: true,
+    personaVersion: 1,
   },
   {
     id: "DEV-TAN",
@@ -147,6 +166,8 @@ export const COUNCIL_MEMBERS: CouncilMember[] = [
       "당신은 DEV-TAN이다. 품질과 아키텍처 무결성을 최우선으로 둔다. 구현 계획은 모호성이 없어야 하며 테스트 전략을 포함한다. 또한 GitHub 소스와 배포 버전의 정합성을 지속 점검하고 불일치 시 즉시 복구 계획을 보고한다.",
     defaultProvider: "openai",
     defaultModel: DEFAULT_OPENAI_DEV_MODEL,
+    joinsCollaboration: true,
+    personaVersion: 1,
   },
   {
     id: "QA-TAN",
@@ -161,6 +182,8 @@ export const COUNCIL_MEMBERS: CouncilMember[] = [
       "당신은 QA-TAN이다. 테스트 시나리오, 엣지 케이스, 승인 기준을 작성한다. 출시 전 리스크를 엄격히 차단한다.",
     defaultProvider: "openai",
     defaultModel: DEFAULT_OPENAI_CONVERSATION_MODEL,
+    joinsCollaboration: true,
+    personaVersion: 1,
   },
   {
     id: "UX-TAN",
@@ -175,6 +198,8 @@ export const COUNCIL_MEMBERS: CouncilMember[] = [
       "당신은 UX-TAN이다. 미학적 완성도와 사용 흐름의 정합성을 책임진다. 1px 기준의 레이아웃 명세와 예외 케이스를 제시한다.",
     defaultProvider: "openai",
     defaultModel: DEFAULT_OPENAI_CONVERSATION_MODEL,
+    joinsCollaboration: true,
+    personaVersion: 1,
   },
   {
     id: "HR-TAN",
@@ -189,6 +214,8 @@ export const COUNCIL_MEMBERS: CouncilMember[] = [
       "당신은 HR-TAN이다. 역할 준수 여부와 팀 운영 질서를 감사한다. 인력 배치와 업무 적합도를 근거와 함께 판단한다.",
     defaultProvider: "openai",
     defaultModel: DEFAULT_OPENAI_CONVERSATION_MODEL,
+    joinsCollaboration: false,
+    personaVersion: 1,
   },
   {
     id: "LEGAL-TAN",
@@ -203,6 +230,8 @@ export const COUNCIL_MEMBERS: CouncilMember[] = [
       "당신은 LEGAL-TAN이다. 정책, 컴플라이언스, 데이터 보안 리스크를 선제 차단한다. 법적 문구와 승인 조건을 명시한다.",
     defaultProvider: "openai",
     defaultModel: DEFAULT_OPENAI_CONVERSATION_MODEL,
+    joinsCollaboration: true,
+    personaVersion: 1,
   },
   {
     id: "MARKETING-TAN",
@@ -217,6 +246,8 @@ export const COUNCIL_MEMBERS: CouncilMember[] = [
       "당신은 MARKETING-TAN이다. 시장 흐름과 바이럴 루프 중심으로 확산 전략을 수립한다. 채널, 카피, 측정 지표를 함께 제안한다.",
     defaultProvider: "openai",
     defaultModel: DEFAULT_OPENAI_CONVERSATION_MODEL,
+    joinsCollaboration: true,
+    personaVersion: 1,
   },
   {
     id: "CS-TAN",
@@ -231,6 +262,8 @@ export const COUNCIL_MEMBERS: CouncilMember[] = [
       "당신은 CS-TAN이다. 고객 질문, 페인포인트, 온보딩 장애물을 찾아낸다. 고객 언어로 실행 개선안을 제시한다.",
     defaultProvider: "openai",
     defaultModel: DEFAULT_OPENAI_CONVERSATION_MODEL,
+    joinsCollaboration: true,
+    personaVersion: 1,
   },
   {
     id: "RESEARCHER-TAN",
@@ -245,12 +278,21 @@ export const COUNCIL_MEMBERS: CouncilMember[] = [
       "당신은 RESEARCHER-TAN이다. 감이 아니라 데이터로 시장성을 판단한다. 근거 수치와 출처 가정, 한계점을 명시한다.",
     defaultProvider: "openai",
     defaultModel: DEFAULT_OPENAI_CONVERSATION_MODEL,
+    joinsCollaboration: true,
+    personaVersion: 1,
   },
 ];
 
-export const MEMBER_BY_ID = new Map(COUNCIL_MEMBERS.map((member) => [member.id, member]));
+export type OfficeRoom = {
+  id: string;
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
 
-export const BRAINSTORMING_ROOM = {
+export const BRAINSTORMING_ROOM: OfficeRoom = {
   id: "brainstorming",
   label: "브레인스토밍 회의실",
   x: 33,
@@ -259,7 +301,7 @@ export const BRAINSTORMING_ROOM = {
   height: 24,
 };
 
-export const COLLABORATION_ROOM = {
+export const COLLABORATION_ROOM: OfficeRoom = {
   id: "collaboration",
   label: "협업 회의실",
   x: 67,
@@ -285,24 +327,154 @@ const buildRingSpots = (
     };
   });
 
-export const BRAINSTORMING_SPOTS = buildRingSpots(33, 53, 9, 6, COUNCIL_MEMBERS.length);
-export const COLLABORATION_SPOTS = buildRingSpots(67, 53, 9, 6, COUNCIL_MEMBERS.length);
-
-export const DEFAULT_COLLABORATION_TEAM = [
+// Workflow phases address these members by id, so they can be edited but never retired.
+export const CORE_MEMBER_IDS = [
+  "CEO-HOBBY",
+  "HOST-TAN",
   "ATTENDANT-TAN",
   "PO-TAN",
   "PM-TAN",
-  "DEV-TAN",
-  "UX-TAN",
-  "QA-TAN",
-  "BA-TAN",
   "LEGAL-TAN",
-  "MARKETING-TAN",
-  "CS-TAN",
-  "RESEARCHER-TAN",
+  "HR-TAN",
 ];
 
-export const OFFICE_BACKGROUND_GRID = [
+export type CouncilRoster = {
+  members: CouncilMember[];
+  memberById: Map<string, CouncilMember>;
+  brainstormingSpots: Array<{ x: number; y: number }>;
+  collaborationSpots: Array<{ x: number; y: number }>;
+  defaultCollaborationTeam: string[];
+};
+
+// `members` holds the active roster; `memberById` still resolves retired TANs so old logs keep their names.
+export const buildCouncilRoster = (
+  stored: CouncilMember[],
+  layout: OfficeLayout = DEFAULT_OFFICE_LAYOUT,
+): CouncilRoster => {
+  const members = stored.filter((member) => !member.retired);
+  const { brainstormingRoom, collaborationRoom } = layout;
+  return {
+    members,
+    memberById: new Map(stored.map((member) => [member.id, member])),
+    brainstormingSpots: buildRingSpots(brainstormingRoom.x, brainstormingRoom.y, 9, 6, members.length),
+    collaborationSpots: buildRingSpots(collaborationRoom.x, collaborationRoom.y, 9, 6, members.length),
+    defaultCollaborationTeam: members
+      .filter((member) => member.joinsCollaboration && member.id !== "CEO-HOBBY")
+      .map((member) => member.id),
+  };
+};
+
+export const MEMBER_ID_PATTERN = /^[A-Z0-9]+(-[A-Z0-9]+)*$/;
+
+const isSeatFree = (members: CouncilMember[], x: number, y: number) =>
+  members.every((member) => Math.hypot(member.seat.x - x, member.seat.y - y) >= 7);
+
+// First desk-zone spot that keeps a 7% gap from every seated member; new TANs sit there.
+export const findFreeSeat = (
+  members: CouncilMember[],
+  grid: OfficeGridZone[] = OFFICE_BACKGROUND_GRID,
+) => {
+  const active = members.filter((member) => !member.retired);
+  for (const zone of grid) {
+    for (let y = zone.y + 6; y <= zone.y + zone.h - 4; y += 6) {
+      for (let x = zone.x + 4; x <= zone.x + zone.w - 4; x += 6) {
+        if (isSeatFree(active, x, y)) {
+          return { x, y };
+        }
+      }
+    }
+  }
+  return { x: 50, y: 40 };
+};
+
+// Stored rosters come from Firestore/localStorage; anything malformed falls back to defaults.
+export const parseCouncilMembers = (raw: unknown): CouncilMember[] | null => {
+  if (!Array.isArray(raw)) {
+    return null;
+  }
+
+  const members: CouncilMember[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== "object") {
+      continue;
+    }
+    const value = item as Partial<CouncilMember>;
+    if (typeof value.id !== "string" || !MEMBER_ID_PATTERN.test(value.id)) {
+      continue;
+    }
+    if (members.some((member) => member.id === value.id)) {
+      continue;
+    }
+    const fallback = DEFAULT_COUNCIL_MEMBERS.find((member) => member.id === value.id);
+    const provider =
+      typeof value.defaultProvider === "string" &&
+      Object.hasOwn(DEFAULT_MODEL_BY_PROVIDER, value.defaultProvider)
+        ? value.defaultProvider
+        : fallback?.defaultProvider || "openai";
+    const text = (field: keyof CouncilMember, defaultValue: string) => {
+      const fieldValue = value[field];
+      return typeof fieldValue === "string" && fieldValue.trim() ? fieldValue : defaultValue;
+    };
+
+    members.push({
+      id: value.id,
+      displayName: text("displayName", fallback?.displayName || value.id),
+      callSign: text("callSign", fallback?.callSign || value.id.split("-")[0]),
+      role: text("role", fallback?.role || "Specialist"),
+      department: text("department", fallback?.department || "Operations"),
+      color: text("color", fallback?.color || "#9ad1ff"),
+      image: text("image", fallback?.image || "/assets/profiles/host.png"),
+      seat:
+        value.seat && typeof value.seat.x === "number" && typeof value.seat.y === "number"
+          ? { x: value.seat.x, y: value.seat.y }
+          : fallback?.seat || findFreeSeat(members),
+      identityPrompt: text(
+        "identityPrompt",
+        fallback?.identityPrompt || `당신은 ${value.id}이다. 담당 영역의 실행안을 보고한다.`,
+      ),
+      personaVersion:
+        typeof value.personaVersion === "number" && value.personaVersion >= 1
+          ? Math.floor(value.personaVersion)
+          : 1,
+      defaultProvider: provider,
+      defaultModel: text("defaultModel", fallback?.defaultModel || getDefaultModelForProvider(provider)),
+      joinsCollaboration:
+        typeof value.joinsCollaboration === "boolean"
+          ? value.joinsCollaboration
+          : fallback?.joinsCollaboration ?? false,
+      retired: value.retired === true && !CORE_MEMBER_IDS.includes(value.id) ? true : undefined,
+    });
+  }
+
+  // Core members are required by the workflow, so a stored roster can never drop them.
+  for (const member of DEFAULT_COUNCIL_MEMBERS) {
+    if (CORE_MEMBER_IDS.includes(member.id) && !members.some((item) => item.id === member.id)) {
+      members.push(member);
+    }
+  }
+
+  return members;
+};
+
+export type PersonaVersion = {
+  memberId: string;
+  version: number;
+  identityPrompt: string;
+  createdAt: string;
+  note: string;
+};
+
+export const personaVersionId = (memberId: string, version: number) => `${memberId}-v${version}`;
+
+export type OfficeGridZone = {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  label: string;
+};
+
+export const OFFICE_BACKGROUND_GRID: OfficeGridZone[] = [
   { x: 5, y: 8, w: 26, h: 22, label: "Operations Bay" },
   { x: 33, y: 8, w: 18, h: 22, label: "Product Desk" },
   { x: 53, y: 8, w: 22, h: 22, label: "Engineering Floor" },
@@ -362,3 +534,140 @@ export const OFFICE_DECOR_ITEMS: OfficeDecorItem[] = [
   { id: "plant-3", kind: "plant", x: 47.5, y: 66, w: 1.4, h: 2.8 },
   { id: "plant-4", kind: "plant", x: 51, y: 66, w: 1.4, h: 2.8 },
 ];
+
+export type OfficeLayout = {
+  brainstormingRoom: OfficeRoom;
+  collaborationRoom: OfficeRoom;
+  backgroundGrid: OfficeGridZone[];
+  decor: OfficeDecorItem[];
+};
+
+export const DEFAULT_OFFICE_LAYOUT: OfficeLayout = {
+  brainstormingRoom: BRAINSTORMING_ROOM,
+  collaborationRoom: COLLABORATION_ROOM,
+  backgroundGrid: OFFICE_BACKGROUND_GRID,
+  decor: OFFICE_DECOR_ITEMS,
+};
+
+const OFFICE_DECOR_KINDS: OfficeDecorItem["kind"][] = [
+  "corridor",
+  "table",
+  "lounge",
+  "plant",
+  "wall",
+  "desk-block",
+  "shelf",
+];
+
+// Coordinates are percentages of the office floor, so anything outside 0..100 is rejected.
+const isPercent = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 100;
+
+const parseOfficeRoom = (raw: unknown, fallback: OfficeRoom): OfficeRoom | null => {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+  const item = raw as Record<string, unknown>;
+  if (!isPercent(item.x) || !isPercent(item.y) || !isPercent(item.width) || !isPercent(item.height)) {
+    return null;
+  }
+  return {
+    id: fallback.id,
+    label: typeof item.label === "string" && item.label.trim() ? item.label : fallback.label,
+    x: item.x,
+    y: item.y,
+    width: item.width,
+    height: item.height,
+  };
+};
+
+const parseGridZone = (raw: unknown): OfficeGridZone | null => {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+  const item = raw as Record<string, unknown>;
+  if (!isPercent(item.x) || !isPercent(item.y) || !isPercent(item.w) || !isPercent(item.h)) {
+    return null;
+  }
+  return {
+    x: item.x,
+    y: item.y,
+    w: item.w,
+    h: item.h,
+    label: typeof item.label === "string" ? item.label : "",
+  };
+};
+
+const parseDecorItem = (raw: unknown): OfficeDecorItem | null => {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+  const item = raw as Record<string, unknown>;
+  if (
+    typeof item.id !== "string" ||
+    !OFFICE_DECOR_KINDS.includes(item.kind as OfficeDecorItem["kind"]) ||
+    !isPercent(item.x) ||
+    !isPercent(item.y) ||
+    !isPercent(item.w) ||
+    !isPercent(item.h)
+  ) {
+    return null;
+  }
+  return {
+    id: item.id,
+    kind: item.kind as OfficeDecorItem["kind"],
+    x: item.x,
+    y: item.y,
+    w: item.w,
+    h: item.h,
+    ...(typeof item.label === "string" ? { label: item.label } : {}),
+  };
+};
+
+// Returns the layout plus a note per dropped entry; a missing section keeps the default.
+export const parseOfficeLayout = (raw: unknown): { layout: OfficeLayout; issues: string[] } | null => {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+
+  const value = raw as Record<string, unknown>;
+  const issues: string[] = [];
+  const room = (key: "brainstormingRoom" | "collaborationRoom") => {
+    if (value[key] === undefined) {
+      return DEFAULT_OFFICE_LAYOUT[key];
+    }
+    const parsed = parseOfficeRoom(value[key], DEFAULT_OFFICE_LAYOUT[key]);
+    if (!parsed) {
+      issues.push(`${key}: 좌표/크기가 0~100 범위의 숫자가 아니어서 기본값을 사용합니다.`);
+    }
+    return parsed || DEFAULT_OFFICE_LAYOUT[key];
+  };
+  const list = <T>(key: "backgroundGrid" | "decor", parse: (item: unknown) => T | null, fallback: T[]) => {
+    if (!Array.isArray(value[key])) {
+      if (value[key] !== undefined) {
+        issues.push(`${key}: 배열이 아니어서 기본값을 사용합니다.`);
+      }
+      return fallback;
+    }
+    const items: T[] = [];
+    (value[key] as unknown[]).forEach((item, index) => {
+      const parsed = parse(item);
+      if (parsed) {
+        items.push(parsed);
+      } else {
+        issues.push(`${key}[${index}]: 형식이 올바르지 않아 제외합니다.`);
+      }
+    });
+    return items;
+  };
+
+  return {
+    layout: {
+      brainstormingRoom: room("brainstormingRoom"),
+      collaborationRoom: room("collaborationRoom"),
+      backgroundGrid: list("backgroundGrid", parseGridZone, DEFAULT_OFFICE_LAYOUT.backgroundGrid),
+      decor: list("decor", parseDecorItem, DEFAULT_OFFICE_LAYOUT.decor),
+    },
+    issues,
+  };
+};
@@ -0,0 +1,463 @@
+import {
+  MAX_IMAGE_INPUTS,
+  MAX_IMAGE_INPUT_BYTES,
+  chunkText,
+  formatAttachmentContext,
+} from "../../functions/src/shared/attachments";
+import type { AttachmentDocument } from "../../functions/src/shared/attachments";
+import { fileToBase64 } from "./gemini";
+import type { LlmImageInput } from "./llm";
+
+// Attachment content for agent prompts. Text is extracted in the browser from the original
+// file, chunked, and the chunks closest to the prompt are inlined; images go to the model as-is.
+// Chunking and selection live in functions/src/shared/attachments.ts, shared with the server.
+export type AttachmentKind = "text" | "html" | "pdf" | "docx" | "image" | "unsupported";
+
+// Extracted text is stored next to the original upload so later runs and the server skip re-parsing.
+export type AttachmentTextRef = {
+  url: string;
+  path?: string;
+  chars: number;
+};
+
+export type AttachmentSource = {
+  id: string;
+  name: string;
+  url: string;
+  mimeType: string;
+  size: number;
+  textExtract?: AttachmentTextRef;
+};
+
+export type AttachmentContext = {
+  text: string;
+  images: LlmImageInput[];
+};
+
+export const EMPTY_ATTACHMENT_CONTEXT: AttachmentContext = { text: "", images: [] };
+
+const TEXT_FILE_PATTERN = /\.(txt|md|markdown|csv|tsv|json|log)$/i;
+
+export const detectAttachmentKind = (name: string, mimeType: string): AttachmentKind => {
+  const type = mimeType.toLowerCase();
+  if (type.startsWith("image/")) {
+    return "image";
+  }
+  if (type === "application/pdf" || /\.pdf$/i.test(name)) {
+    return "pdf";
+  }
+  if (type.includes("wordprocessingml") || /\.docx$/i.test(name)) {
+    return "docx";
+  }
+  if (type.includes("html") || /\.html?$/i.test(name)) {
+    return "html";
+  }
+  if (
+    type.startsWith("text/") ||
+    type.includes("json") ||
+    type.includes("csv") ||
+    TEXT_FILE_PATTERN.test(name)
+  ) {
+    return "text";
+  }
+  return "unsupported";
+};
+
+// Excel and older Korean tools still save CSV as EUC-KR, so fall back when UTF-8 is invalid.
+const decodeText = (bytes: Uint8Array) => {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes).replace(/^\uFEFF/, "");
+  } catch {
+    return new TextDecoder("euc-kr").decode(bytes);
+  }
+};
+
+const normalizeWhitespace = (text: string) =>
+  text
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.replace(/[ \t\f\v\u00A0]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+const extractHtmlText = (html: string) => {
+  const marked = html.replace(/<\/(p|div|li|tr|h[1-6]|section|article|header|footer|table)>|<br\s*\/?>/gi, "$&\n");
+  const parsed = new DOMParser().parseFromString(marked, "text/html");
+  parsed.querySelectorAll("script, style, noscript, template").forEach((node) => node.remove());
+  return parsed.body?.textContent || "";
+};
+
+const inflate = async (bytes: Uint8Array<ArrayBuffer>, format: "deflate" | "deflate-raw") => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Reads one entry from a ZIP archive (enough for .docx) via the central directory.
+const readZipEntry = async (buffer: ArrayBuffer, entryName: string) => {
+  const view = new DataView(buffer);
+  let end = -1;
+  for (let offset = buffer.byteLength - 22; offset >= Math.max(0, buffer.byteLength - 65_557); offset -= 1) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error("ZIP 목차를 찾지 못했습니다.");
+  }
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  for (let index = 0; index < count; index += 1) {
+    if (view.getUint32(offset, true) !== 0x02014b50) {
+      break;
+    }
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    if (name === entryName) {
+      const dataStart =
+        localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = new Uint8Array(buffer, dataStart, compressedSize);
+      if (method === 0) {
+        return data;
+      }
+      if (method === 8) {
+        return inflate(data, "deflate-raw");
+      }
+      throw new Error(`지원하지 않는 ZIP 압축 방식(${method})입니다.`);
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  throw new Error(`${entryName} 항목이 없습니다.`);
+};
+
+const WORD_NAMESPACE = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+
+const extractDocxText = async (buffer: ArrayBuffer) => {
+  const xml = decodeText(await readZipEntry(buffer, "word/document.xml"));
+  const parsed = new DOMParser().parseFromString(xml, "application/xml");
+  return Array.from(parsed.getElementsByTagNameNS(WORD_NAMESPACE, "p"))
+    .map((paragraph) => {
+      let line = "";
+      paragraph.querySelectorAll("*").forEach((node) => {
+        if (node.namespaceURI !== WORD_NAMESPACE) {
+          return;
+        }
+        if (node.localName === "t") {
+          line += node.textContent || "";
+        } else if (node.localName === "tab") {
+          line += "\t";
+        } else if (node.localName === "br") {
+          line += "\n";
+        }
+      });
+      return line;
+    })
+    .join("\n");
+};
+
+// PDF strings are bytes; hex strings are looked up in the ToUnicode maps when one matches.
+type PdfUnicodeMap = {
+  codes: Map<string, string>;
+  // True when the fonts use two-byte codes (CID fonts, which is how most Korean PDFs embed text).
+  wide: boolean;
+};
+
+const hexToString = (hex: string) => {
+  let text = "";
+  for (let index = 0; index < hex.length; index += 4) {
+    text += String.fromCharCode(parseInt(hex.slice(index, index + 4).padEnd(4, "0"), 16));
+  }
+  return text;
+};
+
+const parseToUnicodeMap = (cmap: string, map: PdfUnicodeMap) => {
+  for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const [, code, unicode] of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>/g)) {
+      map.codes.set(code.toUpperCase(), hexToString(unicode));
+      map.wide ||= code.length === 4;
+    }
+  }
+  for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const [, start, stop, target] of block[1].matchAll(
+      /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>/g,
+    )) {
+      const from = parseInt(start, 16);
+      const to = Math.min(parseInt(stop, 16), from + 0xffff);
+      // Targets past the BMP arrive as UTF-16 surrogate pairs.
+      const base = target.length <= 4 ? parseInt(target, 16) : hexToString(target).codePointAt(0) || 0;
+      map.wide ||= start.length === 4;
+      for (let code = from; code <= to; code += 1) {
+        map.codes.set(
+          code.toString(16).toUpperCase().padStart(start.length, "0"),
+          String.fromCodePoint(base + code - from),
+        );
+      }
+    }
+  }
+};
+
+const decodePdfHex = (hex: string, map: PdfUnicodeMap) => {
+  const clean = hex.replace(/\s+/g, "").toUpperCase();
+  if (map.codes.size > 0) {
+    const width = map.wide ? 4 : 2;
+    let text = "";
+    for (let index = 0; index < clean.length; index += width) {
+      text += map.codes.get(clean.slice(index, index + width)) || "";
+    }
+    if (text) {
+      return text;
+    }
+  }
+  if (clean.startsWith("FEFF")) {
+    return hexToString(clean.slice(4));
+  }
+  return (clean.match(/.{1,2}/g) || [])
+    .map((byte) => String.fromCharCode(parseInt(byte.padEnd(2, "0"), 16)))
+    .join("");
+};
+
+const PDF_ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" };
+
+// Reads a literal "(...)" string starting at `start`; returns the text and the index after ")".
+const readPdfLiteral = (content: string, start: number): [string, number] => {
+  let depth = 0;
+  let text = "";
+  for (let index = start; index < content.length; index += 1) {
+    const char = content[index];
+    if (char === "\\") {
+      const next = content[index + 1];
+      const octal = content.slice(index + 1, index + 4).match(/^[0-7]{1,3}/)?.[0];
+      if (octal) {
+        text += String.fromCharCode(parseInt(octal, 8));
+        index += octal.length;
+      } else {
+        text += PDF_ESCAPES[next] ?? (next === "\n" || next === "\r" ? "" : next);
+        index += 1;
+      }
+    } else if (char === "(") {
+      depth += 1;
+      if (depth > 1) {
+        text += char;
+      }
+    } else if (char === ")") {
+      depth -= 1;
+      if (depth === 0) {
+        return [text, index + 1];
+      }
+      text += char;
+    } else {
+      text += char;
+    }
+  }
+  return [text, content.length];
+};
+
+// Walks the text operators of one content stream. Layout is approximated: line moves become newlines.
+const readPdfContentText = (content: string, map: PdfUnicodeMap) => {
+  let text = "";
+  let index = 0;
+  const operand: string[] = [];
+  while (index < content.length) {
+    const char = content[index];
+    if (char === "(") {
+      const [literal, next] = readPdfLiteral(content, index);
+      text += literal;
+      index = next;
+      continue;
+    }
+    if (char === "<" && content[index + 1] !== "<") {
+      const close = content.indexOf(">", index);
+      text += decodePdfHex(content.slice(index + 1, close < 0 ? content.length : close), map);
+      index = close < 0 ? content.length : close + 1;
+      continue;
+    }
+    const token = content.slice(index).match(/^[^\s()<>[\]{}/%]+/)?.[0];
+    if (!token) {
+      index += 1;
+      continue;
+    }
+    if (token === "T*" || token === "'" || token === '"' || token === "ET") {
+      text += "\n";
+    } else if (token === "Td" || token === "TD") {
+      text += Number(operand[operand.length - 1]) !== 0 ? "\n" : " ";
+    } else if (/^-\d+(\.\d+)?$/.test(token) && Number(token) < -200) {
+      // Large negative kerning inside a TJ array marks a word gap.
+      text += " ";
+    }
+    operand.push(token);
+    if (operand.length > 6) {
+      operand.shift();
+    }
+    index += token.length;
+  }
+  return text;
+};
+
+const extractPdfText = async (buffer: ArrayBuffer) => {
+  const raw = new TextDecoder("latin1").decode(buffer);
+  const streams: Array<{ dictionary: string; data: Uint8Array<ArrayBuffer> }> = [];
+  let position = raw.indexOf("stream");
+  while (position >= 0) {
+    if (raw.slice(position - 3, position) === "end") {
+      position = raw.indexOf("stream", position + 6);
+      continue;
+    }
+    let start = position + 6;
+    start += raw[start] === "\r" ? 1 : 0;
+    start += raw[start] === "\n" ? 1 : 0;
+    const end = raw.indexOf("endstream", start);
+    if (end < 0) {
+      break;
+    }
+    const dictionary = raw.slice(Math.max(raw.lastIndexOf("obj", position), position - 4000), position);
+    // A direct /Length avoids feeding the trailing end-of-line to the inflater.
+    const declared = Number(dictionary.match(/\/Length\s+(\d+)(?!\d|\s+\d+\s+R)/)?.[1] || -1);
+    const length =
+      declared >= 0 && declared <= end - start
+        ? declared
+        : raw.slice(start, end).replace(/\r?\n$/, "").length;
+    streams.push({ dictionary, data: new Uint8Array(buffer, start, length) });
+    position = raw.indexOf("stream", end + 9);
+  }
+
+  const decoded: string[] = [];
+  for (const { dictionary, data } of streams) {
+    if (/\/Subtype\s*\/Image|\/FontFile|\/Length1/.test(dictionary)) {
+      continue;
+    }
+    try {
+      const bytes = /\/FlateDecode/.test(dictionary) ? await inflate(data, "deflate") : data;
+      decoded.push(new TextDecoder("latin1").decode(bytes));
+    } catch {
+      // Truncated or exotic filters: skip the stream, keep the rest of the document.
+    }
+  }
+
+  // Maps from every font are merged; collisions between fonts only garble those glyphs.
+  const map: PdfUnicodeMap = { codes: new Map(), wide: false };
+  decoded.filter((item) => item.includes("begincmap")).forEach((item) => parseToUnicodeMap(item, map));
+
+  const text = decoded
+    .filter((item) => !item.includes("begincmap") && /\bBT\b/.test(item))
+    .map((item) =>
+      Array.from(item.matchAll(/\bBT\b([\s\S]*?)\bET\b/g))
+        .map((block) => readPdfContentText(`${block[1]} ET`, map))
+        .join(""),
+    )
+    .join("\n\n");
+  // Undecodable glyph codes surface as control characters; keep only tabs and line breaks.
+  return Array.from(text)
+    .filter((char) => char.charCodeAt(0) >= 32 || char === "\t" || char === "\n")
+    .join("");
+};
+
+// Returns "" for images and unsupported formats; throws when a supported file cannot be parsed.
+export const extractAttachmentText = async (blob: Blob, name: string, mimeType: string) => {
+  const kind = detectAttachmentKind(name, mimeType);
+  if (kind === "image" || kind === "unsupported") {
+    return "";
+  }
+
+  const buffer = await blob.arrayBuffer();
+  if (kind === "pdf") {
+    return normalizeWhitespace(await extractPdfText(buffer));
+  }
+  if (kind === "docx") {
+    return normalizeWhitespace(await extractDocxText(buffer));
+  }
+
+  const text = decodeText(new Uint8Array(buffer));
+  if (kind === "html") {
+    return normalizeWhitespace(extractHtmlText(text));
+  }
+  if (/\.json$/i.test(name) || mimeType.includes("json")) {
+    try {
+      return JSON.stringify(JSON.parse(text), null, 2);
+    } catch {
+      return text.trim();
+    }
+  }
+  return text.trim();
+};
+
+// fetch only rejects on network errors; an expired or missing file answers 403/404 with an error
+// page that must not be read as the attachment.
+const fetchAttachment = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return response;
+};
+
+/**
+ * Builds the prompt context for a set of attachments. `cache` holds extracted text by asset id
+ * so repeated prompts in one workflow fetch and parse each file once.
+ */
+export const buildAttachmentContext = async (
+  assets: AttachmentSource[],
+  query: string,
+  cache: Map<string, string>,
+): Promise<AttachmentContext> => {
+  const documents: AttachmentDocument[] = [];
+  const images: LlmImageInput[] = [];
+  const notes: string[] = [];
+
+  for (const asset of assets) {
+    const kind = detectAttachmentKind(asset.name, asset.mimeType);
+    if (kind === "image") {
+      if (images.length >= MAX_IMAGE_INPUTS || asset.size > MAX_IMAGE_INPUT_BYTES) {
+        notes.push(`${asset.name}: 이미지 입력 한도(${MAX_IMAGE_INPUTS}장, 장당 3.5MB)를 넘어 제외`);
+        continue;
+      }
+      try {
+        const blob = await (await fetchAttachment(asset.url)).blob();
+        images.push({
+          mimeType: asset.mimeType,
+          data: await fileToBase64(new File([blob], asset.name, { type: asset.mimeType })),
+        });
+      } catch {
+        notes.push(`${asset.name}: 이미지를 불러오지 못함`);
+      }
+      continue;
+    }
+
+    let text = cache.get(asset.id);
+    if (text === undefined) {
+      let response: Response;
+      try {
+        response = await fetchAttachment(asset.textExtract?.url || asset.url);
+      } catch (error) {
+        // Not cached, so the next prompt retries the download.
+        notes.push(`${asset.name}: 파일을 불러오지 못함 (${error instanceof Error ? error.message : "network"})`);
+        continue;
+      }
+      try {
+        text = asset.textExtract
+          ? await response.text()
+          : await extractAttachmentText(await response.blob(), asset.name, asset.mimeType);
+      } catch {
+        text = "";
+      }
+      cache.set(asset.id, text);
+    }
+
+    if (text.trim()) {
+      documents.push({ name: asset.name, chunks: chunkText(text) });
+    } else {
+      notes.push(`${asset.name}: 본문을 추출할 수 없는 형식`);
+    }
+  }
+
+  return { text: formatAttachmentContext(documents, query, notes), images };
+};
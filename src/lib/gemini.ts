@@ -1,3 +1,6 @@
+import { toProxyError } from "./llm";
+import type { LlmMeter } from "./llm";
+
 const API_PROXY_BASE = import.meta.env.VITE_API_PROXY_BASE || "";
 
 type InlineData = {
@@ -35,6 +38,7 @@ export type GeminiGenerateImageRequest = {
   aspectRatio?: string;
   imageSize?: "1K" | "2K" | "4K";
   useSearch?: boolean;
+  meter?: LlmMeter;
   authToken?: string;
   // Backward compatibility only. Not used in proxy mode.
   apiKey?: string;
@@ -73,6 +77,7 @@ export const generateGeminiImage = async ({
   aspectRatio = "16:9",
   imageSize = "2K",
   useSearch = false,
+  meter,
   authToken,
 }: GeminiGenerateImageRequest): Promise<GeminiGenerateImageResult> => {
   const response = await fetch(resolveProxyUrl("/api/gemini/image"), {
@@ -88,12 +93,12 @@ export const generateGeminiImage = async ({
       aspectRatio,
       imageSize,
       useSearch,
+      meter,
     }),
   });
 
   if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Proxy Gemini request failed (${response.status}): ${errorText}`);
+    throw await toProxyError(response, "Proxy Gemini request failed");
   }
 
   const payload = (await response.json()) as GeminiResponse;
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { streamLlmText } from "./llm";
+
+const streamResponse = (lines: string[]) =>
+  new Response(
+    new ReadableStream({
+      start(controller) {
+        const encoder = new TextEncoder();
+        lines.forEach((line) => controller.enqueue(encoder.encode(`${line}\n`)));
+        controller.close();
+      },
+    }),
+    { status: 200 },
+  );
+
+const request = { provider: "openai" as const, model: "gpt-5.2", input: "안녕", authToken: "token" };
+
+describe("proxy text streaming", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("returns the final text of a completed stream", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        streamResponse([
+          JSON.stringify({ type: "delta", text: "안녕" }),
+          JSON.stringify({ type: "delta", text: "하세요" }),
+          JSON.stringify({ type: "done", text: "안녕하세요" }),
+        ]),
+      ),
+    );
+    const deltas: string[] = [];
+
+    await expect(
+      streamLlmText({ ...request, onDelta: (_delta, accumulated) => deltas.push(accumulated) }),
+    ).resolves.toBe("안녕하세요");
+    expect(deltas).toEqual(["안녕", "안녕하세요"]);
+  });
+
+  it("rejects a stream that closes without a done event", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => streamResponse([JSON.stringify({ type: "delta", text: "중간까지만" })])),
+    );
+
+    await expect(streamLlmText(request)).rejects.toThrow("closed before the response was complete");
+  });
+});
@@ -1,21 +1,145 @@
+import { MOCK_EMBEDDING_MODEL, embedMockText, requestMockText, streamMockText } from "./mockLlm";
+
 const API_PROXY_BASE = import.meta.env.VITE_API_PROXY_BASE || "";
 
-export type LlmProvider = "openai" | "anthropic" | "xai" | "gemini";
+export type LlmProvider = "openai" | "anthropic" | "xai" | "gemini" | "mock";
+
+export type LlmMessageRole = "system" | "user" | "assistant";
+
+export type LlmMessage = {
+  role: LlmMessageRole;
+  content: string;
+  // Speaker id (e.g. "PO-TAN") so the model can tell who said what.
+  name?: string;
+};
+
+// Base64 image attached to the current turn. Every provider behind the proxy accepts these.
+export type LlmImageInput = {
+  mimeType: string;
+  data: string;
+};
+
+// Attribution recorded alongside the proxy's usage ledger entry.
+export type LlmMeter = {
+  memberId?: string;
+  threadId?: string;
+  runId?: string;
+};
+
+export type LlmUsage = {
+  provider: LlmProvider;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  // False when the model has no price entry; costUsd is then 0.
+  priced: boolean;
+};
 
 export type LlmTextRequest = {
   provider: LlmProvider;
   model: string;
+  // Current turn. Sent after `messages` as the final user message.
   input: string;
+  messages?: LlmMessage[];
+  // Sent with `input` as multimodal content.
+  images?: LlmImageInput[];
   instructions?: string;
   maxOutputTokens?: number;
   temperature?: number;
   baseUrl?: string;
   useWebSearch?: boolean;
+  meter?: LlmMeter;
+  // Aborting rejects with `signal.reason` and closes the proxy stream upstream.
+  signal?: AbortSignal;
   authToken?: string;
   // Backward compatibility only. Not used in proxy mode.
   apiKey?: string;
 };
 
+// Anthropic and xAI have no embeddings API; callers map them to OpenAI.
+export type EmbeddingProvider = "openai" | "gemini" | "mock";
+
+export type LlmEmbeddingRequest = {
+  provider: EmbeddingProvider;
+  // Defaults per provider on the proxy.
+  model?: string;
+  texts: string[];
+  meter?: LlmMeter;
+  signal?: AbortSignal;
+  authToken?: string;
+};
+
+export type LlmEmbeddingResult = {
+  vectors: number[][];
+  model: string;
+};
+
+export type LlmStreamEvent =
+  | { type: "delta"; text: string }
+  | { type: "done"; text: string; usage?: LlmUsage }
+  | { type: "error"; error: string };
+
+export type LlmStreamRequest = LlmTextRequest & {
+  onDelta?: (delta: string, accumulated: string) => void;
+};
+
+export type ProxyQuotaCode = "quota_exhausted" | "rate_limited";
+
+export type ProxyUsage = {
+  usedReports: number;
+  limit: number;
+  exhausted: boolean;
+};
+
+export class ProxyQuotaError extends Error {
+  code: ProxyQuotaCode;
+  status: number;
+  usage: ProxyUsage | null;
+  retryAfterSeconds: number;
+
+  constructor(
+    message: string,
+    code: ProxyQuotaCode,
+    status: number,
+    usage: ProxyUsage | null,
+    retryAfterSeconds = 0,
+  ) {
+    super(message);
+    this.name = "ProxyQuotaError";
+    this.code = code;
+    this.status = status;
+    this.usage = usage;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// 402/429 from the proxy carry a typed quota payload; everything else stays a plain Error.
+export const toProxyError = async (response: Response, label: string) => {
+  const errorBody = await response.text();
+
+  if (response.status === 402 || response.status === 429) {
+    const parsed = tryParseJson<{
+      error?: string;
+      code?: ProxyQuotaCode;
+      usage?: ProxyUsage;
+      retryAfterSeconds?: number;
+    }>(errorBody);
+
+    if (parsed?.code === "quota_exhausted" || parsed?.code === "rate_limited") {
+      return new ProxyQuotaError(
+        parsed.error || `${label} (${response.status})`,
+        parsed.code,
+        response.status,
+        parsed.usage || null,
+        Number(parsed.retryAfterSeconds || response.headers.get("Retry-After") || 0),
+      );
+    }
+  }
+
+  return new Error(`${label} (${response.status}): ${errorBody}`);
+};
+
 const resolveProxyUrl = (path: string) => {
   const base = API_PROXY_BASE.trim().replace(/\/+$/, "");
   if (!base) {
@@ -24,38 +148,51 @@ const resolveProxyUrl = (path: string) => {
   return `${base}${path}`;
 };
 
-export const requestLlmText = async ({
+const toProxyBody = ({
   provider,
   model,
   input,
+  messages,
+  images,
   instructions,
   maxOutputTokens,
   temperature,
   baseUrl,
   useWebSearch,
-  authToken,
-}: LlmTextRequest) => {
+  meter,
+}: LlmTextRequest) =>
+  JSON.stringify({
+    provider,
+    model,
+    input,
+    messages,
+    images,
+    instructions,
+    maxOutputTokens,
+    temperature,
+    baseUrl,
+    useWebSearch,
+    meter,
+  });
+
+export const requestLlmText = async (request: LlmTextRequest) => {
+  // Without a proxy token the scripted mock runs in the browser instead.
+  if (request.provider === "mock" && !request.authToken) {
+    return requestMockText(request);
+  }
+
   const response = await fetch(resolveProxyUrl("/api/llm/text"), {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
-      ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+      ...(request.authToken ? { Authorization: `Bearer ${request.authToken}` } : {}),
     },
-    body: JSON.stringify({
-      provider,
-      model,
-      input,
-      instructions,
-      maxOutputTokens,
-      temperature,
-      baseUrl,
-      useWebSearch,
-    }),
+    body: toProxyBody(request),
+    signal: request.signal,
   });
 
   if (!response.ok) {
-    const errorBody = await response.text();
-    throw new Error(`Proxy LLM request failed (${response.status}): ${errorBody}`);
+    throw await toProxyError(response, "Proxy LLM request failed");
   }
 
   const payload = (await response.json()) as { text?: string };
@@ -68,6 +205,128 @@ export const requestLlmText = async ({
   return text;
 };
 
+// Charges one free report before a report is written; rejects with ProxyQuotaError once the quota is spent.
+export const requestReportCharge = async (authToken: string) => {
+  const response = await fetch(resolveProxyUrl("/api/usage/report"), {
+    method: "POST",
+    headers: { Authorization: `Bearer ${authToken}` },
+  });
+
+  if (!response.ok) {
+    throw await toProxyError(response, "Proxy report charge failed");
+  }
+
+  return (await response.json()) as ProxyUsage;
+};
+
+export const requestEmbeddings = async ({
+  signal,
+  authToken,
+  ...request
+}: LlmEmbeddingRequest): Promise<LlmEmbeddingResult> => {
+  if (request.provider === "mock" && !authToken) {
+    return { vectors: request.texts.map(embedMockText), model: MOCK_EMBEDDING_MODEL };
+  }
+
+  const response = await fetch(resolveProxyUrl("/api/llm/embed"), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+    },
+    body: JSON.stringify(request),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw await toProxyError(response, "Proxy embedding request failed");
+  }
+
+  const payload = (await response.json()) as Partial<LlmEmbeddingResult>;
+  if (!Array.isArray(payload.vectors) || payload.vectors.length !== request.texts.length) {
+    throw new Error("Proxy embedding response did not match the requested texts.");
+  }
+
+  return { vectors: payload.vectors, model: payload.model || "" };
+};
+
+export const streamLlmText = async ({ onDelta, ...request }: LlmStreamRequest) => {
+  if (request.provider === "mock" && !request.authToken) {
+    return streamMockText(request, onDelta);
+  }
+
+  const response = await fetch(resolveProxyUrl("/api/llm/text/stream"), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(request.authToken ? { Authorization: `Bearer ${request.authToken}` } : {}),
+    },
+    body: toProxyBody(request),
+    signal: request.signal,
+  });
+
+  if (!response.ok) {
+    throw await toProxyError(response, "Proxy LLM stream failed");
+  }
+
+  if (!response.body) {
+    throw new Error("Proxy LLM stream did not include a body.");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let accumulated = "";
+  let finalText = "";
+  // The proxy always ends a finished answer with "done"; a stream that closes without it was cut off.
+  let completed = false;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) {
+      return;
+    }
+
+    const event = JSON.parse(line) as LlmStreamEvent;
+    if (event.type === "delta") {
+      accumulated += event.text;
+      onDelta?.(event.text, accumulated);
+    } else if (event.type === "done") {
+      finalText = event.text;
+      completed = true;
+    } else if (event.type === "error") {
+      throw new Error(`Proxy LLM stream failed: ${event.error}`);
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+    let newline = buffer.indexOf("\n");
+    while (newline !== -1) {
+      handleLine(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf("\n");
+    }
+  }
+
+  handleLine(buffer + decoder.decode());
+
+  if (!completed) {
+    throw new Error("Proxy LLM stream closed before the response was complete.");
+  }
+
+  const text = (finalText || accumulated).trim();
+  if (!text) {
+    throw new Error("Proxy LLM response did not contain output text.");
+  }
+
+  return text;
+};
+
 export const tryParseJson = <T>(rawText: string): T | null => {
   const direct = rawText.trim();
   try {
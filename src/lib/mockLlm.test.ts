@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { requestMockText, streamMockText } from "./mockLlm";
+
+const request = (input: string) => ({
+  provider: "mock" as const,
+  model: "mock-1",
+  instructions: "당신은 DEV-TAN입니다.",
+  input: `CEO 지시: 결제 모듈 점검 ${input}`,
+});
+
+describe("browser mock streaming", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal("window", globalThis);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("streams the same text the non-streaming call returns", async () => {
+    const deltas: string[] = [];
+    const streamed = streamMockText(request(""), (delta) => deltas.push(delta));
+    await vi.runAllTimersAsync();
+
+    const text = await streamed;
+    expect(text).toBe(await requestMockText(request("")));
+    expect(deltas.join("").trim()).toBe(text);
+  });
+
+  it("waits the directive's delay before each chunk", async () => {
+    const deltas: string[] = [];
+    const streamed = streamMockText(request("[[mock:delay=200]]"), (delta) => deltas.push(delta));
+
+    await vi.advanceTimersByTimeAsync(199);
+    expect(deltas).toHaveLength(0);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(deltas).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(200);
+    expect(deltas).toHaveLength(2);
+
+    await vi.runAllTimersAsync();
+    await streamed;
+  });
+
+  it("fails halfway through a stream with the stream-error directive", async () => {
+    const deltas: string[] = [];
+    const streamed = streamMockText(request("[[mock:stream-error]]"), (delta) => deltas.push(delta));
+    const failure = expect(streamed).rejects.toThrow("Mock stream injected failure.");
+    await vi.runAllTimersAsync();
+
+    await failure;
+    const full = await requestMockText(request("[[mock:stream-error]]"));
+    expect(deltas.length).toBeGreaterThan(0);
+    expect(full.startsWith(deltas.join(""))).toBe(true);
+    expect(deltas.join("").length).toBeLessThan(full.length);
+  });
+});
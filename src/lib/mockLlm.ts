@@ -0,0 +1,62 @@
+import { prepareMockText, splitMockStream } from "../../functions/src/shared/mockLlm";
+import type { LlmTextRequest } from "./llm";
+
+// In-browser runner for the shared `mock` provider, used when there is no proxy token
+// (e.g. `?devMock=1`). Scenarios and directives live in functions/src/shared/mockLlm.ts.
+export { MOCK_EMBEDDING_MODEL, embedMockText } from "../../functions/src/shared/mockLlm";
+
+const toMockPrompt = ({
+  model,
+  input,
+  messages = [],
+  images = [],
+  instructions,
+  maxOutputTokens,
+}: LlmTextRequest) => ({
+  model,
+  system: [
+    instructions || "",
+    ...messages.filter((message) => message.role === "system").map((message) => message.content),
+  ]
+    .filter((item) => item.trim())
+    .join("\n\n"),
+  input,
+  history: messages.map((message) => message.content),
+  imageCount: images.length,
+  maxOutputTokens,
+});
+
+export const requestMockText = async (request: LlmTextRequest) => {
+  request.signal?.throwIfAborted();
+  const { text } = prepareMockText(toMockPrompt(request));
+  if (!text.trim()) {
+    throw new Error("Mock response did not contain text output.");
+  }
+  return text.trim();
+};
+
+export const streamMockText = async (
+  request: LlmTextRequest,
+  onDelta?: (delta: string, accumulated: string) => void,
+) => {
+  const { text, directives } = prepareMockText(toMockPrompt(request));
+  const chunks = splitMockStream(text);
+  let accumulated = "";
+
+  for (let index = 0; index < chunks.length; index += 1) {
+    request.signal?.throwIfAborted();
+    if (directives.streamError && index === Math.floor(chunks.length / 2)) {
+      throw new Error("Mock stream injected failure.");
+    }
+
+    await new Promise((resolve) => window.setTimeout(resolve, directives.delayMs));
+    accumulated += chunks[index];
+    onDelta?.(chunks[index], accumulated);
+  }
+
+  if (!text.trim()) {
+    throw new Error("Mock response did not contain text output.");
+  }
+
+  return text.trim();
+};
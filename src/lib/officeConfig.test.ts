@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_COUNCIL_MEMBERS, DEFAULT_OFFICE_LAYOUT } from "../data/council";
+import {
+  OFFICE_CONFIG_FORMAT,
+  OFFICE_CONFIG_VERSION,
+  buildOfficeConfig,
+  diffOfficeConfig,
+  parseOfficeConfig,
+  serializeOfficeConfig,
+} from "./officeConfig";
+
+const config = buildOfficeConfig(DEFAULT_COUNCIL_MEMBERS, {}, DEFAULT_OFFICE_LAYOUT);
+
+describe("office config import", () => {
+  it.each(["json", "yaml"] as const)("reads back an exported %s file unchanged", (fileType) => {
+    const parsed = parseOfficeConfig(serializeOfficeConfig(config, fileType));
+
+    expect(parsed.config).toEqual(config);
+    expect(parsed.warnings).toEqual([]);
+  });
+
+  it("accepts a leading byte order mark", () => {
+    expect(parseOfficeConfig(`\uFEFF${serializeOfficeConfig(config, "json")}`).config).toEqual(config);
+  });
+
+  it("rejects files from a newer app version", () => {
+    const source = JSON.stringify({ ...config, version: OFFICE_CONFIG_VERSION + 1 });
+
+    expect(() => parseOfficeConfig(source)).toThrow(`v${OFFICE_CONFIG_VERSION + 1}`);
+  });
+
+  it.each([
+    ["a missing format", { ...config, format: undefined }, "format"],
+    ["a non-numeric version", { ...config, version: "1" }, "version"],
+    ["version 0", { ...config, version: 0 }, "version"],
+    ["missing members", { format: OFFICE_CONFIG_FORMAT, version: 1 }, "members"],
+  ])("rejects %s", (_label, document, message) => {
+    expect(() => parseOfficeConfig(JSON.stringify(document))).toThrow(message);
+  });
+
+  it("drops API keys and unknown providers with a warning", () => {
+    const [member] = config.members;
+    const source = JSON.stringify({
+      ...config,
+      runtimes: {
+        ...config.runtimes,
+        [member.id]: { provider: "constructor", model: "", baseUrl: "", apiKey: "sk-secret" },
+      },
+    });
+
+    const parsed = parseOfficeConfig(source);
+
+    expect(parsed.config.runtimes[member.id]).toEqual({
+      provider: member.defaultProvider,
+      model: member.defaultModel,
+      baseUrl: "",
+    });
+    expect(parsed.warnings).toEqual([
+      `${member.id}: apiKey는 가져오지 않습니다.`,
+      `${member.id}: 알 수 없는 provider constructor 대신 기본값을 사용합니다.`,
+    ]);
+  });
+
+  it("warns about a custom base URL and shows it in the runtime diff", () => {
+    const [member] = config.members;
+    const source = JSON.stringify({
+      ...config,
+      runtimes: {
+        ...config.runtimes,
+        [member.id]: { ...config.runtimes[member.id], baseUrl: "https://llm.example.com/v1" },
+      },
+    });
+
+    const parsed = parseOfficeConfig(source);
+
+    expect(parsed.warnings).toEqual([
+      `${member.id}: 모델 요청을 baseUrl https://llm.example.com/v1로 보냅니다. 신뢰하는 주소인지 확인하세요.`,
+    ]);
+    const { provider, model } = config.runtimes[member.id];
+    expect(diffOfficeConfig(config, parsed.config)).toContain(
+      `~ ${member.id} 런타임: ${provider}/${model} → ${provider}/${model} @ https://llm.example.com/v1`,
+    );
+  });
+});
@@ -0,0 +1,254 @@
+import {
+  DEFAULT_MODEL_BY_PROVIDER,
+  DEFAULT_OFFICE_LAYOUT,
+  parseCouncilMembers,
+  parseOfficeLayout,
+} from "../data/council";
+import type { CouncilMember, LlmProvider, OfficeLayout, RoleRuntimeConfig } from "../data/council";
+import { parseYaml, toYaml } from "./yaml";
+
+// Portable office setup. Bump OFFICE_CONFIG_VERSION when a field changes meaning and
+// keep parseOfficeConfig able to read every older version.
+export const OFFICE_CONFIG_FORMAT = "hobbytan-office";
+export const OFFICE_CONFIG_VERSION = 1;
+
+export type OfficeConfigFileType = "json" | "yaml";
+
+// API keys never leave the browser, so runtimes carry everything but the secret.
+export type OfficeRuntimeConfig = Omit<RoleRuntimeConfig, "apiKey">;
+
+export type OfficeConfig = {
+  format: typeof OFFICE_CONFIG_FORMAT;
+  version: number;
+  exportedAt: string;
+  members: CouncilMember[];
+  runtimes: Record<string, OfficeRuntimeConfig>;
+  collaborationTeam: string[];
+  layout: OfficeLayout;
+};
+
+export type ParsedOfficeConfig = {
+  config: OfficeConfig;
+  warnings: string[];
+};
+
+export const buildOfficeConfig = (
+  members: CouncilMember[],
+  roleConfig: Record<string, RoleRuntimeConfig>,
+  layout: OfficeLayout,
+): OfficeConfig => ({
+  format: OFFICE_CONFIG_FORMAT,
+  version: OFFICE_CONFIG_VERSION,
+  exportedAt: new Date().toISOString(),
+  members,
+  runtimes: Object.fromEntries(
+    members.map((member) => {
+      const saved = roleConfig[member.id];
+      return [
+        member.id,
+        {
+          provider: saved?.provider || member.defaultProvider,
+          model: saved?.model || member.defaultModel,
+          baseUrl: saved?.baseUrl || "",
+        },
+      ];
+    }),
+  ),
+  collaborationTeam: members
+    .filter((member) => member.joinsCollaboration && !member.retired)
+    .map((member) => member.id),
+  layout,
+});
+
+export const serializeOfficeConfig = (config: OfficeConfig, fileType: OfficeConfigFileType) =>
+  fileType === "yaml"
+    ? `# HOBBYTAN office config (${OFFICE_CONFIG_FORMAT} v${config.version})\n${toYaml(config)}`
+    : `${JSON.stringify(config, null, 2)}\n`;
+
+const isProvider = (value: unknown): value is LlmProvider =>
+  typeof value === "string" && Object.hasOwn(DEFAULT_MODEL_BY_PROVIDER, value);
+
+export const parseOfficeConfig = (source: string): ParsedOfficeConfig => {
+  const text = source.replace(/^\uFEFF/, "").trim();
+  let raw: unknown;
+  try {
+    raw = text.startsWith("{") ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new Error(`파일을 해석할 수 없습니다. ${error instanceof Error ? error.message : ""}`.trim());
+  }
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("오피스 설정 문서는 객체여야 합니다.");
+  }
+
+  const value = raw as Record<string, unknown>;
+  if (value.format !== OFFICE_CONFIG_FORMAT) {
+    throw new Error(`format: "${OFFICE_CONFIG_FORMAT}" 항목이 없는 파일입니다.`);
+  }
+  if (typeof value.version !== "number" || value.version < 1) {
+    throw new Error("version 항목이 올바르지 않습니다.");
+  }
+  if (value.version > OFFICE_CONFIG_VERSION) {
+    throw new Error(
+      `v${value.version} 형식은 이 앱(v${OFFICE_CONFIG_VERSION})보다 새롭습니다. 앱을 업데이트한 뒤 가져오세요.`,
+    );
+  }
+
+  const members = parseCouncilMembers(value.members);
+  if (!members) {
+    throw new Error("members 배열이 없습니다.");
+  }
+
+  const warnings: string[] = [];
+  const rawIds = (value.members as unknown[]).map((item) =>
+    item && typeof item === "object" ? (item as Record<string, unknown>).id : undefined,
+  );
+  rawIds.forEach((id, index) => {
+    if (!members.some((member) => member.id === id)) {
+      warnings.push(`members[${index}]: ID ${String(id)}가 올바르지 않거나 중복되어 제외합니다.`);
+    }
+  });
+  members
+    .filter((member) => !rawIds.includes(member.id))
+    .forEach((member) => warnings.push(`${member.id}: 필수 역할이 없어 기본 정의를 추가합니다.`));
+
+  const rawRuntimes =
+    value.runtimes && typeof value.runtimes === "object"
+      ? (value.runtimes as Record<string, unknown>)
+      : {};
+  const runtimes: Record<string, OfficeRuntimeConfig> = {};
+  for (const member of members) {
+    const item = rawRuntimes[member.id];
+    const runtime = item && typeof item === "object" ? (item as Record<string, unknown>) : {};
+    if ("apiKey" in runtime) {
+      warnings.push(`${member.id}: apiKey는 가져오지 않습니다.`);
+    }
+    if (runtime.provider !== undefined && !isProvider(runtime.provider)) {
+      warnings.push(`${member.id}: 알 수 없는 provider ${String(runtime.provider)} 대신 기본값을 사용합니다.`);
+    }
+    const provider = isProvider(runtime.provider) ? runtime.provider : member.defaultProvider;
+    const baseUrl = typeof runtime.baseUrl === "string" ? runtime.baseUrl.trim() : "";
+    if (baseUrl) {
+      warnings.push(`${member.id}: 모델 요청을 baseUrl ${baseUrl}로 보냅니다. 신뢰하는 주소인지 확인하세요.`);
+    }
+    runtimes[member.id] = {
+      provider,
+      model:
+        typeof runtime.model === "string" && runtime.model.trim()
+          ? runtime.model.trim()
+          : provider === member.defaultProvider
+            ? member.defaultModel
+            : DEFAULT_MODEL_BY_PROVIDER[provider],
+      baseUrl,
+    };
+  }
+
+  // collaborationTeam wins over per-member joinsCollaboration flags when both are present.
+  let collaborationTeam = members
+    .filter((member) => member.joinsCollaboration && !member.retired)
+    .map((member) => member.id);
+  if (Array.isArray(value.collaborationTeam)) {
+    const team = value.collaborationTeam.map((item) => String(item));
+    team
+      .filter((id) => !members.some((member) => member.id === id && !member.retired))
+      .forEach((id) => warnings.push(`collaborationTeam: ${id}는 활성 멤버가 아니어서 제외합니다.`));
+    collaborationTeam = team.filter((id) =>
+      members.some((member) => member.id === id && !member.retired && id !== "CEO-HOBBY"),
+    );
+  }
+  const teamMembers = members.map((member) => ({
+    ...member,
+    joinsCollaboration: collaborationTeam.includes(member.id),
+  }));
+
+  const parsedLayout = value.layout === undefined ? null : parseOfficeLayout(value.layout);
+  if (!parsedLayout) {
+    warnings.push("layout 항목이 없거나 올바르지 않아 기본 배치를 사용합니다.");
+  }
+
+  return {
+    config: {
+      format: OFFICE_CONFIG_FORMAT,
+      version: OFFICE_CONFIG_VERSION,
+      exportedAt: typeof value.exportedAt === "string" ? value.exportedAt : "",
+      members: teamMembers,
+      runtimes,
+      collaborationTeam,
+      layout: parsedLayout?.layout || DEFAULT_OFFICE_LAYOUT,
+    },
+    warnings: [...warnings, ...(parsedLayout?.issues || [])],
+  };
+};
+
+const MEMBER_FIELD_LABEL: Array<[keyof CouncilMember, string]> = [
+  ["displayName", "표시 이름"],
+  ["role", "역할"],
+  ["department", "부서"],
+  ["color", "색상"],
+  ["image", "이미지"],
+  ["seat", "좌석"],
+  ["identityPrompt", "정체성 프롬프트"],
+  ["defaultProvider", "기본 provider"],
+  ["defaultModel", "기본 모델"],
+  ["retired", "은퇴 여부"],
+];
+
+const sameValue = (left: unknown, right: unknown) =>
+  JSON.stringify(left ?? null) === JSON.stringify(right ?? null);
+
+const formatRuntime = (runtime: OfficeRuntimeConfig) =>
+  `${runtime.provider}/${runtime.model}${runtime.baseUrl ? ` @ ${runtime.baseUrl}` : ""}`;
+
+// One human-readable line per change, in the order the import will apply them.
+export const diffOfficeConfig = (current: OfficeConfig, next: OfficeConfig) => {
+  const changes: string[] = [];
+
+  for (const member of next.members) {
+    const before = current.members.find((item) => item.id === member.id);
+    if (!before) {
+      changes.push(`+ ${member.id} 추가 (${member.role})`);
+      continue;
+    }
+    const fields = MEMBER_FIELD_LABEL.filter(([key]) => !sameValue(before[key], member[key])).map(
+      ([, label]) => label,
+    );
+    if (fields.length > 0) {
+      changes.push(`~ ${member.id}: ${fields.join(", ")} 변경`);
+    }
+  }
+  current.members
+    .filter((member) => !member.retired && !next.members.some((item) => item.id === member.id))
+    .forEach((member) => changes.push(`- ${member.id}: 파일에 없어 은퇴 처리`));
+
+  for (const [memberId, runtime] of Object.entries(next.runtimes)) {
+    const before = current.runtimes[memberId];
+    if (before && !sameValue(before, runtime)) {
+      changes.push(`~ ${memberId} 런타임: ${formatRuntime(before)} → ${formatRuntime(runtime)}`);
+    }
+  }
+
+  const joined = next.collaborationTeam.filter((id) => !current.collaborationTeam.includes(id));
+  const left = current.collaborationTeam.filter((id) => !next.collaborationTeam.includes(id));
+  if (joined.length > 0 || left.length > 0) {
+    changes.push(
+      `~ 기본 협업팀: ${[...joined.map((id) => `+${id}`), ...left.map((id) => `-${id}`)].join(", ")}`,
+    );
+  }
+
+  const { layout: before } = current;
+  const { layout: after } = next;
+  if (!sameValue(before.brainstormingRoom, after.brainstormingRoom)) {
+    changes.push(`~ ${after.brainstormingRoom.label} 위치/크기 변경`);
+  }
+  if (!sameValue(before.collaborationRoom, after.collaborationRoom)) {
+    changes.push(`~ ${after.collaborationRoom.label} 위치/크기 변경`);
+  }
+  if (!sameValue(before.backgroundGrid, after.backgroundGrid)) {
+    changes.push(`~ 업무 구역: ${before.backgroundGrid.length}개 → ${after.backgroundGrid.length}개`);
+  }
+  if (!sameValue(before.decor, after.decor)) {
+    changes.push(`~ 오피스 소품: ${before.decor.length}개 → ${after.decor.length}개`);
+  }
+
+  return changes;
+};
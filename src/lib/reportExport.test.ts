@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { buildReportDocx } from "./reportExport";
+import type { ReportExportInput } from "./reportExport";
+
+const input: ReportExportInput = {
+  title: "3분기 실행 보고",
+  threadTitle: "Create virtual HOBBYTAN office",
+  createdAt: "2026-07-01T09:00:00.000Z",
+  body: "## 요약\n\n- 배포 완료 & 안정화",
+  participants: [{ id: "PO-TAN", name: "PO-TAN", role: "Product Owner", color: "#4b5563", avatar: null }],
+  meetingLog: "- [09:00] PO-TAN: 시작",
+  images: [
+    { name: "ux-generated-1.png", mimeType: "image/png", data: new Uint8Array([1, 2, 3]), width: 10, height: 5 },
+  ],
+};
+
+// Walks the local file headers of a stored (uncompressed) zip.
+const readZipEntries = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, Uint8Array>();
+  let cursor = 0;
+  while (view.getUint32(cursor, true) === 0x04034b50) {
+    expect(view.getUint16(cursor + 8, true)).toBe(0);
+    const size = view.getUint32(cursor + 18, true);
+    const nameLength = view.getUint16(cursor + 26, true);
+    const extraLength = view.getUint16(cursor + 28, true);
+    const dataStart = cursor + 30 + nameLength + extraLength;
+    const name = decoder.decode(bytes.subarray(cursor + 30, cursor + 30 + nameLength));
+    entries.set(name, bytes.subarray(dataStart, dataStart + size));
+    cursor = dataStart + size;
+  }
+
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  expect(view.getUint16(end + 10, true)).toBe(entries.size);
+  expect(view.getUint32(end + 16, true)).toBe(cursor);
+  return entries;
+};
+
+describe("buildReportDocx", () => {
+  it("packages the WordprocessingML parts and media as a zip", async () => {
+    const blob = buildReportDocx(input);
+    const entries = readZipEntries(new Uint8Array(await blob.arrayBuffer()));
+    const text = (name: string) => new TextDecoder().decode(entries.get(name));
+
+    expect(blob.type).toBe("application/vnd.openxmlformats-officedocument.wordprocessingml.document");
+    expect(Array.from(entries.keys())).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "word/document.xml",
+      "word/styles.xml",
+      "word/_rels/document.xml.rels",
+      "word/media/image1.png",
+    ]);
+    expect(text("_rels/.rels")).toContain('Target="word/document.xml"');
+    expect(text("word/_rels/document.xml.rels")).toContain('Id="rIdImage1"');
+    expect(text("word/_rels/document.xml.rels")).toContain('Target="media/image1.png"');
+    expect(text("word/document.xml")).toContain('r:embed="rIdImage1"');
+    expect(text("word/document.xml")).toContain("3분기 실행 보고");
+    expect(text("word/document.xml")).toContain("배포 완료 &amp; 안정화");
+    expect(entries.get("word/media/image1.png")).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it("leaves out the media relationships when there are no images", async () => {
+    const blob = buildReportDocx({ ...input, images: [] });
+    const entries = readZipEntries(new Uint8Array(await blob.arrayBuffer()));
+
+    expect(entries.has("word/media/image1.png")).toBe(false);
+    expect(new TextDecoder().decode(entries.get("word/_rels/document.xml.rels"))).not.toContain("rIdImage");
+  });
+});
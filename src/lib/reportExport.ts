@@ -0,0 +1,475 @@
+// Report deliverables built in the browser from data the office already holds: a standalone HTML
+// file (images inlined, also what is printed to PDF) and a DOCX package. No outside service sees
+// the report.
+export type ReportExportFormat = "html" | "docx" | "pdf";
+
+export type ExportImage = {
+  name: string;
+  mimeType: string;
+  data: Uint8Array;
+  width: number;
+  height: number;
+};
+
+export type ExportParticipant = {
+  id: string;
+  name: string;
+  role: string;
+  color: string;
+  avatar: ExportImage | null;
+};
+
+export type ReportExportInput = {
+  title: string;
+  threadTitle: string;
+  createdAt: string;
+  body: string;
+  participants: ExportParticipant[];
+  // Markdown meeting log for the appendix; empty when the report had no collaboration session.
+  meetingLog: string;
+  images: ExportImage[];
+};
+
+export const REPORT_EXPORT_FORMAT_LABEL: Record<ReportExportFormat, string> = {
+  html: "HTML",
+  docx: "DOCX",
+  // Printed through the browser dialog rather than generated as a PDF file.
+  pdf: "인쇄 / PDF로 저장",
+};
+
+export const MAX_REPORT_EXPORT_IMAGES = 12;
+// Larger images are scaled down before embedding so a report stays mailable.
+const MAX_EXPORT_IMAGE_WIDTH = 1600;
+const AVATAR_EXPORT_SIZE = 96;
+
+// Re-encodes as PNG (the one format both Word and every browser take) and records the pixel size
+// DOCX needs for layout.
+export const toExportImage = async (blob: Blob, name: string, maxWidth = MAX_EXPORT_IMAGE_WIDTH) => {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const scale = Math.min(1, maxWidth / bitmap.width);
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("canvas를 사용할 수 없습니다.");
+    }
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    const png = await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(
+        (result) => (result ? resolve(result) : reject(new Error("이미지 변환 실패"))),
+        "image/png",
+      ),
+    );
+    const image: ExportImage = {
+      name,
+      mimeType: "image/png",
+      data: new Uint8Array(await png.arrayBuffer()),
+      width: canvas.width,
+      height: canvas.height,
+    };
+    return image;
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const toExportAvatar = (blob: Blob, name: string) => toExportImage(blob, name, AVATAR_EXPORT_SIZE);
+
+type MarkdownBlock =
+  | { kind: "heading"; depth: number; text: string }
+  | { kind: "list"; ordered: boolean; items: string[] }
+  | { kind: "paragraph"; text: string };
+
+// Same subset renderMarkdownBlocks in App.tsx shows on screen, so the export reads like the preview.
+const stripInlineMarkdown = (text: string) =>
+  text
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/\*\*(.*?)\*\*/g, "$1")
+    .replace(/\*(.*?)\*/g, "$1")
+    .replace(/~~(.*?)~~/g, "$1");
+
+const parseMarkdownBlocks = (raw: string, headingOffset = 0): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let list: { kind: "list"; ordered: boolean; items: string[] } | null = null;
+
+  for (const line of raw.replace(/^\uFEFF/, "").replace(/\r/g, "").split("\n")) {
+    const heading = line.match(/^(#{1,4})\s+(.*)$/);
+    const unordered = line.match(/^\s*[-*]\s+(.*)$/);
+    const ordered = line.match(/^\s*\d+\.\s+(.*)$/);
+    const item = unordered?.[1] ?? ordered?.[1];
+    if (item !== undefined) {
+      if (!list) {
+        list = { kind: "list", ordered: !unordered, items: [] };
+        blocks.push(list);
+      }
+      list.items.push(stripInlineMarkdown(item));
+      continue;
+    }
+
+    list = null;
+    if (heading) {
+      blocks.push({
+        kind: "heading",
+        depth: Math.min(4, heading[1].length + headingOffset),
+        text: stripInlineMarkdown(heading[2].trim()),
+      });
+    } else if (line.trim()) {
+      blocks.push({ kind: "paragraph", text: stripInlineMarkdown(line.trim()) });
+    }
+  }
+
+  return blocks;
+};
+
+const formatExportDate = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleString("ko-KR", {
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+        weekday: "short",
+        hour: "2-digit",
+        minute: "2-digit",
+        hour12: false,
+      });
+};
+
+const escapeMarkup = (text: string) =>
+  text.replace(/[&<>"']/g, (char) =>
+    char === "&" ? "&amp;" : char === "<" ? "&lt;" : char === ">" ? "&gt;" : char === '"' ? "&quot;" : "&#39;",
+  );
+
+const toBase64 = (data: Uint8Array) => {
+  let binary = "";
+  for (let index = 0; index < data.length; index += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(index, index + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const toDataUri = (image: ExportImage) => `data:${image.mimeType};base64,${toBase64(image.data)}`;
+
+const blocksToHtml = (blocks: MarkdownBlock[]) =>
+  blocks
+    .map((block) => {
+      if (block.kind === "heading") {
+        return `<h${block.depth}>${escapeMarkup(block.text)}</h${block.depth}>`;
+      }
+      if (block.kind === "list") {
+        const tag = block.ordered ? "ol" : "ul";
+        return `<${tag}>${block.items.map((item) => `<li>${escapeMarkup(item)}</li>`).join("")}</${tag}>`;
+      }
+      return `<p>${escapeMarkup(block.text)}</p>`;
+    })
+    .join("\n");
+
+const REPORT_HTML_STYLE = `
+@page { size: A4; margin: 18mm; }
+* { box-sizing: border-box; }
+body { margin: 0; color: #1f2430; font: 15px/1.7 "Pretendard", "Apple SD Gothic Neo", "Malgun Gothic", sans-serif; }
+main { max-width: 820px; margin: 0 auto; padding: 40px 28px; }
+.cover { min-height: 92vh; display: flex; flex-direction: column; justify-content: center; border-bottom: 4px solid #1f2430; break-after: page; page-break-after: always; }
+.cover .eyebrow { letter-spacing: 0.2em; color: #6b7280; font-size: 13px; }
+.cover h1 { font-size: 34px; line-height: 1.3; margin: 12px 0 20px; }
+.cover dl { display: grid; grid-template-columns: max-content 1fr; gap: 6px 18px; color: #4b5563; }
+.cover dt { font-weight: 700; }
+.cover dd { margin: 0; }
+section { margin-top: 36px; }
+h2 { font-size: 22px; border-bottom: 1px solid #d1d5db; padding-bottom: 6px; }
+h3 { font-size: 18px; }
+h4 { font-size: 16px; }
+.participants { display: grid; grid-template-columns: repeat(auto-fill, minmax(220px, 1fr)); gap: 12px; }
+.participant { display: flex; align-items: center; gap: 12px; padding: 10px; border: 1px solid #e5e7eb; border-radius: 10px; break-inside: avoid; }
+.participant img, .participant .initials { width: 48px; height: 48px; border-radius: 50%; object-fit: cover; flex: none; }
+.participant .initials { display: grid; place-items: center; color: #fff; font-weight: 700; }
+.participant strong { display: block; }
+.participant span { color: #6b7280; font-size: 13px; }
+figure { margin: 18px 0; break-inside: avoid; }
+figure img { max-width: 100%; border: 1px solid #e5e7eb; border-radius: 8px; }
+figcaption { color: #6b7280; font-size: 13px; }
+.appendix { break-before: page; page-break-before: always; font-size: 13px; }
+`;
+
+export const buildReportHtml = (input: ReportExportInput) => {
+  const participants = input.participants
+    .map((participant) => {
+      const avatar = participant.avatar
+        ? `<img src="${toDataUri(participant.avatar)}" alt="${escapeMarkup(participant.name)}" />`
+        : `<span class="initials" style="background:${escapeMarkup(participant.color)}">${escapeMarkup(participant.name.slice(0, 2))}</span>`;
+      return `<div class="participant">${avatar}<div><strong>${escapeMarkup(participant.name)}</strong><span>${escapeMarkup(participant.role)}</span></div></div>`;
+    })
+    .join("\n");
+  const images = input.images
+    .map(
+      (image, index) =>
+        `<figure><img src="${toDataUri(image)}" alt="${escapeMarkup(image.name)}" /><figcaption>그림 ${index + 1}. ${escapeMarkup(image.name)}</figcaption></figure>`,
+    )
+    .join("\n");
+
+  return [
+    "<!doctype html>",
+    '<html lang="ko">',
+    "<head>",
+    '<meta charset="utf-8" />',
+    '<meta name="viewport" content="width=device-width, initial-scale=1" />',
+    `<title>${escapeMarkup(input.title)}</title>`,
+    `<style>${REPORT_HTML_STYLE}</style>`,
+    "</head>",
+    "<body>",
+    "<main>",
+    '<header class="cover">',
+    '<div class="eyebrow">CEO REPORT</div>',
+    `<h1>${escapeMarkup(input.title)}</h1>`,
+    "<dl>",
+    `<dt>스레드</dt><dd>${escapeMarkup(input.threadTitle)}</dd>`,
+    `<dt>작성일</dt><dd>${escapeMarkup(formatExportDate(input.createdAt))}</dd>`,
+    `<dt>참여</dt><dd>${input.participants.length}명</dd>`,
+    "</dl>",
+    "</header>",
+    input.participants.length > 0
+      ? `<section><h2>참여자</h2><div class="participants">${participants}</div></section>`
+      : "",
+    `<section>${blocksToHtml(parseMarkdownBlocks(input.body, 1))}</section>`,
+    input.images.length > 0 ? `<section><h2>UX 이미지</h2>${images}</section>` : "",
+    input.meetingLog.trim()
+      ? `<section class="appendix"><h2>부록. 회의 로그</h2>${blocksToHtml(parseMarkdownBlocks(input.meetingLog, 2))}</section>`
+      : "",
+    "</main>",
+    "</body>",
+    "</html>",
+  ]
+    .filter(Boolean)
+    .join("\n");
+};
+
+// DOCX is a zip of WordprocessingML parts. Entries are stored uncompressed, which every Word
+// version opens and keeps the writer small.
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let index = 0; index < 256; index += 1) {
+    let value = index;
+    for (let bit = 0; bit < 8; bit += 1) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    table[index] = value >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const zipStored = (entries: Array<{ name: string; data: Uint8Array }>) => {
+  const encoder = new TextEncoder();
+  const files = entries.map((entry) => ({ ...entry, path: encoder.encode(entry.name), crc: crc32(entry.data) }));
+  const localSize = files.reduce((sum, file) => sum + 30 + file.path.length + file.data.length, 0);
+  const centralSize = files.reduce((sum, file) => sum + 46 + file.path.length, 0);
+  const output = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(output.buffer);
+  const offsets: number[] = [];
+  let cursor = 0;
+
+  for (const file of files) {
+    offsets.push(cursor);
+    view.setUint32(cursor, 0x04034b50, true);
+    view.setUint16(cursor + 4, 20, true);
+    view.setUint16(cursor + 6, 0x0800, true);
+    view.setUint16(cursor + 12, 0x0021, true);
+    view.setUint32(cursor + 14, file.crc, true);
+    view.setUint32(cursor + 18, file.data.length, true);
+    view.setUint32(cursor + 22, file.data.length, true);
+    view.setUint16(cursor + 26, file.path.length, true);
+    output.set(file.path, cursor + 30);
+    output.set(file.data, cursor + 30 + file.path.length);
+    cursor += 30 + file.path.length + file.data.length;
+  }
+
+  files.forEach((file, index) => {
+    view.setUint32(cursor, 0x02014b50, true);
+    view.setUint16(cursor + 4, 20, true);
+    view.setUint16(cursor + 6, 20, true);
+    view.setUint16(cursor + 8, 0x0800, true);
+    view.setUint16(cursor + 14, 0x0021, true);
+    view.setUint32(cursor + 16, file.crc, true);
+    view.setUint32(cursor + 20, file.data.length, true);
+    view.setUint32(cursor + 24, file.data.length, true);
+    view.setUint16(cursor + 28, file.path.length, true);
+    view.setUint32(cursor + 42, offsets[index], true);
+    output.set(file.path, cursor + 46);
+    cursor += 46 + file.path.length;
+  });
+
+  view.setUint32(cursor, 0x06054b50, true);
+  view.setUint16(cursor + 8, files.length, true);
+  view.setUint16(cursor + 10, files.length, true);
+  view.setUint32(cursor + 12, centralSize, true);
+  view.setUint32(cursor + 16, localSize, true);
+  return output;
+};
+
+const WORD_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+const REL_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const EMU_PER_PIXEL = 9525;
+// A4 with 2 cm margins leaves ~6.7 inches; keep a little slack.
+const DOCX_MAX_IMAGE_EMU = 6 * 914400;
+
+const DOCX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${WORD_NS}">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Malgun Gothic" w:hAnsi="Malgun Gothic" w:eastAsia="Malgun Gothic" w:cs="Malgun Gothic"/><w:sz w:val="21"/><w:lang w:val="ko-KR" w:eastAsia="ko-KR"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="300" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:before="3600" w:after="360"/></w:pPr><w:rPr><w:b/><w:sz w:val="52"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:rPr><w:color w:val="4B5563"/><w:sz w:val="24"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="360" w:after="160"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="34"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="280" w:after="120"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="28"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading3"><w:name w:val="heading 3"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="100"/><w:outlineLvl w:val="2"/></w:pPr><w:rPr><w:b/><w:sz w:val="24"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading4"><w:name w:val="heading 4"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:outlineLvl w:val="3"/></w:pPr><w:rPr><w:b/><w:sz w:val="22"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Caption"><w:name w:val="caption"/><w:basedOn w:val="Normal"/><w:rPr><w:i/><w:color w:val="6B7280"/><w:sz w:val="18"/></w:rPr></w:style>
+</w:styles>`;
+
+const docxRun = (text: string, props = "") =>
+  `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ""}<w:t xml:space="preserve">${escapeMarkup(text)}</w:t></w:r>`;
+
+const docxParagraph = (content: string, style = "", props = "") =>
+  `<w:p>${style || props ? `<w:pPr>${style ? `<w:pStyle w:val="${style}"/>` : ""}${props}</w:pPr>` : ""}${content}</w:p>`;
+
+const DOCX_PAGE_BREAK = '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+
+const blocksToDocx = (blocks: MarkdownBlock[]) =>
+  blocks
+    .map((block) => {
+      if (block.kind === "heading") {
+        return docxParagraph(docxRun(block.text), `Heading${block.depth}`);
+      }
+      if (block.kind === "list") {
+        return block.items
+          .map((item, index) =>
+            docxParagraph(
+              docxRun(`${block.ordered ? `${index + 1}.` : "•"} ${item}`),
+              "",
+              '<w:ind w:left="480" w:hanging="240"/>',
+            ),
+          )
+          .join("");
+      }
+      return docxParagraph(docxRun(block.text));
+    })
+    .join("");
+
+export const buildReportDocx = (input: ReportExportInput) => {
+  const encoder = new TextEncoder();
+  const media: Array<{ name: string; data: Uint8Array; relId: string }> = [];
+
+  const docxImage = (image: ExportImage, maxEmu: number) => {
+    const index = media.length + 1;
+    const extension = image.mimeType.includes("jpeg") ? "jpeg" : image.mimeType.includes("gif") ? "gif" : "png";
+    const relId = `rIdImage${index}`;
+    media.push({ name: `media/image${index}.${extension}`, data: image.data, relId });
+    const scale = Math.min(1, maxEmu / (image.width * EMU_PER_PIXEL));
+    const cx = Math.round(image.width * EMU_PER_PIXEL * scale);
+    const cy = Math.round(image.height * EMU_PER_PIXEL * scale);
+    return [
+      `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/>`,
+      `<wp:docPr id="${index}" name="${escapeMarkup(image.name)}"/>`,
+      '<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">',
+      `<pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:nvPicPr><pic:cNvPr id="${index}" name="image${index}.${extension}"/><pic:cNvPicPr/></pic:nvPicPr>`,
+      `<pic:blipFill><a:blip r:embed="${relId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`,
+      `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>`,
+      "</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>",
+    ].join("");
+  };
+
+  const avatarEmu = 40 * EMU_PER_PIXEL;
+  const body = [
+    docxParagraph(docxRun("CEO REPORT", '<w:color w:val="6B7280"/><w:spacing w:val="40"/>')),
+    docxParagraph(docxRun(input.title), "Title"),
+    docxParagraph(docxRun(`스레드: ${input.threadTitle}`), "Subtitle"),
+    docxParagraph(docxRun(`작성일: ${formatExportDate(input.createdAt)}`), "Subtitle"),
+    docxParagraph(docxRun(`참여: ${input.participants.length}명`), "Subtitle"),
+    DOCX_PAGE_BREAK,
+    input.participants.length > 0
+      ? [
+          docxParagraph(docxRun("참여자"), "Heading1"),
+          ...input.participants.map((participant) =>
+            docxParagraph(
+              [
+                participant.avatar ? docxImage(participant.avatar, avatarEmu) : "",
+                docxRun(`  ${participant.name}`, "<w:b/>"),
+                docxRun(`  ${participant.role}`, '<w:color w:val="6B7280"/>'),
+              ].join(""),
+            ),
+          ),
+        ].join("")
+      : "",
+    blocksToDocx(parseMarkdownBlocks(input.body)),
+    input.images.length > 0
+      ? [
+          docxParagraph(docxRun("UX 이미지"), "Heading1"),
+          ...input.images.map(
+            (image, index) =>
+              docxParagraph(docxImage(image, DOCX_MAX_IMAGE_EMU), "", "<w:keepNext/>") +
+              docxParagraph(docxRun(`그림 ${index + 1}. ${image.name}`), "Caption"),
+          ),
+        ].join("")
+      : "",
+    input.meetingLog.trim()
+      ? DOCX_PAGE_BREAK +
+        docxParagraph(docxRun("부록. 회의 로그"), "Heading1") +
+        blocksToDocx(parseMarkdownBlocks(input.meetingLog, 1))
+      : "",
+  ].join("");
+
+  const documentXml = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    `<w:document xmlns:w="${WORD_NS}" xmlns:r="${REL_NS}" xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing">`,
+    `<w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body>`,
+    "</w:document>",
+  ].join("");
+  const documentRels = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+    `<Relationship Id="rIdStyles" Type="${REL_NS}/styles" Target="styles.xml"/>`,
+    ...media.map((item) => `<Relationship Id="${item.relId}" Type="${REL_NS}/image" Target="${item.name}"/>`),
+    "</Relationships>",
+  ].join("");
+  const contentTypes = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+    '<Default Extension="xml" ContentType="application/xml"/>',
+    '<Default Extension="png" ContentType="image/png"/>',
+    '<Default Extension="jpeg" ContentType="image/jpeg"/>',
+    '<Default Extension="gif" ContentType="image/gif"/>',
+    '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>',
+    '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>',
+    "</Types>",
+  ].join("");
+  const packageRels = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+    `<Relationship Id="rIdDocument" Type="${REL_NS}/officeDocument" Target="word/document.xml"/>`,
+    "</Relationships>",
+  ].join("");
+
+  return new Blob(
+    [
+      zipStored([
+        { name: "[Content_Types].xml", data: encoder.encode(contentTypes) },
+        { name: "_rels/.rels", data: encoder.encode(packageRels) },
+        { name: "word/document.xml", data: encoder.encode(documentXml) },
+        { name: "word/styles.xml", data: encoder.encode(DOCX_STYLES) },
+        { name: "word/_rels/document.xml.rels", data: encoder.encode(documentRels) },
+        ...media.map((item) => ({ name: `word/${item.name}`, data: item.data })),
+      ]),
+    ],
+    { type: "application/vnd.openxmlformats-officedocument.wordprocessingml.document" },
+  );
+};
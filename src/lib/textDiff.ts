@@ -0,0 +1,109 @@
+export type DiffPart = {
+  kind: "same" | "added" | "removed";
+  text: string;
+};
+
+// Plain LCS over tokens; persona prompts and plans are short enough for the quadratic table.
+const diffTokens = (before: string[], after: string[]): DiffPart[] => {
+  const lengths = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0),
+  );
+
+  for (let i = before.length - 1; i >= 0; i -= 1) {
+    for (let j = after.length - 1; j >= 0; j -= 1) {
+      lengths[i][j] =
+        before[i] === after[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (kind: DiffPart["kind"], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) {
+      last.text += text;
+    } else {
+      parts.push({ kind, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      push("same", before[i]);
+      i += 1;
+      j += 1;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push("removed", before[i]);
+      i += 1;
+    } else {
+      push("added", after[j]);
+      j += 1;
+    }
+  }
+  for (; i < before.length; i += 1) {
+    push("removed", before[i]);
+  }
+  for (; j < after.length; j += 1) {
+    push("added", after[j]);
+  }
+
+  return parts;
+};
+
+// Whitespace stays attached as its own token so joined parts reproduce both texts exactly.
+export const diffWords = (before: string, after: string) =>
+  diffTokens(before.split(/(\s+)/).filter(Boolean), after.split(/(\s+)/).filter(Boolean));
+
+export type DiffRow = {
+  kind: "same" | "changed" | "added" | "removed";
+  left: string | null;
+  right: string | null;
+};
+
+// Side-by-side rows for two multi-line texts. Each line carries its newline through the LCS so
+// merged parts can be split back into lines; removals directly followed by additions pair up as
+// changed rows.
+export const diffLines = (before: string, after: string): DiffRow[] => {
+  const toLines = (text: string) => (text ? text.split("\n").map((line) => `${line}\n`) : []);
+  const parts = diffTokens(toLines(before), toLines(after)).map((part) => ({
+    kind: part.kind,
+    lines: part.text.slice(0, -1).split("\n"),
+  }));
+
+  const rows: DiffRow[] = [];
+  for (let index = 0; index < parts.length; index += 1) {
+    const part = parts[index];
+    if (part.kind === "same") {
+      rows.push(...part.lines.map((line) => ({ kind: "same" as const, left: line, right: line })));
+      continue;
+    }
+
+    const next = parts[index + 1];
+    if (part.kind === "removed" && next?.kind === "added") {
+      const count = Math.max(part.lines.length, next.lines.length);
+      for (let line = 0; line < count; line += 1) {
+        const left = part.lines[line] ?? null;
+        const right = next.lines[line] ?? null;
+        rows.push({
+          kind: left === null ? "added" : right === null ? "removed" : "changed",
+          left,
+          right,
+        });
+      }
+      index += 1;
+      continue;
+    }
+
+    rows.push(
+      ...part.lines.map((line) =>
+        part.kind === "removed"
+          ? { kind: "removed" as const, left: line, right: null }
+          : { kind: "added" as const, left: null, right: line },
+      ),
+    );
+  }
+  return rows;
+};
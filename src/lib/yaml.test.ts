@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { parseYaml, toYaml } from "./yaml";
+
+describe("toYaml / parseYaml", () => {
+  it("round-trips nested mappings, sequences and scalars", () => {
+    const value = {
+      format: "hobbytan-office",
+      version: 1,
+      ratio: -0.25,
+      enabled: true,
+      retired: false,
+      baseUrl: null,
+      members: [
+        { id: "PO-TAN", displayName: "PO-TAN", seat: { x: 12.5, y: 40 } },
+        { id: "DEV-TAN", tags: ["frontend", "backend"] },
+      ],
+      empty: { list: [], map: {} },
+    };
+
+    expect(parseYaml(toYaml(value))).toEqual(value);
+  });
+
+  it("keeps strings that look like other scalars or carry YAML syntax", () => {
+    const value = {
+      numeric: "42",
+      boolean: "true",
+      nullish: "null",
+      quoted: 'He said "ship it": now',
+      comment: "# not a comment",
+      multiline: "첫 줄\n둘째 줄\t탭",
+      "key with spaces": "값",
+    };
+
+    expect(parseYaml(toYaml(value))).toEqual(value);
+  });
+
+  it("reads a __proto__ key as an entry, not as the prototype", () => {
+    const parsed = parseYaml('__proto__:\n  polluted: true\n"constructor": 1\n') as Record<string, unknown>;
+
+    expect(Object.getPrototypeOf(parsed)).toBe(Object.prototype);
+    expect(Object.keys(parsed)).toEqual(["__proto__", "constructor"]);
+    expect(Object.getOwnPropertyDescriptor(parsed, "__proto__")?.value).toEqual({ polluted: true });
+    expect((parsed as { polluted?: unknown }).polluted).toBeUndefined();
+  });
+});
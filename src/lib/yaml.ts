@@ -0,0 +1,233 @@
+// Just enough YAML for office config files: block mappings/sequences and scalars.
+// Strings are written JSON-quoted, which YAML reads as double-quoted scalars.
+type YamlLine = {
+  line: number;
+  indent: number;
+  text: string;
+};
+
+const PLAIN_KEY = /^[A-Za-z_][\w-]*$/;
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+const isCollection = (value: unknown): value is Record<string, unknown> | unknown[] =>
+  !!value && typeof value === "object";
+
+const formatInline = (value: unknown) => {
+  if (Array.isArray(value)) {
+    return "[]";
+  }
+  if (isCollection(value)) {
+    return "{}";
+  }
+  if (typeof value === "string") {
+    return JSON.stringify(value);
+  }
+  return value === null || value === undefined ? "null" : String(value);
+};
+
+const isBlock = (value: unknown) =>
+  Array.isArray(value) ? value.length > 0 : isCollection(value) && Object.keys(value).length > 0;
+
+const emit = (value: unknown, indent: number): string[] => {
+  const pad = " ".repeat(indent);
+
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (!isBlock(item)) {
+        return [`${pad}- ${formatInline(item)}`];
+      }
+      const [first, ...rest] = emit(item, indent + 2);
+      return [`${pad}- ${first.trimStart()}`, ...rest];
+    });
+  }
+
+  return Object.entries(value as Record<string, unknown>)
+    .filter(([, item]) => item !== undefined)
+    .flatMap(([key, item]) => {
+      const formattedKey = PLAIN_KEY.test(key) ? key : JSON.stringify(key);
+      return isBlock(item)
+        ? [`${pad}${formattedKey}:`, ...emit(item, indent + 2)]
+        : [`${pad}${formattedKey}: ${formatInline(item)}`];
+    });
+};
+
+export const toYaml = (value: unknown) =>
+  isBlock(value) ? `${emit(value, 0).join("\n")}\n` : `${formatInline(value)}\n`;
+
+// Drops a trailing "# comment" unless the hash sits inside a quoted scalar.
+const stripComment = (text: string) => {
+  let quote = "";
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quote) {
+      if (char === "\\" && quote === '"') {
+        index += 1;
+      } else if (char === quote) {
+        quote = "";
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#" && (index === 0 || /\s/.test(text[index - 1]))) {
+      return text.slice(0, index).trimEnd();
+    }
+  }
+  return text.trimEnd();
+};
+
+const fail = (line: number, message: string): never => {
+  throw new Error(`YAML ${line}행: ${message}`);
+};
+
+const parseScalar = (text: string, line: number): unknown => {
+  if (text.startsWith('"') || text.startsWith("[") || text.startsWith("{")) {
+    try {
+      return JSON.parse(text) as unknown;
+    } catch {
+      return fail(line, `값을 해석할 수 없습니다: ${text}`);
+    }
+  }
+  if (text.startsWith("'")) {
+    if (!text.endsWith("'") || text.length < 2) {
+      return fail(line, "작은따옴표 문자열이 닫히지 않았습니다.");
+    }
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text === "null" || text === "~" || text === "") {
+    return null;
+  }
+  if (text === "true" || text === "false") {
+    return text === "true";
+  }
+  if (NUMBER.test(text)) {
+    return Number(text);
+  }
+  return text;
+};
+
+const isSequenceItem = (text: string) => text === "-" || text.startsWith("- ");
+
+const splitKey = (entry: YamlLine) => {
+  const match = entry.text.match(/^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^"'#\s][^:]*?)\s*:(?:\s+(.*))?$/);
+  if (!match) {
+    return null;
+  }
+  const rawKey = match[1];
+  const key = /^["']/.test(rawKey) ? String(parseScalar(rawKey, entry.line)) : rawKey;
+  return { key, rest: (match[2] || "").trim() };
+};
+
+const parseBlock = (lines: YamlLine[], start: number, indent: number): [unknown, number] =>
+  isSequenceItem(lines[start].text)
+    ? parseSequence(lines, start, indent)
+    : parseMapping(lines, start, indent);
+
+// A nested value either starts on the next, deeper line or, for "key:" followed by "- item", at the same indent.
+const parseNested = (
+  lines: YamlLine[],
+  index: number,
+  indent: number,
+  allowSameIndentSequence: boolean,
+): [unknown, number] => {
+  const next = lines[index];
+  if (next && next.indent > indent) {
+    return parseBlock(lines, index, next.indent);
+  }
+  if (next && allowSameIndentSequence && next.indent === indent && isSequenceItem(next.text)) {
+    return parseSequence(lines, index, indent);
+  }
+  return [null, index];
+};
+
+const parseSequence = (lines: YamlLine[], start: number, indent: number): [unknown[], number] => {
+  const items: unknown[] = [];
+  let index = start;
+
+  while (index < lines.length && lines[index].indent === indent && isSequenceItem(lines[index].text)) {
+    const entry = lines[index];
+    const rest = entry.text.slice(1).trim();
+
+    if (!rest) {
+      const [value, next] = parseNested(lines, index + 1, indent, false);
+      items.push(value);
+      index = next;
+      continue;
+    }
+
+    // "- key: value" and "- - item" open a block whose first line shares the dash's line.
+    const innerIndent = indent + entry.text.indexOf(rest);
+    if (isSequenceItem(rest) || (!/^["'[{]/.test(rest) && splitKey({ ...entry, text: rest }))) {
+      const patched = [...lines];
+      patched[index] = { line: entry.line, indent: innerIndent, text: rest };
+      const [value, next] = parseBlock(patched, index, innerIndent);
+      items.push(value);
+      index = next;
+      continue;
+    }
+
+    items.push(parseScalar(rest, entry.line));
+    index += 1;
+  }
+
+  return [items, index];
+};
+
+// A plain assignment would let a "__proto__" key replace the prototype instead of adding an entry.
+const setEntry = (target: Record<string, unknown>, key: string, value: unknown) => {
+  Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true });
+};
+
+const parseMapping = (
+  lines: YamlLine[],
+  start: number,
+  indent: number,
+): [Record<string, unknown>, number] => {
+  const result: Record<string, unknown> = {};
+  let index = start;
+
+  while (index < lines.length && lines[index].indent === indent && !isSequenceItem(lines[index].text)) {
+    const entry = lines[index];
+    const pair = splitKey(entry);
+    if (!pair) {
+      return fail(entry.line, `"키: 값" 형식이 아닙니다: ${entry.text}`);
+    }
+
+    if (pair.rest) {
+      setEntry(result, pair.key, parseScalar(pair.rest, entry.line));
+      index += 1;
+      continue;
+    }
+
+    const [value, next] = parseNested(lines, index + 1, indent, true);
+    setEntry(result, pair.key, value);
+    index = next;
+  }
+
+  return [result, index];
+};
+
+export const parseYaml = (source: string): unknown => {
+  const lines: YamlLine[] = [];
+  source.replace(/^\uFEFF/, "").split(/\r?\n/).forEach((raw, index) => {
+    if (/^\s*\t/.test(raw)) {
+      fail(index + 1, "들여쓰기에 탭을 사용할 수 없습니다.");
+    }
+    const text = stripComment(raw);
+    if (!text.trim() || text.trim() === "---") {
+      return;
+    }
+    lines.push({ line: index + 1, indent: text.length - text.trimStart().length, text: text.trim() });
+  });
+
+  if (lines.length === 0) {
+    return null;
+  }
+  if (lines.length === 1 && !isSequenceItem(lines[0].text) && !splitKey(lines[0])) {
+    return parseScalar(lines[0].text, lines[0].line);
+  }
+
+  const [value, end] = parseBlock(lines, 0, lines[0].indent);
+  if (end < lines.length) {
+    fail(lines[end].line, "들여쓰기가 앞 줄과 맞지 않습니다.");
+  }
+  return value;
+};